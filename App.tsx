@@ -1,31 +1,55 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { DemoParser } from './services/demoParser';
-import { DemoAnalyzer, AnalysisResults } from './services/demoAnalyzer';
+import { getDetectorSettingsKey } from './services/detectorRegistry';
+import { analyzeDemoInWorker } from './services/demoWorkerClient';
 import AnalysisResultsComponent from './components/AnalysisResults';
 import ProgressDisplay from './components/ProgressDisplay';
+import RecentDemos from './components/RecentDemos';
+import ZipDemoPicker from './components/ZipDemoPicker';
+import BatchSummary from './components/BatchSummary';
+import PlayerHistoryModal from './components/PlayerHistoryModal';
+import DetectorToggles from './components/DetectorToggles';
+import DetectorSettingsPanel from './components/DetectorSettingsPanel';
+import ReplayView from './components/ReplayView';
+import HeatmapView from './components/HeatmapView';
+import StrategyView from './components/StrategyView';
+import { useDemoBatch } from './hooks/useDemoBatch';
+import { BatchItem, collectDroppedFiles } from './services/demoBatch';
+import { ACCEPTED_DEMO_EXTENSIONS, COMPRESSION_LABELS, ZipDemoEntry, detectFileCompression, isAcceptedDemoFileName, listZipDemos } from './services/demoArchive';
+import { CachedDemoEntry, listRecentDemos, loadCachedDemo, deleteCachedDemo } from './services/demoCache';
 import { loadDemoparser2, isParserAvailable } from './services/demoparser2Loader';
+import { loadImportedMapConfigs } from './services/mapOverviews';
 import { useDemoStore } from './store/useDemoStore';
 import { Team } from './types';
-import { Upload, AlertCircle, Info, Loader2, Filter, X } from 'lucide-react';
+import { Upload, AlertCircle, Info, Loader2, Filter, X, FolderOpen, History, SlidersHorizontal, BarChart3, Map as MapIcon, Flame, Route } from 'lucide-react';
 
 const App: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [analysisResults, setAnalysisResults] = useState<AnalysisResults | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null); // Cancels the running parse/analysis
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [selectedPlayers, setSelectedPlayers] = useState<string[]>([]);
+  const [selectedPlayers, setSelectedPlayers] = useState<number[]>([]); // Player ids (stable per SteamID)
   const [isFilterOpen, setIsFilterOpen] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [recentDemos, setRecentDemos] = useState<CachedDemoEntry[]>([]);
+  const [zipPicker, setZipPicker] = useState<{ file: File; entries: ZipDemoEntry[] } | null>(null); // Zip with several demos
+  const batch = useDemoBatch(); // Multi-demo queue + summary table
+  const [demoCacheKey, setDemoCacheKey] = useState<string | null>(null); // Cache/history key of the open demo
+  const [historyPlayer, setHistoryPlayer] = useState<{ steamId: string; name: string } | null>(null); // Offender history profile
+  const [isDetectorSettingsOpen, setIsDetectorSettingsOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState<'analysis' | 'replay' | 'heatmaps' | 'strategy'>('analysis');
   
   // Zustand store
   const {
     demoFile,
+    analysisResults,
     isParsing,
     parsingProgress,
     error,
     isParserLoaded,
     setDemoFile,
     setDemoParser,
+    setAnalysisResults,
     setIsParsing,
     setParsingProgress,
     setError,
@@ -40,67 +64,233 @@ const App: React.FC = () => {
     });
   }, [setIsParserLoaded]);
 
-  const handleFileUpload = async (file: File) => {
+  // Radar overviews imported in earlier sessions (workshop maps etc.)
+  useEffect(() => {
+    loadImportedMapConfigs()
+      .then((configs) => {
+        // Through the setter so configs from an earlier load are released
+        for (const [mapName, config] of Object.entries(configs)) {
+          useDemoStore.getState().setImportedMapConfig(mapName, config);
+        }
+      })
+      .catch((err) => console.warn('Could not read imported map overviews:', err));
+  }, []);
+
+  // Refresh the "Recent demos" list whenever we're back on the upload screen
+  const refreshRecentDemos = () => {
+    listRecentDemos()
+      .then(setRecentDemos)
+      .catch((err) => {
+        console.warn('Could not read recent demos:', err);
+        setRecentDemos([]);
+      });
+  };
+
+  useEffect(() => {
+    if (!demoFile) {
+      refreshRecentDemos();
+    }
+  }, [demoFile]);
+
+  const handleFileUpload = async (file: File, entryName?: string) => {
     if (!file) return;
 
-    setFileName(file.name);
+    // Zips can bundle several demos - list them (central directory only) and let the user pick
+    if (!entryName) {
+      try {
+        if (await detectFileCompression(file) === 'zip') {
+          const entries = await listZipDemos(file);
+          if (entries.length === 0) {
+            setError('The zip does not contain a .dem file');
+            return;
+          }
+          if (entries.length > 1) {
+            setZipPicker({ file, entries });
+            return;
+          }
+          entryName = entries[0].name;
+        }
+      } catch (err: any) {
+        console.error(err);
+        setError(err.message || 'Failed to read zip file');
+        return;
+      } finally {
+        if (fileInputRef.current) fileInputRef.current.value = '';
+      }
+    }
+
+    setFileName(entryName ? `${file.name} › ${entryName}` : file.name);
     setIsParsing(true);
     setError(null);
     setParsingProgress({ percentage: 0, currentStep: 'Starting...', estimatedTimeRemaining: 0 });
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      const parser = new DemoParser(arrayBuffer, (progress) => {
-        setParsingProgress(progress);
+      // Parsing and analysis run in a Web Worker so the tab stays responsive
+      const detectors = useDemoStore.getState().detectorSettings;
+      const { demoFile: parsedDemo, results, analysisError, fromCache, cacheKey } = await analyzeDemoInWorker(file, {
+        signal: abortController.signal,
+        entryName,
+        detectors,
+        onParsingProgress: (progress) => {
+          setParsingProgress(progress);
+        },
+        onAnalysisProgress: (progress) => {
+          setIsAnalyzing(true);
+          // Map analysis progress (0-100%) to overall progress (90-100%)
+          const overallPercentage = 90 + (progress.percentage / 10);
+          setParsingProgress({
+            percentage: overallPercentage,
+            currentStep: progress.currentStep,
+            estimatedTimeRemaining: progress.estimatedTimeRemaining
+          });
+        }
       });
-      setDemoParser(parser);
-
-      const parsedDemo = await parser.parse();
       
       setDemoFile(parsedDemo);
+      setDemoCacheKey(cacheKey);
+      if (fromCache) {
+        console.log(`Loaded ${file.name} from cache`);
+      }
       
-      // Run analysis with progress tracking
-      setIsAnalyzing(true);
-      setParsingProgress({ percentage: 90, currentStep: 'Starting analysis...', estimatedTimeRemaining: 0 });
-      try {
-        const analyzer = new DemoAnalyzer(parsedDemo, {
-          progressCallback: (progress) => {
-            // Map analysis progress (0-100%) to overall progress (90-100%)
-            const overallPercentage = 90 + (progress.percentage / 10);
-            setParsingProgress({
-              percentage: overallPercentage,
-              currentStep: progress.currentStep,
-              estimatedTimeRemaining: progress.estimatedTimeRemaining
-            });
-          }
-        });
-        const results = analyzer.analyze();
-        setAnalysisResults(results);
+      if (results) {
+        setAnalysisResults(results, getDetectorSettingsKey(detectors));
         setParsingProgress({ percentage: 100, currentStep: 'Analysis complete!', estimatedTimeRemaining: 0 });
-      } catch (err: any) {
-        console.error('Analysis failed:', err);
-        setError(err.message || 'Analysis failed');
-      } finally {
-        setIsAnalyzing(false);
-        // Keep progress at 100% briefly before clearing
-        setTimeout(() => {
-          setParsingProgress(null);
-        }, 500);
+      } else {
+        console.error('Analysis failed:', analysisError);
+        setError(analysisError || 'Analysis failed');
       }
     } catch (err: any) {
-      console.error(err);
-      setError(err.message || "Failed to parse demo file");
+      if (err?.name === 'AbortError') {
+        // User cancelled - go back to the upload screen without an error
+        console.log('Demo processing cancelled');
+        setFileName(null);
+      } else {
+        console.error(err);
+        setError(err.message || "Failed to parse demo file");
+      }
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setIsAnalyzing(false);
       setIsParsing(false);
       setParsingProgress(null);
       if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
 
+  // Show a previously analyzed demo from IndexedDB. Resolves false if it is no longer cached.
+  const openCachedAnalysis = async (hash: string, displayName: string): Promise<boolean> => {
+    const previousFileName = fileName; // Restored if the load fails (e.g. opened from a player's history)
+    setFileName(displayName);
+    setIsParsing(true);
+    setError(null);
+    setParsingProgress({ percentage: 50, currentStep: 'Loading cached analysis...', estimatedTimeRemaining: 0 });
+
+    try {
+      const cached = await loadCachedDemo(hash);
+      if (!cached) {
+        setFileName(previousFileName);
+        return false;
+      }
+      setDemoFile(cached.demoFile);
+      setAnalysisResults(cached.results, cached.entry.analysisKey);
+      setDemoCacheKey(hash);
+      return true;
+    } catch (err: any) {
+      console.error(err);
+      setFileName(previousFileName);
+      setError(err.message || 'Failed to load cached demo');
+      return true; // Error already shown
+    } finally {
+      setIsParsing(false);
+      setParsingProgress(null);
+    }
+  };
+
+  const handleOpenRecent = async (entry: CachedDemoEntry) => {
+    const found = await openCachedAnalysis(entry.hash, entry.fileName);
+    if (!found) {
+      setError('This demo is no longer cached. Please upload it again.');
+      refreshRecentDemos();
+    }
+  };
+
+  const handleOpenBatchItem = async (item: BatchItem) => {
+    // Batch rows only keep summary counts - the full analysis comes from the cache,
+    // or is re-run from the original file if it could not be cached (e.g. storage quota)
+    if (item.cacheKey && await openCachedAnalysis(item.cacheKey, item.label)) return;
+    // A second parse next to the queue's worker would double peak memory on large demos
+    if (batch.isRunning) {
+      setError(`${item.label} is not cached - it can be re-analyzed once the batch queue is done.`);
+      return;
+    }
+    await handleFileUpload(item.file, item.entryName);
+  };
+
+  // Jump to another match from a player's history. Resolves false if the demo was evicted from the cache.
+  const handleOpenHistoryDemo = async (demoKey: string, demoName: string): Promise<boolean> => {
+    const found = await openCachedAnalysis(demoKey, demoName);
+    if (!found) return false; // Keep the history open so the match can be marked as missing
+    // Loaded (or the load error is shown): leave the history view for the match
+    setHistoryPlayer(null);
+    setSelectedPlayers([]);
+    setIsFilterOpen(false);
+    setActiveTab('analysis');
+    return true;
+  };
+
+  // "Watch" on an incident card: open the replay a few seconds before the incident
+  const handleWatchIncident = (tick: number, playerIds: number[], secondsBefore?: number) => {
+    useDemoStore.getState().watchIncident(tick, playerIds, secondsBefore);
+    setActiveTab('replay');
+  };
+
+  const handleTabChange = (tab: 'analysis' | 'replay' | 'heatmaps' | 'strategy') => {
+    if (tab !== 'replay') {
+      useDemoStore.getState().setIsPlaying(false);
+    }
+    setActiveTab(tab);
+  };
+
+  const handleRemoveRecent = async (entry: CachedDemoEntry) => {
+    try {
+      await deleteCachedDemo(entry.hash);
+    } catch (err) {
+      console.warn('Could not remove cached demo:', err);
+    }
+    refreshRecentDemos();
+  };
+
+  const handleCancel = () => {
+    // Rejects the pending upload with an AbortError; the worker (buffer + WASM memory) is torn down
+    abortControllerRef.current?.abort();
+  };
+
+  // One demo opens directly, several (or a folder) go through the batch queue
+  const handleFiles = async (files: File[], forceBatch: boolean = false) => {
+    const demoFiles = files.filter(file => isAcceptedDemoFileName(file.name));
+    if (demoFiles.length === 0) {
+      setError('Please drop a .dem file (or .dem.gz, .dem.bz2, .dem.zst, .zip)');
+      return;
+    }
+    if (demoFiles.length === 1 && !forceBatch && batch.items.length === 0) {
+      await handleFileUpload(demoFiles[0]);
+      return;
+    }
+    setError(null);
+    await batch.addFiles(demoFiles);
+  };
+
   const handleFileInputChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      await handleFileUpload(file);
+    const files: File[] = Array.from(e.target.files || []);
+    const fromFolder = e.target === folderInputRef.current;
+    e.target.value = '';
+    if (files.length > 0) {
+      await handleFiles(files, fromFolder);
     }
   };
 
@@ -121,15 +311,9 @@ const App: React.FC = () => {
     e.stopPropagation();
     setIsDragging(false);
 
-    const files = e.dataTransfer.files;
-    if (files.length > 0) {
-      const file = files[0];
-      if (file.name.endsWith('.dem')) {
-        await handleFileUpload(file);
-    } else {
-        setError('Please drop a .dem file');
-    }
-    }
+    // Multiple files and whole folders are supported
+    const { files, hadFolder } = await collectDroppedFiles(e.dataTransfer);
+    await handleFiles(files, hadFolder);
   };
 
   const handleReset = () => {
@@ -140,6 +324,10 @@ const App: React.FC = () => {
     setIsFilterOpen(false);
     setFileName(null);
     setIsDragging(false);
+    setDemoCacheKey(null);
+    setHistoryPlayer(null);
+    setIsDetectorSettingsOpen(false);
+    setActiveTab('analysis');
 
     // Clear parser explicitly before resetting store (parser may hold ArrayBuffer references)
     setDemoParser(null);
@@ -196,7 +384,7 @@ const App: React.FC = () => {
         </div>
         
         {(isParsing || isAnalyzing) ? (
-          <ProgressDisplay progress={parsingProgress} />
+          <ProgressDisplay progress={parsingProgress} onCancel={handleCancel} />
         ) : (
           <label 
             style={{
@@ -225,19 +413,70 @@ const App: React.FC = () => {
               <Upload size={32} style={{ color: 'var(--color-accent-primary)' }} />
             </div>
             <div className="text-center">
-              <span style={{ color: 'var(--color-text-primary)' }} className="font-semibold">{isDragging ? 'Drop .dem file here' : 'Select or drag & drop .dem file'}</span>
-              <p style={{ color: 'var(--color-text-muted)' }} className="text-sm">Supports CS2 (Source 2) Demos</p>
+              <span style={{ color: 'var(--color-text-primary)' }} className="font-semibold">{isDragging ? 'Drop .dem files or a folder here' : 'Select or drag & drop .dem files'}</span>
+              <p style={{ color: 'var(--color-text-muted)' }} className="text-sm">Supports CS2 (Source 2) Demos, also .gz, .bz2, .zst and .zip</p>
             </div>
             <input 
                 ref={fileInputRef}
                 type="file" 
-                accept=".dem" 
+                accept={ACCEPTED_DEMO_EXTENSIONS.join(',')} 
+                multiple
                 className="hidden" 
                 onChange={handleFileInputChange} 
             />
           </label>
         )}
 
+        {!isParsing && !isAnalyzing && (
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            style={{ color: 'var(--color-text-secondary)' }}
+            className="flex items-center gap-1.5 text-xs -mt-3 hover:opacity-80 transition-opacity"
+          >
+            <FolderOpen size={14} />
+            or analyze a whole folder
+            <input
+              ref={(el) => {
+                folderInputRef.current = el;
+                el?.setAttribute('webkitdirectory', ''); // Not in React's input typings
+              }}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={handleFileInputChange}
+            />
+          </button>
+        )}
+
+        {!isParsing && !isAnalyzing && !batch.isRunning && (
+          <DetectorToggles onConfigure={() => setIsDetectorSettingsOpen(true)} />
+        )}
+
+        {!isParsing && !isAnalyzing && (batch.items.length > 0 ? (
+          <BatchSummary
+            items={batch.items}
+            isRunning={batch.isRunning}
+            onOpen={handleOpenBatchItem}
+            onCancel={batch.cancel}
+            onClear={batch.clear}
+          />
+        ) : (
+          <RecentDemos entries={recentDemos} onOpen={handleOpenRecent} onRemove={handleRemoveRecent} />
+        ))}
+
+        {zipPicker && (
+          <ZipDemoPicker
+            zipName={zipPicker.file.name}
+            entries={zipPicker.entries}
+            onPick={(entry) => {
+              const { file } = zipPicker;
+              setZipPicker(null);
+              handleFileUpload(file, entry.name);
+            }}
+            onClose={() => setZipPicker(null)}
+          />
+        )}
+
         {error && (
            <div 
              style={{
@@ -296,9 +535,9 @@ const App: React.FC = () => {
       <input 
         ref={fileInputRef}
         type="file" 
-        accept=".dem" 
+        accept={ACCEPTED_DEMO_EXTENSIONS.join(',')} 
         className="hidden" 
-        onChange={handleFileUpload} 
+        onChange={handleFileInputChange} 
       />
 
       {/* Header */}
@@ -345,20 +584,58 @@ const App: React.FC = () => {
               {fileName}
             </div>
           )}
+          {demoFile.source && demoFile.source.compression !== 'none' && (
+            <div
+              style={{
+                color: 'var(--color-text-secondary)',
+                backgroundColor: 'var(--color-bg-tertiary)',
+                border: '1px solid var(--color-border-subtle)'
+              }}
+              className="text-xs px-2 py-0.5 rounded shrink-0"
+              title={`${demoFile.source.fileName}${demoFile.source.entryName ? ` › ${demoFile.source.entryName}` : ''}`}
+            >
+              {COMPRESSION_LABELS[demoFile.source.compression]} · {(demoFile.source.fileSize / (1024 * 1024)).toFixed(1)} MB → {(demoFile.source.demoSize / (1024 * 1024)).toFixed(1)} MB
+            </div>
+          )}
         </div>
         
         <div className="flex items-center gap-4">
+            {analysisResults && (
+              <button
+                onClick={() => setIsDetectorSettingsOpen(true)}
+                style={{
+                  backgroundColor: 'var(--color-bg-tertiary)',
+                  color: 'var(--color-text-primary)',
+                  border: '1px solid var(--color-border-subtle)',
+                  borderRadius: '0.25rem',
+                  padding: '0.25rem 0.5rem',
+                  fontSize: '0.75rem'
+                }}
+                className="flex items-center gap-2 cursor-pointer hover:opacity-80 transition-opacity"
+                title="Tune detectors and re-run them on this demo"
+              >
+                <SlidersHorizontal size={14} style={{ color: 'var(--color-text-muted)' }} />
+                <span>Detectors</span>
+              </button>
+            )}
             {demoFile && (() => {
               // Get all unique players from demo file (exclude spectators)
-              const allPlayers = new Set<string>();
+              // Keyed by player id so renamed players show up once with their latest name
+              const allPlayers = new Map<number, { id: number; name: string; names: string[]; steamId?: string }>();
               for (const frame of demoFile.frames) {
                 for (const player of frame.players) {
-                  if (player.team !== Team.SPECTATOR) {
-                    allPlayers.add(player.name);
+                  if (player.team !== Team.SPECTATOR && !allPlayers.has(player.id)) {
+                    const identity = demoFile.players?.find(p => p.id === player.id);
+                    allPlayers.set(player.id, {
+                      id: player.id,
+                      name: identity?.name ?? player.name,
+                      names: identity?.names ?? [player.name],
+                      steamId: identity && !identity.isBot ? identity.steamId : undefined
+                    });
                   }
                 }
               }
-              const playerList = Array.from(allPlayers).sort();
+              const playerList = Array.from(allPlayers.values()).sort((a, b) => a.name.localeCompare(b.name));
               
               return (
                 <div className="relative filter-dropdown-container">
@@ -417,10 +694,11 @@ const App: React.FC = () => {
                       </div>
                       <div className="flex flex-col gap-1 max-h-64 overflow-y-auto">
                         {playerList.map(player => {
-                          const isSelected = selectedPlayers.includes(player);
+                          const isSelected = selectedPlayers.includes(player.id);
                           return (
                             <label
-                              key={player}
+                              key={player.id}
+                              title={player.names.length > 1 ? `Also known as: ${player.names.filter(n => n !== player.name).join(', ')}` : undefined}
                               style={{
                                 color: 'var(--color-text-primary)',
                                 fontSize: '0.75rem',
@@ -445,9 +723,9 @@ const App: React.FC = () => {
                                 checked={isSelected}
                                 onChange={() => {
                                   if (isSelected) {
-                                    setSelectedPlayers(selectedPlayers.filter(p => p !== player));
+                                    setSelectedPlayers(selectedPlayers.filter(p => p !== player.id));
                                   } else {
-                                    setSelectedPlayers([...selectedPlayers, player]);
+                                    setSelectedPlayers([...selectedPlayers, player.id]);
                                   }
                                 }}
                                 style={{
@@ -455,7 +733,26 @@ const App: React.FC = () => {
                                   cursor: 'pointer'
                                 }}
                               />
-                              <span>{player}</span>
+                              <span>{player.name}</span>
+                              {player.names.length > 1 && (
+                                <span style={{ color: 'var(--color-text-muted)', fontSize: '0.65rem' }}>
+                                  ({player.names.length} names)
+                                </span>
+                              )}
+                              {player.steamId && (
+                                <button
+                                  onClick={(e) => {
+                                    e.preventDefault(); // Don't toggle the checkbox
+                                    setIsFilterOpen(false);
+                                    setHistoryPlayer({ steamId: player.steamId!, name: player.name });
+                                  }}
+                                  style={{ color: 'var(--color-text-muted)', marginLeft: 'auto' }}
+                                  className="hover:opacity-70 transition-opacity"
+                                  title="Offender history across analyzed demos"
+                                >
+                                  <History size={12} />
+                                </button>
+                              )}
                             </label>
                           );
                         })}
@@ -478,10 +775,81 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {/* Errors while a demo is open (e.g. a match from a player's history failed to load) */}
+      {error && (
+        <div
+          style={{
+            color: 'var(--color-status-afk-died)',
+            backgroundColor: 'rgba(217, 107, 43, 0.1)',
+            borderBottom: '1px solid rgba(217, 107, 43, 0.3)'
+          }}
+          className="px-6 py-2 flex items-center gap-2 text-sm shrink-0"
+        >
+          <AlertCircle size={16} />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} className="hover:opacity-80" title="Dismiss">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {isDetectorSettingsOpen && (
+        <DetectorSettingsPanel cacheKey={demoCacheKey} onClose={() => setIsDetectorSettingsOpen(false)} />
+      )}
+
+      {historyPlayer && (
+        <PlayerHistoryModal
+          steamId={historyPlayer.steamId}
+          playerName={historyPlayer.name}
+          currentDemoKey={demoCacheKey}
+          onOpenDemo={handleOpenHistoryDemo}
+          onClose={() => setHistoryPlayer(null)}
+        />
+      )}
+
+      {/* Tabs */}
+      {analysisResults && (
+        <div
+          style={{
+            borderBottom: '1px solid var(--color-border-subtle)',
+            backgroundColor: 'var(--color-bg-secondary)'
+          }}
+          className="flex items-center gap-1 px-6 shrink-0"
+        >
+          {([
+            { id: 'analysis', label: 'Analysis', icon: <BarChart3 size={14} /> },
+            { id: 'replay', label: '2D Replay', icon: <MapIcon size={14} /> },
+            { id: 'heatmaps', label: 'Heatmaps', icon: <Flame size={14} /> },
+            { id: 'strategy', label: 'Strategy', icon: <Route size={14} /> }
+          ] as const).map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => handleTabChange(tab.id)}
+              style={{
+                color: activeTab === tab.id ? 'var(--color-text-primary)' : 'var(--color-text-muted)',
+                borderBottom: `2px solid ${activeTab === tab.id ? 'var(--color-accent-primary)' : 'transparent'}`
+              }}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium hover:opacity-80 transition-opacity"
+            >
+              {tab.icon}
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="flex-1 overflow-hidden">
         {analysisResults ? (
-          <AnalysisResultsComponent results={analysisResults} selectedPlayers={selectedPlayers} />
+          activeTab === 'replay' ? (
+            <ReplayView />
+          ) : activeTab === 'heatmaps' ? (
+            <HeatmapView />
+          ) : activeTab === 'strategy' ? (
+            <StrategyView />
+          ) : (
+            <AnalysisResultsComponent results={analysisResults} selectedPlayers={selectedPlayers} onWatch={handleWatchIncident} />
+          )
         ) : (
           <div className="flex items-center justify-center h-full">
             <div className="text-center">
@@ -1,23 +1,33 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { AnalysisResults as AnalysisResultsType, AFKDetection, TeamKill, TeamDamage, DisconnectReconnect, TeamFlash, MidRoundInactivity, BodyBlocking, ObjectiveSabotage, EconomyGriefing } from '../services/demoAnalyzer';
 import { Team, DemoFile } from '../types';
-import { Skull, Zap, Clock, Users, WifiOff, Copy, Check, ChevronDown, ChevronUp, Info, Shield, ArrowUpDown, Target, Heart, Timer, Award, AlertCircle, Activity, Move, Flag, Ban, Bomb, DollarSign, X } from 'lucide-react';
+import { Skull, Zap, Clock, Users, WifiOff, Copy, Check, ChevronDown, ChevronUp, Info, Shield, ArrowUpDown, Target, Heart, Timer, Award, AlertCircle, Activity, Move, Flag, Ban, Bomb, DollarSign, X, Play, Film } from 'lucide-react';
 import { useDemoStore } from '../store/useDemoStore';
+import type { DetectorId } from '../services/detectorRegistry';
 import { FlashbangIcon, MolotovIcon, HEIcon, HeadshotIcon, DamageIcon } from './CustomIcons';
+import IncidentMiniMap from './IncidentMiniMap';
+import ClipExportModal from './ClipExportModal';
+
+// Detectors that ran before the detector registry existed (cached results have no detectorsRun)
+const LEGACY_DETECTORS: DetectorId[] = ['afkDetections', 'teamKills', 'teamDamage', 'disconnects', 'teamFlashes'];
 
 interface AnalysisResultsProps {
   results: AnalysisResultsType;
-  selectedPlayers?: string[];
+  selectedPlayers?: number[]; // Player ids (stable per SteamID)
+  onWatch?: (tick: number, playerIds: number[], secondsBefore?: number) => void; // Opens the incident in the 2D replay
 }
 
-const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlayers = [] }) => {
+const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlayers = [], onWatch }) => {
   const { demoFile } = useDemoStore();
+  // Cards/sections are only shown for detectors that were enabled for this analysis
+  const hasRun = (id: DetectorId) => (results.detectorsRun ?? LEGACY_DETECTORS).includes(id);
   const [copiedCommand, setCopiedCommand] = useState<string | null>(null);
   const [afkThreshold, setAfkThreshold] = useState<number>(8); // Default 8 seconds
   const [flashDurationThreshold, setFlashDurationThreshold] = useState<number>(4); // Default 4 seconds
   const [teamDamageThreshold, setTeamDamageThreshold] = useState<number>(25); // Default 25 damage
   const thresholdsInitializedRef = useRef(false);
   const [economyTimelineModal, setEconomyTimelineModal] = useState<{ playerId: number; playerName: string } | null>(null);
+  const [clipIncident, setClipIncident] = useState<{ tick: number; playerIds: number[]; label: string } | null>(null);
   
   // Set default thresholds to show at least one event (only if no items are visible)
   useEffect(() => {
@@ -181,6 +191,44 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
     );
   };
 
+  // "Watch" button for an incident - jumps the 2D replay to a few seconds before the tick
+  const WatchButton: React.FC<{ tick: number; playerIds: number[]; secondsBefore?: number }> = ({ tick, playerIds, secondsBefore }) => {
+    if (!onWatch) return null;
+    return (
+      <button
+        onClick={() => onWatch(tick, playerIds, secondsBefore)}
+        style={{
+          backgroundColor: 'var(--color-bg-elevated)',
+          color: 'var(--color-text-secondary)'
+        }}
+        className="px-2 py-1 rounded text-xs flex items-center gap-1.5 transition-colors hover:opacity-80 flex-shrink-0"
+        title="Watch in the 2D replay"
+      >
+        <Play size={12} />
+        <span className="font-medium">Watch</span>
+      </button>
+    );
+  };
+
+  // "Clip" button for an incident - opens the WebM/GIF export for the seconds around the tick
+  const ClipButton: React.FC<{ tick: number; playerIds: number[] }> = ({ tick, playerIds }) => {
+    if (!demoFile) return null;
+    const names = playerIds.map(id => demoFile.players?.find(player => player.id === id)?.name ?? `#${id}`);
+    return (
+      <button
+        onClick={() => setClipIncident({ tick, playerIds, label: names.join(' → ') })}
+        style={{
+          backgroundColor: 'var(--color-bg-elevated)',
+          color: 'var(--color-text-secondary)'
+        }}
+        className="p-1.5 rounded text-xs flex items-center transition-colors hover:opacity-80 flex-shrink-0"
+        title="Export a WebM/GIF clip of this incident"
+      >
+        <Film size={12} />
+      </button>
+    );
+  };
+
   // Tooltip icon component
   const TooltipIcon: React.FC<{ icon: React.ReactNode; tooltip: string; color?: string }> = ({ icon, tooltip, color }) => {
     const [isHovered, setIsHovered] = useState(false);
@@ -250,47 +298,57 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
     <div style={{ backgroundColor: 'var(--color-bg-primary)' }} className="flex flex-col gap-6 p-6 h-full overflow-y-auto">
       {/* Summary Cards */}
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
-        <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
-          <div style={{ color: 'var(--color-text-secondary)' }} className="flex items-center gap-2 mb-2">
-            <Clock size={16} />
-            <span className="text-sm font-medium">AFK Detections</span>
+        {hasRun('afkDetections') && (
+          <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
+            <div style={{ color: 'var(--color-text-secondary)' }} className="flex items-center gap-2 mb-2">
+              <Clock size={16} />
+              <span className="text-sm font-medium">AFK Detections</span>
+            </div>
+            <div style={{ color: 'var(--color-text-primary)' }} className="text-3xl font-bold mb-1">{results.afkDetections.length}</div>
+            <div style={{ color: 'var(--color-text-muted)' }} className="text-xs">No movement after freezetime (5s grace)</div>
           </div>
-          <div style={{ color: 'var(--color-text-primary)' }} className="text-3xl font-bold mb-1">{results.afkDetections.length}</div>
-          <div style={{ color: 'var(--color-text-muted)' }} className="text-xs">No movement after freezetime (5s grace)</div>
-        </div>
-        <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
-          <div style={{ color: 'var(--color-text-secondary)' }} className="flex items-center gap-2 mb-2">
-            <Skull size={16} />
-            <span className="text-sm font-medium">Team Kills</span>
+        )}
+        {hasRun('teamKills') && (
+          <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
+            <div style={{ color: 'var(--color-text-secondary)' }} className="flex items-center gap-2 mb-2">
+              <Skull size={16} />
+              <span className="text-sm font-medium">Team Kills</span>
+            </div>
+            <div style={{ color: 'var(--color-status-afk-died)' }} className="text-3xl font-bold mb-1">{results.teamKills.length}</div>
+            <div style={{ color: 'var(--color-text-muted)' }} className="text-xs">Friendly fire kills</div>
           </div>
-          <div style={{ color: 'var(--color-status-afk-died)' }} className="text-3xl font-bold mb-1">{results.teamKills.length}</div>
-          <div style={{ color: 'var(--color-text-muted)' }} className="text-xs">Friendly fire kills</div>
-        </div>
-        <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
-          <div style={{ color: 'var(--color-text-secondary)' }} className="flex items-center gap-2 mb-2">
-            <Zap size={16} />
-            <span className="text-sm font-medium">Team Damage</span>
+        )}
+        {hasRun('teamDamage') && (
+          <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
+            <div style={{ color: 'var(--color-text-secondary)' }} className="flex items-center gap-2 mb-2">
+              <Zap size={16} />
+              <span className="text-sm font-medium">Team Damage</span>
+            </div>
+            <div style={{ color: 'var(--color-accent-primary)' }} className="text-3xl font-bold mb-1">{results.teamDamage.length}</div>
+            <div style={{ color: 'var(--color-text-muted)' }} className="text-xs">Friendly fire damage events</div>
           </div>
-          <div style={{ color: 'var(--color-accent-primary)' }} className="text-3xl font-bold mb-1">{results.teamDamage.length}</div>
-          <div style={{ color: 'var(--color-text-muted)' }} className="text-xs">Friendly fire damage events</div>
-        </div>
-        <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
-          <div style={{ color: 'var(--color-text-secondary)' }} className="flex items-center gap-2 mb-2">
-            <WifiOff size={16} />
-            <span className="text-sm font-medium">Disconnects</span>
+        )}
+        {hasRun('disconnects') && (
+          <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
+            <div style={{ color: 'var(--color-text-secondary)' }} className="flex items-center gap-2 mb-2">
+              <WifiOff size={16} />
+              <span className="text-sm font-medium">Disconnects</span>
+            </div>
+            <div style={{ color: 'var(--color-status-neutral)' }} className="text-3xl font-bold mb-1">{results.disconnects.length}</div>
+            <div style={{ color: 'var(--color-text-muted)' }} className="text-xs">Player disconnection events</div>
           </div>
-          <div style={{ color: 'var(--color-status-neutral)' }} className="text-3xl font-bold mb-1">{results.disconnects.length}</div>
-          <div style={{ color: 'var(--color-text-muted)' }} className="text-xs">Player disconnection events</div>
-        </div>
-        <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
-          <div style={{ color: 'var(--color-text-secondary)' }} className="flex items-center gap-2 mb-2">
-            <FlashbangIcon size={16} color="var(--color-accent-primary)" />
-            <span className="text-sm font-medium">Team Flashes</span>
+        )}
+        {hasRun('teamFlashes') && (
+          <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
+            <div style={{ color: 'var(--color-text-secondary)' }} className="flex items-center gap-2 mb-2">
+              <FlashbangIcon size={16} color="var(--color-accent-primary)" />
+              <span className="text-sm font-medium">Team Flashes</span>
+            </div>
+            <div style={{ color: 'var(--color-accent-primary)' }} className="text-3xl font-bold mb-1">{results.teamFlashes?.length || 0}</div>
+            <div style={{ color: 'var(--color-text-muted)' }} className="text-xs">Friendly flashbang detonations</div>
           </div>
-          <div style={{ color: 'var(--color-accent-primary)' }} className="text-3xl font-bold mb-1">{results.teamFlashes?.length || 0}</div>
-          <div style={{ color: 'var(--color-text-muted)' }} className="text-xs">Friendly flashbang detonations</div>
-        </div>
-        {false && (
+        )}
+        {hasRun('economyGriefing') && (
           <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4 relative">
             <span 
               style={{ 
@@ -392,7 +450,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
           {expandedSections.afk && (() => {
             let filteredAFKs = results.afkDetections.filter(afk => afk.afkDuration >= afkThreshold);
             if (selectedPlayers.length > 0) {
-              filteredAFKs = filteredAFKs.filter(afk => selectedPlayers.includes(afk.playerName));
+              filteredAFKs = filteredAFKs.filter(afk => selectedPlayers.includes(afk.playerId));
             }
             return (
             <div className="flex flex-wrap gap-4" style={{ maxHeight: '64rem', overflowY: 'auto', scrollbarGutter: 'stable' }}>
@@ -513,6 +571,9 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                               />
                             )}
                             </div>
+                            <div className="flex items-center gap-1 flex-shrink-0">
+                            <WatchButton tick={tick} playerIds={[afk.playerId]} secondsBefore={1} />
+                            <ClipButton tick={tick} playerIds={[afk.playerId]} />
                             <button
                               onClick={() => copyToClipboard(commands, commandId)}
                               style={{ 
@@ -529,6 +590,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                                 <Copy size={12} style={{ color: 'var(--color-text-muted)' }} />
                               )}
                             </button>
+                            </div>
                           </div>
                           <div className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
                             <Timer size={12} style={{ color: 'var(--color-text-muted)' }} />
@@ -548,6 +610,9 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                               return 'N/A';
                             })()}</span>
                           </div>
+                          <div className="mt-2">
+                            <IncidentMiniMap tick={tick} playerIds={[afk.playerId]} size="8rem" />
+                          </div>
                         </div>
                       );
                     })}
@@ -582,7 +647,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
           {expandedSections.disconnects && (() => {
             let filteredDisconnects = results.disconnects;
             if (selectedPlayers.length > 0) {
-              filteredDisconnects = filteredDisconnects.filter(dc => selectedPlayers.includes(dc.playerName));
+              filteredDisconnects = filteredDisconnects.filter(dc => selectedPlayers.includes(dc.playerId));
             }
             // Sort based on selected option
             if (sortBy.disconnects === 'alphabetical') {
@@ -612,20 +677,24 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                     <span style={getTeamColor(dc.team)} className="font-medium">{dc.playerName}</span>
                     {getTeamBadge(dc.team)}
                   </div>
-                  <button
-                    onClick={() => copyToClipboard(commands, commandId)}
-                    style={{ backgroundColor: 'transparent' }}
-                    className="p-1.5 rounded transition-colors flex-shrink-0 hover:opacity-70"
-                    onMouseEnter={(e) => e.currentTarget.style.backgroundColor = 'var(--color-bg-elevated)'}
-                    onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
-                    title="Copy console commands"
-                  >
-                    {copiedCommand === commandId ? (
-                      <Check size={14} style={{ color: 'var(--color-accent-primary)' }} />
-                    ) : (
-                      <Copy size={14} style={{ color: 'var(--color-text-muted)' }} />
-                    )}
-                  </button>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <WatchButton tick={dc.disconnectTick} playerIds={[dc.playerId]} />
+                    <ClipButton tick={dc.disconnectTick} playerIds={[dc.playerId]} />
+                    <button
+                      onClick={() => copyToClipboard(commands, commandId)}
+                      style={{ backgroundColor: 'transparent' }}
+                      className="p-1.5 rounded transition-colors flex-shrink-0 hover:opacity-70"
+                      onMouseEnter={(e) => e.currentTarget.style.backgroundColor = 'var(--color-bg-elevated)'}
+                      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                      title="Copy console commands"
+                    >
+                      {copiedCommand === commandId ? (
+                        <Check size={14} style={{ color: 'var(--color-accent-primary)' }} />
+                      ) : (
+                        <Copy size={14} style={{ color: 'var(--color-text-muted)' }} />
+                      )}
+                    </button>
+                  </div>
                 </div>
                 
                 <div className="space-y-1.5">
@@ -763,7 +832,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
             let filteredTeamKills = results.teamKills;
             if (selectedPlayers.length > 0) {
               filteredTeamKills = filteredTeamKills.filter(tk => 
-                selectedPlayers.includes(tk.attackerName) || selectedPlayers.includes(tk.victimName)
+                selectedPlayers.includes(tk.attackerId) || selectedPlayers.includes(tk.victimId)
               );
             }
             // Sort based on selected option
@@ -795,20 +864,24 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                     <span style={getTeamColor(tk.victimTeam)} className="font-medium">{tk.victimName}</span>
                     {getTeamBadge(tk.attackerTeam)}
                   </div>
-                  <button
-                    onClick={() => copyToClipboard(commands, commandId)}
-                    style={{ backgroundColor: 'transparent' }}
-                    className="p-1.5 rounded transition-colors flex-shrink-0 hover:opacity-70"
-                    onMouseEnter={(e) => e.currentTarget.style.backgroundColor = 'var(--color-bg-elevated)'}
-                    onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
-                    title="Copy console commands"
-                  >
-                    {copiedCommand === commandId ? (
-                      <Check size={14} style={{ color: 'var(--color-accent-primary)' }} />
-                    ) : (
-                      <Copy size={14} style={{ color: 'var(--color-text-muted)' }} />
-                    )}
-                  </button>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <WatchButton tick={tk.tick} playerIds={[tk.attackerId, tk.victimId]} />
+                    <ClipButton tick={tk.tick} playerIds={[tk.attackerId, tk.victimId]} />
+                    <button
+                      onClick={() => copyToClipboard(commands, commandId)}
+                      style={{ backgroundColor: 'transparent' }}
+                      className="p-1.5 rounded transition-colors flex-shrink-0 hover:opacity-70"
+                      onMouseEnter={(e) => e.currentTarget.style.backgroundColor = 'var(--color-bg-elevated)'}
+                      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                      title="Copy console commands"
+                    >
+                      {copiedCommand === commandId ? (
+                        <Check size={14} style={{ color: 'var(--color-accent-primary)' }} />
+                      ) : (
+                        <Copy size={14} style={{ color: 'var(--color-text-muted)' }} />
+                      )}
+                    </button>
+                  </div>
                 </div>
                 
                 <div className="space-y-1.5">
@@ -834,6 +907,9 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                     )}
                   </div>
                 </div>
+                <div className="mt-3">
+                  <IncidentMiniMap tick={tk.tick} playerIds={[tk.attackerId, tk.victimId]} lines={[{ from: tk.attackerId, to: tk.victimId, kind: 'attack' }]} />
+                </div>
               </div>
               );
             })}
@@ -916,7 +992,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
             let filteredTeamDamage = results.teamDamage.filter(td => td.damage >= teamDamageThreshold);
             if (selectedPlayers.length > 0) {
               filteredTeamDamage = filteredTeamDamage.filter(td => 
-                selectedPlayers.includes(td.attackerName) || selectedPlayers.includes(td.victimName)
+                selectedPlayers.includes(td.attackerId) || selectedPlayers.includes(td.victimId)
               );
             }
             // Sort based on selected option
@@ -953,6 +1029,8 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                     {getTeamBadge(td.attackerTeam)}
                   </div>
                   <div className="flex items-center gap-2 flex-shrink-0">
+                    <WatchButton tick={td.tick} playerIds={[td.attackerId, td.victimId]} />
+                    <ClipButton tick={td.tick} playerIds={[td.attackerId, td.victimId]} />
                     <button
                       onClick={() => {
                         const attackerCommands = generateConsoleCommands(td.tick, td.attackerName);
@@ -1028,6 +1106,9 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                     <span>{formatTime(td.time)}</span>
                   </div>
                 </div>
+                <div className="mt-3">
+                  <IncidentMiniMap tick={td.tick} playerIds={[td.attackerId, td.victimId]} lines={[{ from: td.attackerId, to: td.victimId, kind: 'attack' }]} />
+                </div>
               </div>
               );
             })}
@@ -1112,7 +1193,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
             // Filter by selected players
             if (selectedPlayers.length > 0) {
               filteredTeamFlashes = filteredTeamFlashes.filter(tf =>
-                selectedPlayers.includes(tf.throwerName) || selectedPlayers.includes(tf.victimName)
+                selectedPlayers.includes(tf.throwerId) || selectedPlayers.includes(tf.victimId)
               );
             }
             
@@ -1148,6 +1229,8 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                           <span style={{ color: 'var(--color-text-primary)' }} className="font-medium">{flash.victimName}</span>
                         </div>
                         <div className="flex items-center gap-2 flex-shrink-0">
+                          <WatchButton tick={flash.tick} playerIds={[flash.throwerId, flash.victimId]} />
+                          <ClipButton tick={flash.tick} playerIds={[flash.throwerId, flash.victimId]} />
                           <button
                             onClick={() => {
                               const throwerCommands = generateConsoleCommands(flash.tick, flash.throwerName);
@@ -1201,6 +1284,17 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                           <span>{formatTime(flash.time)}</span>
                         </div>
                       </div>
+                      <div className="mt-3">
+                        <IncidentMiniMap
+                          tick={flash.tick}
+                          playerIds={[flash.throwerId, flash.victimId]}
+                          lines={[
+                            { from: flash.throwerId, to: flash.flashPosition, kind: 'flash' },
+                            { from: flash.flashPosition, to: flash.victimPosition, kind: 'flash' }
+                          ]}
+                          markers={[{ position: flash.flashPosition, kind: 'flash' }]}
+                        />
+                      </div>
                     </div>
                   );
                 })}
@@ -1210,8 +1304,8 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
         </div>
       )}
 
-      {/* Mid-Round Inactivity - DISABLED */}
-      {false && results.midRoundInactivity && results.midRoundInactivity.length > 0 && (
+      {/* Mid-Round Inactivity */}
+      {hasRun('midRoundInactivity') && results.midRoundInactivity && results.midRoundInactivity.length > 0 && (
         <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
           <div className="flex items-center justify-between mb-3">
             <button
@@ -1267,7 +1361,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
             
             // Filter by selected players
             if (selectedPlayers.length > 0) {
-              filteredInactivity = filteredInactivity.filter(mr => selectedPlayers.includes(mr.playerName));
+              filteredInactivity = filteredInactivity.filter(mr => selectedPlayers.includes(mr.playerId));
             }
             
             // Sort
@@ -1312,6 +1406,10 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                               <Clock size={10} style={{ color: 'var(--color-text-muted)' }} />
                               <span>{formatTime(segment.startTime)} - {formatTime(segment.endTime)}</span>
                               <span style={{ color: 'var(--color-text-muted)' }}>({segment.duration.toFixed(1)}s)</span>
+                              <span className="ml-auto">
+                                <WatchButton tick={segment.startTick} playerIds={[inactivity.playerId]} secondsBefore={2} />
+                                <ClipButton tick={segment.startTick} playerIds={[inactivity.playerId]} />
+                              </span>
                             </div>
                             <div className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
                               <span>Reason: {segment.reason.replace(/_/g, ' ')}</span>
@@ -1332,8 +1430,8 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
         </div>
       )}
 
-      {/* Body Blocking - DISABLED */}
-      {false && results.bodyBlocking && results.bodyBlocking.length > 0 && results.bodyBlocking.some(b => b.events.length > 0) && (
+      {/* Body Blocking */}
+      {hasRun('bodyBlocking') && results.bodyBlocking && results.bodyBlocking.length > 0 && results.bodyBlocking.some(b => b.events.length > 0) && (
         <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
           <div className="flex items-center justify-between mb-3">
             <button
@@ -1395,7 +1493,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
             // Filter by selected players
             if (selectedPlayers.length > 0) {
               filteredEvents = filteredEvents.filter(e => 
-                selectedPlayers.includes(e.blockerName) || selectedPlayers.includes(e.victimName)
+                selectedPlayers.includes(e.blockerId) || selectedPlayers.includes(e.victimId)
               );
             }
             
@@ -1423,22 +1521,26 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                           <span style={{ color: 'var(--color-text-muted)' }} className="text-xs">→</span>
                           <span style={{ color: 'var(--color-text-primary)' }} className="font-medium">{event.victimName}</span>
                         </div>
-                        <button
-                          onClick={() => copyToClipboard(commands, commandId)}
-                          style={{ 
-                            backgroundColor: copiedCommand === commandId ? 'var(--color-accent-primary)' : 'var(--color-bg-elevated)',
-                            color: copiedCommand === commandId ? 'var(--color-bg-primary)' : 'var(--color-text-secondary)'
-                          }}
-                          className="px-2 py-1 rounded text-xs flex items-center gap-1.5 transition-colors hover:opacity-80"
-                          title="Copy console commands to spectate at this time"
-                        >
-                          {copiedCommand === commandId ? (
-                            <Check size={12} />
-                          ) : (
-                            <Copy size={12} />
-                          )}
-                          <span className="font-medium">Copy</span>
-                        </button>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <WatchButton tick={event.startTick} playerIds={[event.blockerId, event.victimId]} />
+                          <ClipButton tick={event.startTick} playerIds={[event.blockerId, event.victimId]} />
+                          <button
+                            onClick={() => copyToClipboard(commands, commandId)}
+                            style={{ 
+                              backgroundColor: copiedCommand === commandId ? 'var(--color-accent-primary)' : 'var(--color-bg-elevated)',
+                              color: copiedCommand === commandId ? 'var(--color-bg-primary)' : 'var(--color-text-secondary)'
+                            }}
+                            className="px-2 py-1 rounded text-xs flex items-center gap-1.5 transition-colors hover:opacity-80"
+                            title="Copy console commands to spectate at this time"
+                          >
+                            {copiedCommand === commandId ? (
+                              <Check size={12} />
+                            ) : (
+                              <Copy size={12} />
+                            )}
+                            <span className="font-medium">Copy</span>
+                          </button>
+                        </div>
                       </div>
                       <div className="space-y-2 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
                         <div className="flex items-center gap-2">
@@ -1470,6 +1572,9 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                           )}
                         </div>
                       </div>
+                      <div className="mt-3">
+                        <IncidentMiniMap tick={event.startTick} playerIds={[event.blockerId, event.victimId]} lines={[{ from: event.blockerId, to: event.victimId, kind: 'block' }]} />
+                      </div>
                     </div>
                   );
                 })}
@@ -1479,8 +1584,8 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
         </div>
       )}
 
-      {/* Objective Sabotage - DISABLED */}
-      {false && results.objectiveSabotage && results.objectiveSabotage.length > 0 && results.objectiveSabotage.some(o => o.allEvents.length > 0) && (
+      {/* Objective Sabotage */}
+      {hasRun('objectiveSabotage') && results.objectiveSabotage && results.objectiveSabotage.length > 0 && results.objectiveSabotage.some(o => o.allEvents.length > 0) && (
         <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
           <div className="flex items-center justify-between mb-3">
             <button
@@ -1539,7 +1644,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
             
             // Filter by selected players
             if (selectedPlayers.length > 0) {
-              filteredEvents = filteredEvents.filter(e => selectedPlayers.includes(e.actorName));
+              filteredEvents = filteredEvents.filter(e => selectedPlayers.includes(e.actorId));
             }
             
             // Sort
@@ -1566,22 +1671,26 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                           <span style={{ color: 'var(--color-text-muted)' }} className="text-xs">•</span>
                           <span style={{ color: 'var(--color-text-muted)' }} className="text-xs">{event.type.replace(/([A-Z])/g, ' $1').trim()}</span>
                         </div>
-                        <button
-                          onClick={() => copyToClipboard(commands, commandId)}
-                          style={{ 
-                            backgroundColor: copiedCommand === commandId ? 'var(--color-accent-primary)' : 'var(--color-bg-elevated)',
-                            color: copiedCommand === commandId ? 'var(--color-bg-primary)' : 'var(--color-text-secondary)'
-                          }}
-                          className="px-2 py-1 rounded text-xs flex items-center gap-1.5 transition-colors hover:opacity-80"
-                          title="Copy console commands to spectate at this time"
-                        >
-                          {copiedCommand === commandId ? (
-                            <Check size={12} />
-                          ) : (
-                            <Copy size={12} />
-                          )}
-                          <span className="font-medium">Copy</span>
-                        </button>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <WatchButton tick={event.startTick} playerIds={[event.actorId]} />
+                          <ClipButton tick={event.startTick} playerIds={[event.actorId]} />
+                          <button
+                            onClick={() => copyToClipboard(commands, commandId)}
+                            style={{ 
+                              backgroundColor: copiedCommand === commandId ? 'var(--color-accent-primary)' : 'var(--color-bg-elevated)',
+                              color: copiedCommand === commandId ? 'var(--color-bg-primary)' : 'var(--color-text-secondary)'
+                            }}
+                            className="px-2 py-1 rounded text-xs flex items-center gap-1.5 transition-colors hover:opacity-80"
+                            title="Copy console commands to spectate at this time"
+                          >
+                            {copiedCommand === commandId ? (
+                              <Check size={12} />
+                            ) : (
+                              <Copy size={12} />
+                            )}
+                            <span className="font-medium">Copy</span>
+                          </button>
+                        </div>
                       </div>
                       <div className="space-y-2 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
                         <div className="flex items-center gap-2">
@@ -1610,6 +1719,9 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                           <div>Pressure: {Math.round(event.featuresSummary.pressureScore * 100)}% | Hopeless: {Math.round(event.featuresSummary.hopelessScore * 100)}%</div>
                         </div>
                       </div>
+                      <div className="mt-3">
+                        <IncidentMiniMap tick={event.startTick} playerIds={[event.actorId]} />
+                      </div>
                     </div>
                   );
                 })}
@@ -1620,7 +1732,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
       )}
 
       {/* Economy Griefing */}
-      {false && results.economyGriefing && results.economyGriefing.byPlayer && results.economyGriefing.byPlayer.size > 0 && (
+      {hasRun('economyGriefing') && results.economyGriefing && results.economyGriefing.byPlayer && results.economyGriefing.byPlayer.size > 0 && (
         <div style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-subtle)' }} className="border rounded-lg p-4">
           <div className="flex items-center justify-between mb-3">
             <button
@@ -1701,7 +1813,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
             
             // Filter by selected players
             if (selectedPlayers.length > 0) {
-              filteredPlayers = filteredPlayers.filter(p => selectedPlayers.includes(p.playerName));
+              filteredPlayers = filteredPlayers.filter(p => selectedPlayers.includes(p.playerId));
             }
             
             // Sort players
@@ -1868,6 +1980,16 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
                             <div className="flex items-center gap-2 mb-2">
                               <Award size={12} style={{ color: 'var(--color-text-muted)' }} />
                               <span style={{ color: 'var(--color-text-muted)' }}>Round {event.round}</span>
+                              {(() => {
+                                const round = demoFile?.rounds.find(r => r.number === event.round);
+                                const tick = round ? (round.freezeEndTick || round.startTick) : undefined;
+                                return tick !== undefined && (
+                                  <span className="ml-auto">
+                                    <WatchButton tick={tick} playerIds={[playerResult.playerId]} />
+                                    <ClipButton tick={tick} playerIds={[playerResult.playerId]} />
+                                  </span>
+                                );
+                              })()}
                             </div>
                             <div className="text-xs mb-2" style={{ color: 'var(--color-text-secondary)', fontStyle: 'italic' }}>
                               {event.humanReason}
@@ -2167,6 +2289,8 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ results, selectedPlay
         );
       })()}
 
+      <ClipExportModal incident={clipIncident} onClose={() => setClipIncident(null)} />
+
       {/* Empty State */}
       {results.afkDetections.length === 0 && results.teamKills.length === 0 && results.teamDamage.length === 0 && (!results.disconnects || results.disconnects.length === 0) && (!results.teamFlashes || results.teamFlashes.length === 0) && (!results.economyGriefing || !results.economyGriefing.byPlayer || results.economyGriefing.byPlayer.size === 0) && (
         <div className="flex flex-col items-center justify-center py-12 text-center">
@@ -0,0 +1,187 @@
+import React from 'react';
+import { Layers, Loader2, AlertCircle, CheckCircle2, Clock, XCircle, X, Trash2 } from 'lucide-react';
+import { BatchItem, DemoSummary } from '../services/demoBatch';
+
+interface BatchSummaryProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  onOpen: (item: BatchItem) => void;
+  onCancel: () => void;
+  onClear: () => void;
+}
+
+// Count columns, in table order (no economy griefing column while that detector is unavailable)
+const COUNT_COLUMNS: Array<{ key: keyof DemoSummary; label: string; title: string }> = [
+  { key: 'afk', label: 'AFK', title: 'AFK at round start' },
+  { key: 'teamKills', label: 'TK', title: 'Team kills' },
+  { key: 'teamDamage', label: 'TD', title: 'Team damage events' },
+  { key: 'teamFlashes', label: 'TF', title: 'Team flashes' },
+  { key: 'disconnects', label: 'DC', title: 'Disconnects' }
+];
+
+const StatusIcon: React.FC<{ item: BatchItem }> = ({ item }) => {
+  switch (item.status) {
+    case 'processing':
+      return <Loader2 size={14} className="animate-spin" style={{ color: 'var(--color-accent-primary)' }} />;
+    case 'done':
+      return <CheckCircle2 size={14} style={{ color: 'var(--color-text-secondary)' }} />;
+    case 'error':
+      return <AlertCircle size={14} style={{ color: 'var(--color-status-afk-died)' }} />;
+    case 'cancelled':
+      return <XCircle size={14} style={{ color: 'var(--color-text-muted)' }} />;
+    default:
+      return <Clock size={14} style={{ color: 'var(--color-text-muted)' }} />;
+  }
+};
+
+/**
+ * Cross-match summary for a batch of demos - one row per demo, click a row to open its full analysis
+ */
+const BatchSummary: React.FC<BatchSummaryProps> = ({ items, isRunning, onOpen, onCancel, onClear }) => {
+  if (items.length === 0) return null;
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+
+  // Totals across all analyzed demos
+  const totals = COUNT_COLUMNS.map(column =>
+    items.reduce((sum, item) => sum + (item.summary ? (item.summary[column.key] as number) : 0), 0)
+  );
+
+  return (
+    <div className="w-full max-w-5xl px-4">
+      <div className="flex items-center justify-between mb-2">
+        <div
+          style={{ color: 'var(--color-text-secondary)' }}
+          className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide"
+        >
+          <Layers size={14} />
+          Batch analysis · {doneCount}/{items.length} analyzed
+        </div>
+        <div className="flex items-center gap-2">
+          {isRunning && (
+            <button
+              onClick={onCancel}
+              style={{
+                backgroundColor: 'var(--color-bg-tertiary)',
+                color: 'var(--color-text-secondary)',
+                border: '1px solid var(--color-border-subtle)'
+              }}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs hover:opacity-80 transition-opacity"
+            >
+              <X size={12} />
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            style={{
+              backgroundColor: 'var(--color-bg-tertiary)',
+              color: 'var(--color-text-secondary)',
+              border: '1px solid var(--color-border-subtle)'
+            }}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs hover:opacity-80 transition-opacity"
+          >
+            <Trash2 size={12} />
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div
+        style={{
+          backgroundColor: 'var(--color-bg-secondary)',
+          border: '1px solid var(--color-border-subtle)',
+          maxHeight: '40vh'
+        }}
+        className="rounded-lg overflow-auto"
+      >
+        <table className="w-full text-sm">
+          <thead>
+            <tr style={{ color: 'var(--color-text-muted)', borderBottom: '1px solid var(--color-border-subtle)' }} className="text-xs">
+              <th className="text-left font-medium px-3 py-2">Demo</th>
+              <th className="text-left font-medium px-3 py-2">Map</th>
+              <th className="text-center font-medium px-3 py-2">Score (CT-T)</th>
+              {COUNT_COLUMNS.map(column => (
+                <th key={column.key} className="text-center font-medium px-2 py-2" title={column.title}>{column.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => {
+              // Rows without a cached analysis re-parse the demo, which has to wait for the queue
+              const canOpen = item.status === 'done' && (!!item.cacheKey || !isRunning);
+              return (
+                <tr
+                  key={item.id}
+                  onClick={() => canOpen && onOpen(item)}
+                  style={{
+                    borderTop: '1px solid var(--color-border-subtle)',
+                    color: 'var(--color-text-primary)',
+                    cursor: canOpen ? 'pointer' : 'default'
+                  }}
+                  className={canOpen ? 'hover:bg-white/5 transition-colors' : ''}
+                  title={canOpen
+                    ? `Open ${item.label}`
+                    : item.status === 'done' ? 'Not cached - can be opened once the queue is done' : item.error || item.step || ''}
+                >
+                  <td className="px-3 py-2 max-w-xs">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <StatusIcon item={item} />
+                      <span className="font-mono text-xs truncate">{item.label}</span>
+                    </div>
+                    {item.status === 'processing' && (
+                      <div
+                        style={{ backgroundColor: 'var(--color-bg-tertiary)' }}
+                        className="mt-1 w-full h-1 rounded-full overflow-hidden"
+                      >
+                        <div
+                          style={{ backgroundColor: 'var(--color-accent-primary)', width: `${item.progress}%` }}
+                          className="h-full transition-all duration-500 ease-out"
+                        />
+                      </div>
+                    )}
+                    {item.status === 'error' && (
+                      <div style={{ color: 'var(--color-status-afk-died)' }} className="mt-1 text-xs truncate">
+                        {item.error}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2" style={{ color: 'var(--color-text-secondary)' }}>
+                    {item.summary?.mapName || '—'}
+                  </td>
+                  <td className="px-3 py-2 text-center font-mono">
+                    {item.summary ? `${item.summary.scoreCT}-${item.summary.scoreT}` : '—'}
+                  </td>
+                  {COUNT_COLUMNS.map(column => {
+                    const value = item.summary ? (item.summary[column.key] as number) : null;
+                    return (
+                      <td
+                        key={column.key}
+                        className="px-2 py-2 text-center font-mono"
+                        style={{ color: value ? 'var(--color-accent-primary)' : 'var(--color-text-muted)' }}
+                      >
+                        {value === null ? '—' : value}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+          {doneCount > 1 && (
+            <tfoot>
+              <tr style={{ borderTop: '1px solid var(--color-border-strong)', color: 'var(--color-text-secondary)' }} className="text-xs">
+                <td className="px-3 py-2 font-semibold" colSpan={3}>Total ({doneCount} demos)</td>
+                {totals.map((total, index) => (
+                  <td key={COUNT_COLUMNS[index].key} className="px-2 py-2 text-center font-mono font-semibold">{total}</td>
+                ))}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchSummary;
@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Film, Download, Loader2 } from 'lucide-react';
+import { useDemoStore } from '../store/useDemoStore';
+import { getMapConfig, getMapLevels } from '../constants';
+import { ClipFormat, isWebmSupported, renderClip } from '../services/clipRenderer';
+import { downloadBlob } from '../services/voiceExtractor';
+
+interface ClipExportModalProps {
+  incident: { tick: number; playerIds: number[]; label: string } | null; // null = closed
+  onClose: () => void;
+}
+
+const SPEED_OPTIONS = [0.5, 1, 2];
+
+/**
+ * Export the seconds around an incident as a WebM or GIF clip of the 2D replay (see clipRenderer.ts)
+ */
+const ClipExportModal: React.FC<ClipExportModalProps> = ({ incident, onClose }) => {
+  const { demoFile, importedMapConfigs, customMapLevels } = useDemoStore();
+  const webmSupported = isWebmSupported();
+  const [format, setFormat] = useState<ClipFormat>(webmSupported ? 'webm' : 'gif');
+  const [secondsBefore, setSecondsBefore] = useState(5);
+  const [secondsAfter, setSecondsAfter] = useState(3);
+  const [speed, setSpeed] = useState(1);
+  const [progress, setProgress] = useState<number | null>(null); // null = not exporting
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // New incident: clear the previous export state
+  useEffect(() => {
+    setProgress(null);
+    setError(null);
+  }, [incident]);
+
+  if (!incident || !demoFile) return null;
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const handleExport = async () => {
+    const mapConfig = getMapConfig(demoFile.mapName, importedMapConfigs);
+    const levels = customMapLevels[demoFile.mapName] ?? getMapLevels(mapConfig);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const blob = await renderClip(demoFile, mapConfig, levels, {
+        fromTick: Math.max(0, incident.tick - secondsBefore * demoFile.tickRate),
+        toTick: incident.tick + secondsAfter * demoFile.tickRate,
+        playerIds: incident.playerIds,
+        format,
+        speed,
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+      const mapName = demoFile.mapName.split('/').pop() || 'demo';
+      downloadBlob(blob, `${mapName}_tick${Math.round(incident.tick)}.${format}`);
+      console.log(`[ClipExport] ${format} clip: ${(blob.size / 1024).toFixed(0)} KB`);
+    } catch (err: any) {
+      if (err?.name !== 'AbortError') {
+        console.error('Clip export failed:', err);
+        setError(err?.message || 'Clip export failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const isExporting = progress !== null;
+  const clipSeconds = (secondsBefore + secondsAfter) / speed;
+  const inputStyle = {
+    backgroundColor: 'var(--color-bg-tertiary)',
+    color: 'var(--color-text-primary)',
+    border: '1px solid var(--color-border-subtle)'
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={handleClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'var(--color-bg-secondary)',
+          border: '1px solid var(--color-border-subtle)'
+        }}
+        className="rounded-lg shadow-xl w-full max-w-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div
+          style={{ borderBottom: '1px solid var(--color-border-subtle)' }}
+          className="flex items-center justify-between px-4 py-3"
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <Film size={16} style={{ color: 'var(--color-accent-primary)' }} />
+            <h3 style={{ color: 'var(--color-text-primary)' }} className="text-sm font-semibold truncate">
+              Export clip - {incident.label}
+            </h3>
+          </div>
+          <button
+            onClick={handleClose}
+            style={{ color: 'var(--color-text-muted)' }}
+            className="hover:opacity-80 transition-opacity"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col gap-3 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+          <div className="flex items-center justify-between gap-4">
+            <span>Format</span>
+            <div className="flex gap-1">
+              {(['webm', 'gif'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setFormat(option)}
+                  disabled={isExporting || (option === 'webm' && !webmSupported)}
+                  style={{
+                    ...inputStyle,
+                    borderColor: format === option ? 'var(--color-accent-primary)' : 'var(--color-border-subtle)'
+                  }}
+                  className="px-3 py-1 rounded uppercase font-medium disabled:opacity-40"
+                  title={option === 'webm' && !webmSupported ? 'This browser cannot record WebM' : undefined}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <span>Seconds before / after</span>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                max={60}
+                value={secondsBefore}
+                onChange={(e) => setSecondsBefore(Math.max(0, Math.min(60, Number(e.target.value) || 0)))}
+                disabled={isExporting}
+                style={inputStyle}
+                className="w-14 rounded px-2 py-1 font-mono"
+              />
+              <input
+                type="number"
+                min={0}
+                max={60}
+                value={secondsAfter}
+                onChange={(e) => setSecondsAfter(Math.max(0, Math.min(60, Number(e.target.value) || 0)))}
+                disabled={isExporting}
+                style={inputStyle}
+                className="w-14 rounded px-2 py-1 font-mono"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <span>Speed</span>
+            <select
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+              disabled={isExporting}
+              style={inputStyle}
+              className="rounded px-2 py-1 font-mono"
+            >
+              {SPEED_OPTIONS.map(option => (
+                <option key={option} value={option}>{option}x</option>
+              ))}
+            </select>
+          </div>
+
+          <span style={{ color: 'var(--color-text-muted)' }}>
+            {clipSeconds.toFixed(1)}s clip
+            {format === 'webm' ? ' - WebM records in real time, keep this tab open' : ' - GIFs are larger and lower quality'}
+          </span>
+
+          {error && <span style={{ color: 'var(--color-status-afk-died)' }}>{error}</span>}
+
+          {isExporting && (
+            <div style={{ backgroundColor: 'var(--color-bg-tertiary)' }} className="h-1.5 rounded overflow-hidden">
+              <div
+                style={{ backgroundColor: 'var(--color-accent-primary)', width: `${Math.round(progress * 100)}%` }}
+                className="h-full transition-[width]"
+              />
+            </div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting || secondsBefore + secondsAfter <= 0}
+            style={{ backgroundColor: 'var(--color-accent-primary)', color: 'var(--color-bg-primary)' }}
+            className="flex items-center justify-center gap-2 px-3 py-2 rounded font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+            {isExporting ? `Rendering… ${Math.round(progress * 100)}%` : 'Export and download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClipExportModal;
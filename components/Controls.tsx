@@ -1,16 +1,59 @@
-import React from 'react';
-import { Play, Pause, SkipBack, SkipForward, Maximize2 } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, Maximize2, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, AlertTriangle, Keyboard } from 'lucide-react';
 import { useDemoStore } from '../store/useDemoStore';
+import { getScoreAtTick } from '../services/replayState';
+import { TEAM_COLORS, PLAYBACK_SPEEDS } from '../constants';
+import { Team } from '../types';
+import { findFrameIndexAtTick } from '../services/frameStore';
+import { replayActions } from '../hooks/useReplayShortcuts';
+import { buildTimelineMarkers, TIMELINE_LAYERS, TimelineLayerId, TimelineMarker } from '../services/timelineMarkers';
 
-const Controls: React.FC = () => {
+interface ControlsProps {
+  onShowShortcuts?: () => void;
+}
+
+const Controls: React.FC<ControlsProps> = ({ onShowShortcuts }) => {
   const { 
     isPlaying, 
     currentTick, 
     demoFile, 
     setIsPlaying, 
-    seekToTick 
+    seekToTick,
+    analysisResults,
+    playbackSpeed,
+    setPlaybackSpeed,
+    focusCamera
   } = useDemoStore();
   
+  // Marker layers shown on the timeline (all on by default)
+  const [hiddenLayers, setHiddenLayers] = useState<Set<TimelineLayerId>>(new Set());
+  
+  const markers = useMemo(
+    () => demoFile ? buildTimelineMarkers(demoFile, analysisResults) : [],
+    [demoFile, analysisResults]
+  );
+  
+  // Only offer toggles for layers that have markers
+  const availableLayers = useMemo(() => {
+    const present = new Set(markers.map(m => m.layer));
+    return TIMELINE_LAYERS.filter(layer => present.has(layer.id));
+  }, [markers]);
+  
+  const layerColors = useMemo(() => {
+    const colors = new Map<TimelineLayerId, string>();
+    TIMELINE_LAYERS.forEach(layer => colors.set(layer.id, layer.color));
+    return colors;
+  }, []);
+  
+  const toggleLayer = (layerId: TimelineLayerId) => {
+    setHiddenLayers(prev => {
+      const next = new Set(prev);
+      if (next.has(layerId)) next.delete(layerId);
+      else next.add(layerId);
+      return next;
+    });
+  };
+  
   // Calculate max tick from frames (last frame's tick) or use duration
   const maxTick = demoFile?.frames.length > 0 
     ? demoFile.frames[demoFile.frames.length - 1].tick 
@@ -50,6 +93,17 @@ const Controls: React.FC = () => {
     }
   };
 
+  const handleMarkerClick = (e: React.MouseEvent, marker: TimelineMarker) => {
+    e.stopPropagation(); // Don't let the timeline click handler seek to the cursor position
+    if (demoFile && demoFile.frames.length > 0) {
+      seekToTick(findFrameIndexAtTick(demoFile.frames, marker.tick));
+      if (marker.playerIds) {
+        useDemoStore.setState({ highlightedPlayerIds: marker.playerIds });
+        focusCamera(marker.tick, marker.playerIds);
+      }
+    }
+  };
+
   const formatTime = (ticks: number) => {
     const seconds = Math.floor(ticks / tickRate);
     const m = Math.floor(seconds / 60);
@@ -58,7 +112,7 @@ const Controls: React.FC = () => {
   };
 
   return (
-    <div className="h-16 bg-slate-900 border-t border-slate-800 flex items-center px-6 gap-6 z-20">
+    <div className="min-h-[4rem] py-2 bg-slate-900 border-t border-slate-800 flex items-center px-6 gap-6 z-20">
       <button 
         onClick={() => setIsPlaying(!isPlaying)}
         className="w-10 h-10 flex items-center justify-center rounded-full bg-orange-500 text-white hover:bg-orange-600 transition-all shadow-lg shadow-orange-500/20"
@@ -97,6 +151,35 @@ const Controls: React.FC = () => {
             style={{ width: `${progress}%` }}
           />
           
+          {/* Event/detection markers: ranges as shaded spans, points as ticks */}
+          {maxTick > 0 && markers.map((marker, index) => {
+            if (hiddenLayers.has(marker.layer)) return null;
+            const color = layerColors.get(marker.layer);
+            const left = (marker.tick / maxTick) * 100;
+            const tooltip = `${formatTime(marker.tick)} - ${marker.label}`;
+            if (marker.endTick !== undefined) {
+              const width = Math.max(0.3, ((marker.endTick - marker.tick) / maxTick) * 100);
+              return (
+                <div
+                  key={`${marker.layer}-${index}`}
+                  className="absolute top-1/2 -translate-y-1/2 h-3 rounded-sm cursor-pointer hover:brightness-150"
+                  style={{ left: `${left}%`, width: `${width}%`, backgroundColor: color, opacity: 0.35 }}
+                  title={tooltip}
+                  onClick={(e) => handleMarkerClick(e, marker)}
+                />
+              );
+            }
+            return (
+              <div
+                key={`${marker.layer}-${index}`}
+                className="absolute top-1/2 w-1 h-3 rounded-sm cursor-pointer hover:scale-150 transition-transform"
+                style={{ left: `${left}%`, backgroundColor: color, transform: 'translate(-50%, -50%)' }}
+                title={tooltip}
+                onClick={(e) => handleMarkerClick(e, marker)}
+              />
+            );
+          })}
+          
           {/* Hover Handle */}
           <div 
             className="absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-white rounded-full shadow opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none"
@@ -109,73 +192,113 @@ const Controls: React.FC = () => {
           const currentRound = demoFile.rounds.find(r => 
             actualTick >= r.startTick && (r.endTick === undefined || actualTick < r.endTick)
           ) || demoFile.rounds[demoFile.rounds.length - 1];
+          const score = getScoreAtTick(demoFile.rounds, actualTick);
           return currentRound ? (
-            <div className="text-xs text-slate-500 font-mono">
-              Round {currentRound.number} / {demoFile.rounds.length}
+            <div className="flex items-center gap-3 text-xs text-slate-500 font-mono">
+              <span>Round {currentRound.number} / {demoFile.rounds.length}</span>
+              <span className="flex items-center gap-1 font-semibold">
+                <span style={{ color: TEAM_COLORS[Team.CT] }}>CT {score.ct}</span>
+                <span>-</span>
+                <span style={{ color: TEAM_COLORS[Team.T] }}>{score.t} T</span>
+              </span>
             </div>
           ) : null;
         })()}
+        
+        {/* Marker layer toggles */}
+        {availableLayers.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            {availableLayers.map(layer => {
+              const isHidden = hiddenLayers.has(layer.id);
+              return (
+                <button
+                  key={layer.id}
+                  onClick={() => toggleLayer(layer.id)}
+                  className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] border transition-colors ${isHidden ? 'border-slate-800 text-slate-600' : 'border-slate-700 text-slate-300 hover:bg-slate-800'}`}
+                  title={isHidden ? `Show ${layer.label.toLowerCase()} markers` : `Hide ${layer.label.toLowerCase()} markers`}
+                >
+                  <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: layer.color, opacity: isHidden ? 0.3 : 1 }} />
+                  {layer.label}
+                </button>
+              );
+            })}
+          </div>
+        )}
       </div>
 
-      <div className="flex items-center gap-2 border-l border-slate-800 pl-6">
+      <div className="flex items-center gap-1 border-l border-slate-800 pl-6">
         <button 
-          onClick={() => {
-            // Find frame index closest to actualTick - 5 seconds
-            const targetTick = Math.max(0, actualTick - tickRate * 5);
-            if (demoFile && demoFile.frames.length > 0) {
-              // Binary search for the frame with tick <= targetTick
-              const frames = demoFile.frames;
-              let left = 0;
-              let right = frames.length - 1;
-              let frameIndex = 0;
-              
-              while (left <= right) {
-                const mid = Math.floor((left + right) / 2);
-                if (frames[mid].tick <= targetTick) {
-                  frameIndex = mid;
-                  left = mid + 1;
-                } else {
-                  right = mid - 1;
-                }
-              }
-              
-              seekToTick(Math.max(0, frameIndex));
-            }
-          }}
+          onClick={() => replayActions.jumpRound(-1)}
           className="p-2 text-slate-400 hover:text-white transition-colors"
-          title="Skip back 5 seconds"
+          title="Previous round ( [ )"
+        >
+          <ChevronsLeft size={18} />
+        </button>
+        <button 
+          onClick={() => replayActions.skipSeconds(-5)}
+          className="p-2 text-slate-400 hover:text-white transition-colors"
+          title="Skip back 5 seconds ( ← )"
         >
           <SkipBack size={18} />
         </button>
         <button 
-          onClick={() => {
-            // Find frame index closest to actualTick + 5 seconds
-            const targetTick = Math.min(maxTick, actualTick + tickRate * 5);
-            if (demoFile && demoFile.frames.length > 0) {
-              // Binary search for the frame with tick <= targetTick
-              const frames = demoFile.frames;
-              let left = 0;
-              let right = frames.length - 1;
-              let frameIndex = frames.length - 1;
-              
-              while (left <= right) {
-                const mid = Math.floor((left + right) / 2);
-                if (frames[mid].tick <= targetTick) {
-                  frameIndex = mid;
-                  left = mid + 1;
-                } else {
-                  right = mid - 1;
-                }
-              }
-              
-              seekToTick(Math.min(frames.length - 1, frameIndex));
-            }
-          }}
+          onClick={() => replayActions.stepFrame(-1)}
+          className="p-2 text-slate-400 hover:text-white transition-colors"
+          title="Previous frame ( , )"
+        >
+          <ChevronLeft size={18} />
+        </button>
+        <button 
+          onClick={() => replayActions.stepFrame(1)}
+          className="p-2 text-slate-400 hover:text-white transition-colors"
+          title="Next frame ( . )"
+        >
+          <ChevronRight size={18} />
+        </button>
+        <button 
+          onClick={() => replayActions.skipSeconds(5)}
           className="p-2 text-slate-400 hover:text-white transition-colors"
-          title="Skip forward 5 seconds"
+          title="Skip forward 5 seconds ( → )"
         >
           <SkipForward size={18} />
         </button>
+        <button 
+          onClick={() => replayActions.jumpRound(1)}
+          className="p-2 text-slate-400 hover:text-white transition-colors"
+          title="Next round ( ] )"
+        >
+          <ChevronsRight size={18} />
+        </button>
+        <button 
+          onClick={() => replayActions.jumpIncident(1)}
+          disabled={!analysisResults}
+          className="p-2 text-slate-400 hover:text-white transition-colors disabled:opacity-30 disabled:hover:text-slate-400"
+          title={analysisResults ? 'Next incident ( N )' : 'Analyze the demo to jump between incidents'}
+        >
+          <AlertTriangle size={18} />
+        </button>
+        
+        {/* Playback speed */}
+        <select
+          value={playbackSpeed}
+          onChange={(e) => setPlaybackSpeed(Number(e.target.value))}
+          className="ml-1 bg-slate-800 border border-slate-700 rounded px-1.5 py-1 text-xs text-slate-300 font-mono cursor-pointer"
+          title="Playback speed ( - / + )"
+        >
+          {PLAYBACK_SPEEDS.map(speed => (
+            <option key={speed} value={speed}>{speed}x</option>
+          ))}
+        </select>
+        
+        {onShowShortcuts && (
+          <button 
+            onClick={onShowShortcuts}
+            className="p-2 text-slate-400 hover:text-white transition-colors"
+            title="Keyboard shortcuts ( ? )"
+          >
+            <Keyboard size={18} />
+          </button>
+        )}
          <button className="p-2 text-slate-400 hover:text-white transition-colors">
           <Maximize2 size={18} />
         </button>
@@ -0,0 +1,404 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, SlidersHorizontal, RotateCcw, Save, Trash2, Loader2, Play } from 'lucide-react';
+import {
+  DetectorConfigField,
+  DetectorDefinition,
+  DetectorId,
+  DetectorSettings,
+  getConfigValue,
+  getDetectorSettingsKey,
+  getDetectors,
+  getDetectorsToRerun,
+  isDetectorEnabled,
+  resolveDetectorConfig,
+  setConfigValue
+} from '../services/detectorRegistry';
+import { BUILT_IN_DETECTOR_PRESETS, DetectorPreset } from '../services/detectorPresets';
+import { AnalysisProgress } from '../services/demoAnalyzer';
+import { reanalyzeDemoInWorker } from '../services/demoWorkerClient';
+import { useDemoStore } from '../store/useDemoStore';
+
+interface DetectorSettingsPanelProps {
+  cacheKey: string | null; // Cache key of the open demo, its cached results are updated after a re-run
+  onClose: () => void;
+}
+
+// Group config fields by their settings section, keeping schema order
+function groupFields(fields: DetectorConfigField[]): Array<[string, DetectorConfigField[]]> {
+  const groups = new Map<string, DetectorConfigField[]>();
+  for (const field of fields) {
+    const group = field.group || 'General';
+    if (!groups.has(group)) groups.set(group, []);
+    groups.get(group)!.push(field);
+  }
+  return Array.from(groups.entries());
+}
+
+/**
+ * Edit detector configs, apply presets and re-run the affected detectors on the open demo.
+ * Only detectors whose settings changed are re-run - the demo is not parsed again.
+ * The re-run happens in the demo worker, which also updates the cached results.
+ */
+const DetectorSettingsPanel: React.FC<DetectorSettingsPanelProps> = ({ cacheKey, onClose }) => {
+  const {
+    demoFile,
+    analysisResults,
+    analysisKey,
+    detectorSettings,
+    detectorPresets,
+    setDetectorSettings,
+    setAnalysisResults,
+    saveDetectorPreset,
+    deleteDetectorPreset
+  } = useDemoStore();
+
+  const detectors = getDetectors();
+  const [draft, setDraft] = useState<DetectorSettings>(detectorSettings);
+  const [selectedId, setSelectedId] = useState<DetectorId>(detectors[0]?.id);
+  const [presetName, setPresetName] = useState('');
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop a running re-analysis when the panel unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const presets: DetectorPreset[] = [...BUILT_IN_DETECTOR_PRESETS, ...detectorPresets];
+  const selected = detectors.find(detector => detector.id === selectedId);
+  const hasResults = !!(demoFile && analysisResults);
+  const rerunIds = hasResults ? getDetectorsToRerun(analysisKey, draft) : [];
+  const isRunning = progress !== null;
+
+  const updateSetting = (id: DetectorId, update: (setting: DetectorSettings[DetectorId]) => DetectorSettings[DetectorId]) => {
+    setDraft(prev => ({ ...prev, [id]: update(prev[id]) }));
+  };
+
+  const handleValueChange = (detector: DetectorDefinition, field: DetectorConfigField, raw: string) => {
+    const value = Number(raw);
+    if (raw === '' || isNaN(value)) return;
+    updateSetting(detector.id, setting => ({ ...setting, config: setConfigValue(setting?.config, field.key, value) }));
+  };
+
+  const handleResetDetector = (detector: DetectorDefinition) => {
+    updateSetting(detector.id, setting => ({ ...setting, config: undefined }));
+  };
+
+  const handleSelectPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (!preset) return;
+    setDraft(JSON.parse(JSON.stringify(preset.settings))); // Don't edit the preset in place
+    setPresetName(preset.builtIn ? '' : preset.name);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    if (BUILT_IN_DETECTOR_PRESETS.some(preset => preset.name.toLowerCase() === name.toLowerCase())) {
+      setError(`"${name}" is a built-in preset - pick another name`);
+      return;
+    }
+    setError(null);
+    saveDetectorPreset(name, draft);
+  };
+
+  const handleApply = async () => {
+    setError(null);
+    setDetectorSettings(draft);
+    if (!hasResults || rerunIds.length === 0) {
+      onClose();
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setProgress({ percentage: 0, currentStep: 'Starting...', estimatedTimeRemaining: 0 });
+    try {
+      const { results } = await reanalyzeDemoInWorker(demoFile!, analysisResults!, rerunIds, {
+        detectors: draft,
+        cacheKey,
+        signal: abortController.signal,
+        onAnalysisProgress: setProgress
+      });
+      setAnalysisResults(results, getDetectorSettingsKey(draft));
+      onClose();
+    } catch (err: any) {
+      if (err?.name === 'AbortError') {
+        console.log('Re-analysis cancelled');
+      } else {
+        console.error('Re-analysis failed:', err);
+        setError(err?.message || 'Re-analysis failed');
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const renderField = (detector: DetectorDefinition, field: DetectorConfigField) => {
+    const config = resolveDetectorConfig(detector.defaultConfig, draft[detector.id]?.config);
+    const value = getConfigValue(config, field.key);
+    const defaultValue = getConfigValue(detector.defaultConfig, field.key);
+    const isModified = value !== defaultValue;
+    return (
+      <div key={field.key} className="flex flex-col gap-1" title={field.description}>
+        <div className="flex items-center justify-between text-xs">
+          <span style={{ color: isModified ? 'var(--color-accent-primary)' : 'var(--color-text-secondary)' }}>
+            {field.label}
+          </span>
+          <span style={{ color: 'var(--color-text-muted)' }}>
+            default {defaultValue}{field.unit ? ` ${field.unit}` : ''}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="range"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={value ?? 0}
+            disabled={isRunning}
+            onChange={(e) => handleValueChange(detector, field, e.target.value)}
+            style={{ accentColor: 'var(--color-accent-primary)' }}
+            className="flex-1"
+          />
+          <input
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={value ?? ''}
+            disabled={isRunning}
+            onChange={(e) => handleValueChange(detector, field, e.target.value)}
+            style={{
+              backgroundColor: 'var(--color-bg-tertiary)',
+              color: 'var(--color-text-primary)',
+              border: '1px solid var(--color-border-subtle)'
+            }}
+            className="w-20 rounded px-1.5 py-0.5 text-xs font-mono"
+          />
+          <span style={{ color: 'var(--color-text-muted)' }} className="w-12 text-xs">{field.unit}</span>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div
+        style={{
+          backgroundColor: 'var(--color-bg-secondary)',
+          border: '1px solid var(--color-border-subtle)'
+        }}
+        className="rounded-lg w-full max-w-4xl max-h-[85vh] flex flex-col shadow-2xl"
+      >
+        {/* Header */}
+        <div
+          style={{ borderBottom: '1px solid var(--color-border-subtle)' }}
+          className="flex items-center justify-between p-4 shrink-0"
+        >
+          <div className="flex items-center gap-2">
+            <SlidersHorizontal size={18} style={{ color: 'var(--color-accent-primary)' }} />
+            <h2 style={{ color: 'var(--color-text-primary)' }} className="text-lg font-bold">Detector settings</h2>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ color: 'var(--color-text-muted)' }}
+            className="p-2 rounded hover:opacity-80 transition-opacity"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Presets */}
+        <div
+          style={{ borderBottom: '1px solid var(--color-border-subtle)' }}
+          className="flex flex-wrap items-center gap-2 px-4 py-3 shrink-0 text-xs"
+        >
+          <span style={{ color: 'var(--color-text-secondary)' }} className="font-semibold uppercase tracking-wide">Preset</span>
+          <select
+            value=""
+            disabled={isRunning}
+            onChange={(e) => handleSelectPreset(e.target.value)}
+            style={{
+              backgroundColor: 'var(--color-bg-tertiary)',
+              color: 'var(--color-text-primary)',
+              border: '1px solid var(--color-border-subtle)'
+            }}
+            className="rounded px-2 py-1"
+          >
+            <option value="" disabled>Load preset...</option>
+            {presets.map(preset => (
+              <option key={preset.name} value={preset.name} title={preset.description}>
+                {preset.name}{preset.builtIn ? '' : ' (saved)'}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            style={{
+              backgroundColor: 'var(--color-bg-tertiary)',
+              color: 'var(--color-text-primary)',
+              border: '1px solid var(--color-border-subtle)'
+            }}
+            className="rounded px-2 py-1 w-40"
+          />
+          <button
+            onClick={handleSavePreset}
+            disabled={!presetName.trim() || isRunning}
+            style={{ color: 'var(--color-text-secondary)', border: '1px solid var(--color-border-subtle)' }}
+            className="flex items-center gap-1 rounded px-2 py-1 hover:opacity-80 transition-opacity disabled:opacity-40"
+          >
+            <Save size={12} />
+            Save
+          </button>
+          {detectorPresets.some(preset => preset.name === presetName.trim()) && (
+            <button
+              onClick={() => {
+                deleteDetectorPreset(presetName.trim());
+                setPresetName('');
+              }}
+              style={{ color: 'var(--color-text-muted)' }}
+              className="p-1 rounded hover:opacity-80 transition-opacity"
+              title="Delete this preset"
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Detector list */}
+          <div
+            style={{ borderRight: '1px solid var(--color-border-subtle)' }}
+            className="w-64 shrink-0 overflow-y-auto p-2 flex flex-col gap-1"
+          >
+            {detectors.map(detector => {
+              const enabled = isDetectorEnabled(detector, draft);
+              const isSelected = detector.id === selectedId;
+              const isModified = !!draft[detector.id]?.config && Object.keys(draft[detector.id]!.config!).length > 0;
+              return (
+                <div
+                  key={detector.id}
+                  onClick={() => setSelectedId(detector.id)}
+                  style={{
+                    backgroundColor: isSelected ? 'var(--color-bg-tertiary)' : 'transparent',
+                    border: `1px solid ${isSelected ? 'var(--color-border-subtle)' : 'transparent'}`
+                  }}
+                  className="flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer hover:bg-white/5 transition-colors"
+                >
+                  <input
+                    type="checkbox"
+                    checked={enabled}
+                    disabled={isRunning || !!detector.unavailable}
+                    title={detector.unavailable}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => updateSetting(detector.id, setting => ({ ...setting, enabled: !enabled }))}
+                    style={{ accentColor: 'var(--color-accent-primary)', cursor: detector.unavailable ? 'not-allowed' : 'pointer' }}
+                  />
+                  <span
+                    style={{ color: enabled ? 'var(--color-text-primary)' : 'var(--color-text-muted)' }}
+                    className="text-sm truncate flex-1"
+                  >
+                    {detector.name}
+                  </span>
+                  {isModified && (
+                    <span style={{ color: 'var(--color-accent-primary)' }} className="text-xs" title="Config changed">•</span>
+                  )}
+                  {rerunIds.includes(detector.id) && (
+                    <span title="Re-runs when applied"><Play size={10} style={{ color: 'var(--color-text-muted)' }} /></span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Config of the selected detector */}
+          <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-4">
+            {selected && (
+              <>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div style={{ color: 'var(--color-text-primary)' }} className="font-semibold">{selected.name}</div>
+                    <div style={{ color: 'var(--color-text-muted)' }} className="text-xs">{selected.description}</div>
+                  </div>
+                  {selected.configSchema.length > 0 && !selected.unavailable && (
+                    <button
+                      onClick={() => handleResetDetector(selected)}
+                      disabled={isRunning}
+                      style={{ color: 'var(--color-text-secondary)' }}
+                      className="flex items-center gap-1 text-xs shrink-0 hover:opacity-80 transition-opacity"
+                    >
+                      <RotateCcw size={12} />
+                      Reset to defaults
+                    </button>
+                  )}
+                </div>
+                {selected.unavailable ? (
+                  <div style={{ color: 'var(--color-text-secondary)' }} className="text-sm">
+                    Unavailable: {selected.unavailable}.
+                  </div>
+                ) : selected.configSchema.length === 0 ? (
+                  <div style={{ color: 'var(--color-text-secondary)' }} className="text-sm">
+                    This detector has no settings.
+                  </div>
+                ) : groupFields(selected.configSchema).map(([group, fields]) => (
+                  <div key={group}>
+                    <div style={{ color: 'var(--color-text-secondary)' }} className="text-xs font-semibold uppercase tracking-wide mb-2">
+                      {group}
+                    </div>
+                    <div className="grid grid-cols-2 gap-x-6 gap-y-3">
+                      {fields.map(field => renderField(selected, field))}
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{ borderTop: '1px solid var(--color-border-subtle)' }}
+          className="flex items-center justify-between gap-4 px-4 py-3 shrink-0"
+        >
+          <div style={{ color: error ? 'var(--color-status-afk-died)' : 'var(--color-text-muted)' }} className="text-xs min-w-0 truncate">
+            {error
+              ? error
+              : isRunning
+                ? `${progress!.currentStep} (${Math.round(progress!.percentage)}%)`
+                : !hasResults
+                  ? 'Applies to the next upload.'
+                  : rerunIds.length === 0
+                    ? 'No changes to re-run.'
+                    : `Re-runs ${rerunIds.length} detector${rerunIds.length !== 1 ? 's' : ''} on this demo - no re-parsing.`}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={isRunning ? () => abortControllerRef.current?.abort() : onClose}
+              style={{ color: 'var(--color-text-secondary)', border: '1px solid var(--color-border-subtle)' }}
+              className="rounded px-3 py-1.5 text-sm hover:opacity-80 transition-opacity"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={isRunning}
+              style={{ backgroundColor: 'var(--color-accent-primary)', color: 'var(--color-bg-primary)' }}
+              className="flex items-center gap-2 rounded px-3 py-1.5 text-sm font-semibold hover:opacity-90 transition-opacity disabled:opacity-60"
+            >
+              {isRunning && <Loader2 size={14} className="animate-spin" />}
+              {hasResults && rerunIds.length > 0 ? 'Apply & re-run' : 'Apply'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DetectorSettingsPanel;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp } from 'lucide-react';
+import { getDetectors, isDetectorEnabled } from '../services/detectorRegistry';
+import '../services/detectors'; // Registers the built-in detectors
+import { useDemoStore } from '../store/useDemoStore';
+
+interface DetectorTogglesProps {
+  onConfigure?: () => void; // Opens the full detector settings panel
+}
+
+/**
+ * Enable/disable detectors for the next analysis. The list comes from the detector registry,
+ * so new detectors show up here without UI changes.
+ */
+const DetectorToggles: React.FC<DetectorTogglesProps> = ({ onConfigure }) => {
+  const { detectorSettings, setDetectorEnabled } = useDemoStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const detectors = getDetectors();
+  const enabledCount = detectors.filter(detector => isDetectorEnabled(detector, detectorSettings)).length;
+
+  return (
+    <div className="w-full max-w-md px-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        style={{ color: 'var(--color-text-secondary)' }}
+        className="w-full flex items-center justify-between text-xs font-semibold uppercase tracking-wide hover:opacity-80 transition-opacity"
+      >
+        <span className="flex items-center gap-2">
+          <SlidersHorizontal size={14} />
+          Detectors · {enabledCount}/{detectors.length} enabled
+        </span>
+        {isOpen ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {isOpen && (
+        <div
+          style={{
+            backgroundColor: 'var(--color-bg-secondary)',
+            border: '1px solid var(--color-border-subtle)'
+          }}
+          className="mt-2 rounded-lg p-2 flex flex-col gap-1"
+        >
+          {detectors.map(detector => {
+            const enabled = isDetectorEnabled(detector, detectorSettings);
+            const unavailable = !!detector.unavailable;
+            return (
+              <label
+                key={detector.id}
+                title={detector.unavailable}
+                className={`flex items-start gap-2 px-2 py-1.5 rounded transition-colors ${unavailable ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-white/5'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  disabled={unavailable}
+                  onChange={() => setDetectorEnabled(detector.id, !enabled)}
+                  style={{ accentColor: 'var(--color-accent-primary)', cursor: unavailable ? 'not-allowed' : 'pointer', marginTop: '0.15rem' }}
+                />
+                <span className="min-w-0">
+                  <span style={{ color: 'var(--color-text-primary)' }} className="block text-sm">
+                    {detector.name}
+                    {detector.dependencies && detector.dependencies.length > 0 && (
+                      <span style={{ color: 'var(--color-text-muted)' }} className="text-xs"> (needs {detector.dependencies.join(', ')})</span>
+                    )}
+                  </span>
+                  <span style={{ color: 'var(--color-text-muted)' }} className="block text-xs">
+                    {unavailable ? `Unavailable: ${detector.unavailable}` : detector.description}
+                  </span>
+                </span>
+              </label>
+            );
+          })}
+          <div style={{ color: 'var(--color-text-muted)' }} className="px-2 pt-1 text-xs">
+            Applies to the next upload. Demos analyzed before are re-analyzed, not re-parsed.
+            {onConfigure && (
+              <>
+                {' '}
+                <button
+                  onClick={onConfigure}
+                  style={{ color: 'var(--color-accent-primary)' }}
+                  className="hover:underline"
+                >
+                  Thresholds & presets...
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DetectorToggles;
@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Flame, Skull, Crosshair, Users } from 'lucide-react';
+import { useDemoStore } from '../store/useDemoStore';
+import { getMapConfig, getMapLevels, getLevelIndexForZ, TEAM_COLORS } from '../constants';
+import { Team } from '../types';
+import { HeatmapFilter, HeatmapHalf, HeatmapKind, buildHeatmapPoints, heatColor, rasterizeHeatmap } from '../services/heatmaps';
+
+const KIND_OPTIONS: { id: HeatmapKind; label: string; icon: React.ElementType; unit: string }[] = [
+  { id: 'occupancy', label: 'Occupancy', icon: Flame, unit: 'player-seconds' },
+  { id: 'deaths', label: 'Deaths', icon: Skull, unit: 'deaths' },
+  { id: 'kills', label: 'Kills', icon: Crosshair, unit: 'kills' }
+];
+
+const HALF_OPTIONS: { id: HeatmapHalf; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'first', label: '1st half' },
+  { id: 'second', label: '2nd half' },
+  { id: 'overtime', label: 'OT' }
+];
+
+const GRID_SIZE = 128;
+
+/**
+ * Position/death/kill heatmaps on the radar, filtered by player, side, round range and half
+ */
+const HeatmapView: React.FC = () => {
+  const { demoFile, importedMapConfigs, customMapLevels } = useDemoStore();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rounds = demoFile?.rounds || [];
+  const lastRound = rounds.length > 0 ? rounds[rounds.length - 1].number : 1;
+
+  const [filter, setFilter] = useState<HeatmapFilter>({
+    kind: 'occupancy',
+    playerIds: [],
+    side: 'all',
+    roundFrom: 1,
+    roundTo: lastRound,
+    half: 'all'
+  });
+  const [activeLevelIndex, setActiveLevelIndex] = useState(0);
+
+  // New demo: reset the round range
+  useEffect(() => {
+    setFilter(prev => ({ ...prev, playerIds: [], roundFrom: 1, roundTo: lastRound }));
+    setActiveLevelIndex(0);
+  }, [demoFile, lastRound]);
+
+  const mapName = demoFile?.mapName || '';
+  const mapConfig = useMemo(() => getMapConfig(mapName, importedMapConfigs), [mapName, importedMapConfigs]);
+  const levels = useMemo(() => customMapLevels[mapName] ?? getMapLevels(mapConfig), [customMapLevels, mapName, mapConfig]);
+  const activeLevel = levels[Math.min(activeLevelIndex, levels.length - 1)];
+
+  const players = useMemo(
+    () => [...(demoFile?.players || [])].sort((a, b) => a.name.localeCompare(b.name)),
+    [demoFile]
+  );
+
+  const points = useMemo(() => {
+    if (!demoFile) return [];
+    console.time('Heatmap points');
+    const result = buildHeatmapPoints(demoFile, filter);
+    console.timeEnd('Heatmap points');
+    return result;
+  }, [demoFile, filter]);
+
+  // Only points on the level being shown
+  const grid = useMemo(() => {
+    const levelPoints = levels.length > 1
+      ? points.filter(point => getLevelIndexForZ(levels, point.z) === activeLevelIndex)
+      : points;
+    return rasterizeHeatmap(levelPoints, mapConfig, GRID_SIZE, filter.kind === 'occupancy' ? 2 : 3);
+  }, [points, levels, activeLevelIndex, mapConfig, filter.kind]);
+
+  // Paint the grid (the canvas is stretched over the radar image)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const image = context.createImageData(grid.size, grid.size);
+    for (let i = 0; i < grid.values.length; i++) {
+      const [r, g, b, a] = heatColor(grid.values[i]);
+      image.data[i * 4] = r;
+      image.data[i * 4 + 1] = g;
+      image.data[i * 4 + 2] = b;
+      image.data[i * 4 + 3] = a;
+    }
+    context.putImageData(image, 0, 0);
+  }, [grid]);
+
+  const togglePlayer = (playerId: number) => {
+    setFilter(prev => ({
+      ...prev,
+      playerIds: prev.playerIds.includes(playerId)
+        ? prev.playerIds.filter(id => id !== playerId)
+        : [...prev.playerIds, playerId]
+    }));
+  };
+
+  if (!demoFile) return null;
+
+  const kindOption = KIND_OPTIONS.find(option => option.id === filter.kind)!;
+  const totalLabel = filter.kind === 'occupancy' ? Math.round(grid.total).toLocaleString() : String(grid.total);
+
+  return (
+    <div style={{ backgroundColor: 'var(--color-bg-primary)' }} className="flex h-full gap-4 p-4 min-h-0">
+      {/* Filters */}
+      <div className="w-72 shrink-0 flex flex-col gap-4 min-h-0 overflow-y-auto text-xs text-slate-300">
+        <div className="flex flex-col gap-1">
+          <span className="font-semibold text-slate-400 uppercase tracking-wide text-[10px]">Heatmap</span>
+          <div className="flex gap-1">
+            {KIND_OPTIONS.map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => setFilter(prev => ({ ...prev, kind: id }))}
+                className={`flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded border transition-colors ${filter.kind === id ? 'bg-orange-500/90 border-orange-400 text-white' : 'bg-slate-900/80 border-slate-700 hover:bg-slate-800'}`}
+              >
+                <Icon size={12} />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className="font-semibold text-slate-400 uppercase tracking-wide text-[10px]">Side</span>
+          <div className="flex gap-1">
+            {(['all', Team.CT, Team.T] as const).map(side => (
+              <button
+                key={side}
+                onClick={() => setFilter(prev => ({ ...prev, side }))}
+                style={side !== 'all' && filter.side === side ? { backgroundColor: TEAM_COLORS[side], borderColor: TEAM_COLORS[side] } : undefined}
+                className={`flex-1 px-2 py-1.5 rounded border transition-colors ${filter.side === side ? 'bg-orange-500/90 border-orange-400 text-white' : 'bg-slate-900/80 border-slate-700 hover:bg-slate-800'}`}
+              >
+                {side === 'all' ? 'Both' : side}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className="font-semibold text-slate-400 uppercase tracking-wide text-[10px]">Rounds</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={filter.roundTo}
+              value={filter.roundFrom}
+              onChange={(e) => setFilter(prev => ({ ...prev, roundFrom: Math.max(1, Math.min(prev.roundTo, Number(e.target.value) || 1)) }))}
+              className="w-16 bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono"
+            />
+            <span className="text-slate-500">to</span>
+            <input
+              type="number"
+              min={filter.roundFrom}
+              max={lastRound}
+              value={filter.roundTo}
+              onChange={(e) => setFilter(prev => ({ ...prev, roundTo: Math.min(lastRound, Math.max(prev.roundFrom, Number(e.target.value) || lastRound)) }))}
+              className="w-16 bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono"
+            />
+          </div>
+          <div className="flex gap-1">
+            {HALF_OPTIONS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setFilter(prev => ({ ...prev, half: id }))}
+                className={`flex-1 px-2 py-1 rounded border transition-colors ${filter.half === id ? 'bg-orange-500/90 border-orange-400 text-white' : 'bg-slate-900/80 border-slate-700 hover:bg-slate-800'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1 min-h-0">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-slate-400 uppercase tracking-wide text-[10px]">Players</span>
+            {filter.playerIds.length > 0 && (
+              <button onClick={() => setFilter(prev => ({ ...prev, playerIds: [] }))} className="text-slate-400 hover:text-white">
+                Everyone
+              </button>
+            )}
+          </div>
+          {players.map(player => {
+            const selected = filter.playerIds.includes(player.id);
+            return (
+              <button
+                key={player.id}
+                onClick={() => togglePlayer(player.id)}
+                className={`flex items-center gap-2 px-2 py-1 rounded border text-left transition-colors ${selected ? 'bg-slate-700 border-slate-500 text-white' : 'bg-slate-900/60 border-slate-800 hover:bg-slate-800'}`}
+              >
+                <Users size={12} className={selected ? 'text-orange-400' : 'text-slate-500'} />
+                <span className="truncate">{player.name}</span>
+                {player.isBot && <span className="ml-auto text-[10px] text-slate-500">BOT</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Radar + heat layer */}
+      <div className="flex-1 min-w-0 min-h-0 flex items-center justify-center">
+        <div className="relative h-full aspect-square max-w-full bg-slate-950 rounded-lg border border-slate-700 overflow-hidden">
+          <img src={activeLevel.imageUrl} alt={mapName} className="absolute inset-0 w-full h-full object-contain opacity-70" draggable={false} />
+          <canvas
+            ref={canvasRef}
+            width={GRID_SIZE}
+            height={GRID_SIZE}
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            style={{ imageRendering: 'auto' }}
+          />
+
+          {levels.length > 1 && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 flex gap-1">
+              {levels.map((level, index) => (
+                <button
+                  key={level.name}
+                  onClick={() => setActiveLevelIndex(index)}
+                  className={`px-3 py-1 text-xs font-medium rounded border backdrop-blur-sm ${index === activeLevelIndex ? 'bg-orange-500/90 border-orange-400 text-white' : 'bg-slate-900/80 border-slate-700 text-slate-300 hover:bg-slate-800'}`}
+                >
+                  {level.name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="absolute bottom-2 left-2 px-3 py-1.5 bg-slate-900/80 text-xs text-slate-300 rounded border border-slate-700 backdrop-blur-sm">
+            <span className="font-semibold">{mapName}</span>
+            <span className="text-slate-500"> · {kindOption.label}: {totalLabel} {kindOption.unit}</span>
+          </div>
+          {grid.total === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-400">
+              Nothing matches these filters
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HeatmapView;
@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useDemoStore } from '../store/useDemoStore';
+import { getMapConfig, getMapLevels, getLevelIndexForZ, TEAM_COLORS } from '../constants';
+import { Play } from 'lucide-react';
+import { FrameStore } from '../services/frameStore';
+import { getInterpolatedFrame } from '../services/replayState';
+import { PlayerState, Vector2 } from '../types';
+
+// A line end: a player id (their position at the incident tick) or a world position
+export type MiniMapPoint = number | Vector2;
+
+export interface MiniMapLine {
+  from: MiniMapPoint;
+  to: MiniMapPoint;
+  kind: 'attack' | 'flash' | 'block';
+}
+
+interface IncidentMiniMapProps {
+  tick: number;
+  playerIds: number[]; // Involved players, drawn highlighted
+  lines?: MiniMapLine[];
+  markers?: { position: Vector2; kind: 'flash' }[]; // E.g. the flashbang detonation
+  size?: string; // CSS size of the square radar
+  previewSeconds?: number; // Hovering loops a replay of tick ± this many seconds
+}
+
+const LINE_COLORS: Record<MiniMapLine['kind'], string> = {
+  attack: '#ef4444',
+  flash: '#fef9c3',
+  block: '#f59e0b'
+};
+
+/**
+ * Small radar for an incident card: every player at the tick, the involved ones
+ * highlighted, plus attacker→victim / thrower→detonation lines.
+ * Shows the level (floor) the first involved player is on.
+ *
+ * Static until hovered; while hovered it loops the seconds around the incident in real
+ * time, using the same frame interpolation as the 2D replay (getInterpolatedFrame).
+ */
+const IncidentMiniMap: React.FC<IncidentMiniMapProps> = ({ tick, playerIds, lines = [], markers = [], size = '10rem', previewSeconds = 3 }) => {
+  const { demoFile, importedMapConfigs, customMapLevels } = useDemoStore();
+  const [previewTick, setPreviewTick] = useState<number | null>(null); // null = static snapshot
+  const animationRef = useRef<number | null>(null);
+  const mapName = demoFile?.mapName || '';
+  const mapConfig = useMemo(() => getMapConfig(mapName, importedMapConfigs), [mapName, importedMapConfigs]);
+  const levels = customMapLevels[mapName] ?? getMapLevels(mapConfig);
+
+  // Players at the incident tick; involved players use their latest state so dead victims still show
+  const playerKey = playerIds.join(',');
+  const players = useMemo((): PlayerState[] => {
+    if (!demoFile) return [];
+    const store = FrameStore.fromDemoFile(demoFile);
+    const frame = store.getFrameNear(tick);
+    if (!frame) return [];
+    const involved = new Set(playerIds);
+    const others = store.getPlayers(frame.index).filter(player => player.isAlive && !involved.has(player.id));
+    const highlighted = playerIds
+      .map(id => store.getPlayerAt(tick, id))
+      .filter((player): player is PlayerState => Boolean(player));
+    return [...others, ...highlighted]; // Involved players last so they draw on top
+  }, [demoFile, tick, playerKey]); // playerKey stands in for playerIds (a new array every render)
+
+  const tickRate = demoFile?.tickRate || 64;
+  const previewStart = Math.max(0, tick - previewSeconds * tickRate);
+  const previewEnd = tick + previewSeconds * tickRate;
+
+  const startPreview = () => {
+    if (!demoFile || animationRef.current !== null) return;
+    const startedAt = performance.now();
+    const loopTicks = previewEnd - previewStart;
+    const step = (now: number) => {
+      const elapsedTicks = ((now - startedAt) / 1000) * tickRate;
+      setPreviewTick(previewStart + (elapsedTicks % loopTicks));
+      animationRef.current = requestAnimationFrame(step);
+    };
+    animationRef.current = requestAnimationFrame(step);
+  };
+
+  const stopPreview = () => {
+    if (animationRef.current !== null) {
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    }
+    setPreviewTick(null);
+  };
+
+  // Stop the loop when the card unmounts mid-hover
+  useEffect(() => () => {
+    if (animationRef.current !== null) cancelAnimationFrame(animationRef.current);
+  }, []);
+
+  // While previewing: everyone alive plus the involved players (dead ones drawn as a cross)
+  const previewPlayers = useMemo((): PlayerState[] | null => {
+    if (!demoFile || previewTick === null) return null;
+    const frame = getInterpolatedFrame(demoFile.frames, previewTick, demoFile.tickRate);
+    if (!frame) return [];
+    const others = frame.players.filter(player => player.isAlive && !playerIds.includes(player.id));
+    const involved = frame.players.filter(player => playerIds.includes(player.id));
+    return [...others, ...involved];
+  }, [demoFile, previewTick, playerKey]); // playerKey stands in for playerIds
+
+  if (!demoFile) return null;
+
+  const shownPlayers = previewPlayers ?? players;
+  const isPreviewing = previewTick !== null;
+  // Pulse the border around the incident moment
+  const isAtIncident = isPreviewing && Math.abs(previewTick - tick) < tickRate * 0.25;
+
+  const worldToSvg = (x: number, y: number) => ({
+    x: ((x - mapConfig.minX) / (mapConfig.maxX - mapConfig.minX)) * 100,
+    y: 100 - ((y - mapConfig.minY) / (mapConfig.maxY - mapConfig.minY)) * 100
+  });
+
+  const resolvePoint = (point: MiniMapPoint): Vector2 | null => {
+    if (typeof point !== 'number') return point;
+    return shownPlayers.find(player => player.id === point)?.position ?? null;
+  };
+
+  const involvedPositions = playerIds
+    .map(id => shownPlayers.find(player => player.id === id)?.position)
+    .filter((position): position is Vector2 => Boolean(position));
+  const levelIndex = getLevelIndexForZ(levels, involvedPositions[0]?.z);
+  const level = levels[levelIndex];
+  const isOnOtherLevel = (z?: number) => levels.length > 1 && getLevelIndexForZ(levels, z) !== levelIndex;
+
+  return (
+    <div
+      className={`relative rounded border bg-slate-950 overflow-hidden shrink-0 transition-colors ${isAtIncident ? 'border-orange-400' : 'border-slate-700'}`}
+      style={{ width: size, height: size }}
+      title={`${levels.length > 1 ? `${mapName} - ${level.name}` : mapName} (hover to replay ±${previewSeconds}s)`}
+      onMouseEnter={startPreview}
+      onMouseLeave={stopPreview}
+    >
+      <svg viewBox="0 0 100 100" className="w-full h-full">
+        <image href={level.imageUrl} x="0" y="0" width="100" height="100" opacity="0.75" preserveAspectRatio="xMidYMid meet" />
+
+        {lines.map((line, index) => {
+          const from = resolvePoint(line.from);
+          const to = resolvePoint(line.to);
+          if (!from || !to) return null;
+          const a = worldToSvg(from.x, from.y);
+          const b = worldToSvg(to.x, to.y);
+          return (
+            <line
+              key={index}
+              x1={a.x}
+              y1={a.y}
+              x2={b.x}
+              y2={b.y}
+              stroke={LINE_COLORS[line.kind]}
+              strokeWidth={0.8}
+              strokeDasharray={line.kind === 'flash' ? '2 1.5' : undefined}
+              strokeLinecap="round"
+            />
+          );
+        })}
+
+        {(!isPreviewing || previewTick >= tick) && markers.map((marker, index) => {
+          const point = worldToSvg(marker.position.x, marker.position.y);
+          return (
+            <g key={index} opacity={isOnOtherLevel(marker.position.z) ? 0.35 : 1}>
+              <circle cx={point.x} cy={point.y} r={3.5} fill="#fef9c3" fillOpacity={0.25} stroke="#fef9c3" strokeWidth={0.5} />
+              <circle cx={point.x} cy={point.y} r={1} fill="#fef9c3" />
+            </g>
+          );
+        })}
+
+        {shownPlayers.map(player => {
+          const point = worldToSvg(player.position.x, player.position.y);
+          const isInvolved = playerIds.includes(player.id);
+          const color = TEAM_COLORS[player.team] || TEAM_COLORS.SPECTATOR;
+          return (
+            <g key={player.id} opacity={isOnOtherLevel(player.position.z) ? 0.3 : isInvolved ? 1 : 0.6}>
+              {isInvolved && <circle cx={point.x} cy={point.y} r={3.2} fill="none" stroke="#f97316" strokeWidth={0.7} />}
+              {player.isAlive ? (
+                <circle cx={point.x} cy={point.y} r={isInvolved ? 2 : 1.4} fill={color} stroke="#0f172a" strokeWidth={0.4} />
+              ) : (
+                <g stroke={color} strokeWidth={0.8} strokeLinecap="round">
+                  <line x1={point.x - 1.5} y1={point.y - 1.5} x2={point.x + 1.5} y2={point.y + 1.5} />
+                  <line x1={point.x + 1.5} y1={point.y - 1.5} x2={point.x - 1.5} y2={point.y + 1.5} />
+                </g>
+              )}
+              {isInvolved && (
+                <text x={point.x} y={point.y - 4} textAnchor="middle" fontSize={3.5} fill="#f8fafc" stroke="#0f172a" strokeWidth={0.6} paintOrder="stroke">
+                  {player.name}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {isPreviewing ? (
+        <>
+          <span className="absolute top-1 right-1 px-1 rounded bg-slate-900/80 text-[10px] font-mono text-slate-300">
+            {previewTick >= tick ? '+' : '-'}{(Math.abs(previewTick - tick) / tickRate).toFixed(1)}s
+          </span>
+          <div className="absolute bottom-0 left-0 right-0 h-1 bg-slate-800">
+            <div className="h-full bg-orange-500" style={{ width: `${((previewTick - previewStart) / (previewEnd - previewStart)) * 100}%` }} />
+            {/* Incident moment */}
+            <div className="absolute top-0 h-full w-0.5 bg-white" style={{ left: `${((tick - previewStart) / (previewEnd - previewStart)) * 100}%` }} />
+          </div>
+        </>
+      ) : (
+        <Play size={10} className="absolute bottom-1 right-1 text-slate-400" />
+      )}
+    </div>
+  );
+};
+
+export default IncidentMiniMap;
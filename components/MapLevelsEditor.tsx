@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Plus, Trash2, Upload } from 'lucide-react';
+import { MapLevel } from '../constants';
+import { getMapImageUrlsInUse, revokeUnusedObjectUrls, useDemoStore } from '../store/useDemoStore';
+
+interface MapLevelsEditorProps {
+  mapName: string;
+  levels: MapLevel[];
+  isCustom: boolean; // levels come from the user, not MapConfig
+  onSave: (levels: MapLevel[]) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+interface LevelDraft {
+  name: string;
+  imageUrl: string;
+  minZ: string; // Empty for the bottom level
+}
+
+/**
+ * Turn drafts into levels: sorted top to bottom by minZ, each level ends where the one above starts
+ */
+const draftsToLevels = (drafts: LevelDraft[]): MapLevel[] => {
+  const sorted = [...drafts].sort((a, b) => {
+    const aZ = a.minZ === '' ? -Infinity : Number(a.minZ);
+    const bZ = b.minZ === '' ? -Infinity : Number(b.minZ);
+    return bZ - aZ;
+  });
+  return sorted.map((draft, index) => {
+    const minZ = draft.minZ === '' || index === sorted.length - 1 ? undefined : Number(draft.minZ);
+    const above = sorted[index - 1];
+    const maxZ = above && above.minZ !== '' ? Number(above.minZ) : undefined;
+    return { name: draft.name || `Level ${index + 1}`, imageUrl: draft.imageUrl, minZ, maxZ };
+  });
+};
+
+/**
+ * Popover for defining a map's levels (name, radar image, Z where the level starts).
+ * Used for maps without a levels config, or to override it for this session.
+ */
+const MapLevelsEditor: React.FC<MapLevelsEditorProps> = ({ mapName, levels, isCustom, onSave, onReset, onClose }) => {
+  const [drafts, setDrafts] = useState<LevelDraft[]>(() =>
+    levels.map(level => ({
+      name: level.name,
+      imageUrl: level.imageUrl,
+      minZ: level.minZ !== undefined ? String(level.minZ) : ''
+    }))
+  );
+
+  const createdUrlsRef = useRef<Set<string>>(new Set()); // Object URLs of images chosen in this editor
+
+  // Closing the editor: release the chosen images that did not end up in the saved levels
+  useEffect(() => () => {
+    revokeUnusedObjectUrls(createdUrlsRef.current, getMapImageUrlsInUse(useDemoStore.getState()));
+  }, []);
+
+  const updateDraft = (index: number, changes: Partial<LevelDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleImageUpload = (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      // Replacing an image chosen earlier in this editor: release it unless another level uses it too
+      const previousUrl = drafts[index].imageUrl;
+      const isShared = drafts.some((draft, i) => i !== index && draft.imageUrl === previousUrl);
+      if (createdUrlsRef.current.has(previousUrl) && !isShared) {
+        createdUrlsRef.current.delete(previousUrl);
+        URL.revokeObjectURL(previousUrl);
+      }
+      const url = URL.createObjectURL(file);
+      createdUrlsRef.current.add(url);
+      updateDraft(index, { imageUrl: url });
+    }
+  };
+
+  const addLevel = () => {
+    setDrafts(prev => [...prev, { name: `Level ${prev.length + 1}`, imageUrl: prev[0]?.imageUrl || '', minZ: '' }]);
+  };
+
+  // Every level but the bottom one needs a start Z
+  const missingZ = drafts.filter(draft => draft.minZ === '' || isNaN(Number(draft.minZ))).length > 1;
+
+  return (
+    <div
+      className="absolute top-12 left-1/2 -translate-x-1/2 z-20 w-96 bg-slate-900/95 rounded-lg border border-slate-700 backdrop-blur-sm shadow-xl"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-700">
+        <span className="text-xs font-semibold text-slate-200">Levels - {mapName}</span>
+        <button onClick={onClose} className="text-slate-400 hover:text-white" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="p-3 flex flex-col gap-2">
+        {drafts.map((draft, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              value={draft.name}
+              onChange={(e) => updateDraft(index, { name: e.target.value })}
+              className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+              placeholder="Name"
+            />
+            <input
+              type="number"
+              value={draft.minZ}
+              onChange={(e) => updateDraft(index, { minZ: e.target.value })}
+              className="w-24 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono"
+              placeholder="Bottom"
+              title="Z where this level starts (leave empty for the bottom level)"
+            />
+            <label
+              className="p-1.5 rounded border border-slate-700 text-slate-300 hover:bg-slate-800 cursor-pointer"
+              title={draft.imageUrl ? `Radar image: ${draft.imageUrl}` : 'Choose radar image'}
+            >
+              <Upload size={12} />
+              <input type="file" accept="image/*" className="hidden" onChange={(e) => handleImageUpload(index, e)} />
+            </label>
+            <button
+              onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+              disabled={drafts.length <= 1}
+              className="p-1.5 rounded border border-slate-700 text-slate-400 hover:text-red-400 disabled:opacity-30"
+              title="Remove level"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+
+        <button
+          onClick={addLevel}
+          className="flex items-center gap-1 self-start text-xs text-slate-300 hover:text-white"
+        >
+          <Plus size={12} />
+          Add level
+        </button>
+        {missingZ && (
+          <span className="text-[11px] text-amber-400">Every level except the bottom one needs a start Z.</span>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between px-3 py-2 border-t border-slate-700">
+        <button
+          onClick={onReset}
+          disabled={!isCustom}
+          className="text-xs text-slate-400 hover:text-white disabled:opacity-30"
+        >
+          Reset to defaults
+        </button>
+        <button
+          onClick={() => onSave(draftsToLevels(drafts))}
+          disabled={missingZ}
+          className="px-3 py-1 rounded bg-orange-500 hover:bg-orange-600 text-white text-xs font-medium disabled:opacity-40"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MapLevelsEditor;
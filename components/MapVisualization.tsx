@@ -1,131 +1,34 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { getMapConfig, TEAM_COLORS } from '../constants';
-import { Image as ImageIcon, Bomb, WifiOff } from 'lucide-react';
+import { getMapConfig, getMapLevels, getLevelIndexForZ, TEAM_COLORS, GRENADE_COLORS } from '../constants';
+import { Image as ImageIcon, Bomb, WifiOff, ZoomIn, ZoomOut, Maximize, LocateFixed, Scan, Eye, Crosshair, Layers, FileUp, Trash2 } from 'lucide-react';
 import { useDemoStore } from '../store/useDemoStore';
-import { Team, MatchFrame, PlayerState } from '../types';
+import { Team, Grenade, Vector2 } from '../types';
+import { HeadshotIcon } from './CustomIcons';
+import MapLevelsEditor from './MapLevelsEditor';
+import { importOverviewFiles, deleteImportedMapConfig } from '../services/mapOverviews';
+import { getRoundState, getRecentKills, formatClock, getInterpolatedFrame } from '../services/replayState';
+import { findFrameIndexAtTick } from '../services/frameStore';
+import { useMapCamera, CameraPoint } from '../hooks/useMapCamera';
+import {
+  HEADING_LENGTH,
+  MUZZLE_FLASH_DISTANCE,
+  getAimRays,
+  getBombMarker,
+  getFiringPlayerIds,
+  getGrenadeShape,
+  getPlayerMarkerStyle,
+  getViewConePolygon,
+  pointAlongYaw
+} from '../services/radarDrawing';
+
+const OTHER_LEVEL_OPACITY = 0.25; // Players/grenades on a level other than the one shown
+const FOCUS_SECONDS_BEFORE = 5; // Camera fit covers where the involved players were this long before the incident
 
 const MapVisualization: React.FC = () => {
-  const { demoFile, selectedPlayerId, currentTick, targetTick, isPlaying } = useDemoStore();
+  const { demoFile, selectedPlayerId, highlightedPlayerIds, cameraFocus, currentTick, targetTick, isPlaying, fovMode, fovPlayerIds, showAimRays, setFovMode, setShowAimRays, customMapLevels, setCustomMapLevels, importedMapConfigs, setImportedMapConfig } = useDemoStore();
+  const containerRef = React.useRef<HTMLDivElement>(null);
   const mapName = demoFile?.mapName || 'de_unknown';
   
-  // Generate intermediate frame during playback for smooth movement
-  const generateIntermediateFrame = (targetTick: number, frames: MatchFrame[], tickRate: number): MatchFrame | null => {
-    if (frames.length === 0) return null;
-    
-    // Find the two frames to interpolate between
-    let frameA: MatchFrame | null = null;
-    let frameB: MatchFrame | null = null;
-    
-    // Binary search to find the frame with tick <= targetTick
-    let left = 0;
-    let right = frames.length - 1;
-    let closestIndex = 0;
-    
-    while (left <= right) {
-      const mid = Math.floor((left + right) / 2);
-      if (frames[mid].tick <= targetTick) {
-        closestIndex = mid;
-        left = mid + 1;
-      } else {
-        right = mid - 1;
-      }
-    }
-    
-    frameA = frames[closestIndex];
-    
-    // Find frame B (the next frame after targetTick)
-    if (closestIndex < frames.length - 1) {
-      frameB = frames[closestIndex + 1];
-    } else {
-      // We're at or past the last frame
-      return frameA;
-    }
-    
-    // If targetTick is exactly at frameA, return it
-    if (targetTick <= frameA.tick) {
-      return frameA;
-    }
-    
-    // If targetTick is at or past frameB, return frameB
-    if (targetTick >= frameB.tick) {
-      return frameB;
-    }
-    
-    // Calculate interpolation factor
-    const tickDiff = frameB.tick - frameA.tick;
-    if (tickDiff === 0) return frameA;
-    
-    const interpolationFactor = (targetTick - frameA.tick) / tickDiff;
-    
-    // Create a map of all players from both frames to handle players that might appear/disappear
-    const allPlayerIds = new Set<number>();
-    frameA.players.forEach(p => allPlayerIds.add(p.id));
-    frameB.players.forEach(p => allPlayerIds.add(p.id));
-    
-    // Create intermediate frame with interpolated players
-    const interpolatedPlayers: PlayerState[] = [];
-    
-    for (const playerId of allPlayerIds) {
-      const playerA = frameA.players.find(p => p.id === playerId);
-      const playerB = frameB.players.find(p => p.id === playerId);
-      
-      // If player only exists in one frame, use that frame's data
-      if (!playerA && playerB) {
-        interpolatedPlayers.push(playerB);
-        continue;
-      }
-      if (playerA && !playerB) {
-        interpolatedPlayers.push(playerA);
-        continue;
-      }
-      
-      // Both players exist - interpolate
-      if (playerA && playerB) {
-        // Interpolate position
-        const interpolatedX = playerA.position.x + 
-          (playerB.position.x - playerA.position.x) * interpolationFactor;
-        const interpolatedY = playerA.position.y + 
-          (playerB.position.y - playerA.position.y) * interpolationFactor;
-        const interpolatedZ = playerA.position.z !== undefined && playerB.position.z !== undefined
-          ? playerA.position.z + (playerB.position.z - playerA.position.z) * interpolationFactor
-          : playerB.position.z;
-        
-        // Interpolate view angle (handle 360° wrap-around)
-        let angleDiff = playerB.viewAngle - playerA.viewAngle;
-        if (angleDiff > 180) angleDiff -= 360;
-        if (angleDiff < -180) angleDiff += 360;
-        const interpolatedAngle = (playerA.viewAngle + angleDiff * interpolationFactor + 360) % 360;
-        
-        // Interpolate HP (round to nearest integer)
-        const interpolatedHp = Math.round(playerA.hp + (playerB.hp - playerA.hp) * interpolationFactor);
-        
-        // Use playerB's properties but with interpolated values
-        // Keep shotsFired from playerB (most recent value) for accurate muzzle flash detection
-        interpolatedPlayers.push({
-          ...playerB,
-          hp: interpolatedHp,
-          position: {
-            x: interpolatedX,
-            y: interpolatedY,
-            ...(interpolatedZ !== undefined && { z: interpolatedZ })
-          },
-          viewAngle: interpolatedAngle,
-          shotsFired: playerB.shotsFired // Keep most recent shotsFired value
-        });
-      }
-    }
-    
-    // Get events from the closest frame (frameA)
-    const events = frameA.events;
-    
-    return {
-      tick: targetTick,
-      time: targetTick / tickRate,
-      players: interpolatedPlayers,
-      events
-    };
-  };
-  
   // Track animation frame for smooth 60fps updates (must be defined before currentFrame)
   const [animationFrame, setAnimationFrame] = React.useState(0);
   
@@ -142,7 +45,7 @@ const MapVisualization: React.FC = () => {
     }
     
     // Generate intermediate frame - this will be called every frame for smooth movement
-    return generateIntermediateFrame(targetTick, demoFile.frames, demoFile.tickRate);
+    return getInterpolatedFrame(demoFile.frames, targetTick, demoFile.tickRate);
   }, [demoFile, currentTick, targetTick, animationFrame]);
   
   // Force re-render at 60fps for smooth playback - ALWAYS run when demoFile exists
@@ -166,7 +69,7 @@ const MapVisualization: React.FC = () => {
     };
   }, [demoFile]);
   
-  // Get players from the interpolated frame (already interpolated in generateIntermediateFrame)
+  // Get players from the interpolated frame (already interpolated in getInterpolatedFrame)
   const players = useMemo(() => {
     if (!currentFrame) return [];
     return currentFrame.players;
@@ -175,14 +78,40 @@ const MapVisualization: React.FC = () => {
   // Track if we've logged coordinates for debugging (only once per player)
   const loggedCoordinatesRef = React.useRef<Set<number>>(new Set());
   
-  // Get recent kill events (last 5 kills)
+  // Kill feed: kills of the last few seconds, most recent first
+  const displayTick = currentFrame?.tick;
   const recentKills = useMemo(() => {
+    if (!demoFile || displayTick === undefined) return [];
+    return getRecentKills(demoFile, displayTick);
+  }, [demoFile, displayTick]);
+
+  // Players drawn with a view cone
+  const fovPlayers = useMemo(() => {
     if (!currentFrame) return [];
-    return currentFrame.events
-      .filter(e => e.type === 'kill')
-      .slice(-5)
-      .reverse(); // Most recent first
-  }, [currentFrame]);
+    return currentFrame.players.filter(player => {
+      if (!player.isAlive) return false;
+      if (fovMode === 'all' || fovPlayerIds.includes(player.id)) return true;
+      return fovMode === 'involved' && (player.id === selectedPlayerId || highlightedPlayerIds.includes(player.id));
+    });
+  }, [currentFrame, fovMode, fovPlayerIds, selectedPlayerId, highlightedPlayerIds]);
+
+  // Aim rays: attacker position/yaw and victim position at the tick of recent damage/kill events
+  const aimRays = useMemo(() => {
+    if (!demoFile || !showAimRays || displayTick === undefined) return [];
+    return getAimRays(demoFile, displayTick);
+  }, [demoFile, showAimRays, displayTick]);
+
+  // Kill events don't carry teams, so look them up in the displayed frame
+  const teamColorOf = (team: Team | undefined, playerId: number | undefined) => {
+    const resolved = team ?? currentFrame?.players.find(p => p.id === playerId)?.team;
+    return resolved ? TEAM_COLORS[resolved] : undefined;
+  };
+
+  // Round clock, planted bomb and score at the displayed tick
+  const roundState = useMemo(() => {
+    if (!demoFile || displayTick === undefined) return null;
+    return getRoundState(demoFile, displayTick);
+  }, [demoFile, displayTick]);
   
   // Get recent chat messages (last 5 messages)
   const recentChat = useMemo(() => {
@@ -193,107 +122,91 @@ const MapVisualization: React.FC = () => {
       .reverse(); // Most recent first
   }, [currentFrame]);
   
-  // Track previous frame and active muzzle flashes
-  const previousFrameRef = React.useRef<MatchFrame | null>(null);
-  const activeMuzzleFlashesRef = React.useRef<Map<number, number>>(new Map()); // playerId -> tick when fired
-  
-  // Detect players who just fired (shots_fired increased) and maintain active flashes
+  // Players who fired in the last few ticks (muzzle flash)
   const playersWhoFired = useMemo(() => {
-    if (!currentFrame) {
-      return new Set<number>();
-    }
-    
-    const firedPlayerIds = new Set<number>();
-    const currentTick = currentFrame.tick;
-    
-    // Compare current frame with previous frame to detect shots_fired increases
-    if (previousFrameRef.current) {
-      currentFrame.players.forEach(currentPlayer => {
-        const prevPlayer = previousFrameRef.current!.players.find(p => p.id === currentPlayer.id);
-        
-        if (prevPlayer && 
-            currentPlayer.shotsFired !== undefined && 
-            prevPlayer.shotsFired !== undefined &&
-            currentPlayer.shotsFired > prevPlayer.shotsFired) {
-          // Player fired a shot (shots_fired increased)
-          firedPlayerIds.add(currentPlayer.id);
-          // Track when this player fired (for persistent flash)
-          activeMuzzleFlashesRef.current.set(currentPlayer.id, currentTick);
-        }
-      });
-    }
-    
-    // Keep muzzle flashes active for a few ticks (about 0.1 seconds at 64 tick rate = ~6 ticks)
-    const flashDurationTicks = 6;
-    for (const [playerId, fireTick] of activeMuzzleFlashesRef.current.entries()) {
-      if (currentTick - fireTick <= flashDurationTicks) {
-        firedPlayerIds.add(playerId);
-      } else {
-        // Remove old flashes
-        activeMuzzleFlashesRef.current.delete(playerId);
-      }
-    }
-    
-    // Update previous frame reference
-    previousFrameRef.current = currentFrame;
-    
-    return firedPlayerIds;
-  }, [currentFrame]);
+    if (!demoFile || displayTick === undefined) return new Set<number>();
+    return getFiringPlayerIds(demoFile, displayTick);
+  }, [demoFile, displayTick]);
   
-  // Use useMemo to resolve the map config only when mapName changes
-  const mapConfig = useMemo(() => getMapConfig(mapName), [mapName]);
+  // Use useMemo to resolve the map config only when mapName (or the imported overviews) change
+  const mapConfig = useMemo(() => getMapConfig(mapName, importedMapConfigs), [mapName, importedMapConfigs]);
+  // Key of the imported overview in use, if any
+  const importedMapKey = Object.keys(importedMapConfigs).find(key => importedMapConfigs[key] === mapConfig) ?? null;
+  const [overviewError, setOverviewError] = useState<string | null>(null);
+  const [overviewWarning, setOverviewWarning] = useState<string | null>(null); // Imported with unsupported settings
   
-  // Allow overriding the image URL via upload for this session
-  const [customImageUrl, setCustomImageUrl] = useState<string | null>(null);
+  // Levels (floors) of the map: user-defined ones for this session win over MapConfig
+  const levels = useMemo(() => customMapLevels[mapName] ?? getMapLevels(mapConfig), [customMapLevels, mapName, mapConfig]);
+  const hasMultipleLevels = levels.length > 1;
+  const [activeLevelIndex, setActiveLevelIndex] = useState(0);
+  const [isLevelsEditorOpen, setIsLevelsEditorOpen] = useState(false);
   
-  // Reset custom image when map changes
+  // Allow overriding the image of a level via upload for this session
+  const [customImageUrls, setCustomImageUrls] = useState<Record<number, string>>({});
+  
+  // Reset custom images and level when map changes
   useEffect(() => {
-    setCustomImageUrl(null);
+    setCustomImageUrls({});
+    setActiveLevelIndex(0);
   }, [mapName]);
-
-  // Check if this map has multiple floors (like Vertigo)
-  const hasMultipleFloors = mapConfig.imageUrls && mapConfig.imageUrls.length > 1;
-  const imageUrls = hasMultipleFloors ? mapConfig.imageUrls! : [customImageUrl || mapConfig.imageUrl];
+  
+  // Level list can shrink when custom levels are edited
+  const activeLevel = levels[Math.min(activeLevelIndex, levels.length - 1)];
+  const activeLevelImageUrl = customImageUrls[activeLevelIndex] || activeLevel.imageUrl;
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       const url = URL.createObjectURL(file);
-      setCustomImageUrl(url);
+      setCustomImageUrls(prev => ({ ...prev, [activeLevelIndex]: url }));
+    }
+  };
+
+  // Radar overview .txt + radar image(s) picked together
+  const handleOverviewImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = ''; // Allow re-importing the same files
+    if (files.length === 0) return;
+    try {
+      const { mapName: importedName, config, warning } = await importOverviewFiles(files);
+      setImportedMapConfig(importedName, config);
+      setCustomImageUrls({});
+      setActiveLevelIndex(0);
+      setOverviewError(null);
+      setOverviewWarning(warning ?? null);
+    } catch (err) {
+      console.error('Failed to import map overview:', err);
+      setOverviewError(err instanceof Error ? err.message : 'Failed to import map overview');
     }
   };
 
-  // Determine which floor a player is on based on Z coordinate
-  // For Vertigo, typically Z > ~200 is upper floor, Z < ~200 is lower floor
-  const getPlayerFloor = (playerZ?: number): number => {
-    if (!hasMultipleFloors || playerZ === undefined) return 0;
-    // Vertigo: upper floor is typically around Z > 200, lower floor is Z < 200
-    // Adjust threshold as needed based on actual map data
-    return playerZ > 200 ? 0 : 1; // 0 = upper, 1 = lower
+  const handleRemoveOverview = async () => {
+    if (!importedMapKey) return;
+    try {
+      await deleteImportedMapConfig(importedMapKey);
+    } catch (err) {
+      console.warn('Could not delete imported map overview:', err);
+    }
+    setImportedMapConfig(importedMapKey, null);
+    setActiveLevelIndex(0);
+    setOverviewWarning(null);
   };
+
+  // Level an entity is on, from its Z coordinate
+  const getLevelIndex = (z?: number): number => getLevelIndexForZ(levels, z);
+  const isOnOtherLevel = (z?: number) => hasMultipleLevels && getLevelIndex(z) !== activeLevelIndex;
   
   // Convert world coordinates to SVG coordinates
   // Note: In CS2, Y increases upward, but in SVG/images, Y increases downward
-  // For multi-floor maps, we need to transform coordinates relative to each floor's viewport
-  const worldToSvg = (worldX: number, worldY: number, playerZ?: number) => {
-    // Determine which floor this player is on
-    const floorIndex = getPlayerFloor(playerZ);
-    
+  // All levels share the same radar bounds, so Z only decides the level (see getLevelIndex)
+  const worldToSvg = (worldX: number, worldY: number) => {
     // Calculate map dimensions
     const mapWidth = mapConfig.maxX - mapConfig.minX;
     const mapHeight = mapConfig.maxY - mapConfig.minY;
     
     // Calculate X position as percentage of map width (0-100%)
     // Normalize: (worldX - minX) / mapWidth gives us 0-1, then * 100 for percentage
-    let svgX = ((worldX - mapConfig.minX) / mapWidth) * 100;
-    
-    // For multi-floor maps, adjust X position to account for side-by-side display
-    if (hasMultipleFloors && imageUrls.length > 1) {
-      // Each floor image takes up equal portion of the total width
-      const floorWidth = 100 / imageUrls.length; // 50% for 2 floors
-      // Scale the X coordinate to fit within the floor's viewport
-      svgX = (svgX / 100) * floorWidth + (floorIndex * floorWidth);
-    }
+    const svgX = ((worldX - mapConfig.minX) / mapWidth) * 100;
     
     // Calculate Y position (invert Y axis: world Y increases up, SVG Y increases down)
     // Normalize: (worldY - minY) / mapHeight gives us 0-1
@@ -307,37 +220,178 @@ const MapVisualization: React.FC = () => {
     };
   };
 
+  // Screen point in the player's view direction (converted in world space, so the map's Y flip is handled)
+  const yawPointToSvg = (position: Vector2, yawDegrees: number, distance: number) => {
+    const point = pointAlongYaw(position, yawDegrees, distance);
+    return worldToSvg(point.x, point.y);
+  };
+
+  // Grenades in flight or with an active effect at the current (interpolated) tick
+  const activeGrenades = useMemo(() => {
+    const grenades = demoFile?.grenades;
+    if (!grenades || !currentFrame) return [];
+    const tick = currentFrame.tick;
+    return grenades.filter(grenade => grenade.throwTick <= tick && tick <= grenade.effectEndTick);
+  }, [demoFile, currentFrame]);
+
+  // World units -> SVG units (the viewBox is stretched, so x and y scale differently)
+  const worldRadiusToSvg = (radius: number) => {
+    return {
+      rx: (radius / (mapConfig.maxX - mapConfig.minX)) * 100,
+      ry: (radius / (mapConfig.maxY - mapConfig.minY)) * 100
+    };
+  };
+
+  const renderGrenade = (grenade: Grenade, tick: number) => {
+    const shape = getGrenadeShape(grenade, tick);
+    if (!shape) return null;
+    const color = GRENADE_COLORS[grenade.type];
+
+    // In flight: the path so far plus the projectile
+    if (shape.kind === 'flight') {
+      const svgPoints = shape.path.map(point => worldToSvg(point.x, point.y));
+      const projectile = svgPoints[svgPoints.length - 1];
+      return (
+        <g key={`grenade-${grenade.id}`} className="pointer-events-none">
+          <polyline
+            points={svgPoints.map(point => `${point.x},${point.y}`).join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth="0.15"
+            strokeDasharray="0.6 0.4"
+            opacity="0.7"
+          />
+          <circle cx={projectile.x} cy={projectile.y} r="0.5" fill={color} stroke="#000000" strokeWidth="0.1" />
+        </g>
+      );
+    }
+
+    // Detonated: the effect (size and fade-out come from getGrenadeShape)
+    const center = worldToSvg(shape.center.x, shape.center.y);
+    const { rx, ry } = worldRadiusToSvg(shape.radius);
+
+    switch (grenade.type) {
+      case 'smoke':
+        return (
+          <g key={`grenade-${grenade.id}`} className="pointer-events-none">
+            <ellipse cx={center.x} cy={center.y} rx={rx} ry={ry} fill={color} opacity={shape.opacity} />
+          </g>
+        );
+      case 'molotov':
+        return (
+          <g key={`grenade-${grenade.id}`} className="pointer-events-none">
+            <ellipse cx={center.x} cy={center.y} rx={rx} ry={ry} fill={color} stroke="#ef4444" strokeWidth="0.15" opacity={shape.opacity} />
+          </g>
+        );
+      case 'flash':
+        return (
+          <g key={`grenade-${grenade.id}`} className="pointer-events-none">
+            <ellipse cx={center.x} cy={center.y} rx={rx} ry={ry} fill={color} opacity={shape.opacity} />
+          </g>
+        );
+      case 'he':
+        return (
+          <g key={`grenade-${grenade.id}`} className="pointer-events-none">
+            <ellipse cx={center.x} cy={center.y} rx={rx} ry={ry} fill="#f97316" stroke={color} strokeWidth="0.2" opacity={shape.opacity} />
+          </g>
+        );
+      case 'decoy':
+        return (
+          <g key={`grenade-${grenade.id}`} className="pointer-events-none">
+            <circle cx={center.x} cy={center.y} r="0.6" fill={color} stroke="#000000" strokeWidth="0.1" opacity={shape.opacity} />
+          </g>
+        );
+    }
+  };
+
+  // Camera: follow keeps the selected player centered
+  const followTarget = useMemo<CameraPoint | null>(() => {
+    const player = currentFrame?.players.find(p => p.id === selectedPlayerId);
+    return player ? worldToSvg(player.position.x, player.position.y) : null;
+  }, [currentFrame, selectedPlayerId, mapConfig]);
+  const camera = useMapCamera(containerRef, followTarget);
+
+  // While following, show the level the followed player is on
+  const followedLevelIndex = useMemo(() => {
+    const player = currentFrame?.players.find(p => p.id === selectedPlayerId);
+    return player ? getLevelIndexForZ(levels, player.position.z) : null;
+  }, [currentFrame, selectedPlayerId, levels]);
+  useEffect(() => {
+    if (camera.isFollowing && followedLevelIndex !== null) {
+      setActiveLevelIndex(followedLevelIndex);
+    }
+  }, [camera.isFollowing, followedLevelIndex]);
+
+  // A new demo starts with the whole map in view
+  useEffect(() => {
+    camera.reset();
+  }, [demoFile, camera.reset]);
+
+  // Positions of players from a while before the tick up to it (what an incident view should show)
+  const getPlayerPositionsAround = (tick: number, playerIds: number[]): CameraPoint[] => {
+    if (!demoFile || demoFile.frames.length === 0) return [];
+    const frames = demoFile.frames;
+    const points: CameraPoint[] = [];
+    const startIndex = findFrameIndexAtTick(frames, tick - FOCUS_SECONDS_BEFORE * demoFile.tickRate);
+    const endIndex = findFrameIndexAtTick(frames, tick);
+    for (let i = startIndex; i <= endIndex; i++) {
+      for (const player of frames[i].players) {
+        if (playerIds.includes(player.id) && player.isAlive) {
+          points.push(worldToSvg(player.position.x, player.position.y));
+        }
+      }
+    }
+    return points;
+  };
+
+  // Fit to the involved players whenever an incident is watched/jumped to
+  useEffect(() => {
+    if (!cameraFocus) return;
+    camera.fitTo(getPlayerPositionsAround(cameraFocus.tick, cameraFocus.playerIds));
+  }, [cameraFocus?.id]);
+
+  const handleFitToHighlighted = () => {
+    const ids = highlightedPlayerIds.length > 0 ? highlightedPlayerIds : (selectedPlayerId !== null ? [selectedPlayerId] : []);
+    if (currentFrame && ids.length > 0) {
+      camera.fitTo(getPlayerPositionsAround(currentFrame.tick, ids));
+    }
+  };
+
+  const handleToggleFollow = () => {
+    if (!camera.isFollowing && camera.zoom < 2) {
+      camera.zoomBy(3 / camera.zoom); // Following at full-map zoom wouldn't move anything
+    }
+    camera.setIsFollowing(!camera.isFollowing);
+  };
+
+  // Keeps player/bomb icons at their normal on-screen size while zoomed in
+  const counterScale = (x: number, y: number) =>
+    camera.zoom === 1 ? undefined : `translate(${x} ${y}) scale(${1 / camera.zoom}) translate(${-x} ${-y})`;
+
   const handlePlayerClick = (playerId: number) => {
     useDemoStore.setState({ selectedPlayerId: playerId });
   };
 
   return (
-    <div className="relative w-full h-full bg-slate-950 rounded-lg overflow-hidden border border-slate-800">
-      {/* Map Images - Side by side for multi-floor maps */}
+    <div
+      ref={containerRef}
+      className="relative w-full h-full bg-slate-950 rounded-lg overflow-hidden border border-slate-800"
+      style={{ cursor: camera.zoom > 1 ? 'grab' : undefined }}
+      onMouseDown={camera.onMouseDown}
+      onClickCapture={camera.onClickCapture}
+    >
+      {/* Zoom/pan camera: map images and the SVG overlay move together */}
+      <div className="absolute inset-0" style={{ transform: camera.transform, transformOrigin: '0 0' }}>
+      {/* Map Image of the active level */}
       <div className="absolute inset-0 flex">
-        {imageUrls.map((imageUrl, floorIndex) => (
-          <img 
-            key={floorIndex}
-            src={imageUrl} 
-            alt={`${mapName} ${floorIndex === 0 ? 'Upper' : 'Lower'}`}
-            className={`object-contain opacity-90 ${hasMultipleFloors ? 'w-1/2' : 'w-full'}`}
-            style={{ height: '100%' }}
-            draggable={false}
-          />
-        ))}
+        <img 
+          src={activeLevelImageUrl} 
+          alt={hasMultipleLevels ? `${mapName} ${activeLevel.name}` : mapName}
+          className="object-contain opacity-90 w-full"
+          style={{ height: '100%' }}
+          draggable={false}
+        />
       </div>
-      
-      {/* Floor Labels for multi-floor maps */}
-      {hasMultipleFloors && (
-        <div className="absolute top-2 left-1/2 transform -translate-x-1/2 z-10 flex gap-4">
-          <div className="px-3 py-1 bg-slate-900/90 rounded border border-slate-700 backdrop-blur-sm text-xs text-slate-300">
-            Upper Floor
-          </div>
-          <div className="px-3 py-1 bg-slate-900/90 rounded border border-slate-700 backdrop-blur-sm text-xs text-slate-300">
-            Lower Floor
-          </div>
-        </div>
-      )}
 
       {/* SVG Overlay for Players */}
       <svg 
@@ -345,6 +399,93 @@ const MapVisualization: React.FC = () => {
         viewBox="0 0 100 100"
         preserveAspectRatio="none"
       >
+        {/* Grenades (below the players) */}
+        {currentFrame && activeGrenades.map(grenade => (
+          <g key={`grenade-level-${grenade.id}`} opacity={isOnOtherLevel(grenade.position.z) ? OTHER_LEVEL_OPACITY : 1}>
+            {renderGrenade(grenade, currentFrame.tick)}
+          </g>
+        ))}
+
+        {/* View cones (world scale, not counter-scaled) */}
+        {fovPlayers.map(player => {
+          const points = getViewConePolygon(player).map(point => {
+            const { x, y } = worldToSvg(point.x, point.y);
+            return `${x},${y}`;
+          });
+          return (
+            <polygon
+              key={`fov-${player.id}`}
+              opacity={isOnOtherLevel(player.position.z) ? OTHER_LEVEL_OPACITY : 1}
+              points={points.join(' ')}
+              fill={TEAM_COLORS[player.team]}
+              fillOpacity="0.12"
+              stroke={TEAM_COLORS[player.team]}
+              strokeOpacity="0.4"
+              strokeWidth="0.1"
+              className="pointer-events-none"
+            />
+          );
+        })}
+
+        {/* Aim rays: where the attacker was looking vs. where the victim was */}
+        {aimRays.map(ray => {
+          const from = worldToSvg(ray.attacker.position.x, ray.attacker.position.y);
+          const to = worldToSvg(ray.victim.position.x, ray.victim.position.y);
+          const aimEnd = worldToSvg(ray.aimEnd.x, ray.aimEnd.y);
+          const { color, opacity } = ray;
+          return (
+            <g key={`ray-${ray.key}`} className="pointer-events-none" opacity={isOnOtherLevel(ray.attacker.position.z) ? opacity * OTHER_LEVEL_OPACITY : opacity}>
+              <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke={color} strokeWidth="0.1" strokeDasharray="0.4 0.4" opacity="0.6" />
+              <line x1={from.x} y1={from.y} x2={aimEnd.x} y2={aimEnd.y} stroke={color} strokeWidth={ray.isKill ? 0.3 : 0.2} />
+              <text
+                x={aimEnd.x}
+                y={aimEnd.y - 0.8}
+                textAnchor="middle"
+                fill={color}
+                fontSize="1.4"
+                fontWeight="bold"
+                stroke="#000000"
+                strokeWidth="0.06"
+                className="select-none"
+              >
+                {`${ray.offsetDegrees.toFixed(0)}° off`}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Planted bomb (below the players, above the grenades) */}
+        {(() => {
+          const bomb = getBombMarker(roundState?.bomb ?? null);
+          if (!bomb) return null;
+          const { x, y } = worldToSvg(bomb.position.x, bomb.position.y);
+          const color = bomb.color;
+          return (
+            <g className="pointer-events-none" transform={counterScale(x, y)} opacity={isOnOtherLevel(bomb.position.z) ? OTHER_LEVEL_OPACITY : 1}>
+              {bomb.isTicking && (
+                <circle cx={x} cy={y} r="2" fill="none" stroke={color} strokeWidth="0.2">
+                  <animate attributeName="r" values="1.2;2.4;1.2" dur="1s" repeatCount="indefinite" />
+                  <animate attributeName="opacity" values="0.9;0.2;0.9" dur="1s" repeatCount="indefinite" />
+                </circle>
+              )}
+              <rect x={x - 0.9} y={y - 0.6} width="1.8" height="1.2" rx="0.2" fill={color} stroke="#000000" strokeWidth="0.15" />
+              <text
+                x={x}
+                y={y - 1.2}
+                textAnchor="middle"
+                fill="#ffffff"
+                fontSize="1.6"
+                fontWeight="bold"
+                stroke="#000000"
+                strokeWidth="0.08"
+                className="select-none"
+              >
+                {bomb.label}
+              </text>
+            </g>
+          );
+        })()}
+
         {players
           .filter((player) => {
             // Filter out players with invalid positions (0,0 or outside map bounds)
@@ -362,13 +503,12 @@ const MapVisualization: React.FC = () => {
           .map((player) => {
           // Transform world coordinates to SVG coordinates (handles multi-floor automatically)
           // Use the interpolated position from the intermediate frame
-          const svgCoords = worldToSvg(player.position.x, player.position.y, player.position.z);
+          const svgCoords = worldToSvg(player.position.x, player.position.y);
           const x = svgCoords.x;
           const y = svgCoords.y;
-          const teamColor = TEAM_COLORS[player.team];
           const isSelected = player.id === selectedPlayerId;
-          const isDead = !player.isAlive;
-          const isDisconnected = player.isConnected === false;
+          const isHighlighted = isSelected || highlightedPlayerIds.includes(player.id); // Involved in the watched incident
+          const marker = getPlayerMarkerStyle(player, isSelected, isHighlighted);
           
           // Debug: Log coordinate transformation once per player when selected
           if (isSelected && !loggedCoordinatesRef.current.has(player.id)) {
@@ -379,20 +519,20 @@ const MapVisualization: React.FC = () => {
               mapConfig: { minX: mapConfig.minX, maxX: mapConfig.maxX, minY: mapConfig.minY, maxY: mapConfig.maxY },
               mapWidth: mapConfig.maxX - mapConfig.minX,
               mapHeight: mapConfig.maxY - mapConfig.minY,
-              floor: getPlayerFloor(player.position.z),
+              level: levels[getLevelIndex(player.position.z)]?.name,
               hasBomb: player.hasBomb
             });
           }
 
           return (
-            <g key={player.id}>
+            <g key={player.id} transform={counterScale(x, y)} opacity={isOnOtherLevel(player.position.z) ? OTHER_LEVEL_OPACITY : 1}>
               {/* Player Trail / Path (simplified) */}
-              {isSelected && (
+              {marker.haloRadius !== null && (
                 <circle
                   cx={x}
                   cy={y}
-                  r="1.5"
-                  fill={teamColor}
+                  r={marker.haloRadius}
+                  fill={marker.color}
                   opacity="0.3"
                   className="animate-pulse"
               />
@@ -402,12 +542,12 @@ const MapVisualization: React.FC = () => {
               <circle
                 cx={x}
                 cy={y}
-                r={isSelected ? "1.8" : "1.2"}
-                fill={isDead ? "#64748b" : (isDisconnected ? "#94a3b8" : teamColor)}
-                stroke={player.hasBomb ? "#ef4444" : (isSelected ? "#ffffff" : "#000000")}
-                strokeWidth={player.hasBomb ? "0.4" : (isSelected ? "0.3" : "0.2")}
-                opacity={isDead ? 0.5 : (isDisconnected ? 0.4 : 1)}
-                className={`cursor-pointer transition-all ${isDisconnected ? 'grayscale' : ''}`}
+                r={marker.radius}
+                fill={marker.fill}
+                stroke={marker.stroke}
+                strokeWidth={marker.strokeWidth}
+                opacity={marker.opacity}
+                className={`cursor-pointer transition-all ${marker.isDisconnected ? 'grayscale' : ''}`}
                 onClick={() => handlePlayerClick(player.id)}
                 style={{
                   filter: player.hasBomb 
@@ -417,7 +557,7 @@ const MapVisualization: React.FC = () => {
               />
 
               {/* Disconnected Indicator */}
-              {isDisconnected && !isDead && (
+              {marker.isDisconnected && (
                 <g transform={`translate(${x}, ${y})`}>
                     <circle
                     cx="0"
@@ -441,7 +581,7 @@ const MapVisualization: React.FC = () => {
               )}
 
               {/* Bomb Icon Indicator */}
-              {player.hasBomb && !isDead && (
+              {marker.showBombIcon && (
                 <g transform={`translate(${x}, ${y - 2.5})`}>
                   <circle
                     cx="0"
@@ -464,8 +604,8 @@ const MapVisualization: React.FC = () => {
                 </g>
               )}
 
-              {/* Player Name Label (only for selected player) */}
-              {isSelected && (
+              {/* Player Name Label (only for selected/highlighted players) */}
+              {marker.showName && (
                 <text
                   x={x}
                   y={y - 2.5}
@@ -483,51 +623,15 @@ const MapVisualization: React.FC = () => {
               )}
 
               {/* View Angle Indicator (line showing where player is looking) */}
-              {!isDead && (() => {
-                // Calculate position-based rotation adjustment if map config provides it
-                // This allows different areas of the map to have different rotation corrections
-                let positionRotationAdjustment = 0;
-                if (mapConfig.positionBasedRotation) {
-                  // Normalize position to 0-1 range
-                  const mapWidth = mapConfig.maxX - mapConfig.minX;
-                  const mapHeight = mapConfig.maxY - mapConfig.minY;
-                  const normalizedX = (player.position.x - mapConfig.minX) / mapWidth;
-                  const normalizedY = (player.position.y - mapConfig.minY) / mapHeight;
-                  
-                  // Call the map-specific position-based rotation function
-                  positionRotationAdjustment = mapConfig.positionBasedRotation(normalizedX, normalizedY);
-                }
-                
-                // Apply map-specific rotation offset
-                const baseRotationOffset = mapConfig.rotationOffset ?? 180; // Default to 180° if not specified
-                
-                // Combine base rotation offset with position-based adjustment
-                const rotationOffset = baseRotationOffset + positionRotationAdjustment;
-                
-                // Ensure viewAngle is valid (should be interpolated in generateIntermediateFrame)
-                const playerViewAngle = player.viewAngle !== undefined && !isNaN(player.viewAngle) 
-                  ? player.viewAngle 
-                  : 0;
-                
-                // Apply combined rotation offset
-                const adjustedAngle = (playerViewAngle + rotationOffset) % 360;
-                if (adjustedAngle < 0) adjustedAngle += 360;
-                const angleRad = adjustedAngle * Math.PI / 180;
-                
-                // Calculate line length (longer line for better visibility)
-                const lineLength = 3; // SVG units
-                
-                // Calculate end point of the line
-                const endX = x + Math.cos(angleRad) * lineLength;
-                const endY = y + Math.sin(angleRad) * lineLength;
-                
+              {marker.showHeading && (() => {
+                const end = yawPointToSvg(player.position, player.viewAngle, HEADING_LENGTH);
                 return (
                   <line
                     x1={x}
                     y1={y}
-                    x2={endX}
-                    y2={endY}
-                    stroke={teamColor}
+                    x2={end.x}
+                    y2={end.y}
+                    stroke={marker.color}
                     strokeWidth="0.2"
                     opacity="0.7"
                     className="pointer-events-none"
@@ -536,18 +640,11 @@ const MapVisualization: React.FC = () => {
               })()}
               
               {/* Muzzle Flash Indicator */}
-              {!isDead && playersWhoFired.has(player.id) && (() => {
-                const rotationOffset = mapConfig.rotationOffset ?? 180;
-                const playerViewAngle = player.viewAngle !== undefined && !isNaN(player.viewAngle) 
-                  ? player.viewAngle 
-                  : 0;
-                const adjustedAngle = (playerViewAngle + rotationOffset) % 360;
-                const angleRad = adjustedAngle * Math.PI / 180;
-                
+              {marker.showHeading && playersWhoFired.has(player.id) && (() => {
                 // Position muzzle flash slightly in front of player in the direction they're looking
-                const flashDistance = 1.5; // SVG units
-                const flashX = x + Math.cos(angleRad) * flashDistance;
-                const flashY = y + Math.sin(angleRad) * flashDistance;
+                const flash = yawPointToSvg(player.position, player.viewAngle, MUZZLE_FLASH_DISTANCE);
+                const flashX = flash.x;
+                const flashY = flash.y;
                 
                 return (
                   <g>
@@ -596,9 +693,106 @@ const MapVisualization: React.FC = () => {
           );
         })}
       </svg>
+      </div>
       
-      {/* Upload Custom Map Image Button */}
-      <div className="absolute top-2 right-2 z-10">
+      {/* Level switcher for multi-level maps (players on other levels are dimmed) */}
+      {hasMultipleLevels && (
+        <div className="absolute top-2 left-1/2 transform -translate-x-1/2 z-10 flex gap-1 p-1 bg-slate-900/90 rounded border border-slate-700 backdrop-blur-sm">
+          {levels.map((level, index) => (
+            <button
+              key={`${level.name}-${index}`}
+              onClick={() => setActiveLevelIndex(index)}
+              className={`px-3 py-1 rounded text-xs transition-colors ${index === activeLevelIndex ? 'bg-orange-500 text-white' : 'text-slate-300 hover:bg-slate-800'}`}
+            >
+              {level.name}
+            </button>
+          ))}
+        </div>
+      )}
+      
+      {isLevelsEditorOpen && (
+        <MapLevelsEditor
+          mapName={mapName}
+          levels={levels}
+          isCustom={Boolean(customMapLevels[mapName])}
+          onSave={(nextLevels) => {
+            setCustomMapLevels(mapName, nextLevels);
+            setActiveLevelIndex(0);
+            setCustomImageUrls({});
+            setIsLevelsEditorOpen(false);
+          }}
+          onReset={() => {
+            setCustomMapLevels(mapName, null);
+            setActiveLevelIndex(0);
+            setCustomImageUrls({});
+            setIsLevelsEditorOpen(false);
+          }}
+          onClose={() => setIsLevelsEditorOpen(false)}
+        />
+      )}
+
+      {/* Camera controls */}
+      <div className="absolute bottom-2 right-2 z-10 flex flex-col gap-1" onMouseDown={(e) => e.stopPropagation()}>
+        {[
+          { icon: ZoomIn, title: 'Zoom in (mouse wheel)', onClick: () => camera.zoomBy(1.5), active: false, disabled: false },
+          { icon: ZoomOut, title: 'Zoom out (mouse wheel)', onClick: () => camera.zoomBy(1 / 1.5), active: false, disabled: camera.zoom === 1 },
+          { icon: Maximize, title: 'Show whole map', onClick: camera.reset, active: false, disabled: camera.zoom === 1 && !camera.isFollowing },
+          { icon: LocateFixed, title: camera.isFollowing ? 'Stop following' : 'Follow selected player', onClick: handleToggleFollow, active: camera.isFollowing, disabled: selectedPlayerId === null },
+          { icon: Scan, title: 'Fit to involved players', onClick: handleFitToHighlighted, active: false, disabled: highlightedPlayerIds.length === 0 && selectedPlayerId === null },
+          {
+            icon: Eye,
+            title: fovMode === 'off' ? 'View cones: off (click for involved players)' : fovMode === 'involved' ? 'View cones: involved players (click for all)' : 'View cones: all players (click to turn off)',
+            onClick: () => setFovMode(fovMode === 'off' ? 'involved' : fovMode === 'involved' ? 'all' : 'off'),
+            active: fovMode !== 'off',
+            disabled: false
+          },
+          { icon: Crosshair, title: showAimRays ? 'Hide aim rays' : 'Show aim rays on damage/kills', onClick: () => setShowAimRays(!showAimRays), active: showAimRays, disabled: false }
+        ].map(({ icon: Icon, title, onClick, active, disabled }) => (
+          <button
+            key={title}
+            onClick={onClick}
+            disabled={disabled}
+            title={title}
+            className={`p-1.5 rounded border backdrop-blur-sm transition-colors disabled:opacity-40 ${active ? 'bg-orange-500/90 border-orange-400 text-white' : 'bg-slate-900/80 border-slate-700 text-slate-300 hover:bg-slate-800'}`}
+          >
+            <Icon size={14} />
+          </button>
+        ))}
+      </div>
+
+      {/* Level editor, radar overview import and Custom Map Image upload (replaces the active level's image) */}
+      <div className="absolute top-2 right-2 z-10 flex gap-1" onMouseDown={(e) => e.stopPropagation()}>
+        <button
+          onClick={() => setIsLevelsEditorOpen(!isLevelsEditorOpen)}
+          className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium bg-slate-900/80 hover:bg-slate-800 text-slate-300 rounded border border-slate-700 transition-colors backdrop-blur-sm"
+          title="Define map levels (floors) by Z"
+        >
+          <Layers size={14} />
+          <span>Levels</span>
+        </button>
+        <label
+          className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium bg-slate-900/80 hover:bg-slate-800 text-slate-300 rounded border border-slate-700 cursor-pointer transition-colors backdrop-blur-sm"
+          title={importedMapKey ? `Using imported overview for ${importedMapKey} - import again to replace it` : 'Import a radar overview (.txt) together with its radar image(s)'}
+        >
+          <FileUp size={14} />
+          <span>{importedMapKey ? 'Overview ✓' : 'Import Overview'}</span>
+          <input
+            type="file"
+            accept=".txt,image/*"
+            multiple
+            className="hidden"
+            onChange={handleOverviewImport}
+          />
+        </label>
+        {importedMapKey && (
+          <button
+            onClick={handleRemoveOverview}
+            className="px-2 py-1.5 bg-slate-900/80 hover:bg-slate-800 text-slate-400 hover:text-red-400 rounded border border-slate-700 transition-colors backdrop-blur-sm"
+            title={`Remove imported overview for ${importedMapKey}`}
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
         <label className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium bg-slate-900/80 hover:bg-slate-800 text-slate-300 rounded border border-slate-700 cursor-pointer transition-colors backdrop-blur-sm">
             <ImageIcon size={14} />
           <span>Custom Map</span>
@@ -611,68 +805,81 @@ const MapVisualization: React.FC = () => {
         </label>
       </div>
 
+      {overviewError && (
+        <div
+          className="absolute top-12 right-2 z-10 max-w-xs px-3 py-1.5 bg-red-950/90 text-xs text-red-300 rounded border border-red-800 backdrop-blur-sm cursor-pointer"
+          onClick={() => setOverviewError(null)}
+          title="Dismiss"
+        >
+          {overviewError}
+        </div>
+      )}
+      {!overviewError && overviewWarning && (
+        <div
+          className="absolute top-12 right-2 z-10 max-w-xs px-3 py-1.5 bg-amber-950/90 text-xs text-amber-300 rounded border border-amber-800 backdrop-blur-sm cursor-pointer"
+          onClick={() => setOverviewWarning(null)}
+          title="Dismiss"
+        >
+          {overviewWarning}
+        </div>
+      )}
+
       {/* Map Name Badge */}
       <div className="absolute bottom-2 left-2 px-3 py-1.5 bg-slate-900/80 text-xs font-semibold text-slate-300 rounded border border-slate-700 backdrop-blur-sm">
         {mapName}
       </div>
       
-      {/* Score Display - Calculate scores based on current round */}
-      {demoFile?.rounds && (() => {
-        // Find current round
-        const currentRound = demoFile.rounds.find(r => 
-          currentTick >= r.startTick && (r.endTick === undefined || currentTick < r.endTick)
-        );
-        
-        // Calculate scores up to rounds that have ended before or at current tick
-        // Get the actual tick from the current frame, not the frame index
-        const actualTick = currentFrame?.tick || currentTick;
-        
-        let ctScore = 0;
-        let tScore = 0;
-        demoFile.rounds.forEach(round => {
-          // Only count rounds that have ended (have a winner and we're past the round's end tick)
-          if (round.winner && round.endTick !== undefined) {
-            // A round has ended if we're past or at its end tick
-            // Use >= to count the round as soon as it ends
-            if (actualTick >= round.endTick) {
-              if (round.winner === Team.CT) {
-                ctScore++;
-              } else if (round.winner === Team.T) {
-                tScore++;
-              }
-            }
-          }
-        });
-        
-        return (
-          <div className="absolute top-2 left-2 flex gap-2 z-10">
-            <div className="px-4 py-2 bg-slate-900/90 rounded border border-slate-700 backdrop-blur-sm">
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: TEAM_COLORS[Team.CT] }} />
-                <span className="text-sm font-semibold text-slate-200">Team A</span>
-                <span className="text-lg font-bold text-white">{ctScore}</span>
-              </div>
-            </div>
-            <div className="px-4 py-2 bg-slate-900/90 rounded border border-slate-700 backdrop-blur-sm">
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: TEAM_COLORS[Team.T] }} />
-                <span className="text-sm font-semibold text-slate-200">Team B</span>
-                <span className="text-lg font-bold text-white">{tScore}</span>
-              </div>
-            </div>
+      {/* Score + round clock */}
+      {roundState && (
+        <div className="absolute top-2 left-2 flex items-stretch z-10 bg-slate-900/90 rounded border border-slate-700 backdrop-blur-sm">
+          <div className="px-3 py-1.5 flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: TEAM_COLORS[Team.CT] }} />
+            <span className="text-lg font-bold text-white">{roundState.score.ct}</span>
           </div>
-        );
-      })()}
+          <div className="px-3 py-1 flex flex-col items-center justify-center border-x border-slate-700 min-w-[72px]">
+            {roundState.phase === 'planted' ? (
+              <span className="flex items-center gap-1 text-sm font-bold font-mono text-red-400">
+                <Bomb size={12} />
+                {formatClock(roundState.clockSeconds ?? 0)}
+              </span>
+            ) : (
+              <span className={`text-sm font-bold font-mono ${roundState.phase === 'freeze' ? 'text-slate-400' : 'text-white'}`}>
+                {roundState.clockSeconds !== null ? formatClock(roundState.clockSeconds) : '--:--'}
+              </span>
+            )}
+            <span className="text-[10px] text-slate-400 uppercase tracking-wide">
+              {roundState.round ? `Round ${roundState.round.number}` : 'Warmup'}
+              {roundState.phase === 'freeze' && ' · Freeze'}
+              {roundState.bomb?.defused && ' · Defused'}
+              {roundState.bomb?.exploded && ' · Exploded'}
+            </span>
+          </div>
+          <div className="px-3 py-1.5 flex items-center gap-2">
+            <span className="text-lg font-bold text-white">{roundState.score.t}</span>
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: TEAM_COLORS[Team.T] }} />
+          </div>
+        </div>
+      )}
       
-      {/* Kill Feed */}
+      {/* Kill Feed (CS2 style: attacker, weapon, headshot, victim) */}
       {recentKills.length > 0 && (
-        <div className="absolute top-20 left-2 flex flex-col gap-1 z-10 max-w-xs">
+        <div className="absolute top-12 right-2 flex flex-col items-end gap-1 z-10 max-w-sm">
           {recentKills.map((kill, index) => (
             <div
-              key={`${kill.tick}-${index}`}
-              className="px-3 py-1.5 bg-slate-900/90 rounded border border-slate-700 backdrop-blur-sm text-xs text-slate-200 animate-fade-in"
+              key={`${kill.tick}-${kill.victimId ?? index}`}
+              className="flex items-center gap-2 px-3 py-1 bg-slate-900/90 rounded border border-slate-700 backdrop-blur-sm text-xs font-semibold animate-fade-in"
             >
-              <span className="text-slate-300">{kill.description}</span>
+              {/* Suicides and world kills have no attacker */}
+              {kill.attackerId !== undefined && kill.attackerId !== kill.victimId && (
+                <span className="truncate" style={{ color: teamColorOf(kill.attackerTeam, kill.attackerId) }}>
+                  {kill.attackerName}
+                </span>
+              )}
+              <span className="text-slate-300 font-mono">{kill.weapon && kill.weapon !== 'unknown' ? kill.weapon : 'world'}</span>
+              {kill.isHeadshot && <HeadshotIcon size={12} color="#f87171" />}
+              <span className="truncate" style={{ color: teamColorOf(kill.victimTeam, kill.victimId) }}>
+                {kill.victimName || 'Unknown'}
+              </span>
             </div>
           ))}
         </div>
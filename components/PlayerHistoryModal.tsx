@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { X, History, ExternalLink, ChevronDown, ChevronUp, Loader2, Trash2 } from 'lucide-react';
+import {
+  PlayerHistory,
+  INCIDENT_KINDS,
+  INCIDENT_LABELS,
+  loadPlayerHistory,
+  deletePlayerHistory,
+  summarizeIncidentRates
+} from '../services/offenderHistory';
+
+interface PlayerHistoryModalProps {
+  steamId: string;
+  playerName: string;
+  currentDemoKey?: string | null; // Demo that is open right now (not linked)
+  onOpenDemo: (demoKey: string, demoName: string) => Promise<boolean>; // Resolves false if the demo is no longer cached
+  onClose: () => void;
+}
+
+const RECENT_MATCHES = 8; // Window for the "X of last N matches" rates
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(undefined, {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric'
+});
+
+/**
+ * Cross-demo profile of a player: incident rates over their recent matches and a per-match timeline
+ */
+const PlayerHistoryModal: React.FC<PlayerHistoryModalProps> = ({ steamId, playerName, currentDemoKey, onOpenDemo, onClose }) => {
+  const [history, setHistory] = useState<PlayerHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedMatch, setExpandedMatch] = useState<string | null>(null);
+  const [missingDemos, setMissingDemos] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    loadPlayerHistory(steamId)
+      .then(result => {
+        if (!cancelled) setHistory(result);
+      })
+      .catch(err => {
+        console.error('[PlayerHistory] Failed to load history:', err);
+        if (!cancelled) setError(err?.message || 'Failed to load player history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [steamId]);
+
+  const handleOpenDemo = async (demoKey: string, demoName: string) => {
+    try {
+      const found = await onOpenDemo(demoKey, demoName);
+      if (!found) {
+        setMissingDemos(prev => new Set(prev).add(demoKey));
+      }
+    } catch (err: any) {
+      console.error('[PlayerHistory] Failed to open demo:', err);
+      setError(err?.message || 'Failed to open demo');
+    }
+  };
+
+  const handleClearHistory = async () => {
+    if (!confirm(`Forget the recorded history of ${history?.latestName || playerName}?`)) return;
+    try {
+      await deletePlayerHistory(steamId);
+      setHistory(null);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to clear player history');
+    }
+  };
+
+  const recentMatches = history ? history.matches.slice(0, RECENT_MATCHES) : [];
+  const rates = summarizeIncidentRates(recentMatches).filter(rate => rate.total > 0);
+  const cleanMatches = recentMatches.filter(match => match.incidents.length === 0).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div
+        style={{
+          backgroundColor: 'var(--color-bg-secondary)',
+          border: '1px solid var(--color-border-subtle)'
+        }}
+        className="rounded-lg w-full max-w-3xl max-h-[85vh] flex flex-col shadow-2xl"
+      >
+        {/* Header */}
+        <div
+          style={{ borderBottom: '1px solid var(--color-border-subtle)' }}
+          className="flex items-center justify-between p-4 shrink-0"
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <History size={18} style={{ color: 'var(--color-accent-primary)' }} />
+            <div className="min-w-0">
+              <h2 style={{ color: 'var(--color-text-primary)' }} className="text-lg font-bold truncate">
+                {history?.latestName || playerName}
+              </h2>
+              <div style={{ color: 'var(--color-text-muted)' }} className="text-xs font-mono truncate">
+                {steamId}
+                {history && history.names.length > 1 && ` · also known as ${history.names.slice(1).join(', ')}`}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            {history && (
+              <button
+                onClick={handleClearHistory}
+                style={{ color: 'var(--color-text-muted)' }}
+                className="p-2 rounded hover:opacity-80 transition-opacity"
+                title="Forget this player's history"
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              style={{ color: 'var(--color-text-muted)' }}
+              className="p-2 rounded hover:opacity-80 transition-opacity"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto p-4 flex flex-col gap-4">
+          {isLoading && (
+            <div style={{ color: 'var(--color-text-secondary)' }} className="flex items-center gap-2 text-sm">
+              <Loader2 size={16} className="animate-spin" />
+              Loading history...
+            </div>
+          )}
+
+          {error && (
+            <div style={{ color: 'var(--color-status-afk-died)' }} className="text-sm">{error}</div>
+          )}
+
+          {!isLoading && !error && !history && (
+            <div style={{ color: 'var(--color-text-secondary)' }} className="text-sm">
+              No matches recorded for this player yet. Every demo you analyze is added to the history.
+            </div>
+          )}
+
+          {history && (
+            <>
+              {/* Incident rates over the recent matches */}
+              <div>
+                <div style={{ color: 'var(--color-text-secondary)' }} className="text-xs font-semibold uppercase tracking-wide mb-2">
+                  Last {recentMatches.length} match{recentMatches.length !== 1 ? 'es' : ''}
+                  {history.matches.length > recentMatches.length && ` (of ${history.matches.length} recorded)`}
+                </div>
+                {rates.length === 0 ? (
+                  <div style={{ color: 'var(--color-text-secondary)' }} className="text-sm">
+                    No incidents in any of these matches.
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    {rates.map(rate => (
+                      <div
+                        key={rate.kind}
+                        style={{
+                          backgroundColor: 'var(--color-bg-tertiary)',
+                          border: '1px solid var(--color-border-subtle)'
+                        }}
+                        className="rounded px-3 py-2"
+                      >
+                        <div style={{ color: 'var(--color-text-primary)' }} className="text-sm font-medium">
+                          {INCIDENT_LABELS[rate.kind]}
+                        </div>
+                        <div style={{ color: 'var(--color-text-secondary)' }} className="text-xs">
+                          <span style={{ color: 'var(--color-accent-primary)' }} className="font-semibold">
+                            {rate.matchesWith} of {rate.matches}
+                          </span>
+                          {' '}matches · {rate.total} total · {rate.perMatch.toFixed(1)} per match
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {rates.length > 0 && (
+                  <div style={{ color: 'var(--color-text-muted)' }} className="text-xs mt-2">
+                    {cleanMatches} clean match{cleanMatches !== 1 ? 'es' : ''}
+                  </div>
+                )}
+              </div>
+
+              {/* Timeline */}
+              <div>
+                <div style={{ color: 'var(--color-text-secondary)' }} className="text-xs font-semibold uppercase tracking-wide mb-2">
+                  Matches
+                </div>
+                <div className="flex flex-col gap-1">
+                  {history.matches.map(match => {
+                    const isExpanded = expandedMatch === match.demoKey;
+                    const isCurrent = match.demoKey === currentDemoKey;
+                    const isMissing = missingDemos.has(match.demoKey);
+                    const incidentKinds = INCIDENT_KINDS.filter(kind => match.counts[kind] > 0);
+                    return (
+                      <div
+                        key={match.key}
+                        style={{
+                          backgroundColor: 'var(--color-bg-tertiary)',
+                          border: '1px solid var(--color-border-subtle)'
+                        }}
+                        className="rounded"
+                      >
+                        <div className="flex items-center gap-3 px-3 py-2">
+                          <button
+                            onClick={() => setExpandedMatch(isExpanded ? null : match.demoKey)}
+                            disabled={match.incidents.length === 0}
+                            style={{ color: 'var(--color-text-muted)' }}
+                            className="shrink-0 disabled:opacity-30"
+                          >
+                            {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                          </button>
+                          <div className="flex-1 min-w-0">
+                            <div style={{ color: 'var(--color-text-primary)' }} className="text-sm font-mono truncate" title={match.demoName}>
+                              {match.demoName}
+                            </div>
+                            <div style={{ color: 'var(--color-text-muted)' }} className="text-xs">
+                              {formatDate(match.analyzedAt)} · {match.mapName} · {match.roundCount} rounds · as {match.playerName} ({match.team})
+                            </div>
+                          </div>
+                          <div className="flex flex-wrap justify-end gap-1 max-w-xs">
+                            {incidentKinds.length === 0 ? (
+                              <span style={{ color: 'var(--color-text-muted)' }} className="text-xs">Clean</span>
+                            ) : incidentKinds.map(kind => (
+                              <span
+                                key={kind}
+                                style={{
+                                  color: 'var(--color-accent-primary)',
+                                  border: '1px solid var(--color-border-subtle)'
+                                }}
+                                className="text-xs px-1.5 rounded"
+                              >
+                                {INCIDENT_LABELS[kind]} ×{match.counts[kind]}
+                              </span>
+                            ))}
+                          </div>
+                          {isCurrent ? (
+                            <span style={{ color: 'var(--color-text-muted)' }} className="text-xs shrink-0">Open</span>
+                          ) : (
+                            <button
+                              onClick={() => handleOpenDemo(match.demoKey, match.demoName)}
+                              disabled={isMissing}
+                              style={{ color: isMissing ? 'var(--color-text-muted)' : 'var(--color-text-secondary)' }}
+                              className="shrink-0 p-1 rounded hover:opacity-80 transition-opacity"
+                              title={isMissing ? 'This demo is no longer cached' : 'Open this demo'}
+                            >
+                              <ExternalLink size={14} />
+                            </button>
+                          )}
+                        </div>
+                        {isExpanded && (
+                          <div
+                            style={{ borderTop: '1px solid var(--color-border-subtle)' }}
+                            className="px-3 py-2 flex flex-col gap-0.5"
+                          >
+                            {match.incidents.map((incident, index) => (
+                              <div key={index} className="text-xs flex gap-2">
+                                <span style={{ color: 'var(--color-text-muted)' }} className="font-mono w-16 shrink-0">
+                                  {incident.round > 0 ? `Round ${incident.round}` : 'Match'}
+                                </span>
+                                <span style={{ color: 'var(--color-text-secondary)' }} className="w-40 shrink-0">
+                                  {INCIDENT_LABELS[incident.kind]}
+                                </span>
+                                <span style={{ color: 'var(--color-text-primary)' }}>{incident.detail}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {isMissing && (
+                          <div style={{ color: 'var(--color-text-muted)' }} className="px-3 pb-2 text-xs">
+                            This demo is no longer cached - upload it again to view it.
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlayerHistoryModal;
@@ -1,7 +1,7 @@
 import React, { useMemo, useState } from 'react';
 import { Team, PlayerState, GameEvent } from '../types';
 import { TEAM_COLORS } from '../constants';
-import { Volume2, VolumeX, Crosshair, Skull, Bomb, Shield, HardHat, WifiOff, Clock, MessageSquare, Filter, X } from 'lucide-react';
+import { Volume2, VolumeX, Crosshair, Eye, Skull, Bomb, Shield, HardHat, WifiOff, Clock, MessageSquare, Filter, X } from 'lucide-react';
 import { useDemoStore } from '../store/useDemoStore';
 import { useAudioMixer } from '../hooks/useAudioMixer';
 
@@ -90,7 +90,7 @@ const PlayerList: React.FC<PlayerListProps> = ({ team }) => {
   const { isPlaying } = useDemoStore();
   const { talkingStates } = useAudioMixer(activePlayers, mutedPlayerIds, isPlaying);
   
-  const { demoFile, currentTick } = useDemoStore();
+  const { demoFile, currentTick, fovPlayerIds, toggleFovPlayer } = useDemoStore();
   const teamPlayers = activePlayers.filter((p) => p.team === team);
   const teamColor = TEAM_COLORS[team];
   const [showFullChat, setShowFullChat] = useState(false);
@@ -347,6 +347,17 @@ const PlayerList: React.FC<PlayerListProps> = ({ team }) => {
             </div>
 
             <div className="flex items-center gap-1 z-10">
+              {/* View Cone Button */}
+              <button 
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleFovPlayer(player.id);
+                }}
+                className={`p-1.5 rounded hover:bg-slate-700 ${fovPlayerIds.includes(player.id) ? 'text-orange-400' : 'text-slate-600'}`}
+                title={fovPlayerIds.includes(player.id) ? 'Hide view cone' : 'Show view cone'}
+              >
+                <Eye size={14} />
+              </button>
               {/* Focus Button */}
               <button 
                 onClick={(e) => {
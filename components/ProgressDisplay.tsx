@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Loader2 } from 'lucide-react';
+import { Loader2, X } from 'lucide-react';
 
 interface ParsingProgress {
   percentage: number;
@@ -9,9 +9,10 @@ interface ParsingProgress {
 
 interface ProgressDisplayProps {
   progress: ParsingProgress | null;
+  onCancel?: () => void; // Shows a Cancel button when provided
 }
 
-const ProgressDisplay: React.FC<ProgressDisplayProps> = ({ progress }) => {
+const ProgressDisplay: React.FC<ProgressDisplayProps> = ({ progress, onCancel }) => {
   const [countdown, setCountdown] = useState<number>(0);
 
   useEffect(() => {
@@ -133,6 +134,25 @@ const ProgressDisplay: React.FC<ProgressDisplayProps> = ({ progress }) => {
         >
           Still working! Not frozen, just sloth-approved speed 🦥
         </div>
+        {onCancel && (
+          <div className="mt-4 flex justify-center">
+            <button
+              onClick={onCancel}
+              style={{
+                backgroundColor: 'var(--color-bg-tertiary)',
+                color: 'var(--color-text-secondary)',
+                border: '1px solid var(--color-border-subtle)',
+                borderRadius: '0.25rem',
+                padding: '0.375rem 0.75rem',
+                fontSize: '0.75rem'
+              }}
+              className="flex items-center gap-1.5 hover:opacity-80 transition-opacity"
+            >
+              <X size={14} />
+              Cancel
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
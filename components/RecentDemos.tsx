@@ -0,0 +1,81 @@
+import React from 'react';
+import { History, Map as MapIcon, Trash2 } from 'lucide-react';
+import { CachedDemoEntry } from '../services/demoCache';
+
+interface RecentDemosProps {
+  entries: CachedDemoEntry[];
+  onOpen: (entry: CachedDemoEntry) => void;
+  onRemove: (entry: CachedDemoEntry) => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+const formatSavedAt = (savedAt: number) => {
+  const date = new Date(savedAt);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+/**
+ * Previously analyzed demos (from the IndexedDB cache) - clicking one reopens it without parsing
+ */
+const RecentDemos: React.FC<RecentDemosProps> = ({ entries, onOpen, onRemove }) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-md">
+      <div
+        style={{ color: 'var(--color-text-secondary)' }}
+        className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide mb-2"
+      >
+        <History size={14} />
+        Recent demos
+      </div>
+      <div
+        style={{
+          backgroundColor: 'var(--color-bg-secondary)',
+          border: '1px solid var(--color-border-subtle)',
+          maxHeight: '14rem' // Keep clear of the notices at the bottom of the upload screen
+        }}
+        className="rounded-lg overflow-y-auto"
+      >
+        {entries.map((entry, index) => (
+          <div
+            key={entry.hash}
+            style={{
+              borderTop: index > 0 ? '1px solid var(--color-border-subtle)' : 'none'
+            }}
+            className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:opacity-80 transition-opacity"
+            onClick={() => onOpen(entry)}
+            title={`Reopen ${entry.fileName}`}
+          >
+            <MapIcon size={16} style={{ color: 'var(--color-accent-primary)', flexShrink: 0 }} />
+            <div className="flex-1 min-w-0">
+              <div style={{ color: 'var(--color-text-primary)' }} className="text-sm font-medium truncate">
+                {entry.fileName}
+              </div>
+              <div style={{ color: 'var(--color-text-muted)' }} className="text-xs truncate">
+                {entry.mapName} · {entry.roundCount} rounds · {formatSize(entry.fileSize)} · {formatSavedAt(entry.savedAt)}
+              </div>
+            </div>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(entry);
+              }}
+              style={{ color: 'var(--color-text-muted)' }}
+              className="p-1 rounded hover:opacity-80 transition-opacity"
+              title="Remove from recent demos"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecentDemos;
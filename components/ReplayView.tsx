@@ -0,0 +1,60 @@
+import React, { useCallback, useState } from 'react';
+import { MessageSquare } from 'lucide-react';
+import MapVisualization from './MapVisualization';
+import Controls from './Controls';
+import PlayerList from './PlayerList';
+import AllChatModal from './AllChatModal';
+import ShortcutsHelpModal from './ShortcutsHelpModal';
+import { useReplayPlayback } from '../hooks/useReplayPlayback';
+import { useReplayShortcuts } from '../hooks/useReplayShortcuts';
+import { Team } from '../types';
+
+/**
+ * 2D replay of the open demo: team lists on the sides, the radar in the middle and the
+ * timeline below. Incident cards jump here through the store's watchIncident().
+ */
+const ReplayView: React.FC = () => {
+  const [isAllChatOpen, setIsAllChatOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const toggleShortcuts = useCallback(() => setIsShortcutsOpen(open => !open), []);
+  useReplayPlayback();
+  useReplayShortcuts(toggleShortcuts);
+
+  return (
+    <div style={{ backgroundColor: 'var(--color-bg-primary)' }} className="flex h-full gap-4 p-4 min-h-0">
+      <div className="w-72 shrink-0 flex flex-col min-h-0 overflow-y-auto">
+        <PlayerList team={Team.CT} />
+      </div>
+
+      <div className="flex-1 flex flex-col min-w-0 min-h-0 gap-2">
+        <div className="flex justify-end shrink-0">
+          <button
+            onClick={() => setIsAllChatOpen(true)}
+            style={{
+              backgroundColor: 'var(--color-bg-tertiary)',
+              color: 'var(--color-text-primary)',
+              border: '1px solid var(--color-border-subtle)'
+            }}
+            className="flex items-center gap-2 rounded px-2 py-1 text-xs hover:opacity-80 transition-opacity"
+          >
+            <MessageSquare size={14} style={{ color: 'var(--color-text-muted)' }} />
+            All chat
+          </button>
+        </div>
+        <div className="flex-1 min-h-0">
+          <MapVisualization />
+        </div>
+        <Controls onShowShortcuts={() => setIsShortcutsOpen(true)} />
+      </div>
+
+      <div className="w-72 shrink-0 flex flex-col min-h-0 overflow-y-auto">
+        <PlayerList team={Team.T} />
+      </div>
+
+      <AllChatModal isOpen={isAllChatOpen} onClose={() => setIsAllChatOpen(false)} />
+      <ShortcutsHelpModal isOpen={isShortcutsOpen} onClose={() => setIsShortcutsOpen(false)} />
+    </div>
+  );
+};
+
+export default ReplayView;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { X, Keyboard } from 'lucide-react';
+import { REPLAY_SHORTCUTS } from '../hooks/useReplayShortcuts';
+
+interface ShortcutsHelpModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Lists the replay keyboard shortcuts (opened with "?" or the keyboard button in Controls)
+ */
+const ShortcutsHelpModal: React.FC<ShortcutsHelpModalProps> = ({ isOpen, onClose }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'var(--color-bg-secondary)',
+          border: '1px solid var(--color-border-subtle)'
+        }}
+        className="rounded-lg shadow-xl w-full max-w-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div
+          style={{ borderBottom: '1px solid var(--color-border-subtle)' }}
+          className="flex items-center justify-between px-4 py-3"
+        >
+          <div className="flex items-center gap-2">
+            <Keyboard size={16} style={{ color: 'var(--color-accent-primary)' }} />
+            <h3 style={{ color: 'var(--color-text-primary)' }} className="text-sm font-semibold">
+              Keyboard shortcuts
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ color: 'var(--color-text-muted)' }}
+            className="hover:opacity-80 transition-opacity"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col gap-2">
+          {REPLAY_SHORTCUTS.map(shortcut => (
+            <div key={shortcut.description} className="flex items-center justify-between gap-4 text-xs">
+              <span style={{ color: 'var(--color-text-secondary)' }}>{shortcut.description}</span>
+              <span className="flex items-center gap-1 shrink-0">
+                {shortcut.keys.map(key => (
+                  <kbd
+                    key={key}
+                    style={{
+                      backgroundColor: 'var(--color-bg-tertiary)',
+                      color: 'var(--color-text-primary)',
+                      border: '1px solid var(--color-border-subtle)'
+                    }}
+                    className="px-1.5 py-0.5 rounded font-mono text-[11px]"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsHelpModal;
@@ -0,0 +1,350 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Pause, Users } from 'lucide-react';
+import { useDemoStore } from '../store/useDemoStore';
+import { getMapConfig, getMapLevels, getLevelIndexForZ, TEAM_COLORS } from '../constants';
+import { Team } from '../types';
+import { HeatmapHalf, getRoundHalf } from '../services/heatmaps';
+import { StrategyFilter, StrategyPath, buildStrategyPaths, getPathUntil, getStrategyDuration } from '../services/strategyPaths';
+
+const HALF_OPTIONS: { id: HeatmapHalf; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'first', label: '1st half' },
+  { id: 'second', label: '2nd half' },
+  { id: 'overtime', label: 'OT' }
+];
+
+// Distinct path colors, assigned per player or per round
+const PATH_COLORS = ['#f97316', '#22d3ee', '#a3e635', '#f472b6', '#facc15', '#818cf8', '#34d399', '#f87171', '#c084fc', '#38bdf8'];
+
+type ColorBy = 'player' | 'round';
+
+/**
+ * Movement paths of one side across the selected rounds, overlaid on one radar and
+ * aligned on time since freeze end. The time slider (or play) draws every path up to
+ * the same moment of the round, so default setups and rotations line up.
+ */
+const StrategyView: React.FC = () => {
+  const { demoFile, importedMapConfigs, customMapLevels } = useDemoStore();
+  const rounds = demoFile?.rounds || [];
+
+  const [filter, setFilter] = useState<StrategyFilter>({
+    side: Team.T,
+    playerIds: [],
+    roundNumbers: rounds.map(round => round.number)
+  });
+  const [colorBy, setColorBy] = useState<ColorBy>('player');
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [activeLevelIndex, setActiveLevelIndex] = useState(0);
+  const animationRef = useRef<number | null>(null);
+
+  // New demo: select every round again
+  useEffect(() => {
+    setFilter(prev => ({ ...prev, playerIds: [], roundNumbers: (demoFile?.rounds || []).map(round => round.number) }));
+    setTime(0);
+    setIsPlaying(false);
+    setActiveLevelIndex(0);
+  }, [demoFile]);
+
+  const mapName = demoFile?.mapName || '';
+  const mapConfig = useMemo(() => getMapConfig(mapName, importedMapConfigs), [mapName, importedMapConfigs]);
+  const levels = useMemo(() => customMapLevels[mapName] ?? getMapLevels(mapConfig), [customMapLevels, mapName, mapConfig]);
+  const activeLevel = levels[Math.min(activeLevelIndex, levels.length - 1)];
+
+  const players = useMemo(
+    () => [...(demoFile?.players || [])].sort((a, b) => a.name.localeCompare(b.name)),
+    [demoFile]
+  );
+
+  const paths = useMemo(() => {
+    if (!demoFile) return [];
+    console.time('Strategy paths');
+    const result = buildStrategyPaths(demoFile, filter);
+    console.timeEnd('Strategy paths');
+    return result;
+  }, [demoFile, filter]);
+
+  const duration = useMemo(() => {
+    if (!demoFile) return 0;
+    const selected = new Set(filter.roundNumbers);
+    return getStrategyDuration(demoFile, rounds.filter(round => selected.has(round.number)));
+  }, [demoFile, rounds, filter.roundNumbers]);
+
+  // Keep the slider inside the range when rounds are deselected
+  useEffect(() => {
+    setTime(prev => Math.min(prev, duration));
+  }, [duration]);
+
+  // Play: advance the slider in real time, stopping at the end
+  useEffect(() => {
+    if (!isPlaying) return;
+    let last = performance.now();
+    const step = (now: number) => {
+      const elapsed = (now - last) / 1000;
+      last = now;
+      setTime(prev => {
+        const next = prev + elapsed;
+        if (next >= duration) {
+          setIsPlaying(false);
+          return duration;
+        }
+        return next;
+      });
+      animationRef.current = requestAnimationFrame(step);
+    };
+    animationRef.current = requestAnimationFrame(step);
+    return () => {
+      if (animationRef.current !== null) cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    };
+  }, [isPlaying, duration]);
+
+  // Colors for the players (or rounds) that appear in the paths
+  const colorKeys = useMemo(() => {
+    const keys = colorBy === 'player'
+      ? [...new Set(paths.map(path => path.playerId))]
+      : [...new Set(paths.map(path => path.roundNumber))];
+    return new Map(keys.map((key, index) => [key, PATH_COLORS[index % PATH_COLORS.length]]));
+  }, [paths, colorBy]);
+
+  const pathColor = (path: StrategyPath) =>
+    colorKeys.get(colorBy === 'player' ? path.playerId : path.roundNumber) || TEAM_COLORS[filter.side];
+
+  const togglePlayer = (playerId: number) => {
+    setFilter(prev => ({
+      ...prev,
+      playerIds: prev.playerIds.includes(playerId)
+        ? prev.playerIds.filter(id => id !== playerId)
+        : [...prev.playerIds, playerId]
+    }));
+  };
+
+  const toggleRound = (roundNumber: number) => {
+    setFilter(prev => ({
+      ...prev,
+      roundNumbers: prev.roundNumbers.includes(roundNumber)
+        ? prev.roundNumbers.filter(number => number !== roundNumber)
+        : [...prev.roundNumbers, roundNumber]
+    }));
+  };
+
+  const selectHalf = (half: HeatmapHalf) => {
+    setFilter(prev => ({
+      ...prev,
+      roundNumbers: rounds
+        .filter(round => half === 'all' || getRoundHalf(round.number) === half)
+        .map(round => round.number)
+    }));
+  };
+
+  const handlePlayPause = () => {
+    if (!isPlaying && time >= duration) setTime(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  if (!demoFile) return null;
+
+  const worldToSvg = (x: number, y: number) => ({
+    x: ((x - mapConfig.minX) / (mapConfig.maxX - mapConfig.minX)) * 100,
+    y: 100 - ((y - mapConfig.minY) / (mapConfig.maxY - mapConfig.minY)) * 100
+  });
+  const isOnOtherLevel = (z: number) => levels.length > 1 && getLevelIndexForZ(levels, z) !== activeLevelIndex;
+
+  const timeLabel = `${Math.floor(time / 60)}:${String(Math.floor(time % 60)).padStart(2, '0')}`;
+
+  return (
+    <div style={{ backgroundColor: 'var(--color-bg-primary)' }} className="flex h-full gap-4 p-4 min-h-0">
+      {/* Filters */}
+      <div className="w-72 shrink-0 flex flex-col gap-4 min-h-0 overflow-y-auto text-xs text-slate-300">
+        <div className="flex flex-col gap-1">
+          <span className="font-semibold text-slate-400 uppercase tracking-wide text-[10px]">Side</span>
+          <div className="flex gap-1">
+            {([Team.T, Team.CT] as const).map(side => (
+              <button
+                key={side}
+                onClick={() => setFilter(prev => ({ ...prev, side, playerIds: [] }))}
+                style={filter.side === side ? { backgroundColor: TEAM_COLORS[side], borderColor: TEAM_COLORS[side] } : undefined}
+                className={`flex-1 px-2 py-1.5 rounded border transition-colors ${filter.side === side ? 'text-white' : 'bg-slate-900/80 border-slate-700 hover:bg-slate-800'}`}
+              >
+                {side}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className="font-semibold text-slate-400 uppercase tracking-wide text-[10px]">Color by</span>
+          <div className="flex gap-1">
+            {(['player', 'round'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setColorBy(option)}
+                className={`flex-1 px-2 py-1 rounded border capitalize transition-colors ${colorBy === option ? 'bg-orange-500/90 border-orange-400 text-white' : 'bg-slate-900/80 border-slate-700 hover:bg-slate-800'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-slate-400 uppercase tracking-wide text-[10px]">Rounds</span>
+            {filter.roundNumbers.length > 0 && (
+              <button onClick={() => setFilter(prev => ({ ...prev, roundNumbers: [] }))} className="text-slate-400 hover:text-white">
+                None
+              </button>
+            )}
+          </div>
+          <div className="flex gap-1">
+            {HALF_OPTIONS.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => selectHalf(id)}
+                className="flex-1 px-2 py-1 rounded border bg-slate-900/80 border-slate-700 hover:bg-slate-800 transition-colors"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-6 gap-1">
+            {rounds.map(round => {
+              const selected = filter.roundNumbers.includes(round.number);
+              const color = colorBy === 'round' ? colorKeys.get(round.number) : undefined;
+              return (
+                <button
+                  key={round.number}
+                  onClick={() => toggleRound(round.number)}
+                  style={selected && color ? { borderColor: color } : undefined}
+                  className={`py-1 rounded border font-mono transition-colors ${selected ? 'bg-slate-700 border-slate-500 text-white' : 'bg-slate-900/60 border-slate-800 text-slate-500 hover:bg-slate-800'}`}
+                  title={round.winner ? `Round ${round.number} - won by ${round.winner}` : `Round ${round.number}`}
+                >
+                  {round.number}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1 min-h-0">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-slate-400 uppercase tracking-wide text-[10px]">Players</span>
+            {filter.playerIds.length > 0 && (
+              <button onClick={() => setFilter(prev => ({ ...prev, playerIds: [] }))} className="text-slate-400 hover:text-white">
+                Whole team
+              </button>
+            )}
+          </div>
+          {players.map(player => {
+            const selected = filter.playerIds.includes(player.id);
+            const color = colorBy === 'player' ? colorKeys.get(player.id) : undefined;
+            return (
+              <button
+                key={player.id}
+                onClick={() => togglePlayer(player.id)}
+                className={`flex items-center gap-2 px-2 py-1 rounded border text-left transition-colors ${selected ? 'bg-slate-700 border-slate-500 text-white' : 'bg-slate-900/60 border-slate-800 hover:bg-slate-800'}`}
+              >
+                {color
+                  ? <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: color }} />
+                  : <Users size={12} className={selected ? 'text-orange-400' : 'text-slate-500'} />}
+                <span className="truncate">{player.name}</span>
+                {player.isBot && <span className="ml-auto text-[10px] text-slate-500">BOT</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Radar + paths, time slider below */}
+      <div className="flex-1 min-w-0 min-h-0 flex flex-col gap-3">
+        <div className="flex-1 min-h-0 flex items-center justify-center">
+          <div className="relative h-full aspect-square max-w-full bg-slate-950 rounded-lg border border-slate-700 overflow-hidden">
+            <svg viewBox="0 0 100 100" className="absolute inset-0 w-full h-full">
+              <image href={activeLevel.imageUrl} x="0" y="0" width="100" height="100" opacity="0.7" preserveAspectRatio="xMidYMid meet" />
+
+              {paths.map(path => {
+                const shown = getPathUntil(path, time);
+                if (shown.length === 0) return null;
+                const color = pathColor(path);
+                const head = shown[shown.length - 1];
+                const headPoint = worldToSvg(head.x, head.y);
+                const isDead = path.deathTime !== undefined && time >= path.deathTime;
+                const polyline = shown.map(point => {
+                  const svgPoint = worldToSvg(point.x, point.y);
+                  return `${svgPoint.x},${svgPoint.y}`;
+                }).join(' ');
+                return (
+                  <g key={`${path.roundNumber}:${path.playerId}`} opacity={isOnOtherLevel(head.z) ? 0.25 : 1}>
+                    <polyline points={polyline} fill="none" stroke={color} strokeWidth={0.35} strokeOpacity={0.55} strokeLinejoin="round" strokeLinecap="round" />
+                    {isDead ? (
+                      <g stroke={color} strokeWidth={0.5} strokeLinecap="round">
+                        <line x1={headPoint.x - 0.9} y1={headPoint.y - 0.9} x2={headPoint.x + 0.9} y2={headPoint.y + 0.9} />
+                        <line x1={headPoint.x + 0.9} y1={headPoint.y - 0.9} x2={headPoint.x - 0.9} y2={headPoint.y + 0.9} />
+                      </g>
+                    ) : (
+                      <circle cx={headPoint.x} cy={headPoint.y} r={0.9} fill={color} stroke="#0f172a" strokeWidth={0.25}>
+                        <title>{`${path.playerName} - round ${path.roundNumber}`}</title>
+                      </circle>
+                    )}
+                  </g>
+                );
+              })}
+            </svg>
+
+            {levels.length > 1 && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 flex gap-1">
+                {levels.map((level, index) => (
+                  <button
+                    key={level.name}
+                    onClick={() => setActiveLevelIndex(index)}
+                    className={`px-3 py-1 text-xs font-medium rounded border backdrop-blur-sm ${index === activeLevelIndex ? 'bg-orange-500/90 border-orange-400 text-white' : 'bg-slate-900/80 border-slate-700 text-slate-300 hover:bg-slate-800'}`}
+                  >
+                    {level.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="absolute bottom-2 left-2 px-3 py-1.5 bg-slate-900/80 text-xs text-slate-300 rounded border border-slate-700 backdrop-blur-sm">
+              <span className="font-semibold">{mapName}</span>
+              <span className="text-slate-500"> · {filter.side} · {paths.length} paths over {filter.roundNumbers.length} rounds</span>
+            </div>
+            {paths.length === 0 && (
+              <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-400">
+                Nothing matches these filters
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="shrink-0 flex items-center gap-3 px-3 py-2 bg-slate-900/80 rounded border border-slate-700 text-xs text-slate-300">
+          <button
+            onClick={handlePlayPause}
+            disabled={duration <= 0}
+            className="p-1.5 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-40"
+            title={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={Math.max(duration, 0.1)}
+            step={0.1}
+            value={time}
+            onChange={(e) => {
+              setIsPlaying(false);
+              setTime(Number(e.target.value));
+            }}
+            className="flex-1 accent-orange-500"
+          />
+          <span className="font-mono w-20 text-right" title="Time since freeze end">
+            {timeLabel} / {Math.floor(duration / 60)}:{String(Math.floor(duration % 60)).padStart(2, '0')}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StrategyView;
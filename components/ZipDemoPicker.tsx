@@ -0,0 +1,72 @@
+import React from 'react';
+import { X, Archive, FileVideo } from 'lucide-react';
+import { ZipDemoEntry } from '../services/demoArchive';
+
+interface ZipDemoPickerProps {
+  zipName: string;
+  entries: ZipDemoEntry[];
+  onPick: (entry: ZipDemoEntry) => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Lets the user choose which demo to open when a zip contains several
+ */
+const ZipDemoPicker: React.FC<ZipDemoPickerProps> = ({ zipName, entries, onPick, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div
+        style={{
+          backgroundColor: 'var(--color-bg-secondary)',
+          border: '1px solid var(--color-border-subtle)'
+        }}
+        className="rounded-lg w-full max-w-lg max-h-[80vh] flex flex-col shadow-2xl"
+      >
+        {/* Header */}
+        <div
+          style={{ borderBottom: '1px solid var(--color-border-subtle)' }}
+          className="flex items-center justify-between p-4 shrink-0"
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <Archive size={18} style={{ color: 'var(--color-accent-primary)' }} />
+            <div className="min-w-0">
+              <h2 style={{ color: 'var(--color-text-primary)' }} className="text-lg font-bold">Choose a demo</h2>
+              <div style={{ color: 'var(--color-text-muted)' }} className="text-xs truncate" title={zipName}>
+                {zipName} contains {entries.length} demos
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ color: 'var(--color-text-muted)' }}
+            className="p-2 rounded hover:opacity-80 transition-opacity"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Entries */}
+        <div className="overflow-y-auto p-2">
+          {entries.map(entry => (
+            <button
+              key={entry.name}
+              onClick={() => onPick(entry)}
+              style={{ color: 'var(--color-text-primary)' }}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded text-left hover:bg-white/5 transition-colors"
+            >
+              <FileVideo size={16} style={{ color: 'var(--color-text-secondary)', flexShrink: 0 }} />
+              <span className="flex-1 font-mono text-sm truncate" title={entry.name}>{entry.name}</span>
+              <span style={{ color: 'var(--color-text-muted)' }} className="text-xs shrink-0">
+                {formatSize(entry.size)}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ZipDemoPicker;
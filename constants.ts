@@ -1,4 +1,13 @@
-import { Team } from './types';
+import { GrenadeType, Team } from './types';
+
+// One vertical level of a map with its own radar image.
+// A player is on the level whose [minZ, maxZ) range contains their Z (open-ended when omitted).
+export interface MapLevel {
+  name: string;
+  imageUrl: string;
+  minZ?: number;
+  maxZ?: number;
+}
 
 export interface MapConfig {
   name: string;
@@ -6,10 +15,8 @@ export interface MapConfig {
   maxX: number;
   minY: number;
   maxY: number;
-  imageUrl: string;
-  imageUrls?: string[]; // For maps with multiple floors (e.g., Vertigo)
-  rotationOffset?: number; // Rotation offset in degrees for view angle correction (default: 180)
-  positionBasedRotation?: (normalizedX: number, normalizedY: number) => number; // Optional function to calculate position-based rotation adjustment
+  imageUrl: string; // Radar of the main (or only) level
+  levels?: MapLevel[]; // Multi-level maps (Nuke, Vertigo), first entry is shown by default
 }
 
 // Map boundaries derived from CS:GO/CS2 radar overview data
@@ -25,30 +32,7 @@ export const MAPS: Record<string, MapConfig> = {
     maxX: -3230 + (1024 * 5.0), // 1890
     maxY: 1713,
     minY: 1713 - (1024 * 5.0), // -3407
-    imageUrl: '/maps/de_mirage.png',
-    rotationOffset: 90, // Base rotation offset
-    // Position-based rotation: different adjustments for each quadrant
-    positionBasedRotation: (normalizedX: number, normalizedY: number) => {
-      // normalizedX: 0 = left, 1 = right
-      // normalizedY: 0 = bottom, 1 = top (inverted because Y increases upward in CS2)
-      // Divide map into 4 quadrants:
-      const isLeft = normalizedX < 0.5;
-      const isTop = normalizedY < 0.5; // Top in normalized coordinates (which is actually bottom in world Y)
-      
-      if (isLeft && isTop) {
-        // Top-left quadrant
-        return 0;
-      } else if (!isLeft && isTop) {
-        // Top-right quadrant
-        return 0; // Adjust as needed
-      } else if (isLeft && !isTop) {
-        // Bottom-left quadrant
-        return -90; // Adjust as needed
-      } else {
-        // Bottom-right quadrant
-        return -90; // Adjust as needed
-      }
-    }
+    imageUrl: '/maps/de_mirage.png'
   },
   'de_inferno': {
     name: 'Inferno',
@@ -72,7 +56,12 @@ export const MAPS: Record<string, MapConfig> = {
     maxX: -3453 + (1024 * 7.0),
     maxY: 2887,
     minY: 2887 - (1024 * 7.0),
-    imageUrl: '/maps/de_nuke.png'
+    imageUrl: '/maps/de_nuke.png',
+    // Altitudes from the game's overview file (verticalsections)
+    levels: [
+      { name: 'Upper', imageUrl: '/maps/de_nuke.png', minZ: -495 },
+      { name: 'Lower', imageUrl: '/maps/de_nuke.png', maxZ: -495 } // No lower radar is shipped: import the overview (or pick an image) for it
+    ]
   },
   'de_overpass': {
     name: 'Overpass',
@@ -89,7 +78,10 @@ export const MAPS: Record<string, MapConfig> = {
     maxY: 1762,
     minY: 1762 - (1024 * 4.0),
     imageUrl: '/maps/de_vertigo.png',
-    imageUrls: ['/maps/de_vertigo.png', '/maps/de_vertigo_lower.png'] // Upper and lower floors
+    levels: [
+      { name: 'Upper', imageUrl: '/maps/de_vertigo.png', minZ: 11700 },
+      { name: 'Lower', imageUrl: '/maps/de_vertigo_lower.png', maxZ: 11700 }
+    ]
   },
   'de_ancient': {
     name: 'Ancient',
@@ -105,8 +97,7 @@ export const MAPS: Record<string, MapConfig> = {
     maxX: -2796 + (1024 * 5.22),
     maxY: 3328,
     minY: 3328 - (1024 * 5.22),
-    imageUrl: '/maps/de_anubis.png',
-    rotationOffset: -180 // Anubis needs -90° rotation
+    imageUrl: '/maps/de_anubis.png'
   },
   'de_cache': {
     name: 'Cache',
@@ -137,24 +128,56 @@ export const MAPS: Record<string, MapConfig> = {
 // Fallback config
 export const DEFAULT_MAP = MAPS['de_mirage'];
 
+/**
+ * Levels of a map; maps without levels have a single level showing imageUrl
+ */
+export const getMapLevels = (config: MapConfig): MapLevel[] => {
+  return config.levels && config.levels.length > 0
+    ? config.levels
+    : [{ name: config.name, imageUrl: config.imageUrl }];
+};
+
+/**
+ * Index of the level a Z coordinate is on. Outside every range (or no Z) falls back to the
+ * level with the nearest range, so nobody disappears because of a slightly-off threshold.
+ */
+export const getLevelIndexForZ = (levels: MapLevel[], z?: number): number => {
+  if (levels.length <= 1 || z === undefined || z === null || isNaN(z)) return 0;
+  let nearestIndex = 0;
+  let nearestDistance = Infinity;
+  for (let i = 0; i < levels.length; i++) {
+    const { minZ = -Infinity, maxZ = Infinity } = levels[i];
+    if (z >= minZ && z < maxZ) return i;
+    const distance = z < minZ ? minZ - z : z - maxZ;
+    if (distance < nearestDistance) {
+      nearestDistance = distance;
+      nearestIndex = i;
+    }
+  }
+  return nearestIndex;
+};
+
 /**
  * Helper to get map config with fuzzy matching.
  * Handles "workshop/123/de_mirage" -> returns 'de_mirage' config.
+ * Configs imported from radar overview files (see mapOverviews.ts) win over the built-in ones.
  * If unknown, tries to construct a generic config pointing to /maps/{name}.jpg
  */
-export const getMapConfig = (rawMapName: string): MapConfig => {
+export const getMapConfig = (rawMapName: string, importedMaps: Record<string, MapConfig> = {}): MapConfig => {
   if (!rawMapName) return DEFAULT_MAP;
   
   const lowerName = rawMapName.toLowerCase();
 
   // 1. Exact match
+  if (importedMaps[lowerName]) return importedMaps[lowerName];
   if (MAPS[lowerName]) return MAPS[lowerName];
 
-  // 2. Fuzzy match (longest match wins)
-  const keys = Object.keys(MAPS).sort((a, b) => b.length - a.length);
+  // 2. Fuzzy match (longest match wins, imported first on equal length)
+  const candidates = { ...MAPS, ...importedMaps };
+  const keys = Object.keys(candidates).sort((a, b) => b.length - a.length);
   for (const key of keys) {
     if (lowerName.includes(key)) {
-      return MAPS[key];
+      return candidates[key];
     }
   }
 
@@ -165,8 +188,7 @@ export const getMapConfig = (rawMapName: string): MapConfig => {
   return {
     ...DEFAULT_MAP,
     name: rawMapName,
-    imageUrl: `/maps/${cleanMapName}.png`,
-    rotationOffset: 180 // Default rotation for unknown maps
+    imageUrl: `/maps/${cleanMapName}.png`
   };
 };
 
@@ -176,6 +198,18 @@ export const TEAM_COLORS = {
   [Team.SPECTATOR]: '#6b7280' // muted gray
 };
 
+// Grenade paths and effects on the 2D map
+export const GRENADE_COLORS: Record<GrenadeType, string> = {
+  smoke: '#cbd5e1',
+  flash: '#fef9c3',
+  he: '#ef4444',
+  molotov: '#f97316',
+  decoy: '#a3a3a3'
+};
+
+// Replay playback rates offered in Controls and stepped through with the -/+ shortcuts
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
 export const MOCK_PLAYERS = [
   { name: 's1mple', team: Team.CT },
   { name: 'b1t', team: Team.CT },
@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react';
+import { analyzeDemoInWorker } from '../services/demoWorkerClient';
+import { useDemoStore } from '../store/useDemoStore';
+import { BatchItem, compareBatchLabels, expandBatchSources, summarizeDemo } from '../services/demoBatch';
+
+let nextBatchItemId = 1;
+
+/**
+ * Hook for the multi-demo queue
+ * Demos are parsed and analyzed one at a time (one worker at a time keeps memory bounded).
+ * Only the summary counts are kept per demo - the full analysis goes to the IndexedDB cache
+ * and is loaded again when a row is opened.
+ */
+export const useDemoBatch = () => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const addFiles = async (files: File[]) => {
+    const sources = await expandBatchSources(files);
+    const newItems: BatchItem[] = sources
+      .map(source => ({
+        id: `batch-${nextBatchItemId++}`,
+        file: source.file,
+        entryName: source.entryName,
+        label: source.entryName ? `${source.file.name} › ${source.entryName}` : source.file.name,
+        status: 'queued' as const,
+        progress: 0
+      }))
+      .sort((a, b) => compareBatchLabels(a.label, b.label));
+    console.log(`[DemoBatch] Queued ${newItems.length} demos`);
+    setItems(prev => [...prev, ...newItems]);
+  };
+
+  // Start the next queued demo whenever nothing is running
+  useEffect(() => {
+    if (activeId) return;
+    const next = items.find(item => item.status === 'queued');
+    if (!next) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setActiveId(next.id);
+    updateItem(next.id, { status: 'processing', progress: 0, step: 'Starting...' });
+
+    analyzeDemoInWorker(next.file, {
+      entryName: next.entryName,
+      signal: controller.signal,
+      detectors: useDemoStore.getState().detectorSettings,
+      withoutFrames: true, // The row only keeps a summary; opening it reads the full demo from the cache
+      onParsingProgress: (progress) => {
+        // Parsing is 0-90% of the row's progress, analysis 90-100% (same split as the single-demo view)
+        updateItem(next.id, { progress: progress.percentage * 0.9, step: progress.currentStep });
+      },
+      onAnalysisProgress: (progress) => {
+        updateItem(next.id, { progress: 90 + progress.percentage / 10, step: progress.currentStep });
+      }
+    })
+      .then(({ demoFile, results, analysisError, cacheKey }) => {
+        if (results) {
+          updateItem(next.id, {
+            status: 'done',
+            progress: 100,
+            step: undefined,
+            summary: summarizeDemo(demoFile, results),
+            cacheKey: cacheKey ?? undefined
+          });
+        } else {
+          updateItem(next.id, { status: 'error', step: undefined, error: analysisError || 'Analysis failed' });
+        }
+      })
+      .catch((err: any) => {
+        if (err?.name === 'AbortError') {
+          updateItem(next.id, { status: 'cancelled', step: undefined });
+        } else {
+          console.error(`[DemoBatch] ${next.label} failed:`, err);
+          updateItem(next.id, { status: 'error', step: undefined, error: err?.message || 'Failed to parse demo file' });
+        }
+      })
+      .finally(() => {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+        setActiveId(null);
+      });
+  }, [items, activeId]);
+
+  // Stop the running worker if the component goes away
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Stop the running demo and drop everything still queued
+   */
+  const cancel = () => {
+    setItems(prev => prev.map(item => item.status === 'queued' ? { ...item, status: 'cancelled' as const } : item));
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Cancel and empty the queue
+   */
+  const clear = () => {
+    cancel();
+    setItems([]);
+  };
+
+  const isRunning = activeId !== null || items.some(item => item.status === 'queued');
+
+  return { items, isRunning, addFiles, cancel, clear };
+};
@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+// Coordinates are in the map SVG's 0-100 viewBox units
+export interface CameraPoint {
+  x: number;
+  y: number;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const WHEEL_ZOOM_STEP = 1.15; // Zoom factor per wheel notch
+const DRAG_THRESHOLD_PX = 3; // Movement before a mouse press counts as a drag (and not a click)
+const FIT_PADDING = 8; // Extra viewBox units around fitted players
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+// Keep the view inside the map: at zoom z the visible area is 100/z wide
+const clampCenter = (center: number, zoom: number) => {
+  const half = 50 / zoom;
+  return Math.max(half, Math.min(100 - half, center));
+};
+
+/**
+ * Zoom/pan/follow camera for MapVisualization.
+ *
+ * The map layers are wrapped in one element transformed with `transform`
+ * (origin top-left): screen = translate + zoom * point, all in percent of the container.
+ * While following, the camera centers on followTarget (e.g. the selected player) every
+ * render; dragging or wheel-zooming away from it turns follow mode off.
+ */
+export const useMapCamera = (containerRef: React.RefObject<HTMLDivElement>, followTarget: CameraPoint | null) => {
+  const [zoom, setZoom] = useState(1);
+  const [center, setCenter] = useState<CameraPoint>({ x: 50, y: 50 });
+  const [isFollowing, setIsFollowing] = useState(false);
+  const dragRef = useRef<{ startX: number; startY: number; center: CameraPoint; moved: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+
+  // Effective center (follow target wins while following)
+  const activeCenter = isFollowing && followTarget ? followTarget : center;
+  const centerX = clampCenter(activeCenter.x, zoom);
+  const centerY = clampCenter(activeCenter.y, zoom);
+  const translateX = 50 - centerX * zoom;
+  const translateY = 50 - centerY * zoom;
+  const transform = `translate(${translateX}%, ${translateY}%) scale(${zoom})`;
+
+  // Latest values for the native event listeners
+  const stateRef = useRef({ zoom, centerX, centerY });
+  stateRef.current = { zoom, centerX, centerY };
+
+  const zoomAt = useCallback((factor: number, anchor?: CameraPoint) => {
+    const { zoom: currentZoom, centerX: cx, centerY: cy } = stateRef.current;
+    const nextZoom = clampZoom(currentZoom * factor);
+    if (nextZoom === currentZoom) return;
+    if (anchor) {
+      // Keep the map point under the anchor (screen %) in place
+      const tx = 50 - cx * currentZoom;
+      const ty = 50 - cy * currentZoom;
+      const pointX = (anchor.x - tx) / currentZoom;
+      const pointY = (anchor.y - ty) / currentZoom;
+      setCenter({
+        x: clampCenter((50 - (anchor.x - pointX * nextZoom)) / nextZoom, nextZoom),
+        y: clampCenter((50 - (anchor.y - pointY * nextZoom)) / nextZoom, nextZoom)
+      });
+      setIsFollowing(false);
+    } else {
+      setCenter({ x: cx, y: cy });
+    }
+    setZoom(nextZoom);
+  }, []);
+
+  const reset = useCallback(() => {
+    setZoom(1);
+    setCenter({ x: 50, y: 50 });
+    setIsFollowing(false);
+  }, []);
+
+  // Zoom so all points are visible (a single point gets a fixed close-up)
+  const fitTo = useCallback((points: CameraPoint[]) => {
+    if (points.length === 0) return;
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+    const span = Math.max(maxX - minX, maxY - minY) + FIT_PADDING * 2;
+    const nextZoom = clampZoom(Math.min(4, 100 / span));
+    setZoom(nextZoom);
+    setCenter({ x: clampCenter((minX + maxX) / 2, nextZoom), y: clampCenter((minY + maxY) / 2, nextZoom) });
+    setIsFollowing(false);
+  }, []);
+
+  // Mouse wheel zoom around the cursor (native listener, React's onWheel is passive)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const anchor = {
+        x: ((e.clientX - rect.left) / rect.width) * 100,
+        y: ((e.clientY - rect.top) / rect.height) * 100
+      };
+      zoomAt(e.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP, anchor);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [containerRef, zoomAt]);
+
+  // Drag to pan
+  const onMouseDown = useCallback((e: React.MouseEvent) => {
+    if (e.button !== 0 || stateRef.current.zoom === 1) return;
+    const { centerX: cx, centerY: cy } = stateRef.current;
+    dragRef.current = { startX: e.clientX, startY: e.clientY, center: { x: cx, y: cy }, moved: false };
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      const drag = dragRef.current;
+      const container = containerRef.current;
+      if (!drag || !container) return;
+      const dx = moveEvent.clientX - drag.startX;
+      const dy = moveEvent.clientY - drag.startY;
+      if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+      drag.moved = true;
+      const rect = container.getBoundingClientRect();
+      const currentZoom = stateRef.current.zoom;
+      setIsFollowing(false);
+      setCenter({
+        x: clampCenter(drag.center.x - (dx / rect.width) * 100 / currentZoom, currentZoom),
+        y: clampCenter(drag.center.y - (dy / rect.height) * 100 / currentZoom, currentZoom)
+      });
+    };
+    const handleUp = () => {
+      suppressClickRef.current = dragRef.current?.moved ?? false;
+      dragRef.current = null;
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  }, [containerRef]);
+
+  // Swallow the click that ends a drag so it doesn't select a player
+  const onClickCapture = useCallback((e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      e.stopPropagation();
+    }
+  }, []);
+
+  return {
+    zoom,
+    transform,
+    isFollowing,
+    setIsFollowing,
+    zoomBy: (factor: number) => zoomAt(factor),
+    reset,
+    fitTo,
+    onMouseDown,
+    onClickCapture
+  };
+};
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import { useDemoStore } from '../store/useDemoStore';
+import { findFrameIndexAtTick } from '../services/frameStore';
+
+/**
+ * Drives replay playback: while isPlaying, advances targetTick (used by MapVisualization to
+ * interpolate between frames) at playbackSpeed times real time and keeps currentTick on the
+ * frame at or before it.
+ * Playback stops at the end of the demo.
+ */
+export const useReplayPlayback = () => {
+  const { demoFile, isPlaying } = useDemoStore();
+
+  useEffect(() => {
+    if (!isPlaying || !demoFile || demoFile.frames.length === 0) return;
+
+    const frames = demoFile.frames;
+    const firstTick = frames[0].tick;
+    const lastTick = frames[frames.length - 1].tick;
+    let lastTime = performance.now();
+    let animationFrameId: number;
+
+    const step = (now: number) => {
+      const elapsedSeconds = (now - lastTime) / 1000;
+      lastTime = now;
+
+      // Read the speed every step so speed changes apply without restarting the loop
+      const { targetTick, playbackSpeed } = useDemoStore.getState();
+      const nextTick = Math.max(firstTick, targetTick) + elapsedSeconds * demoFile.tickRate * playbackSpeed;
+
+      if (nextTick >= lastTick) {
+        useDemoStore.setState({ targetTick: lastTick, currentTick: frames.length - 1, isPlaying: false });
+        return;
+      }
+
+      useDemoStore.setState({ targetTick: nextTick, currentTick: findFrameIndexAtTick(frames, nextTick) });
+      animationFrameId = requestAnimationFrame(step);
+    };
+
+    animationFrameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [demoFile, isPlaying]);
+};
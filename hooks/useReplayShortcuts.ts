@@ -0,0 +1,136 @@
+import { useEffect } from 'react';
+import { useDemoStore } from '../store/useDemoStore';
+import { PLAYBACK_SPEEDS } from '../constants';
+import { findAdjacentRoundStartTick } from '../services/replayState';
+import { buildTimelineMarkers, findAdjacentMarker, TIMELINE_LAYERS } from '../services/timelineMarkers';
+
+// Layers counted as incidents for next/previous incident (the detector results)
+const INCIDENT_LAYERS = TIMELINE_LAYERS.filter(layer => layer.source === 'analysis').map(layer => layer.id);
+
+/**
+ * Replay actions shared by the Controls buttons and the keyboard shortcuts.
+ * They read and write the demo store directly, so they can be called from anywhere.
+ */
+export const replayActions = {
+  togglePlay() {
+    const { isPlaying, setIsPlaying } = useDemoStore.getState();
+    setIsPlaying(!isPlaying);
+  },
+
+  skipSeconds(seconds: number) {
+    const { demoFile, targetTick, seekToGameTick } = useDemoStore.getState();
+    if (!demoFile) return;
+    seekToGameTick(targetTick + seconds * demoFile.tickRate);
+  },
+
+  stepFrame(delta: number) {
+    useDemoStore.getState().stepFrame(delta);
+  },
+
+  // Next/previous entry of PLAYBACK_SPEEDS
+  changeSpeed(direction: 1 | -1) {
+    const { playbackSpeed, setPlaybackSpeed } = useDemoStore.getState();
+    const index = PLAYBACK_SPEEDS.indexOf(playbackSpeed);
+    const current = index === -1 ? PLAYBACK_SPEEDS.indexOf(1) : index;
+    const next = Math.max(0, Math.min(PLAYBACK_SPEEDS.length - 1, current + direction));
+    setPlaybackSpeed(PLAYBACK_SPEEDS[next]);
+  },
+
+  jumpRound(direction: 1 | -1) {
+    const { demoFile, targetTick, seekToGameTick } = useDemoStore.getState();
+    if (!demoFile?.rounds) return;
+    // Within the first 2 seconds of a round, "previous" goes to the round before
+    const tick = findAdjacentRoundStartTick(demoFile.rounds, targetTick, direction, 2 * demoFile.tickRate);
+    if (tick !== null) seekToGameTick(tick);
+  },
+
+  jumpIncident(direction: 1 | -1) {
+    const { demoFile, analysisResults, targetTick, seekToGameTick, focusCamera } = useDemoStore.getState();
+    if (!demoFile || !analysisResults) return;
+    const markers = buildTimelineMarkers(demoFile, analysisResults);
+    const marker = findAdjacentMarker(markers, targetTick, direction, INCIDENT_LAYERS);
+    if (!marker) return;
+    seekToGameTick(marker.tick);
+    useDemoStore.setState({ highlightedPlayerIds: marker.playerIds ?? [] });
+    focusCamera(marker.tick, marker.playerIds ?? []);
+  }
+};
+
+export interface ReplayShortcut {
+  keys: string[]; // As shown in the help overlay
+  description: string;
+}
+
+// Listed in the shortcuts help overlay - keep in sync with the key handler below
+export const REPLAY_SHORTCUTS: ReplayShortcut[] = [
+  { keys: ['Space'], description: 'Play / pause' },
+  { keys: ['←', '→'], description: 'Back / forward 5 seconds' },
+  { keys: [',', '.'], description: 'Previous / next frame' },
+  { keys: ['-', '+'], description: 'Slower / faster playback' },
+  { keys: ['[', ']'], description: 'Previous / next round' },
+  { keys: ['Shift+N', 'N'], description: 'Previous / next incident' },
+  { keys: ['?'], description: 'Show / hide this help' }
+];
+
+/**
+ * Keyboard shortcuts for the replay. Ignored while typing in a form field or with Ctrl/Alt/Meta held.
+ */
+export const useReplayShortcuts = (onToggleHelp: () => void) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.altKey || e.metaKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) {
+        return;
+      }
+
+      let handled = true;
+      switch (e.key) {
+        case ' ':
+          replayActions.togglePlay();
+          break;
+        case 'ArrowLeft':
+          replayActions.skipSeconds(-5);
+          break;
+        case 'ArrowRight':
+          replayActions.skipSeconds(5);
+          break;
+        case ',':
+          replayActions.stepFrame(-1);
+          break;
+        case '.':
+          replayActions.stepFrame(1);
+          break;
+        case '-':
+          replayActions.changeSpeed(-1);
+          break;
+        case '+':
+        case '=':
+          replayActions.changeSpeed(1);
+          break;
+        case '[':
+          replayActions.jumpRound(-1);
+          break;
+        case ']':
+          replayActions.jumpRound(1);
+          break;
+        case 'n':
+        case 'N':
+          replayActions.jumpIncident(e.shiftKey ? -1 : 1);
+          break;
+        case '?':
+          onToggleHelp();
+          break;
+        default:
+          handled = false;
+      }
+
+      if (handled) {
+        e.preventDefault(); // Space would otherwise scroll or press the focused button
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onToggleHelp]);
+};
@@ -7,6 +7,8 @@
  */
 
 import { DemoFile, Team, PlayerState } from '../types';
+import { FrameStore } from './frameStore';
+import type { DetectorProgress } from './detectorRegistry';
 
 export interface AFKDetection {
   playerId: number;
@@ -28,7 +30,7 @@ export interface AFKDetectionConfig {
   movementThreshold?: number; // Minimum distance moved to not be considered AFK (default: 3)
 }
 
-const DEFAULT_CONFIG: Required<AFKDetectionConfig> = {
+export const DEFAULT_AFK_DETECTION_CONFIG: Required<AFKDetectionConfig> = {
   afkThresholdSeconds: 5,
   movementThreshold: 3
 };
@@ -38,21 +40,24 @@ const DEFAULT_CONFIG: Required<AFKDetectionConfig> = {
  */
 export function detectAFKPlayers(
   demoFile: DemoFile,
-  config: AFKDetectionConfig = {}
+  config: AFKDetectionConfig = {},
+  onProgress?: DetectorProgress
 ): AFKDetection[] {
-  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const cfg = { ...DEFAULT_AFK_DETECTION_CONFIG, ...config };
   const detections: AFKDetection[] = [];
   const tickRate = demoFile.tickRate;
   const MOVE_EPS = cfg.movementThreshold;
+  const store = FrameStore.fromDemoFile(demoFile);
 
   for (let roundIndex = 0; roundIndex < demoFile.rounds.length; roundIndex++) {
     const round = demoFile.rounds[roundIndex];
+    onProgress?.(roundIndex / demoFile.rounds.length, `Analyzing round ${round.number} for AFK players...`);
     if (!round.startTick) continue;
 
     // Round timing: freezeEndTick is roundStart
     const freezeEndTick = round.freezeEndTick || round.startTick;
-    const roundEndTick = round.endTick || (demoFile.frames.length > 0 
-      ? demoFile.frames[demoFile.frames.length - 1].tick 
+    const roundEndTick = round.endTick || (store.frameCount > 0 
+      ? store.lastTick 
       : freezeEndTick);
     
     // 5 second grace window: [freezeEndTick, freezeEndTick + 5s)
@@ -61,11 +66,7 @@ export function detectAFKPlayers(
     const gracePeriodEndTick = freezeEndTick + gracePeriodTicks;
     
     // Process ALL frames from freezeEnd to roundEnd (not just after grace period)
-    const allFrames = demoFile.frames.filter(
-      f => f.tick >= freezeEndTick && f.tick <= roundEndTick
-    );
-    
-    if (allFrames.length === 0) continue;
+    if (!store.hasFrames(freezeEndTick, roundEndTick)) continue;
     
     // Track each player's state
     const playerTracking = new Map<number, {
@@ -80,79 +81,74 @@ export function detectAFKPlayers(
       firstSeenTick?: number; // First tick where player was seen alive in this round
     }>();
 
-    // Process all frames from freezeEnd to roundEnd
-    // Initialize tracking for players as we encounter them (not just at freeze end)
-    for (const frame of allFrames) {
-      for (const currentPlayer of frame.players) {
+    // Process each player's track from freezeEnd to roundEnd
+    // Players are tracked from their first row in the round (not just at freeze end),
+    // in order of first appearance
+    const tracks = store.getPlayerIds()
+      .map(playerId => store.getPlayerTrack(playerId, freezeEndTick, roundEndTick))
+      .filter(track => track.ticks.length > 0)
+      .sort((a, b) => a.ticks[0] - b.ticks[0]);
+
+    for (const track of tracks) {
+      for (let i = 0; i < track.ticks.length; i++) {
         // Skip spectators
-        if (currentPlayer.team === Team.SPECTATOR) continue;
+        if (track.team[i] === Team.SPECTATOR) continue;
+        const tick = track.ticks[i];
         
         // Get or create tracking for this player
-        let tracking = playerTracking.get(currentPlayer.id);
+        let tracking = playerTracking.get(track.playerId);
         
         // If player not tracked yet, initialize them
         if (!tracking) {
           // Track all players, even if they're dead when first seen
           // They might have been alive earlier or might become alive later
           tracking = {
-            player: currentPlayer,
-            initialPosition: { x: currentPlayer.position.x, y: currentPlayer.position.y },
-            lastPosition: { x: currentPlayer.position.x, y: currentPlayer.position.y },
+            player: store.getPlayerAt(tick, track.playerId, true)!,
+            initialPosition: { x: track.x[i], y: track.y[i] },
+            lastPosition: { x: track.x[i], y: track.y[i] },
             movedDuringGracePeriod: false,
             isAFK: false,
-            lastStillTick: frame.tick,
-            firstSeenTick: frame.tick
+            lastStillTick: tick,
+            firstSeenTick: tick
           };
-          playerTracking.set(currentPlayer.id, tracking);
+          playerTracking.set(track.playerId, tracking);
           
           // If player first appears after grace period, we'll check their movement separately
           // Don't mark them as moved yet - they might still be AFK
         }
         
-        // Skip if tracking doesn't exist (shouldn't happen, but safety check)
-        if (!tracking) continue;
-        
         // Check if player died
-        if (!currentPlayer.isAlive) {
+        if (!track.alive[i]) {
           if (!tracking.deathTick) {
-            tracking.deathTick = frame.tick;
-          }
-          // If player was AFK and died, mark it
-          if (tracking.isAFK) {
-            // AFK ends at death
+            tracking.deathTick = tick;
           }
           continue;
         }
 
         // Check for movement: distance from last position > MOVE_EPS
         const distance = Math.sqrt(
-          Math.pow(currentPlayer.position.x - tracking.lastPosition.x, 2) +
-          Math.pow(currentPlayer.position.y - tracking.lastPosition.y, 2)
+          Math.pow(track.x[i] - tracking.lastPosition.x, 2) +
+          Math.pow(track.y[i] - tracking.lastPosition.y, 2)
         );
         
         const hasMoved = distance > MOVE_EPS;
         
         // Update last position
-        tracking.lastPosition = { x: currentPlayer.position.x, y: currentPlayer.position.y };
+        tracking.lastPosition = { x: track.x[i], y: track.y[i] };
         
         if (hasMoved) {
           // Player moved - record first movement tick
           if (!tracking.firstMovementTick) {
-            tracking.firstMovementTick = frame.tick;
+            tracking.firstMovementTick = tick;
           }
           
           // If during grace period, mark that they moved (they're NOT AFK)
-          if (frame.tick < gracePeriodEndTick) {
+          if (tick < gracePeriodEndTick) {
             tracking.movedDuringGracePeriod = true;
           }
-          
-          // If AFK, movement ends the AFK period
-          if (tracking.isAFK) {
-            // AFK ends at first movement
-          }
         } else {
           // Player is still - update last still tick
-          tracking.lastStillTick = frame.tick;
+          tracking.lastStillTick = tick;
         }
       }
     }
@@ -18,7 +18,8 @@
  * - Provides explainable results with confidence scores
  */
 
-import { MatchFrame, PlayerState, Round, Team } from '../types';
+import { PlayerState, Round, Team } from '../types';
+import { FrameStore } from './frameStore';
 
 /**
  * Configuration for body blocking detection
@@ -378,7 +379,7 @@ function extractBlockingFeatures(
  */
 export function detectBodyBlocking(
   round: Round,
-  frames: MatchFrame[],
+  frames: FrameStore,
   tickRate: number,
   config: BodyBlockConfig = DEFAULT_BODY_BLOCK_CONFIG
 ): BodyBlockResult {
@@ -394,13 +395,10 @@ export function detectBodyBlocking(
     };
   }
   
-  // Filter frames to round (after freeze time)
-  const roundFrames = frames.filter(f => 
-    f.tick >= round.freezeEndTick! && 
-    f.tick <= round.endTick!
-  );
+  // Round bounds (after freeze time)
+  const bounds = frames.getRoundBounds(round);
   
-  if (roundFrames.length === 0) {
+  if (!bounds) {
     return {
       round: round.number,
       events: [],
@@ -410,17 +408,11 @@ export function detectBodyBlocking(
     };
   }
   
-  // Sample frames
+  // Sample frames (the store always includes the last frame)
   const sampleInterval = Math.ceil(tickRate / config.samplingHz);
-  const sampledFrames: MatchFrame[] = [];
-  for (let i = 0; i < roundFrames.length; i += sampleInterval) {
-    sampledFrames.push(roundFrames[i]);
-  }
-  if (sampledFrames.length === 0 || sampledFrames[sampledFrames.length - 1] !== roundFrames[roundFrames.length - 1]) {
-    sampledFrames.push(roundFrames[roundFrames.length - 1]);
-  }
+  const sampledFrames = Array.from(frames.iterateRound(round, { step: sampleInterval }));
   
-  const freezeEndTime = roundFrames[0]?.time || 0;
+  const freezeEndTime = bounds.first.time;
   
   // Initialize tracking for all players
   const playerTracking = new Map<number, PlayerTrackingState>();
@@ -491,7 +483,7 @@ export function detectBodyBlocking(
     // Group by team
     const teams = new Map<Team, PlayerTrackingState[]>();
     for (const player of players) {
-      const playerState = frame.players.find(p => p.id === player.playerId);
+      const playerState = frames.getPlayerAt(frame.tick, player.playerId, true);
       if (!playerState || playerState.team === Team.SPECTATOR) continue;
       
       if (!teams.has(playerState.team)) {
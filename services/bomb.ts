@@ -0,0 +1,87 @@
+/**
+ * Bomb
+ *
+ * Builds the bomb lifecycle (pickup, drop, plant, defuse, explosion) from the
+ * bomb_* game events and derives who carries the bomb in every frame.
+ */
+
+import { BombEvent, BombEventType, MatchFrame } from '../types';
+import { PlayerRegistry, readField } from './playerIdentity';
+import { findFrameIndexAtTick } from './frameStore';
+
+const EVENT_TYPES: Record<string, BombEventType> = {
+  bomb_pickup: 'pickup',
+  bomb_dropped: 'drop',
+  bomb_planted: 'plant',
+  bomb_begindefuse: 'begin_defuse',
+  bomb_defused: 'defuse',
+  bomb_exploded: 'explode'
+};
+
+// Game events to request from parseEvents
+export const BOMB_EVENT_NAMES = Object.keys(EVENT_TYPES);
+
+export function isBombEventName(eventName: string): boolean {
+  return eventName in EVENT_TYPES;
+}
+
+/**
+ * Normalize raw bomb_* events. Positions come from the player's frame at the event tick.
+ * The event name is passed alongside each event since Map-shaped parser output only has it as the key.
+ */
+export function buildBombEvents(rawEvents: { eventName: string; event: any }[], players: PlayerRegistry, frames: MatchFrame[]): BombEvent[] {
+  const events: BombEvent[] = [];
+  for (const { eventName, event: raw } of rawEvents) {
+    const type = EVENT_TYPES[eventName];
+    const tick = Number(readField(raw, 'tick', 'tick_num', 't')) || 0;
+    if (!type || tick <= 0) continue;
+
+    const identity = type === 'explode' ? undefined : players.resolveEventPlayer(raw, 'user');
+    const event: BombEvent = { type, tick, playerId: identity?.id, playerName: identity?.name ?? readField(raw, 'user_name') };
+
+    if (identity && frames.length > 0) {
+      const frame = frames[findFrameIndexAtTick(frames, tick)];
+      const player = frame?.players.find(p => p.id === identity.id);
+      if (player) event.position = { ...player.position };
+    }
+    if (type === 'begin_defuse') {
+      event.hasKit = Boolean(readField(raw, 'haskit', 'has_kit'));
+    }
+    events.push(event);
+  }
+  return events.sort((a, b) => a.tick - b.tick);
+}
+
+/**
+ * Set PlayerState.hasBomb and add plant/defuse events to the frames
+ */
+export function applyBombEventsToFrames(frames: MatchFrame[], bombEvents: BombEvent[]) {
+  if (frames.length === 0 || bombEvents.length === 0) return;
+
+  // Plant/defuse show up in the frame event lists like kills do
+  for (const event of bombEvents) {
+    if (event.type !== 'plant' && event.type !== 'defuse') continue;
+    const frame = frames[findFrameIndexAtTick(frames, event.tick)];
+    frame.events = [...frame.events, {
+      type: event.type,
+      tick: event.tick,
+      description: `${event.playerName || 'Unknown'} ${event.type === 'plant' ? 'planted' : 'defused'} the bomb`,
+      playerName: event.playerName,
+      playerId: event.playerId
+    }];
+  }
+
+  // Carrier: set by a pickup, cleared by a drop, plant or explosion
+  let carrierId: number | undefined;
+  let eventIndex = 0;
+  for (const frame of frames) {
+    while (eventIndex < bombEvents.length && bombEvents[eventIndex].tick <= frame.tick) {
+      const event = bombEvents[eventIndex++];
+      carrierId = event.type === 'pickup' ? event.playerId : undefined;
+    }
+    if (carrierId === undefined) continue;
+    for (const player of frame.players) {
+      player.hasBomb = player.id === carrierId && player.isAlive;
+    }
+  }
+}
@@ -0,0 +1,474 @@
+/**
+ * Clip Renderer
+ *
+ * Renders a tick range of the 2D replay to a video file in the browser, for sharing
+ * evidence without CS2. Frames are drawn on a canvas with the same geometry as the SVG
+ * replay (interpolated frames, radarDrawing.ts grenade shapes, player/bomb markers, view
+ * cones and aim rays, round state for the HUD), then encoded:
+ *
+ * - WebM: MediaRecorder on canvas.captureStream(). Recording runs in real time, so a
+ *   10 second clip at 1x takes 10 seconds to export.
+ * - GIF: every frame goes through GifEncoder, as fast as it can be drawn.
+ */
+
+import { DemoFile, GameEvent, PlayerState, Team, Vector2 } from '../types';
+import { GRENADE_COLORS, MapConfig, MapLevel, TEAM_COLORS, getLevelIndexForZ } from '../constants';
+import {
+  getAimRays,
+  getBombMarker,
+  getFiringPlayerIds,
+  getGrenadeShape,
+  getPlayerMarkerStyle,
+  getViewConePolygon,
+  HEADING_LENGTH,
+  MUZZLE_FLASH_DISTANCE,
+  pointAlongYaw,
+  worldToRadar
+} from './radarDrawing';
+import { getInterpolatedFrame, getRecentKills, getRoundState, formatClock } from './replayState';
+import { GifEncoder } from './gifEncoder';
+
+export type ClipFormat = 'webm' | 'gif';
+
+export interface ClipOptions {
+  fromTick: number;
+  toTick: number;
+  playerIds: number[]; // Highlighted (involved) players
+  format: ClipFormat;
+  size?: number; // Square output size in px (default 640 for WebM, 360 for GIF)
+  fps?: number; // Default 30 for WebM, 12 for GIF
+  speed?: number; // Playback speed multiplier (default 1)
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+const OTHER_LEVEL_ALPHA = 0.25;
+const HUD_FONT = 'ui-sans-serif, system-ui, sans-serif';
+
+// Loaded radar images (null if one failed to load - the background stays dark)
+interface ClipScene {
+  demoFile: DemoFile;
+  mapConfig: MapConfig;
+  levels: MapLevel[];
+  images: (HTMLImageElement | null)[];
+  playerIds: number[];
+  size: number;
+}
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/**
+ * Whether this browser can record WebM from a canvas
+ */
+export function isWebmSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'captureStream' in HTMLCanvasElement.prototype &&
+    WEBM_MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+}
+
+function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => {
+      console.warn(`[ClipRenderer] Could not load radar image ${url}`);
+      resolve(null);
+    };
+    image.src = url;
+  });
+}
+
+type ToCanvas = (x: number, y: number) => { x: number; y: number };
+
+/**
+ * Draw the radar at a tick: map image, grenades, view cones of the involved players, aim rays,
+ * planted bomb, players (involved ones highlighted and named), score/clock and kill feed
+ */
+function drawClipFrame(ctx: CanvasRenderingContext2D, scene: ClipScene, tick: number) {
+  const { demoFile, mapConfig, levels, images, playerIds, size } = scene;
+  const frame = getInterpolatedFrame(demoFile.frames, tick, demoFile.tickRate);
+  const players = frame?.players ?? [];
+  const unit = size / 100; // Same proportions as the SVG replay's 0-100 viewBox
+  const toCanvas: ToCanvas = (x: number, y: number) => {
+    const point = worldToRadar(mapConfig, x, y);
+    return { x: point.x * size, y: point.y * size };
+  };
+
+  // Level: the one the first involved player is on
+  const focus = players.find(player => playerIds.includes(player.id));
+  const levelIndex = getLevelIndexForZ(levels, focus?.position.z);
+  const alphaFor = (z?: number) =>
+    levels.length > 1 && getLevelIndexForZ(levels, z) !== levelIndex ? OTHER_LEVEL_ALPHA : 1;
+
+  // Background + radar
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = '#020617';
+  ctx.fillRect(0, 0, size, size);
+  const image = images[levelIndex];
+  if (image) {
+    ctx.globalAlpha = 0.9;
+    ctx.drawImage(image, 0, 0, size, size);
+  }
+
+  // Grenades (below the players)
+  for (const grenade of demoFile.grenades || []) {
+    const shape = getGrenadeShape(grenade, tick);
+    if (!shape) continue;
+    const color = GRENADE_COLORS[grenade.type];
+    if (shape.kind === 'flight') {
+      ctx.globalAlpha = 0.7 * alphaFor(shape.path[shape.path.length - 1].z);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 0.15 * unit;
+      ctx.setLineDash([0.6 * unit, 0.4 * unit]);
+      ctx.beginPath();
+      shape.path.forEach((point, index) => {
+        const { x, y } = toCanvas(point.x, point.y);
+        if (index === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+      const head = shape.path[shape.path.length - 1];
+      const { x, y } = toCanvas(head.x, head.y);
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(x, y, 0.5 * unit, 0, Math.PI * 2);
+      ctx.fill();
+      continue;
+    }
+    const center = toCanvas(shape.center.x, shape.center.y);
+    const rx = (shape.radius / (mapConfig.maxX - mapConfig.minX)) * size;
+    const ry = (shape.radius / (mapConfig.maxY - mapConfig.minY)) * size;
+    ctx.globalAlpha = shape.opacity * alphaFor(shape.center.z);
+    ctx.fillStyle = grenade.type === 'he' ? '#f97316' : color;
+    ctx.beginPath();
+    if (shape.radius > 0) ctx.ellipse(center.x, center.y, rx, ry, 0, 0, Math.PI * 2);
+    else ctx.arc(center.x, center.y, 0.6 * unit, 0, Math.PI * 2);
+    ctx.fill();
+    if (grenade.type === 'molotov' || grenade.type === 'he') {
+      ctx.strokeStyle = grenade.type === 'molotov' ? '#ef4444' : color;
+      ctx.lineWidth = 0.2 * unit;
+      ctx.stroke();
+    }
+  }
+
+  // View cones of the involved players (the replay's "involved" FOV mode)
+  for (const player of players) {
+    if (!player.isAlive || !playerIds.includes(player.id)) continue;
+    const color = TEAM_COLORS[player.team] || TEAM_COLORS[Team.SPECTATOR];
+    ctx.globalAlpha = alphaFor(player.position.z);
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 0.1 * unit;
+    tracePolygon(ctx, getViewConePolygon(player), toCanvas);
+    ctx.globalAlpha = alphaFor(player.position.z) * 0.12;
+    ctx.fill();
+    ctx.globalAlpha = alphaFor(player.position.z) * 0.4;
+    ctx.stroke();
+  }
+
+  // Aim rays: where the attacker was looking vs. where the victim was
+  for (const ray of getAimRays(demoFile, tick)) {
+    const from = toCanvas(ray.attacker.position.x, ray.attacker.position.y);
+    const to = toCanvas(ray.victim.position.x, ray.victim.position.y);
+    const aimEnd = toCanvas(ray.aimEnd.x, ray.aimEnd.y);
+    const alpha = ray.opacity * alphaFor(ray.attacker.position.z);
+    ctx.strokeStyle = ray.color;
+    ctx.globalAlpha = alpha * 0.6;
+    ctx.lineWidth = 0.1 * unit;
+    ctx.setLineDash([0.4 * unit, 0.4 * unit]);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.globalAlpha = alpha;
+    ctx.lineWidth = (ray.isKill ? 0.3 : 0.2) * unit;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(aimEnd.x, aimEnd.y);
+    ctx.stroke();
+    drawLabel(ctx, `${ray.offsetDegrees.toFixed(0)}° off`, aimEnd.x, aimEnd.y - 0.8 * unit, 1.4 * unit, ray.color);
+  }
+
+  // Planted bomb (below the players)
+  const roundState = getRoundState(demoFile, tick);
+  const bomb = getBombMarker(roundState.bomb);
+  if (bomb) {
+    const { x, y } = toCanvas(bomb.position.x, bomb.position.y);
+    ctx.globalAlpha = alphaFor(bomb.position.z);
+    if (bomb.isTicking) {
+      // The replay's pulsing ring, driven by the demo clock instead of an SVG animation
+      const pulse = (tick / (demoFile.tickRate || 64)) % 1;
+      const phase = pulse < 0.5 ? pulse * 2 : (1 - pulse) * 2;
+      ctx.globalAlpha = alphaFor(bomb.position.z) * (0.9 - 0.7 * phase);
+      ctx.strokeStyle = bomb.color;
+      ctx.lineWidth = 0.2 * unit;
+      ctx.beginPath();
+      ctx.arc(x, y, (1.2 + 1.2 * phase) * unit, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.globalAlpha = alphaFor(bomb.position.z);
+    }
+    ctx.fillStyle = bomb.color;
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 0.15 * unit;
+    ctx.beginPath();
+    ctx.rect(x - 0.9 * unit, y - 0.6 * unit, 1.8 * unit, 1.2 * unit);
+    ctx.fill();
+    ctx.stroke();
+    drawLabel(ctx, bomb.label, x, y - 1.2 * unit, 1.6 * unit, '#ffffff');
+  }
+
+  // Players: everyone else first, involved players on top
+  const ordered = [
+    ...players.filter(player => !playerIds.includes(player.id)),
+    ...players.filter(player => playerIds.includes(player.id))
+  ];
+  const firing = getFiringPlayerIds(demoFile, tick);
+  for (const player of ordered) {
+    drawPlayer(ctx, player, playerIds.includes(player.id), firing.has(player.id), toCanvas, unit, alphaFor(player.position.z));
+  }
+
+  drawHud(ctx, scene, tick, roundState, getRecentKills(demoFile, tick), players);
+}
+
+function tracePolygon(ctx: CanvasRenderingContext2D, points: Vector2[], toCanvas: ToCanvas) {
+  ctx.beginPath();
+  points.forEach((point, index) => {
+    const { x, y } = toCanvas(point.x, point.y);
+    if (index === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.closePath();
+}
+
+// Bold text with a dark outline, bottom-centered on x/y
+function drawLabel(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, fontSize: number, color: string) {
+  ctx.font = `bold ${Math.max(9, fontSize)}px ${HUD_FONT}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+  ctx.strokeText(text, x, y);
+  ctx.fillStyle = color;
+  ctx.fillText(text, x, y);
+}
+
+/**
+ * Player marker, styled like the replay (radarDrawing.getPlayerMarkerStyle). Involved players
+ * are drawn as selected: larger, with a halo and their name.
+ */
+function drawPlayer(
+  ctx: CanvasRenderingContext2D,
+  player: PlayerState,
+  isHighlighted: boolean,
+  isFiring: boolean,
+  toCanvas: ToCanvas,
+  unit: number,
+  alpha: number
+) {
+  const { x, y } = toCanvas(player.position.x, player.position.y);
+  const marker = getPlayerMarkerStyle(player, isHighlighted, isHighlighted);
+
+  if (marker.haloRadius !== null) {
+    ctx.globalAlpha = alpha * 0.3;
+    ctx.fillStyle = marker.color;
+    ctx.beginPath();
+    ctx.arc(x, y, marker.haloRadius * unit, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.globalAlpha = alpha * marker.opacity;
+  ctx.fillStyle = marker.fill;
+  ctx.strokeStyle = marker.stroke;
+  ctx.lineWidth = marker.strokeWidth * unit;
+  ctx.beginPath();
+  ctx.arc(x, y, marker.radius * unit, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+
+  if (marker.isDisconnected) {
+    ctx.globalAlpha = alpha * 0.9;
+    ctx.fillStyle = '#64748b';
+    ctx.beginPath();
+    ctx.arc(x, y, 1.5 * unit, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = alpha;
+    drawLabel(ctx, '📶', x, y + 0.6 * unit, 1.2 * unit, '#ffffff');
+  }
+
+  if (marker.showBombIcon) {
+    ctx.globalAlpha = alpha * 0.9;
+    ctx.fillStyle = '#ef4444';
+    ctx.beginPath();
+    ctx.arc(x, y - 2.5 * unit, 1.2 * unit, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = alpha;
+    drawLabel(ctx, '💣', x, y - 1.9 * unit, 1.2 * unit, '#ffffff');
+  }
+
+  if (marker.showName) {
+    ctx.globalAlpha = alpha;
+    drawLabel(ctx, player.name, x, y - 2.5 * unit, 2 * unit, '#ffffff');
+  }
+
+  if (marker.showHeading) {
+    const heading = pointAlongYaw(player.position, player.viewAngle, HEADING_LENGTH);
+    const end = toCanvas(heading.x, heading.y);
+    ctx.globalAlpha = alpha * 0.7;
+    ctx.strokeStyle = marker.color;
+    ctx.lineWidth = 0.2 * unit;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(end.x, end.y);
+    ctx.stroke();
+  }
+
+  if (marker.showHeading && isFiring) {
+    const muzzle = pointAlongYaw(player.position, player.viewAngle, MUZZLE_FLASH_DISTANCE);
+    const flash = toCanvas(muzzle.x, muzzle.y);
+    ctx.globalAlpha = alpha * 0.5;
+    ctx.fillStyle = '#ff6600';
+    ctx.beginPath();
+    ctx.arc(flash.x, flash.y, 1.2 * unit, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = alpha * 0.9;
+    ctx.fillStyle = '#ffaa00';
+    ctx.beginPath();
+    ctx.arc(flash.x, flash.y, 0.8 * unit, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
+function drawHud(
+  ctx: CanvasRenderingContext2D,
+  scene: ClipScene,
+  tick: number,
+  roundState: ReturnType<typeof getRoundState>,
+  kills: GameEvent[],
+  players: PlayerState[]
+) {
+  const { demoFile, size } = scene;
+  const fontSize = Math.max(10, Math.round(size / 40));
+  ctx.globalAlpha = 1;
+  ctx.font = `bold ${fontSize}px ${HUD_FONT}`;
+  ctx.textBaseline = 'middle';
+
+  // Score + clock, top center
+  const clock = roundState.clockSeconds !== null ? formatClock(roundState.clockSeconds) : '';
+  const roundLabel = roundState.round ? `R${roundState.round.number}` : '';
+  const hudText = `CT ${roundState.score.ct} : ${roundState.score.t} T   ${roundLabel} ${clock}`.trim();
+  const hudWidth = ctx.measureText(hudText).width + fontSize;
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
+  ctx.fillRect((size - hudWidth) / 2, fontSize * 0.4, hudWidth, fontSize * 1.6);
+  ctx.fillStyle = roundState.phase === 'planted' ? '#f87171' : '#e2e8f0';
+  ctx.textAlign = 'center';
+  ctx.fillText(hudText, size / 2, fontSize * 1.2);
+
+  // Kill feed, top right (team colors from the current frame, kill events carry no team)
+  const teamOf = (playerId?: number) => players.find(player => player.id === playerId)?.team;
+  ctx.font = `${fontSize * 0.85}px ${HUD_FONT}`;
+  ctx.textAlign = 'right';
+  kills.forEach((kill, index) => {
+    const y = fontSize * (3 + index * 1.5);
+    const text = `${kill.attackerName || 'World'}  [${kill.weapon || '?'}${kill.isHeadshot ? ' HS' : ''}]  ${kill.victimName || ''}`;
+    const width = ctx.measureText(text).width + fontSize * 0.6;
+    ctx.fillStyle = 'rgba(15, 23, 42, 0.8)';
+    ctx.fillRect(size - width - fontSize * 0.4, y - fontSize * 0.65, width, fontSize * 1.3);
+    const involved = scene.playerIds.includes(kill.attackerId ?? -1) || scene.playerIds.includes(kill.victimId ?? -1);
+    ctx.fillStyle = involved ? '#fb923c' : TEAM_COLORS[teamOf(kill.attackerId) ?? Team.SPECTATOR];
+    ctx.fillText(text, size - fontSize * 0.7, y);
+  });
+
+  // Map + demo time, bottom left
+  ctx.font = `${fontSize * 0.8}px ${HUD_FONT}`;
+  ctx.textAlign = 'left';
+  const seconds = tick / (demoFile.tickRate || 64);
+  const footer = `${demoFile.mapName}  ·  ${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}  ·  tick ${Math.round(tick)}`;
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.8)';
+  ctx.fillRect(fontSize * 0.4, size - fontSize * 1.7, ctx.measureText(footer).width + fontSize, fontSize * 1.3);
+  ctx.fillStyle = '#cbd5e1';
+  ctx.fillText(footer, fontSize * 0.9, size - fontSize * 1.05);
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Clip export cancelled', 'AbortError');
+};
+
+/**
+ * Render fromTick..toTick to a WebM or GIF Blob
+ */
+export async function renderClip(demoFile: DemoFile, mapConfig: MapConfig, levels: MapLevel[], options: ClipOptions): Promise<Blob> {
+  const { fromTick, toTick, format, onProgress, signal } = options;
+  if (toTick <= fromTick) throw new Error('Clip range is empty');
+  if (format === 'webm' && !isWebmSupported()) throw new Error('This browser cannot record WebM video');
+
+  const size = options.size ?? (format === 'gif' ? 360 : 640);
+  const fps = options.fps ?? (format === 'gif' ? 12 : 30);
+  const speed = options.speed ?? 1;
+  const ticksPerFrame = (demoFile.tickRate * speed) / fps;
+  const frameCount = Math.max(1, Math.ceil((toTick - fromTick) / ticksPerFrame) + 1);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d', { willReadFrequently: format === 'gif' });
+  if (!ctx) throw new Error('Canvas 2D is not available');
+
+  const scene: ClipScene = {
+    demoFile,
+    mapConfig,
+    levels,
+    images: await Promise.all(levels.map(level => loadImage(level.imageUrl))),
+    playerIds: options.playerIds,
+    size
+  };
+  console.log(`[ClipRenderer] ${format} ${size}px, ${frameCount} frames at ${fps} fps (ticks ${fromTick}-${toTick}, ${speed}x)`);
+
+  const tickAt = (index: number) => Math.min(toTick, fromTick + index * ticksPerFrame);
+
+  if (format === 'gif') {
+    const encoder = new GifEncoder(size, size);
+    for (let index = 0; index < frameCount; index++) {
+      throwIfAborted(signal);
+      drawClipFrame(ctx, scene, tickAt(index));
+      encoder.addFrame(ctx.getImageData(0, 0, size, size).data, 1000 / fps);
+      onProgress?.((index + 1) / frameCount);
+      // Let the UI update every few frames
+      if (index % 5 === 4) await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return encoder.finish();
+  }
+
+  // WebM: draw in real time while MediaRecorder captures the canvas
+  const mimeType = WEBM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))!;
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  drawClipFrame(ctx, scene, fromTick);
+  recorder.start();
+  try {
+    const startedAt = performance.now();
+    for (let index = 0; index < frameCount; index++) {
+      throwIfAborted(signal);
+      drawClipFrame(ctx, scene, tickAt(index));
+      onProgress?.((index + 1) / frameCount);
+      // Wait until this frame's slot in real time is over
+      const wait = startedAt + ((index + 1) * 1000) / fps - performance.now();
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, wait)));
+    }
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+    await stopped;
+  }
+  return new Blob(chunks, { type: 'video/webm' });
+}
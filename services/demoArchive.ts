@@ -0,0 +1,112 @@
+/**
+ * Demo Archive Detection
+ *
+ * Valve and FACEIT hand out demos as .dem.bz2 / .dem.gz / .dem.zst or zip bundles.
+ * This module detects the container by its magic bytes and lists the demos inside zips.
+ * It has no dependencies so the UI can use it without pulling in the decompressors;
+ * the actual decompression runs in the worker (see demoDecompressor.ts).
+ */
+
+export type CompressionKind = 'none' | 'gzip' | 'bzip2' | 'zstd' | 'zip';
+
+export interface ZipDemoEntry {
+  name: string; // Path inside the zip
+  compressedSize: number;
+  size: number; // Uncompressed size
+}
+
+// File extensions accepted by the file input / drop zone
+export const ACCEPTED_DEMO_EXTENSIONS = ['.dem', '.dem.gz', '.dem.bz2', '.dem.zst', '.gz', '.bz2', '.zst', '.zip'];
+
+export const COMPRESSION_LABELS: Record<CompressionKind, string> = {
+  none: 'Uncompressed',
+  gzip: 'gzip',
+  bzip2: 'bzip2',
+  zstd: 'Zstandard',
+  zip: 'zip'
+};
+
+/**
+ * Detect the container format from the first bytes of a file
+ */
+export function detectCompression(bytes: Uint8Array): CompressionKind {
+  if (bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) return 'gzip';
+  if (bytes.length >= 3 && bytes[0] === 0x42 && bytes[1] === 0x5a && bytes[2] === 0x68) return 'bzip2'; // "BZh"
+  if (bytes.length >= 4 && bytes[0] === 0x28 && bytes[1] === 0xb5 && bytes[2] === 0x2f && bytes[3] === 0xfd) return 'zstd';
+  if (bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && (bytes[2] === 0x03 || bytes[2] === 0x05) && (bytes[3] === 0x04 || bytes[3] === 0x06)) return 'zip'; // "PK\x03\x04" or empty "PK\x05\x06"
+  return 'none';
+}
+
+/**
+ * Detect the container format of a File without reading all of it
+ */
+export async function detectFileCompression(file: Blob): Promise<CompressionKind> {
+  const head = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+  return detectCompression(head);
+}
+
+/**
+ * Whether a file name looks like something we can open (the magic bytes decide the format)
+ */
+export function isAcceptedDemoFileName(name: string): boolean {
+  const lower = name.toLowerCase();
+  return ACCEPTED_DEMO_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+/**
+ * Demo-looking entries in a zip (.dem, or compressed .dem inside the zip)
+ */
+export function isDemoEntryName(name: string): boolean {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('/') || lower.split('/').pop()!.startsWith('._')) return false; // Folders, macOS resource forks
+  return lower.endsWith('.dem') || lower.endsWith('.dem.gz') || lower.endsWith('.dem.bz2') || lower.endsWith('.dem.zst');
+}
+
+/**
+ * List the demos in a zip by reading only its central directory (no decompression)
+ */
+export async function listZipDemos(file: Blob): Promise<ZipDemoEntry[]> {
+  // End of central directory record: 22 bytes + up to 64KB comment at the end of the file
+  const tailSize = Math.min(file.size, 22 + 0xffff);
+  const tail = new DataView(await file.slice(file.size - tailSize).arrayBuffer());
+
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a valid zip file (end of central directory not found)');
+  }
+
+  const entryCount = tail.getUint16(eocd + 10, true);
+  const directorySize = tail.getUint32(eocd + 12, true);
+  const directoryOffset = tail.getUint32(eocd + 16, true);
+  if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('Zip64 archives are not supported');
+  }
+
+  const directory = new DataView(await file.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer());
+  const decoder = new TextDecoder();
+  const entries: ZipDemoEntry[] = [];
+  let offset = 0;
+  for (let i = 0; i < entryCount && offset + 46 <= directory.byteLength; i++) {
+    if (directory.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Corrupt zip central directory');
+    }
+    const compressedSize = directory.getUint32(offset + 20, true);
+    const size = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength));
+
+    if (isDemoEntryName(name)) {
+      entries.push({ name, compressedSize, size });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
@@ -0,0 +1,144 @@
+/**
+ * Demo Batch
+ *
+ * Helpers for analyzing a whole series / tournament day in one go:
+ * collecting files from multi-file and folder drops, expanding zips into one
+ * queue item per demo, and reducing an analysis to the counts shown in the
+ * cross-match summary table.
+ */
+
+import { DemoFile } from '../types';
+import type { AnalysisResults } from './demoAnalyzer';
+import { detectFileCompression, isAcceptedDemoFileName, listZipDemos } from './demoArchive';
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+// Per-demo counts for the summary table
+export interface DemoSummary {
+  mapName: string;
+  scoreCT: number;
+  scoreT: number;
+  rounds: number;
+  afk: number;
+  teamKills: number;
+  teamDamage: number;
+  teamFlashes: number;
+  disconnects: number;
+}
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  entryName?: string; // Demo inside a zip
+  label: string; // File name (plus zip entry) shown in the table
+  status: BatchItemStatus;
+  progress: number; // 0-100
+  step?: string; // Current parsing/analysis step
+  summary?: DemoSummary;
+  cacheKey?: string; // IndexedDB cache key - lets a row reopen without re-parsing
+  error?: string;
+}
+
+// A file to queue, with the zip entry to open if it is a zip
+export interface BatchSource {
+  file: File;
+  entryName?: string;
+}
+
+/**
+ * Reduce a full analysis to the counts shown in the summary table
+ */
+export function summarizeDemo(demoFile: DemoFile, results: AnalysisResults): DemoSummary {
+  return {
+    mapName: demoFile.mapName,
+    scoreCT: demoFile.scores.ct,
+    scoreT: demoFile.scores.t,
+    rounds: demoFile.rounds.length,
+    afk: results.afkDetections.length,
+    teamKills: results.teamKills.length,
+    teamDamage: results.teamDamage.length,
+    teamFlashes: results.teamFlashes.length,
+    disconnects: results.disconnects.length
+  };
+}
+
+// Read every entry of a dropped folder (readEntries returns results in chunks)
+function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  return new Promise((resolve, reject) => {
+    const readChunk = () => {
+      reader.readEntries((chunk) => {
+        if (chunk.length === 0) {
+          resolve(entries);
+        } else {
+          entries.push(...chunk);
+          readChunk();
+        }
+      }, reject);
+    };
+    readChunk();
+  });
+}
+
+async function collectEntry(entry: FileSystemEntry, files: File[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    if (isAcceptedDemoFileName(file.name)) {
+      files.push(file);
+    }
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await collectEntry(child, files);
+    }
+  }
+}
+
+/**
+ * Collect demo files from a drop - plain files as well as (nested) folders
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<{ files: File[]; hadFolder: boolean }> {
+  // Grab the entries synchronously - the DataTransfer is cleared once the drop handler yields
+  const entries = Array.from(dataTransfer.items || [])
+    .map(item => item.kind === 'file' ? item.webkitGetAsEntry?.() : null)
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return { files: Array.from(dataTransfer.files).filter(f => isAcceptedDemoFileName(f.name)), hadFolder: false };
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry, files);
+  }
+  return { files, hadFolder: entries.some(entry => entry.isDirectory) };
+}
+
+/**
+ * Turn files into queue sources - every demo inside a zip becomes its own item
+ */
+export async function expandBatchSources(files: File[]): Promise<BatchSource[]> {
+  const sources: BatchSource[] = [];
+  for (const file of files) {
+    try {
+      if (await detectFileCompression(file) === 'zip') {
+        const entries = await listZipDemos(file);
+        for (const entry of entries) {
+          sources.push({ file, entryName: entry.name });
+        }
+        continue;
+      }
+    } catch (err) {
+      console.warn(`[DemoBatch] Could not read ${file.name}, queueing it as-is:`, err);
+    }
+    sources.push({ file });
+  }
+  return sources;
+}
+
+/**
+ * Sort key so a series shows up in file order (natural sort: map2 before map10)
+ */
+export function compareBatchLabels(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
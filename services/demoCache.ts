@@ -0,0 +1,231 @@
+/**
+ * Demo Cache
+ *
+ * Persists parsed demos and their analysis results in IndexedDB, keyed by the
+ * SHA-256 of the demo file, so re-opening the same demo skips the WASM parse.
+ *
+ * The DemoFile and AnalysisResults objects are stored as they are: IndexedDB's structured
+ * clone keeps Maps and Sets (e.g. ObjectiveSabotage.eventsByPlayer, EconomyGriefing.byPlayer)
+ * and typed arrays, so there is no serialization pass on save or load. Records carry a
+ * format version; records written with another version are treated as a cache miss and dropped.
+ *
+ * Works on the main thread and inside the demo worker.
+ */
+
+import { DemoFile } from '../types';
+import type { AnalysisResults } from './demoAnalyzer';
+
+const DB_NAME = 'cs-demo-analyzer';
+const DB_VERSION = 1; // IndexedDB schema version (object stores)
+const ENTRIES_STORE = 'entries'; // Small metadata records for the "Recent demos" list
+const PAYLOADS_STORE = 'payloads'; // The (large) demo + results
+
+// Bump when DemoFile / AnalysisResults change shape - old records are then ignored
+export const CACHE_FORMAT_VERSION = 5; // v2: typed DemoFile.grenades, v3: bomb events + carrier, v4: view angles, v5: stored without tagging Maps/Sets
+
+const MAX_CACHED_DEMOS = 10; // Oldest entries are evicted beyond this
+
+export interface CachedDemoEntry {
+  hash: string;
+  fileName: string;
+  fileSize: number;
+  mapName: string;
+  roundCount: number;
+  savedAt: number; // Date.now()
+  formatVersion: number;
+  analysisKey?: string; // Detector settings the results were computed with (see getDetectorSettingsKey)
+}
+
+interface CachedDemoPayload {
+  hash: string;
+  formatVersion: number;
+  demoFile: DemoFile;
+  results: AnalysisResults;
+}
+
+export interface CachedDemo {
+  entry: CachedDemoEntry;
+  demoFile: DemoFile;
+  results: AnalysisResults;
+}
+
+/**
+ * SHA-256 of the demo file contents as a hex string
+ */
+export async function hashBuffer(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Wrap an IDBRequest in a promise
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolve once a transaction has committed
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE, { keyPath: 'hash' });
+      }
+      if (!db.objectStoreNames.contains(PAYLOADS_STORE)) {
+        db.createObjectStore(PAYLOADS_STORE, { keyPath: 'hash' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * List cached demos, most recent first
+ */
+export async function listRecentDemos(): Promise<CachedDemoEntry[]> {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(ENTRIES_STORE, 'readonly');
+    const entries = await requestToPromise(tx.objectStore(ENTRIES_STORE).getAll()) as CachedDemoEntry[];
+    return entries
+      .filter(entry => entry.formatVersion === CACHE_FORMAT_VERSION)
+      .sort((a, b) => b.savedAt - a.savedAt);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load a cached demo + analysis, or null if it isn't cached (or was written by another format version)
+ */
+export async function loadCachedDemo(hash: string): Promise<CachedDemo | null> {
+  const db = await openDatabase();
+  let entry: CachedDemoEntry | undefined;
+  let payload: CachedDemoPayload | undefined;
+  try {
+    const tx = db.transaction([ENTRIES_STORE, PAYLOADS_STORE], 'readonly');
+    [entry, payload] = await Promise.all([
+      requestToPromise(tx.objectStore(ENTRIES_STORE).get(hash)) as Promise<CachedDemoEntry | undefined>,
+      requestToPromise(tx.objectStore(PAYLOADS_STORE).get(hash)) as Promise<CachedDemoPayload | undefined>
+    ]);
+  } finally {
+    db.close();
+  }
+
+  if (!entry || !payload) return null;
+  if (payload.formatVersion !== CACHE_FORMAT_VERSION) {
+    console.log(`[DemoCache] Dropping ${hash.slice(0, 12)}: format v${payload.formatVersion}, expected v${CACHE_FORMAT_VERSION}`);
+    await deleteCachedDemo(hash).catch(() => {});
+    return null;
+  }
+
+  return {
+    entry,
+    demoFile: payload.demoFile,
+    results: payload.results
+  };
+}
+
+/**
+ * Store a demo + analysis. Evicts the oldest entries beyond MAX_CACHED_DEMOS.
+ */
+export async function saveCachedDemo(
+  hash: string,
+  file: { name: string; size: number; analysisKey?: string },
+  demoFile: DemoFile,
+  results: AnalysisResults
+): Promise<void> {
+  const entry: CachedDemoEntry = {
+    hash,
+    fileName: file.name,
+    fileSize: file.size,
+    mapName: demoFile.mapName,
+    roundCount: demoFile.rounds.length,
+    savedAt: Date.now(),
+    formatVersion: CACHE_FORMAT_VERSION,
+    analysisKey: file.analysisKey
+  };
+  const payload: CachedDemoPayload = {
+    hash,
+    formatVersion: CACHE_FORMAT_VERSION,
+    demoFile,
+    results
+  };
+
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction([ENTRIES_STORE, PAYLOADS_STORE], 'readwrite');
+    tx.objectStore(ENTRIES_STORE).put(entry);
+    tx.objectStore(PAYLOADS_STORE).put(payload);
+    await transactionDone(tx);
+
+    // Evict the oldest entries
+    const evictTx = db.transaction([ENTRIES_STORE, PAYLOADS_STORE], 'readwrite');
+    const entries = await requestToPromise(evictTx.objectStore(ENTRIES_STORE).getAll()) as CachedDemoEntry[];
+    entries.sort((a, b) => b.savedAt - a.savedAt);
+    for (const old of entries.slice(MAX_CACHED_DEMOS)) {
+      evictTx.objectStore(ENTRIES_STORE).delete(old.hash);
+      evictTx.objectStore(PAYLOADS_STORE).delete(old.hash);
+    }
+    await transactionDone(evictTx);
+  } finally {
+    db.close();
+  }
+  console.log(`[DemoCache] Saved ${file.name} (${hash.slice(0, 12)})`);
+}
+
+/**
+ * Replace the analysis results of a cached demo (e.g. after re-running detectors with new settings).
+ * Resolves false if the demo is no longer cached.
+ */
+export async function updateCachedResults(hash: string, results: AnalysisResults, analysisKey: string): Promise<boolean> {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction([ENTRIES_STORE, PAYLOADS_STORE], 'readwrite');
+    const [entry, payload] = await Promise.all([
+      requestToPromise(tx.objectStore(ENTRIES_STORE).get(hash)) as Promise<CachedDemoEntry | undefined>,
+      requestToPromise(tx.objectStore(PAYLOADS_STORE).get(hash)) as Promise<CachedDemoPayload | undefined>
+    ]);
+    if (!entry || !payload || payload.formatVersion !== CACHE_FORMAT_VERSION) return false;
+    tx.objectStore(ENTRIES_STORE).put({ ...entry, analysisKey, savedAt: Date.now() });
+    tx.objectStore(PAYLOADS_STORE).put({ ...payload, results });
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+  console.log(`[DemoCache] Updated results for ${hash.slice(0, 12)}`);
+  return true;
+}
+
+/**
+ * Remove a demo from the cache
+ */
+export async function deleteCachedDemo(hash: string): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction([ENTRIES_STORE, PAYLOADS_STORE], 'readwrite');
+    tx.objectStore(ENTRIES_STORE).delete(hash);
+    tx.objectStore(PAYLOADS_STORE).delete(hash);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Demo Decompressor
+ *
+ * Turns an uploaded file (plain .dem, .dem.gz, .dem.bz2, .dem.zst or a zip bundle)
+ * into raw demo bytes. Runs inside the demo worker - bzip2 in particular can take a
+ * while on a full match demo.
+ */
+
+import { gunzipSync, unzipSync } from 'fflate';
+import { decompress as zstdDecompress } from 'fzstd';
+import { decompress as bzip2Decompress } from 'bz2';
+import { CompressionKind, detectCompression, isDemoEntryName } from './demoArchive';
+
+export interface DecompressedDemo {
+  data: Uint8Array;
+  compression: CompressionKind; // Outer container of the uploaded file
+  entryName?: string; // Demo picked from a zip
+}
+
+/**
+ * Decompress a single stream (not zip)
+ */
+function decompressStream(data: Uint8Array, kind: CompressionKind): Uint8Array {
+  switch (kind) {
+    case 'gzip':
+      return gunzipSync(data);
+    case 'bzip2':
+      return bzip2Decompress(data);
+    case 'zstd':
+      return zstdDecompress(data);
+    default:
+      return data;
+  }
+}
+
+/**
+ * Extract one demo from a zip. Without an entry name the zip must contain exactly one demo.
+ */
+function extractZipEntry(data: Uint8Array, entryName?: string): { name: string; data: Uint8Array } {
+  const unzipped = unzipSync(data, {
+    filter: (file) => entryName ? file.name === entryName : isDemoEntryName(file.name)
+  });
+  const names = Object.keys(unzipped);
+  if (names.length === 0) {
+    throw new Error(entryName ? `"${entryName}" was not found in the zip` : 'The zip does not contain a .dem file');
+  }
+  if (names.length > 1) {
+    throw new Error(`The zip contains ${names.length} demos, pick one to open`);
+  }
+  return { name: names[0], data: unzipped[names[0]] };
+}
+
+/**
+ * Detect the container by magic bytes and return the raw demo bytes
+ */
+export function decompressDemo(buffer: ArrayBuffer, entryName?: string): DecompressedDemo {
+  const input = new Uint8Array(buffer);
+  const compression = detectCompression(input);
+  if (compression === 'none') {
+    return { data: input, compression };
+  }
+
+  console.log(`[DemoDecompressor] Detected ${compression} (${input.length.toLocaleString()} bytes)`);
+  console.time('Decompress demo');
+  try {
+    if (compression === 'zip') {
+      const entry = extractZipEntry(input, entryName);
+      // Zips sometimes carry a compressed demo (e.g. match.dem.bz2 inside a bundle)
+      const inner = detectCompression(entry.data);
+      const data = inner === 'zip' ? entry.data : decompressStream(entry.data, inner);
+      return { data, compression, entryName: entry.name };
+    }
+    return { data: decompressStream(input, compression), compression };
+  } catch (err: any) {
+    throw new Error(`Failed to decompress ${compression} demo: ${err?.message || err}`);
+  } finally {
+    console.timeEnd('Decompress demo');
+  }
+}
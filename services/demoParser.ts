@@ -1,12 +1,17 @@
 import { DemoFile, MatchFrame, Team, PlayerState, GameEvent, Round } from '../types';
 import { generateMockFrames } from './mockDemoService';
 import { loadDemoparser2, isParserAvailable, getParser } from './demoparser2Loader';
+import { PlayerRegistry, readField } from './playerIdentity';
+import { buildGrenades } from './grenades';
+import { BOMB_EVENT_NAMES, isBombEventName, buildBombEvents, applyBombEventsToFrames } from './bomb';
 import { decodeOpusAudio, pcmToWav, removeSilence, downloadBlob, VoiceData } from './voiceExtractor';
-import { useDemoStore } from '../store/useDemoStore';
 
 // Source 2 Demo Magic: PBDEMS2\0
 const DEMO_MAGIC = "PBDEMS2";
 
+// Upper bound on ticks per parseTicks call; rounds longer than this are split into several windows
+const MAX_TICKS_PER_WINDOW = 4096;
+
 // Helper function to get weapon price (simple version for parser)
 function getWeaponPrice(weaponName: string | undefined): number {
   if (!weaponName) return 0;
@@ -39,12 +44,24 @@ export class DemoParser {
   private view: DataView;
   private offset: number = 0;
   private progressCallback?: (progress: ParsingProgress) => void;
+  private signal?: AbortSignal;
   private startTime: number = 0;
 
-  constructor(buffer: ArrayBuffer, progressCallback?: (progress: ParsingProgress) => void) {
+  constructor(buffer: ArrayBuffer, progressCallback?: (progress: ParsingProgress) => void, signal?: AbortSignal) {
     this.buffer = buffer;
     this.view = new DataView(buffer);
     this.progressCallback = progressCallback;
+    this.signal = signal;
+  }
+
+  /**
+   * Throws an AbortError if the caller cancelled parsing.
+   * Checked at every yield point - the WASM calls themselves can't be interrupted.
+   */
+  private throwIfAborted() {
+    if (this.signal?.aborted) {
+      throw new DOMException('Parsing was cancelled', 'AbortError');
+    }
   }
 
   private lastProgressUpdate = 0;
@@ -86,9 +103,14 @@ export class DemoParser {
     
     console.log("Using demoparser2 WASM parser...");
     try {
+      this.throwIfAborted();
       this.reportProgress(10, 'Parsing with WASM...');
       return await this.parseWithWasm(parser);
     } catch (e: any) {
+      // Cancellation is not a parse failure - pass it through untouched
+      if (e?.name === 'AbortError') {
+        throw e;
+      }
       // Check if it's a WASM panic
       if (e.message === 'WASM_PANIC' || e.name === 'RuntimeError' || e.message?.includes('panic') || e.message?.includes('unreachable')) {
         throw new Error("Failed to parse demo file. The demo may be corrupted or incompatible.");
@@ -176,6 +198,7 @@ export class DemoParser {
     
     // Extract events (deaths, round starts, round ends/wins)
     // Based on: https://github.com/LaihoE/demoparser/blob/main/examples/efficiently_parse_multi_events_and_ticks/index.js
+    this.throwIfAborted();
     this.reportProgress(20, 'Extracting game events...');
     let deathEvents: any[] = [];
     let roundStartEvents: any[] = [];
@@ -190,10 +213,11 @@ export class DemoParser {
     let disconnectEvents: any[] = [];
     let connectEvents: any[] = [];
     let itemEquipEvents: any[] = [];
+    let bombEventsRaw: { eventName: string; event: any }[] = [];
     
     try {
       console.log('Extracting events...');
-      const allEvents = parser.parseEvents(buffer, ["player_death", "round_start", "round_begin", "round_end", "round_officially_ended", "cs_round_start", "round_freeze_end", "weapon_fire", "player_hurt", "damage", "player_blind", "player_disconnect", "player_connect", "item_equip", "item_pickup"]);
+      const allEvents = parser.parseEvents(buffer, ["player_death", "round_start", "round_begin", "round_end", "round_officially_ended", "cs_round_start", "round_freeze_end", "weapon_fire", "player_hurt", "damage", "player_blind", "player_disconnect", "player_connect", "item_equip", "item_pickup", ...BOMB_EVENT_NAMES]);
       console.log(`✓ Extracted events, type: ${Array.isArray(allEvents) ? 'Array' : allEvents instanceof Map ? 'Map' : typeof allEvents}, length/size: ${Array.isArray(allEvents) ? allEvents.length : allEvents instanceof Map ? allEvents.size : 'N/A'}`);
       
       // Helper function to extract tick from event
@@ -279,6 +303,7 @@ export class DemoParser {
       disconnectEvents = [];
       connectEvents = [];
       itemEquipEvents = [];
+      bombEventsRaw = [];
       if (Array.isArray(allEvents)) {
         allEvents.forEach((event: any) => {
           let eventName = '';
@@ -300,6 +325,8 @@ export class DemoParser {
             connectEvents.push(event);
           } else if (eventName === 'item_equip' || eventName === 'item_pickup') {
             itemEquipEvents.push(event);
+          } else if (isBombEventName(eventName)) {
+            bombEventsRaw.push({ eventName, event });
           }
         });
       } else if (allEvents instanceof Map) {
@@ -341,11 +368,14 @@ export class DemoParser {
             } else {
               itemEquipEvents.push(value);
             }
+          } else if (isBombEventName(eventName)) {
+            const events = Array.isArray(value) ? value : [value];
+            events.forEach((event: any) => bombEventsRaw.push({ eventName, event }));
           }
         }
       }
       
-      console.log(`✓ Extracted ${deathEvents.length} death events, ${roundStartEvents.length} round start events, ${roundEndEvents.length} round end events, ${weaponFireEvents.length} weapon fire events, ${damageEvents.length} damage events, ${playerBlindEvents.length} player blind events, ${itemEquipEvents.length} item equip events`);
+      console.log(`✓ Extracted ${deathEvents.length} death events, ${roundStartEvents.length} round start events, ${roundEndEvents.length} round end events, ${weaponFireEvents.length} weapon fire events, ${damageEvents.length} damage events, ${playerBlindEvents.length} player blind events, ${itemEquipEvents.length} item equip events, ${bombEventsRaw.length} bomb events`);
       
       // Log sample events to debug
       if (roundStartEvents.length > 0) {
@@ -392,9 +422,261 @@ export class DemoParser {
     // Extract player positions using parseTicks
     // Include weapon, grenade, and money fields
     this.reportProgress(30, 'Extracting player data...');
-    let rawData: any[] = [];
     let grenadeData: any[] = []; // Declare outside try block so it's accessible at return statement
     
+    // Transform data into MatchFrames, one parseTicks window at a time
+    // Use Map<tick, Map<playerId, PlayerState>> to deduplicate players per tick (current window only)
+    const windowPlayers = new Map<number, Map<number, PlayerState>>();
+    let maxTick = 0;
+
+    // Round starts reset HP/alive while frames are built and are the parseTicks window boundaries
+    const roundStartTicks = this.getRoundStartTicks(roundStartEvents);
+
+    // Track all unique players across all ticks
+    const allPlayerIds = new Set<number>();
+    const playerRegistry = new PlayerRegistry(); // SteamID -> stable identity (names/userids are history only)
+    let rowsProcessed = 0; // Total parseTicks rows folded into frames (across all windows)
+    
+    // Fold one window of parseTicks rows into windowPlayers
+    // Structure: Map {'Z' => 11488, 'player_name' => 'DompaDaDompa', 'tick' => 0, ...}
+    // Each Map represents one player at one tick
+    // Use regular for loop instead of forEach to avoid stack overflow with large arrays
+    const foldRows = (rows: any[]) => {
+      for (let rowIndex = 0; rowIndex < rows.length; rowIndex++, rowsProcessed++) {
+        const item = rows[rowIndex];
+        
+        // Each item is a Map with multiple key-value pairs
+        let playerData: Map<string, any>;
+      
+        if (item instanceof Map) {
+          playerData = item;
+        } else if (typeof item === 'object' && item !== null) {
+          // Convert plain object to Map
+          playerData = new Map(Object.entries(item));
+        } else {
+          continue; // Skip invalid items
+        }
+      
+        // Extract tick and player name from the Map
+        // Try multiple field names for tick
+        let tick = playerData.get('tick');
+        if (tick === undefined || tick === null) {
+          tick = playerData.get('tick_num');
+        }
+        if (tick === undefined || tick === null) {
+          tick = playerData.get('t');
+        }
+      
+        const playerName = playerData.get('player_name') || playerData.get('name') || playerData.get('user_name');
+      
+        // Skip if no valid player name
+        if (!playerName || playerName === 'null' || playerName === 'undefined' || playerName === '') {
+          if (rowsProcessed === 0) {
+            console.warn('Skipping rows due to missing player name. Sample row:', playerData);
+            console.warn('Available keys in playerData:', Array.from(playerData.keys()));
+          }
+          continue;
+        }
+      
+        // Skip if no valid tick (but allow tick 0 as it's valid)
+        if (tick === undefined || tick === null) {
+          if (rowsProcessed === 0) {
+            console.warn('Skipping rows due to missing tick information. Sample row:', playerData);
+            console.warn('Available keys in playerData:', Array.from(playerData.keys()));
+          }
+          continue;
+        }
+      
+        // Parse tick - handle both number and string types
+        let tickNum: number;
+        if (typeof tick === 'number') {
+          tickNum = tick;
+        } else if (typeof tick === 'string') {
+          const parsed = parseInt(tick, 10);
+          if (isNaN(parsed)) {
+            if (rowsProcessed === 0) {
+              console.warn(`Invalid tick value: "${tick}" (type: ${typeof tick}). Sample row:`, playerData);
+            }
+            continue;
+          }
+          tickNum = parsed;
+        } else {
+          // Try to convert to number
+          const parsed = Number(tick);
+          if (isNaN(parsed)) {
+            if (rowsProcessed === 0) {
+              console.warn(`Invalid tick value: ${tick} (type: ${typeof tick}). Sample row:`, playerData);
+            }
+            continue;
+          }
+          tickNum = parsed;
+        }
+      
+        // Validate tick is a valid number (allow 0, but check for NaN)
+        if (isNaN(tickNum) || !isFinite(tickNum)) {
+          if (rowsProcessed === 0) {
+            console.warn(`Invalid tick number: ${tickNum}. Original value: ${tick} (type: ${typeof tick})`);
+          }
+          continue;
+        }
+        const playerNameStr = String(playerName);
+      
+        if (tickNum > maxTick) maxTick = tickNum;
+      
+        if (!windowPlayers.has(tickNum)) {
+          windowPlayers.set(tickNum, new Map());
+        }
+      
+        // Use SteamID as the player identifier (bots fall back to their name)
+        const identity = playerRegistry.register(playerData.get('steamid'), playerNameStr);
+        const playerId = identity.id;
+      
+        if (!allPlayerIds.has(playerId)) {
+          allPlayerIds.add(playerId);
+        
+          // Log new players (limit to first 20 to avoid spam)
+          if (allPlayerIds.size <= 20) {
+            console.log(`New player found: "${playerNameStr}" (${identity.steamId}) -> ID: ${playerId}`);
+          }
+        }
+      
+        // Log available fields for first few ticks to debug
+        if (rowsProcessed < 5) {
+          const keys = Array.from(playerData.keys());
+          console.log(`[DemoParser] Sample playerData keys (tick ${tickNum}):`, keys);
+          // Log money and armor if available
+          if (keys.includes('money') || keys.includes('cash')) {
+            console.log(`[DemoParser] Money found:`, playerData.get('money') || playerData.get('cash'));
+          }
+          if (keys.includes('armor') || keys.includes('armor_value')) {
+            console.log(`[DemoParser] Armor found:`, playerData.get('armor') || playerData.get('armor_value'));
+          }
+        }
+      
+        // Extract values from playerData Map
+        const teamVal = playerData.get('team_num');
+          let team = Team.SPECTATOR;
+          if (teamVal === 2) team = Team.T;
+          if (teamVal === 3) team = Team.CT;
+      
+        // Determine if player is alive based on health
+        const health = playerData.get('health') || 0;
+        const isAlive = health > 0;
+      
+        // Extract player name (already extracted above, but ensure we have it)
+        const finalPlayerName = playerNameStr;
+
+          const player: PlayerState = {
+          id: playerId,
+          steamId: identity.isBot ? undefined : identity.steamId,
+          name: finalPlayerName,
+              team: team,
+          hp: health,
+          isAlive: isAlive,
+          position: { 
+            x: playerData.get('X') || 0, 
+            y: playerData.get('Y') || 0,
+            z: playerData.get('Z') || undefined
+          },
+          viewAngle: (() => {
+            const yaw = Number(playerData.get('yaw'));
+            return isFinite(yaw) ? ((yaw % 360) + 360) % 360 : 0;
+          })(),
+          hasBomb: false, // Set from the bomb events once frames are built (see bomb.ts)
+          isTalking: false,
+          flashDuration: (() => {
+            const flashDurationValue = playerData.get('flash_duration');
+            if (flashDurationValue !== undefined && flashDurationValue !== null) {
+              const flash = typeof flashDurationValue === 'number' ? flashDurationValue : parseFloat(String(flashDurationValue));
+              return !isNaN(flash) && flash >= 0 ? flash : 0;
+            }
+            return 0;
+          })(),
+          shotsFired: (() => {
+            const shotsFiredValue = playerData.get('shots_fired');
+            if (shotsFiredValue !== undefined && shotsFiredValue !== null) {
+              const shots = typeof shotsFiredValue === 'number' ? shotsFiredValue : parseInt(String(shotsFiredValue), 10);
+              return !isNaN(shots) && shots >= 0 ? shots : 0;
+            }
+            return 0;
+          })(),
+          equipment: {
+            grenades: []
+          }
+        };
+      
+        // Extract armor/helmet (using correct field names from tick data)
+        const armorValue = playerData.get('armor_value') || playerData.get('armor');
+        if (armorValue !== undefined && armorValue !== null) {
+          const armor = typeof armorValue === 'number' ? armorValue : parseInt(String(armorValue), 10);
+          if (!isNaN(armor) && armor >= 0) {
+            // Armor value is available, but we also check has_helmet separately
+          }
+        }
+      
+        // Extract helmet status
+        const hasHelmet = playerData.get('has_helmet');
+        if (hasHelmet !== undefined && hasHelmet !== null) {
+          player.hasHelmet = Boolean(hasHelmet);
+        }
+      
+        // Extract defuser (CT only)
+        const hasDefuser = playerData.get('has_defuser');
+        if (hasDefuser !== undefined && hasDefuser !== null && team === Team.CT) {
+          player.hasDefuser = Boolean(hasDefuser);
+        }
+      
+        // Extract money (try both 'money' and 'cash' fields)
+        const moneyValue = playerData.get('money') || playerData.get('cash');
+        if (moneyValue !== undefined && moneyValue !== null) {
+          const money = typeof moneyValue === 'number' ? moneyValue : parseInt(String(moneyValue), 10);
+          if (!isNaN(money) && money >= 0) {
+            player.money = money;
+          }
+        }
+      
+        // Store player for this tick (will overwrite if duplicate, keeping latest data)
+        windowPlayers.get(tickNum)!.set(playerId, player);
+      }
+    };
+
+    // Create frames - ensure all players appear in every frame
+    // Windows arrive in tick order, so each one is appended to the final frame array and dropped
+    // before the next window is parsed. Deaths, weapons, events and times are filled in once all
+    // windows are in (event players can only be resolved after every player has been registered).
+    const frames: MatchFrame[] = [];
+    const lastPlayersMap = new Map<number, PlayerState>(); // Track last known state of each player
+    const appendWindowFrames = () => {
+      const ticks = Array.from(windowPlayers.keys()).sort((a, b) => a - b);
+      for (const tick of ticks) {
+        // Check if this is a round start - reset HP to 100 for all players BEFORE updating with new data
+        const isRoundStart = roundStartTicks.has(tick);
+        if (isRoundStart) {
+          for (const [playerId, player] of lastPlayersMap.entries()) {
+            lastPlayersMap.set(playerId, { ...player, hp: 100, isAlive: true });
+          }
+        }
+
+        // Update last known state for players that appear in this tick
+        // If this is a round start, ensure HP is 100 even if data says otherwise
+        for (const [playerId, player] of windowPlayers.get(tick)!.entries()) {
+          lastPlayersMap.set(playerId, isRoundStart ? { ...player, hp: 100, isAlive: true } : player);
+        }
+
+        // Use for...of loop instead of map to avoid potential stack issues
+        const currentPlayers: PlayerState[] = [];
+        for (const p of lastPlayersMap.values()) {
+          currentPlayers.push({ ...p });
+        }
+        frames.push({ tick, time: 0, players: currentPlayers, events: [] });
+      }
+      windowPlayers.clear();
+    };
+    const foldWindow = (rows: any[]) => {
+      foldRows(rows);
+      appendWindowFrames();
+    };
+    
     try {
       // First, let's list available fields to see what we can actually get
       this.reportProgress(25, 'Listing available fields...');
@@ -426,9 +708,11 @@ export class DemoParser {
       
       const wantedFields = [
         "X", "Y", "Z", 
+        "yaw", // View direction in degrees (0 = +X, counter-clockwise), drives heading/FOV in the replay
         "health", 
         "team_num", 
         "player_name",
+        "steamid", // SteamID64 - the only identifier that survives renames and reconnects
         "shots_fired",
         "flash_duration",
         "armor", // Armor value
@@ -443,370 +727,83 @@ export class DemoParser {
       // Optimize: Collect ticks we want to parse
       // Only parse ticks that have events (not every single tick - that would be too slow)
       const wantedTicksSet = new Set<number>(allEventTicks);
+      if (wantedTicksSet.size === 0 && duration > 0) {
+        // No events to anchor on - sample once per second so we still get positions
+        const lastTick = Math.ceil(duration * tickRate);
+        for (let t = 0; t <= lastTick; t += Math.max(1, Math.round(tickRate))) {
+          wantedTicksSet.add(t);
+        }
+        console.warn(`⚠ No event ticks found, sampling ${wantedTicksSet.size} ticks (one per second) instead`);
+      }
+      const wantedTicks = Array.from(wantedTicksSet).sort((a, b) => a - b);
       
-      // Convert to sorted Int32Array for parseTicks
-      const wantedTicksArray = new Int32Array(Array.from(wantedTicksSet).sort((a, b) => a - b));
-      
-      console.log(`✓ Will parse ${wantedTicksArray.length} ticks (${allEventTicks.size} event ticks + ${wantedTicksArray.length - allEventTicks.size} additional ticks)`);
+      console.log(`✓ Will parse ${wantedTicks.length} ticks`);
       
-      // Report progress before the potentially long-running parseTicks operation
-      this.reportProgress(28, `Extracting player tick data for ${wantedTicksArray.length.toLocaleString()} ticks...`);
+      // Report progress before the potentially long-running parseTicks calls
+      this.reportProgress(28, `Extracting player tick data for ${wantedTicks.length.toLocaleString()} ticks...`);
       
       // Yield to event loop to allow UI to update
       await new Promise(resolve => setTimeout(resolve, 0));
+      this.throwIfAborted();
       
       console.time('parseTicks');
-      // Use wantedTicks parameter to only parse specific ticks (much faster!)
-      rawData = parser.parseTicks(buffer, wantedFields, wantedTicksArray);
-      console.timeEnd('parseTicks');
-      console.log(`✓ Extracted ${rawData.length} tick data points`);
-      
-      // Report progress immediately after parseTicks completes
-      this.reportProgress(35, `Extracted ${rawData.length.toLocaleString()} tick data points`);
-      
-      // Validate data size to prevent stack overflow
-      const MAX_ROWS = 500000; // Limit to 500k rows to prevent stack overflow
-      if (rawData.length > MAX_ROWS) {
-        console.warn(`⚠ Dataset too large (${rawData.length} rows). Limiting to ${MAX_ROWS} rows to prevent stack overflow.`);
-        rawData = rawData.slice(0, MAX_ROWS);
-      }
-      
-      // Log sample data to see structure
-      if (rawData.length > 0) {
-        const firstRow = rawData[0];
-        console.log('Sample player data (first row):', firstRow);
-        if (firstRow instanceof Map) {
-          const keys = Array.from(firstRow.keys());
-          console.log('Sample data keys:', keys);
-          // Log money and armor values if available
-          if (keys.includes('money') || keys.includes('cash')) {
-            console.log('Money field found! Sample value:', firstRow.get('money') || firstRow.get('cash'));
-          }
-          if (keys.includes('armor') || keys.includes('armor_value')) {
-            console.log('Armor field found! Sample value:', firstRow.get('armor') || firstRow.get('armor_value'));
-          }
-          console.log('Sample tick value:', firstRow.get('tick'), 'type:', typeof firstRow.get('tick'));
-          console.log('Sample tick_num value:', firstRow.get('tick_num'), 'type:', typeof firstRow.get('tick_num'));
-        } else {
-          console.log('Sample data keys:', Object.keys(firstRow));
-        }
-        console.log('Sample player data (row 100):', rawData[Math.min(100, rawData.length - 1)]);
-        console.log('Sample player data (row 1000):', rawData[Math.min(1000, rawData.length - 1)]);
-        
-        // Check if player_name exists
-        const hasPlayerName = rawData.some((r: any) => r.player_name);
-        console.log('Has player_name field:', hasPlayerName);
-        if (!hasPlayerName) {
-          console.warn('⚠ player_name field not found! Checking for alternative player identifiers...');
-          // Check for other possible player ID fields
-          const sampleKeys = Object.keys(rawData[0]);
-          const possiblePlayerIdFields = sampleKeys.filter(k => 
-            k.toLowerCase().includes('player') || 
-            k.toLowerCase().includes('id') || 
-            k.toLowerCase().includes('steam') ||
-            k.toLowerCase().includes('user')
-          );
-          console.log('Possible player ID fields:', possiblePlayerIdFields);
+      try {
+        await this.parseTickWindows(parser, buffer, wantedFields, wantedTicks, roundStartTicks, foldWindow);
+      } catch (e: any) {
+        if (e?.name === 'AbortError') {
+          throw e;
         }
+        console.warn('parseTicks failed, trying with minimal fields:', e.message || e);
+        // Fallback to minimal fields if the extended fields cause issues
+        // Start over so frames from the failed pass don't mix with the minimal ones
+        windowPlayers.clear();
+        frames.length = 0;
+        lastPlayersMap.clear();
+        maxTick = 0;
+        const minimalFields = ["X", "Y", "Z", "health", "team_num", "player_name", "steamid"];
+        await this.parseTickWindows(parser, buffer, minimalFields, wantedTicks, roundStartTicks, foldWindow);
+        console.log('✓ Extracted tick data (minimal fields)');
       }
-      
-      // Warn if data is very large
-      if (rawData.length > 100000) {
-        console.warn(`⚠ Large dataset: ${rawData.length} rows. Processing may take a while...`);
-      }
+      console.timeEnd('parseTicks');
       
       // Track all unique items found in inventories across all players
       // Removed: allUniqueItems tracking (not needed for analysis)
       
     } catch (e: any) {
-      console.warn('parseTicks failed, trying with minimal fields:', e.message || e);
-      // Fallback to minimal fields if the extended fields cause issues
-      try {
-        const minimalFields = ["X", "Y", "Z", "health", "team_num", "player_name"];
-        rawData = parser.parseTicks(buffer, minimalFields);
-        console.log(`✓ Extracted ${rawData.length} tick data points (minimal fields)`);
-      } catch (e2: any) {
-        if (e2.name === 'RuntimeError' || e2.message?.includes('unreachable') || e2.message?.includes('panic')) {
-          throw new Error('WASM_PANIC');
-        }
-        throw e2;
-      }
-    }
-    
-    // Transform data into MatchFrames
-    // Use Map<tick, Map<playerId, PlayerState>> to deduplicate players per tick
-    const framesMap = new Map<number, Map<number, PlayerState>>();
-    let maxTick = 0;
-
-    // Track all unique players across all ticks
-    const allPlayerIds = new Set<number>();
-    const playerIdMap = new Map<string, number>(); // Map player name to stable ID
-    
-    // Track all unique items found in inventories across all players
-    // Removed: allUniqueItems tracking (not needed for analysis)
-    
-    // Process raw data - group by tick and deduplicate by player
-    // Use regular for loop instead of forEach to avoid stack overflow with large arrays
-    this.reportProgress(36, 'Processing player data...');
-    console.time('Processing player data');
-    const logInterval = Math.max(1000, Math.floor(rawData.length / 10)); // Log every 10% or every 1000 rows
-    const yieldInterval = Math.max(100, Math.floor(rawData.length / 100)); // Yield every 1% or every 100 rows
-    
-    // Parse the data structure - each row is a Map with multiple key-value pairs
-    // Structure: Map {'Z' => 11488, 'player_name' => 'DompaDaDompa', 'tick' => 0, ...}
-    // Each Map represents one player at one tick
-    
-    for (let index = 0; index < rawData.length; index++) {
-      const item = rawData[index];
-      
-      // Report progress and yield more frequently
-      if (index % yieldInterval === 0 && index > 0) {
-        const progress = 36 + (index / rawData.length) * 24; // 36-60% for processing player data
-        this.reportProgress(progress, `Processing player data: ${Math.round(index / rawData.length * 100)}%`);
-        // Yield to event loop to allow UI updates
-        await new Promise(resolve => setTimeout(resolve, 0));
-      }
-      
-      if (index % logInterval === 0 && index > 0) {
-        console.log(`Processing: ${index}/${rawData.length} (${Math.round(index / rawData.length * 100)}%)`);
-      }
-      
-      // Each item is a Map with multiple key-value pairs
-      let playerData: Map<string, any>;
-      
-      if (item instanceof Map) {
-        playerData = item;
-      } else if (typeof item === 'object' && item !== null) {
-        // Convert plain object to Map
-        playerData = new Map(Object.entries(item));
-      } else {
-        continue; // Skip invalid items
+      if (e?.name === 'AbortError') {
+        throw e;
       }
-      
-      // Extract tick and player name from the Map
-      // Try multiple field names for tick
-      let tick = playerData.get('tick');
-      if (tick === undefined || tick === null) {
-        tick = playerData.get('tick_num');
-      }
-      if (tick === undefined || tick === null) {
-        tick = playerData.get('t');
-      }
-      
-      const playerName = playerData.get('player_name') || playerData.get('name') || playerData.get('user_name');
-      
-      // Skip if no valid player name
-      if (!playerName || playerName === 'null' || playerName === 'undefined' || playerName === '') {
-        if (index === 0) {
-          console.warn('Skipping rows due to missing player name. Sample row:', playerData);
-          console.warn('Available keys in playerData:', Array.from(playerData.keys()));
-        }
-        continue;
-      }
-      
-      // Skip if no valid tick (but allow tick 0 as it's valid)
-      if (tick === undefined || tick === null) {
-        if (index === 0) {
-          console.warn('Skipping rows due to missing tick information. Sample row:', playerData);
-          console.warn('Available keys in playerData:', Array.from(playerData.keys()));
-        }
-        continue;
-      }
-      
-      // Parse tick - handle both number and string types
-      let tickNum: number;
-      if (typeof tick === 'number') {
-        tickNum = tick;
-      } else if (typeof tick === 'string') {
-        const parsed = parseInt(tick, 10);
-        if (isNaN(parsed)) {
-          if (index === 0) {
-            console.warn(`Invalid tick value: "${tick}" (type: ${typeof tick}). Sample row:`, playerData);
-          }
-          continue;
-        }
-        tickNum = parsed;
-      } else {
-        // Try to convert to number
-        const parsed = Number(tick);
-        if (isNaN(parsed)) {
-          if (index === 0) {
-            console.warn(`Invalid tick value: ${tick} (type: ${typeof tick}). Sample row:`, playerData);
-          }
-          continue;
-        }
-        tickNum = parsed;
-      }
-      
-      // Validate tick is a valid number (allow 0, but check for NaN)
-      if (isNaN(tickNum) || !isFinite(tickNum)) {
-        if (index === 0) {
-          console.warn(`Invalid tick number: ${tickNum}. Original value: ${tick} (type: ${typeof tick})`);
-        }
-        continue;
-      }
-      const playerNameStr = String(playerName);
-      
-      if (tickNum > maxTick) maxTick = tickNum;
-      
-      if (!framesMap.has(tickNum)) {
-        framesMap.set(tickNum, new Map());
-      }
-      
-      // Use player name as the player identifier
-      const playerIdentifier = playerNameStr;
-      
-      let playerId: number;
-      
-      if (playerIdMap.has(playerIdentifier)) {
-        playerId = playerIdMap.get(playerIdentifier)!;
-      } else {
-        // Generate new stable ID
-        let hash = 0;
-        for (let i = 0; i < Math.min(playerIdentifier.length, 32); i++) {
-          hash = ((hash << 5) - hash) + playerIdentifier.charCodeAt(i);
-          hash = hash & hash; // Convert to 32bit integer
-        }
-        playerId = Math.abs(hash) || (1000 + playerIdMap.size);
-        playerIdMap.set(playerIdentifier, playerId);
-        allPlayerIds.add(playerId);
-        
-        // Log new players (limit to first 20 to avoid spam)
-        if (playerIdMap.size <= 20) {
-          console.log(`New player found: "${playerIdentifier}" -> ID: ${playerId}`);
-        }
-      }
-      
-      // Log available fields for first few ticks to debug
-      if (index < 5) {
-        const keys = Array.from(playerData.keys());
-        console.log(`[DemoParser] Sample playerData keys (tick ${tickNum}):`, keys);
-        // Log money and armor if available
-        if (keys.includes('money') || keys.includes('cash')) {
-          console.log(`[DemoParser] Money found:`, playerData.get('money') || playerData.get('cash'));
-        }
-        if (keys.includes('armor') || keys.includes('armor_value')) {
-          console.log(`[DemoParser] Armor found:`, playerData.get('armor') || playerData.get('armor_value'));
-        }
-      }
-      
-      // Extract values from playerData Map
-      const teamVal = playerData.get('team_num');
-        let team = Team.SPECTATOR;
-        if (teamVal === 2) team = Team.T;
-        if (teamVal === 3) team = Team.CT;
-      
-      // Determine if player is alive based on health
-      const health = playerData.get('health') || 0;
-      const isAlive = health > 0;
-      
-      // Extract player name (already extracted above, but ensure we have it)
-      const finalPlayerName = playerNameStr;
-
-        const player: PlayerState = {
-        id: playerId,
-        name: finalPlayerName,
-            team: team,
-        hp: health,
-        isAlive: isAlive,
-        position: { 
-          x: playerData.get('X') || 0, 
-          y: playerData.get('Y') || 0,
-          z: playerData.get('Z') || undefined
-        },
-        viewAngle: 0, // Not needed for analysis
-        hasBomb: false, // Not needed for analysis
-        isTalking: false,
-        flashDuration: (() => {
-          const flashDurationValue = playerData.get('flash_duration');
-          if (flashDurationValue !== undefined && flashDurationValue !== null) {
-            const flash = typeof flashDurationValue === 'number' ? flashDurationValue : parseFloat(String(flashDurationValue));
-            return !isNaN(flash) && flash >= 0 ? flash : 0;
-          }
-          return 0;
-        })(),
-        shotsFired: (() => {
-          const shotsFiredValue = playerData.get('shots_fired');
-          if (shotsFiredValue !== undefined && shotsFiredValue !== null) {
-            const shots = typeof shotsFiredValue === 'number' ? shotsFiredValue : parseInt(String(shotsFiredValue), 10);
-            return !isNaN(shots) && shots >= 0 ? shots : 0;
-          }
-          return 0;
-        })(),
-        equipment: {
-          grenades: []
-        }
-      };
-      
-      // Extract armor/helmet (using correct field names from tick data)
-      const armorValue = playerData.get('armor_value') || playerData.get('armor');
-      if (armorValue !== undefined && armorValue !== null) {
-        const armor = typeof armorValue === 'number' ? armorValue : parseInt(String(armorValue), 10);
-        if (!isNaN(armor) && armor >= 0) {
-          // Armor value is available, but we also check has_helmet separately
-        }
-      }
-      
-      // Extract helmet status
-      const hasHelmet = playerData.get('has_helmet');
-      if (hasHelmet !== undefined && hasHelmet !== null) {
-        player.hasHelmet = Boolean(hasHelmet);
-      }
-      
-      // Extract defuser (CT only)
-      const hasDefuser = playerData.get('has_defuser');
-      if (hasDefuser !== undefined && hasDefuser !== null && team === Team.CT) {
-        player.hasDefuser = Boolean(hasDefuser);
-      }
-      
-      // Extract money (try both 'money' and 'cash' fields)
-      const moneyValue = playerData.get('money') || playerData.get('cash');
-      if (moneyValue !== undefined && moneyValue !== null) {
-        const money = typeof moneyValue === 'number' ? moneyValue : parseInt(String(moneyValue), 10);
-        if (!isNaN(money) && money >= 0) {
-          player.money = money;
-        }
+      if (e.name === 'RuntimeError' || e.message?.includes('unreachable') || e.message?.includes('panic')) {
+        throw new Error('WASM_PANIC');
       }
-      
-      // Store player for this tick (will overwrite if duplicate, keeping latest data)
-      framesMap.get(tickNum)!.set(playerId, player);
+      throw e;
     }
     
-    console.timeEnd('Processing player data');
-    console.log(`Processed ${rawData.length} data points into ${framesMap.size} unique ticks`);
+    console.log(`Processed ${rowsProcessed} data points into ${frames.length} frames`);
     console.log(`Found ${allPlayerIds.size} unique players`);
     
     // Removed: inventory logging (not needed for analysis)
     
-    // Log player names if reasonable number
-    if (allPlayerIds.size <= 20 && playerIdMap.size > 0) {
-      console.log('Player ID map:', Array.from(playerIdMap.entries()).slice(0, 20));
+    // Log player identities if reasonable number
+    const identities = playerRegistry.toArray();
+    if (allPlayerIds.size <= 20 && identities.length > 0) {
+      console.log('Player identities:', identities.map(p => `${p.steamId} -> ${p.id} (${p.names.join(' / ')})`));
     } else if (allPlayerIds.size > 20) {
       console.warn(`⚠ Too many unique players (${allPlayerIds.size}). This suggests player identification is broken.`);
-      console.warn('First 10 player identifiers:', Array.from(playerIdMap.keys()).slice(0, 10));
+      console.warn('First 10 player identities:', identities.slice(0, 10).map(p => p.steamId));
     }
     
-    // Process round start events to create rounds
-    const rounds: Round[] = [];
-    const roundStartTicks = new Set<number>();
-    
-    // Extract all round start ticks
-    roundStartEvents.forEach((roundEvent: any) => {
-      // Handle both Map and object structures
-      let eventTick = 0;
-      
-      if (roundEvent instanceof Map) {
-        eventTick = roundEvent.get('tick') || roundEvent.get('tick_num') || roundEvent.get('t') || 0;
-      } else {
-        eventTick = roundEvent.tick || roundEvent.tick_num || roundEvent.t || 0;
+    // Record userid history from connect/disconnect events (a reconnect gets a new userid)
+    // Only trust events that carry a SteamID, names are not unique
+    for (const event of [...connectEvents, ...disconnectEvents]) {
+      const identity = playerRegistry.getBySteamId(readField(event, 'user_steamid', 'xuid', 'steamid'));
+      if (identity) {
+        playerRegistry.observeUserId(identity, readField(event, 'userid', 'user_userid', 'user_id'));
       }
-      
-      if (eventTick > 0) {
-        roundStartTicks.add(eventTick);
-      }
-    });
+    }
     
-    // Sort round start ticks and create rounds starting from 1
+    // Create rounds from the round start ticks, starting from 1
+    const rounds: Round[] = [];
     const sortedStartTicks = Array.from(roundStartTicks).sort((a, b) => a - b);
     sortedStartTicks.forEach((startTick, index) => {
       rounds.push({
@@ -927,7 +924,7 @@ export class DemoParser {
     
     // Process death events and chat messages
     const eventsByTick = new Map<number, GameEvent[]>();
-    const deadPlayersByTick = new Map<number, Set<string>>();
+    const deadPlayersByTick = new Map<number, Set<number>>(); // tick -> player ids
     
     // Track weapons from weapon_fire events (fallback if item_equip doesn't work)
     const weaponFromFireByPlayer = new Map<number, Map<number, string>>(); // tick -> playerId -> weapon
@@ -952,7 +949,7 @@ export class DemoParser {
         if (eventTick === 0 || weapon === 'unknown' || playerName === 'Unknown') return;
         
         // Track weapon for this player
-        const playerId = playerIdMap.get(playerName);
+        const playerId = playerRegistry.resolveEventPlayer(fireEvent, 'user')?.id;
         if (playerId) {
           if (!weaponFromFireByPlayer.has(eventTick)) {
             weaponFromFireByPlayer.set(eventTick, new Map());
@@ -969,6 +966,7 @@ export class DemoParser {
           tick: eventTick,
           description: `${playerName} fired ${weapon}`,
           playerName,
+          playerId,
           weapon
         };
         
@@ -978,10 +976,10 @@ export class DemoParser {
     }
     
     // Process item_equip events to track weapons
-    // Note: playerIdMap is already declared earlier in the function for player ID mapping
+    // Note: playerRegistry is already declared earlier in the function for player ID mapping
     const weaponByPlayerByTick = new Map<number, Map<number, string>>(); // tick -> playerId -> weapon
     if (itemEquipEvents && itemEquipEvents.length > 0) {
-      console.log(`[ItemEquip] Processing ${itemEquipEvents.length} events, playerIdMap has ${playerIdMap.size} players`);
+      console.log(`[ItemEquip] Processing ${itemEquipEvents.length} events, playerRegistry has ${allPlayerIds.size} players`);
       let matchedCount = 0;
       itemEquipEvents.forEach((equipEvent: any) => {
         let eventTick = 0;
@@ -1000,8 +998,8 @@ export class DemoParser {
         
         if (eventTick === 0 || item === 'unknown' || playerName === 'Unknown') return;
         
-        // Find player ID by name (using the existing playerIdMap)
-        const playerId = playerIdMap.get(playerName);
+        // Find player ID by SteamID (falls back to userid/name inside the registry)
+        const playerId = playerRegistry.resolveEventPlayer(equipEvent, 'user')?.id;
         
         if (playerId) {
           if (!weaponByPlayerByTick.has(eventTick)) {
@@ -1059,19 +1057,30 @@ export class DemoParser {
         eventsByTick.set(eventTick, []);
       }
       
+      const attacker = playerRegistry.resolveEventPlayer(deathEvent, 'attacker');
+      const victim = playerRegistry.resolveEventPlayer(deathEvent, 'user');
+      
       const killEvent: GameEvent = {
         type: 'kill',
         tick: eventTick,
-        description: `${attackerName} killed ${victimName} with ${weapon}${isHeadshot ? ' (headshot)' : ''}`
+        description: `${attackerName} killed ${victimName} with ${weapon}${isHeadshot ? ' (headshot)' : ''}`,
+        attackerName,
+        attackerId: attacker?.id,
+        victimName,
+        victimId: victim?.id,
+        weapon,
+        isHeadshot: Boolean(isHeadshot)
       };
       
       eventsByTick.get(eventTick)!.push(killEvent);
       
       // Track dead players
-      if (!deadPlayersByTick.has(eventTick)) {
-        deadPlayersByTick.set(eventTick, new Set());
+      if (victim) {
+        if (!deadPlayersByTick.has(eventTick)) {
+          deadPlayersByTick.set(eventTick, new Set());
+        }
+        deadPlayersByTick.get(eventTick)!.add(victim.id);
       }
-      deadPlayersByTick.get(eventTick)!.add(String(victimName));
     });
     
     // Process damage events
@@ -1111,7 +1120,9 @@ export class DemoParser {
           tick: eventTick,
           description: `${attackerName} damaged ${victimName} for ${damage} HP${weapon !== 'unknown' ? ` with ${weapon}` : ''}`,
           attackerName,
+          attackerId: playerRegistry.resolveEventPlayer(damageEvent, 'attacker')?.id,
           victimName,
+          victimId: playerRegistry.resolveEventPlayer(damageEvent, 'user')?.id,
           damage,
           weapon: weapon !== 'unknown' ? weapon : undefined
         };
@@ -1126,168 +1137,88 @@ export class DemoParser {
       tickRate = maxTick / duration;
     }
     
-    // Create frames - ensure all players appear in every frame
+    // Fill in the frames: deaths, weapons and events per tick
     console.time('Creating frames');
-    const frames: MatchFrame[] = [];
-    const lastPlayersMap = new Map<number, PlayerState>(); // Track last known state of each player
     const deadPlayers = new Set<number>();
     
-    // Initialize with all known players from the first frame that has data
-    for (const [tick, playersMap] of framesMap.entries()) {
-      if (playersMap.size > 0) {
-        // Initialize lastPlayersMap with players from first frame
-        for (const [playerId, player] of playersMap.entries()) {
-          lastPlayersMap.set(playerId, { ...player });
-        }
-        break;
-      }
-    }
-    
-    // Only create frames for ticks that have data, not every tick from 0 to maxTick
-    // This prevents creating millions of empty frames
-    const ticksWithData = Array.from(framesMap.keys()).sort((a, b) => a - b);
-    const actualMaxTick = ticksWithData.length > 0 ? Math.max(...ticksWithData) : 0;
-    
-    console.log(`Creating frames for ${ticksWithData.length} unique ticks (max tick: ${actualMaxTick})...`);
+    console.log(`Filling in ${frames.length} frames (max tick: ${maxTick})...`);
     console.log(`Total players tracked: ${lastPlayersMap.size}`);
     
     // Validate that we have data
-    if (ticksWithData.length === 0) {
+    if (frames.length === 0) {
       throw new Error('No tick data found after processing parseTicks results. Data structure may be incorrect.');
     }
     
-    // Process all ticks - no sampling
-    const ticksToProcess = ticksWithData;
-    
-    const frameLogInterval = Math.max(1000, Math.floor(ticksToProcess.length / 10)); // Log every 10% or every 1k ticks
-    const frameYieldInterval = Math.max(100, Math.floor(ticksToProcess.length / 100)); // Yield every 1% or every 100 ticks
+    const frameLogInterval = Math.max(1000, Math.floor(frames.length / 10)); // Log every 10% or every 1k frames
+    const frameYieldInterval = Math.max(100, Math.floor(frames.length / 100)); // Yield every 1% or every 100 frames
     
-    // Process only ticks that have data - don't fill gaps (we'll find closest frame when rendering)
-    for (let tickIndex = 0; tickIndex < ticksToProcess.length; tickIndex++) {
-      const i = ticksToProcess[tickIndex];
+    for (let frameIndex = 0; frameIndex < frames.length; frameIndex++) {
+      const frame = frames[frameIndex];
+      const i = frame.tick;
       
       // Report progress and yield more frequently
-      if (tickIndex % frameYieldInterval === 0 && tickIndex > 0) {
-        const progress = 60 + (tickIndex / ticksToProcess.length) * 35; // 60-95% for creating frames
-        this.reportProgress(progress, `Creating frames: ${Math.round(tickIndex / ticksToProcess.length * 100)}%`);
+      if (frameIndex % frameYieldInterval === 0 && frameIndex > 0) {
+        const progress = 60 + (frameIndex / frames.length) * 35; // 60-95% for creating frames
+        this.reportProgress(progress, `Creating frames: ${Math.round(frameIndex / frames.length * 100)}%`);
         // Yield to event loop to allow UI updates
         await new Promise(resolve => setTimeout(resolve, 0));
+        this.throwIfAborted();
       }
       
-      if (tickIndex % frameLogInterval === 0 && tickIndex > 0) {
-        console.log(`Creating frames: ${tickIndex}/${ticksToProcess.length} (${Math.round(tickIndex / ticksToProcess.length * 100)}%)`);
+      if (frameIndex % frameLogInterval === 0 && frameIndex > 0) {
+        console.log(`Creating frames: ${frameIndex}/${frames.length} (${Math.round(frameIndex / frames.length * 100)}%)`);
       }
       
-      // Check if this is a round start - reset HP to 100 for all players BEFORE updating with new data
-      const isRoundStart = roundStartTicks.has(i);
-      if (isRoundStart) {
-        // Reset all players to 100 HP and alive at round start
-        for (const [playerId, player] of lastPlayersMap.entries()) {
-          lastPlayersMap.set(playerId, { 
-            ...player, 
-            hp: 100, 
-            isAlive: true 
-          });
-        }
+      if (roundStartTicks.has(i)) {
         deadPlayers.clear(); // Clear dead players at round start
       }
       
-      const tickPlayersMap = framesMap.get(i);
-      
-      // Update last known state for players that appear in this tick
-      if (tickPlayersMap) {
-        for (const [playerId, player] of tickPlayersMap.entries()) {
-          // If this is a round start, ensure HP is 100 even if data says otherwise
-          const updatedPlayer = isRoundStart ? { ...player, hp: 100, isAlive: true } : player;
-          
-          // Update weapon from item_equip events if available
-          const weaponMap = weaponByPlayerByTick.get(i);
-          if (weaponMap && weaponMap.has(playerId)) {
-            const weapon = weaponMap.get(playerId)!;
-            // Only set primary weapon if it's not a pistol/grenade (heuristic)
-            const weaponPrice = getWeaponPrice(weapon);
-            if (weaponPrice >= 1000) { // Rifles, SMGs, etc. are >= 1000
-              updatedPlayer.equipment.primary = weapon;
-            } else if (weaponPrice > 0 && weaponPrice < 1000 && !updatedPlayer.equipment.primary) {
-              // Pistol - set as primary if no primary exists yet
-              updatedPlayer.equipment.primary = weapon;
-            }
-          }
-          
-          lastPlayersMap.set(playerId, updatedPlayer);
-        }
+      // Mark players as dead
+      const playersDiedThisTick = deadPlayersByTick.get(i);
+      if (playersDiedThisTick) {
+        playersDiedThisTick.forEach(playerId => deadPlayers.add(playerId));
       }
       
-      // Also check for weapons from item_equip events for players not in this tick's data
-      // (to update weapons for players who already exist in lastPlayersMap)
+      // Weapons from item_equip events, with weapon_fire events as a fallback
       const weaponMap = weaponByPlayerByTick.get(i);
-      if (weaponMap) {
-        for (const [playerId, weapon] of weaponMap.entries()) {
-          const existingPlayer = lastPlayersMap.get(playerId);
-          if (existingPlayer) {
-            const weaponPrice = getWeaponPrice(weapon);
-            if (weaponPrice >= 1000) {
-              existingPlayer.equipment.primary = weapon;
-            } else if (weaponPrice > 0 && weaponPrice < 1000 && !existingPlayer.equipment.primary) {
-              existingPlayer.equipment.primary = weapon;
-            }
-          }
-        }
-      }
-      
-      // Also check weapon_fire events for players not in this tick's data
       const fireWeaponMap = weaponFromFireByPlayer.get(i);
-      if (fireWeaponMap) {
-        for (const [playerId, weapon] of fireWeaponMap.entries()) {
-          const existingPlayer = lastPlayersMap.get(playerId);
-          if (existingPlayer && !existingPlayer.equipment.primary) {
-            const weaponPrice = getWeaponPrice(weapon);
-            if (weaponPrice >= 1000) {
-              existingPlayer.equipment.primary = weapon;
-            } else if (weaponPrice > 0 && weaponPrice < 1000) {
-              existingPlayer.equipment.primary = weapon;
-            }
-          }
-        }
-      }
       
-      // Mark players as dead
-      const playersDiedThisTick = deadPlayersByTick.get(i);
-      if (playersDiedThisTick) {
-        playersDiedThisTick.forEach(playerName => {
-          const deadPlayer = Array.from(lastPlayersMap.values()).find(
-            p => p.name === playerName || p.name === String(playerName)
-          );
-          if (deadPlayer) {
-            deadPlayers.add(deadPlayer.id);
+      for (const player of frame.players) {
+        if (deadPlayers.has(player.id)) {
+          player.isAlive = false;
+          player.hp = 0;
+        }
+        
+        let primary = player.equipment.primary;
+        const equipped = weaponMap?.get(player.id);
+        if (equipped) {
+          // Rifles, SMGs, etc. are >= 1000; a pistol only becomes primary if there is none yet
+          const weaponPrice = getWeaponPrice(equipped);
+          if (weaponPrice >= 1000 || (weaponPrice > 0 && !primary)) {
+            primary = equipped;
           }
-        });
-      }
-      
-      // Build player array from last known states, updating alive status
-      // Use for...of loop instead of map to avoid potential stack issues
-      const currentPlayers: PlayerState[] = [];
-      for (const p of lastPlayersMap.values()) {
-        if (deadPlayers.has(p.id)) {
-          currentPlayers.push({ ...p, isAlive: false, hp: 0 });
-        } else {
-          currentPlayers.push({ ...p });
+        }
+        const fired = fireWeaponMap?.get(player.id);
+        if (fired && !primary && getWeaponPrice(fired) > 0) {
+          primary = fired;
+        }
+        if (primary !== player.equipment.primary) {
+          // Equipment objects are shared with the neighbouring frames' copies - replace, don't mutate
+          player.equipment = { ...player.equipment, primary };
         }
       }
       
-      
-      const frameEvents = eventsByTick.get(i) || [];
-      
-        frames.push({
-            tick: i,
-            time: i / tickRate,
-        players: currentPlayers,
-        events: frameEvents
-      });
+      frame.time = i / tickRate;
+      frame.events = eventsByTick.get(i) || [];
     }
     
     // Sort frames by tick to ensure correct order
     frames.sort((a, b) => a.tick - b.tick);
+
+    // Bomb lifecycle: carrier per frame, plant/defuse events in the frame event lists
+    const bombEvents = buildBombEvents(bombEventsRaw, playerRegistry, frames);
+    applyBombEventsToFrames(frames, bombEvents);
+    console.log(`✓ Built ${bombEvents.length} bomb events`);
     
     // Track each player's initial view angle and normalize rotations relative to initial angle
     // This ensures all players maintain correct relative rotations while keeping their initial orientations
@@ -1358,8 +1289,8 @@ export class DemoParser {
     this.reportProgress(100, 'Complete!');
 
     // Collect all raw events for economy griefing detection
-      // Raw events collection disabled (economy griefing feature disabled)
-      const allRawEvents: any[] = [];
+      // Raw events collection disabled (economy griefing feature disabled, see the economyGriefing detector)
+      // const allRawEvents: any[] = [];
       // try {
       //   const allEvents = parser.parseEvents(buffer, [
       //     "player_death", "other_death", "round_start", "round_begin", "round_end", 
@@ -1395,14 +1326,90 @@ export class DemoParser {
         ct: ctScore,
         t: tScore
       },
-      grenades: grenadeData || [],
+      players: playerRegistry.toArray(),
+      grenades: buildGrenades(grenadeData || [], tickRate, playerRegistry),
+      bombEvents,
       playerBlindEvents: playerBlindEvents || [],
       disconnectEvents: disconnectEvents || [],
-      connectEvents: connectEvents || [],
-      rawEvents: allRawEvents
+      connectEvents: connectEvents || []
     };
   }
 
+  /**
+   * Sorted, unique round start ticks
+   */
+  private getRoundStartTicks(roundStartEvents: any[]): Set<number> {
+    const ticks: number[] = [];
+    for (const event of roundStartEvents) {
+      const tick = Number(readField(event, 'tick', 'tick_num', 't'));
+      if (tick > 0) ticks.push(tick);
+    }
+    return new Set(ticks.sort((a, b) => a - b));
+  }
+
+  /**
+   * Run parseTicks in round-sized windows via the wanted_ticks argument.
+   * Each window's rows are handed to onRows, which folds them into frames, and dropped before
+   * the next window is parsed - so the rows held at once are bounded by the largest window
+   * instead of the whole match (overtime included).
+   */
+  private async parseTickWindows(
+    parser: any,
+    buffer: Uint8Array,
+    fields: string[],
+    wantedTicks: number[],
+    roundStartTicks: Set<number>,
+    onRows: (rows: any[]) => void
+  ): Promise<void> {
+    // Split the sorted wanted ticks at every round start, and cap very long rounds
+    // (warmup, tech pauses) so a single window never gets too large
+    const boundaries = Array.from(roundStartTicks);
+    const windows: number[][] = [];
+    let current: number[] = [];
+    let boundaryIndex = 0;
+    for (const tick of wantedTicks) {
+      let crossedRound = false;
+      while (boundaryIndex < boundaries.length && tick >= boundaries[boundaryIndex]) {
+        boundaryIndex++;
+        crossedRound = true;
+      }
+      if (current.length > 0 && (crossedRound || current.length >= MAX_TICKS_PER_WINDOW)) {
+        windows.push(current);
+        current = [];
+      }
+      current.push(tick);
+    }
+    if (current.length > 0) {
+      windows.push(current);
+    }
+    console.log(`Parsing ticks in ${windows.length} windows (${boundaries.length} round starts)`);
+
+    let totalRows = 0;
+    for (let i = 0; i < windows.length; i++) {
+      this.throwIfAborted();
+      const windowTicks = windows[i];
+      this.reportProgress(
+        28 + (i / windows.length) * 32, // 28-60% for extracting + processing player data
+        `Extracting player data: window ${i + 1}/${windows.length} (ticks ${windowTicks[0]}-${windowTicks[windowTicks.length - 1]})`
+      );
+
+      console.time(`parseTicks window ${i + 1}`);
+      let rows: any[] = parser.parseTicks(buffer, fields, new Int32Array(windowTicks));
+      console.timeEnd(`parseTicks window ${i + 1}`);
+      if (i === 0 && rows.length > 0) {
+        console.log('Sample player data (first row):', rows[0]);
+      }
+      totalRows += rows.length;
+      onRows(rows);
+      rows = []; // Release this window before parsing the next one
+
+      // Yield to event loop to allow UI updates (and cancel messages) between windows
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    this.throwIfAborted();
+    console.log(`✓ Extracted ${totalRows} tick data points`);
+  }
+
   /**
    * Fallback parser that extracts basic info and generates mock frames
    */
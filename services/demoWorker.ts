@@ -0,0 +1,233 @@
+/**
+ * Web Worker that runs demo parsing and analysis off the main thread.
+ * Parsing a large demo can take minutes, so everything heavy (reading the file,
+ * the demoparser2 WASM calls, frame building and all detectors) happens here.
+ * Only plain, structured-cloneable results are posted back to the UI.
+ */
+
+import { DemoParser, ParsingProgress } from './demoParser';
+import { DemoAnalyzer, AnalysisResults, AnalysisProgress } from './demoAnalyzer';
+import { DemoFile } from '../types';
+import { DetectorId, DetectorSettings, getDetectorSettingsKey } from './detectorRegistry';
+import { hashBuffer, loadCachedDemo, saveCachedDemo, updateCachedResults } from './demoCache';
+import { recordMatchHistory } from './offenderHistory';
+import { decompressDemo } from './demoDecompressor';
+
+// Messages sent from the UI to the worker
+export type DemoWorkerRequest =
+  | { type: 'analyze'; file: File; entryName?: string; detectors?: DetectorSettings; withoutFrames?: boolean } // entryName picks a demo inside a zip
+  | { type: 'reanalyze'; demoFile?: DemoFile; previous: AnalysisResults; detectorIds: DetectorId[]; detectors: DetectorSettings; cacheKey: string | null } // Re-run some detectors on an already parsed demo - read from the cache by key unless demoFile is sent along
+  | { type: 'cancel' };
+
+// Messages sent from the worker back to the UI
+export type DemoWorkerResponse =
+  | { type: 'parsingProgress'; progress: ParsingProgress }
+  | { type: 'analysisProgress'; progress: AnalysisProgress }
+  | { type: 'parsed'; demoFile: DemoFile }
+  | { type: 'analyzed'; results: AnalysisResults; fromCache: boolean; cacheKey: string | null } // cacheKey is set once the demo is in IndexedDB
+  | { type: 'cancelled' }
+  | { type: 'error'; stage: 'parse' | 'analyze' | 'cache'; message: string }; // 'cache': the demo to re-analyze is no longer cached
+
+// tsconfig only ships the DOM lib, so type the worker scope by hand
+const ctx = self as unknown as {
+  postMessage: (message: DemoWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<DemoWorkerRequest>) => void) | null;
+};
+
+const post = (message: DemoWorkerResponse) => ctx.postMessage(message);
+
+// Name of a demo in the cache and history: the file, plus the demo inside it for zips
+const getCacheName = (fileName: string, entryName?: string) => entryName ? `${fileName} › ${entryName}` : fileName;
+
+// Aborted when the UI sends a cancel message; parser and analyzer check it at their yield points
+let controller: AbortController | null = null;
+
+const handleAnalyze = async (file: File, entryName?: string, detectors: DetectorSettings = {}, withoutFrames: boolean = false) => {
+  controller = new AbortController();
+  // The frames are most of a demo's size - don't clone them back if the UI only needs the match info
+  const postParsed = (parsed: DemoFile) => post({ type: 'parsed', demoFile: withoutFrames ? { ...parsed, frames: [] } : parsed });
+  const signal = controller.signal;
+  let demoFile: DemoFile | null = null;
+  let hash: string | null = null;
+  const analysisKey = getDetectorSettingsKey(detectors); // Cached results are only reused for the same detector settings
+
+  try {
+    // Read the file inside the worker so the buffer never lives on the main thread
+    const arrayBuffer = await file.arrayBuffer();
+
+    // Same file analyzed before? Serve it from IndexedDB and skip the WASM parse entirely
+    post({ type: 'parsingProgress', progress: { percentage: 1, currentStep: 'Checking cache...', estimatedTimeRemaining: 0 } });
+    try {
+      hash = await hashBuffer(arrayBuffer);
+      if (entryName) {
+        hash += `:${entryName}`; // One cache entry per demo in a zip
+      }
+      const cached = await loadCachedDemo(hash);
+      if (cached && cached.entry.analysisKey !== analysisKey) {
+        // Parsed before with other detector settings - reuse the demo, only re-run the analysis
+        console.log(`[DemoWorker] Cache hit for ${file.name} with other detector settings, re-analyzing`);
+        demoFile = cached.demoFile;
+      } else if (cached) {
+        console.log(`[DemoWorker] Cache hit for ${file.name} (${hash.slice(0, 12)})`);
+        // Same results as recorded before, but covers demos cached before the history existed
+        await recordMatchHistory(hash, cached.entry.fileName, cached.demoFile, cached.results)
+          .catch(historyErr => console.warn('[DemoWorker] Failed to record offender history:', historyErr));
+        postParsed(cached.demoFile);
+        post({ type: 'analyzed', results: cached.results, fromCache: true, cacheKey: hash });
+        return;
+      }
+    } catch (cacheErr) {
+      console.warn('[DemoWorker] Cache lookup failed, parsing normally:', cacheErr);
+    }
+    signal.throwIfAborted();
+
+    if (!demoFile) {
+      // .dem.gz / .dem.bz2 / .dem.zst / .zip -> raw demo bytes (detected by magic bytes)
+      post({ type: 'parsingProgress', progress: { percentage: 2, currentStep: 'Decompressing demo...', estimatedTimeRemaining: 0 } });
+      const decompressed = decompressDemo(arrayBuffer, entryName);
+      signal.throwIfAborted();
+      const demoBytes = decompressed.data;
+      const demoBuffer = demoBytes.byteOffset === 0 && demoBytes.byteLength === demoBytes.buffer.byteLength
+        ? demoBytes.buffer as ArrayBuffer
+        : demoBytes.slice().buffer;
+
+      const parser = new DemoParser(demoBuffer, (progress) => {
+        post({ type: 'parsingProgress', progress });
+      }, signal);
+      demoFile = await parser.parse();
+      demoFile.source = {
+        fileName: file.name,
+        fileSize: file.size,
+        compression: decompressed.compression,
+        entryName: decompressed.entryName,
+        demoSize: demoBytes.byteLength
+      };
+    }
+  } catch (err: any) {
+    if (err?.name === 'AbortError') {
+      console.log('[DemoWorker] Parsing cancelled');
+      post({ type: 'cancelled' });
+      return;
+    }
+    console.error('[DemoWorker] Parsing failed:', err);
+    post({ type: 'error', stage: 'parse', message: err?.message || 'Failed to parse demo file' });
+    return;
+  }
+
+  // Post the demo as soon as it is parsed so the UI can show it while analysis runs
+  postParsed(demoFile);
+
+  try {
+    const analyzer = new DemoAnalyzer(demoFile, {
+      progressCallback: (progress) => {
+        post({ type: 'analysisProgress', progress });
+      },
+      signal,
+      detectors
+    });
+    const results = await analyzer.analyze();
+
+    // Cache for next time and add the incidents to the offender history before reporting back -
+    // the client terminates the worker once it has the results.
+    // Best effort: quota errors etc. only cost a re-parse next time
+    let cacheKey: string | null = null;
+    if (hash) {
+      post({ type: 'analysisProgress', progress: { percentage: 100, currentStep: 'Saving to cache and history...', estimatedTimeRemaining: 0 } });
+      const cacheName = getCacheName(file.name, entryName);
+      try {
+        await saveCachedDemo(hash, { name: cacheName, size: file.size, analysisKey }, demoFile, results);
+        cacheKey = hash;
+      } catch (cacheErr) {
+        console.warn('[DemoWorker] Failed to cache analysis:', cacheErr);
+      }
+      try {
+        await recordMatchHistory(hash, cacheName, demoFile, results);
+      } catch (historyErr) {
+        console.warn('[DemoWorker] Failed to record offender history:', historyErr);
+      }
+    }
+    post({ type: 'analyzed', results, fromCache: false, cacheKey });
+  } catch (err: any) {
+    if (err?.name === 'AbortError') {
+      console.log('[DemoWorker] Analysis cancelled');
+      post({ type: 'cancelled' });
+      return;
+    }
+    console.error('[DemoWorker] Analysis failed:', err);
+    post({ type: 'error', stage: 'analyze', message: err?.message || 'Analysis failed' });
+  }
+};
+
+// Re-run only the given detectors (after a settings change) and update the cached results
+const handleReanalyze = async (request: Extract<DemoWorkerRequest, { type: 'reanalyze' }>) => {
+  controller = new AbortController();
+  const { previous, detectorIds, detectors, cacheKey } = request;
+  let demoFile = request.demoFile;
+
+  try {
+    if (!demoFile) {
+      // Re-read the parsed demo from IndexedDB instead of having the UI clone it into the worker
+      post({ type: 'analysisProgress', progress: { percentage: 0, currentStep: 'Loading demo from cache...', estimatedTimeRemaining: 0 } });
+      const cached = cacheKey ? await loadCachedDemo(cacheKey).catch(cacheErr => {
+        console.warn('[DemoWorker] Cache lookup failed:', cacheErr);
+        return null;
+      }) : null;
+      if (!cached) {
+        post({ type: 'error', stage: 'cache', message: 'The demo is no longer in the cache' });
+        return;
+      }
+      demoFile = cached.demoFile;
+      controller.signal.throwIfAborted();
+    }
+
+    const analyzer = new DemoAnalyzer(demoFile, {
+      progressCallback: (progress) => {
+        post({ type: 'analysisProgress', progress });
+      },
+      signal: controller.signal,
+      detectors
+    });
+    const results = await analyzer.reanalyze(previous, detectorIds);
+
+    // Best effort, like the initial save: otherwise reopening the demo would bring back the old results,
+    // and player profiles would keep the first run's incident counts
+    let savedKey: string | null = null;
+    if (cacheKey) {
+      post({ type: 'analysisProgress', progress: { percentage: 100, currentStep: 'Saving to cache and history...', estimatedTimeRemaining: 0 } });
+      try {
+        if (await updateCachedResults(cacheKey, results, getDetectorSettingsKey(detectors))) {
+          savedKey = cacheKey;
+        }
+      } catch (cacheErr) {
+        console.warn('[DemoWorker] Failed to update cached analysis:', cacheErr);
+      }
+      try {
+        const source = demoFile.source;
+        const demoName = source ? getCacheName(source.fileName, source.entryName) : demoFile.mapName;
+        await recordMatchHistory(cacheKey, demoName, demoFile, results);
+      } catch (historyErr) {
+        console.warn('[DemoWorker] Failed to update offender history:', historyErr);
+      }
+    }
+    post({ type: 'analyzed', results, fromCache: false, cacheKey: savedKey });
+  } catch (err: any) {
+    if (err?.name === 'AbortError') {
+      console.log('[DemoWorker] Re-analysis cancelled');
+      post({ type: 'cancelled' });
+      return;
+    }
+    console.error('[DemoWorker] Re-analysis failed:', err);
+    post({ type: 'error', stage: 'analyze', message: err?.message || 'Re-analysis failed' });
+  }
+};
+
+ctx.onmessage = (event) => {
+  const request = event.data;
+  if (request.type === 'analyze') {
+    handleAnalyze(request.file, request.entryName, request.detectors, request.withoutFrames);
+  } else if (request.type === 'reanalyze') {
+    handleReanalyze(request);
+  } else if (request.type === 'cancel') {
+    controller?.abort();
+  }
+};
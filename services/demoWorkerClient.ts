@@ -0,0 +1,188 @@
+/**
+ * Main-thread wrapper around the demo worker.
+ * Spawns a fresh worker per demo (or re-analysis), streams progress through callbacks and
+ * terminates the worker once it is done (or cancelled) so its buffer and WASM memory are released.
+ */
+
+import { DemoFile } from '../types';
+import type { ParsingProgress } from './demoParser';
+import type { AnalysisResults, AnalysisProgress } from './demoAnalyzer';
+import type { DemoWorkerRequest, DemoWorkerResponse } from './demoWorker';
+import type { DetectorId, DetectorSettings } from './detectorRegistry';
+
+export interface DemoWorkerOptions {
+  onParsingProgress?: (progress: ParsingProgress) => void;
+  onAnalysisProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal; // Aborting rejects with an AbortError and tears the worker down
+  entryName?: string; // Demo to open from a zip with several demos
+  detectors?: DetectorSettings; // Enabled detectors + config overrides (defaults if omitted)
+  withoutFrames?: boolean; // Only the match info is needed (batch rows): demoFile.frames comes back empty
+}
+
+export interface DemoWorkerResult {
+  demoFile: DemoFile;
+  results: AnalysisResults | null;
+  analysisError: string | null; // Analysis can fail while the parsed demo is still usable
+  fromCache: boolean; // Served from the IndexedDB cache without re-parsing
+  cacheKey: string | null; // Key for loadCachedDemo(), null if the demo could not be cached
+}
+
+// How long a cancelled worker gets to stop at its next checkpoint before it is terminated.
+// A long parseTicks call can't be interrupted, terminating is what actually frees the memory then.
+const CANCEL_GRACE_MS = 500;
+
+/**
+ * Start a demo worker for one request and settle once handleMessage resolves or rejects.
+ * Aborting the signal (or a 'cancelled' message) rejects with an AbortError; the worker is
+ * always terminated once the promise is settled.
+ */
+function runDemoWorker<T>(
+  request: DemoWorkerRequest,
+  signal: AbortSignal | undefined,
+  handleMessage: (message: DemoWorkerResponse, resolve: (value: T) => void, reject: (error: Error) => void) => void,
+  onAbort?: () => void
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Demo processing was cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./demoWorker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.onmessage = null;
+      worker.onerror = null;
+      worker.terminate();
+    };
+
+    function handleAbort() {
+      // Settle the promise right away, then give the worker a moment to stop cleanly before terminating it
+      onAbort?.();
+      reject(new DOMException('Demo processing was cancelled', 'AbortError'));
+      const cancelRequest: DemoWorkerRequest = { type: 'cancel' };
+      worker.postMessage(cancelRequest);
+      worker.onmessage = (event: MessageEvent<DemoWorkerResponse>) => {
+        if (event.data.type === 'cancelled') finish();
+      };
+      setTimeout(finish, CANCEL_GRACE_MS);
+    }
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<DemoWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'cancelled') {
+        finish();
+        reject(new DOMException('Demo processing was cancelled', 'AbortError'));
+        return;
+      }
+      handleMessage(
+        message,
+        (value) => {
+          finish();
+          resolve(value);
+        },
+        (error) => {
+          finish();
+          reject(error);
+        }
+      );
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      console.error('[DemoWorker] Worker crashed:', event);
+      finish();
+      reject(new Error(event.message || 'Demo worker crashed'));
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Parses and analyzes a demo file inside a Web Worker.
+ * Rejects if parsing fails or the signal is aborted; an analysis failure still resolves with the parsed demo.
+ */
+export function analyzeDemoInWorker(file: File, options: DemoWorkerOptions = {}): Promise<DemoWorkerResult> {
+  const { signal, entryName, detectors, withoutFrames, ...callbacks } = options;
+  let demoFile: DemoFile | null = null;
+
+  const request: DemoWorkerRequest = { type: 'analyze', file, entryName, detectors, withoutFrames };
+  return runDemoWorker<DemoWorkerResult>(request, signal, (message, resolve, reject) => {
+    switch (message.type) {
+      case 'parsingProgress':
+        callbacks.onParsingProgress?.(message.progress);
+        break;
+      case 'analysisProgress':
+        callbacks.onAnalysisProgress?.(message.progress);
+        break;
+      case 'parsed':
+        demoFile = message.demoFile;
+        break;
+      case 'analyzed':
+        if (demoFile) {
+          resolve({ demoFile, results: message.results, analysisError: null, fromCache: message.fromCache, cacheKey: message.cacheKey });
+        } else {
+          reject(new Error('Worker finished analysis without a parsed demo'));
+        }
+        break;
+      case 'error':
+        if (message.stage === 'analyze' && demoFile) {
+          resolve({ demoFile, results: null, analysisError: message.message, fromCache: false, cacheKey: null });
+        } else {
+          reject(new Error(message.message));
+        }
+        break;
+    }
+  }, () => {
+    demoFile = null; // Drop our reference to any partial result right away
+  });
+}
+
+export interface ReanalyzeOptions {
+  detectors: DetectorSettings; // The new settings
+  cacheKey?: string | null; // Cached demo whose results are replaced with the new ones
+  onAnalysisProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Re-run some detectors on an already parsed demo inside a Web Worker (see DemoAnalyzer.reanalyze).
+ * With a cache key the worker re-reads the demo from IndexedDB, so the (large) DemoFile is only
+ * cloned into the worker when it isn't cached - or no longer is, in which case the request is retried with it.
+ * Resolves with the merged results and the cache key they were saved under (null if not saved).
+ */
+export function reanalyzeDemoInWorker(
+  demoFile: DemoFile,
+  previous: AnalysisResults,
+  detectorIds: DetectorId[],
+  options: ReanalyzeOptions
+): Promise<{ results: AnalysisResults; cacheKey: string | null }> {
+  const { detectors, cacheKey = null, onAnalysisProgress, signal } = options;
+
+  // Resolves with null if the worker could not find the demo in the cache
+  const run = (sendDemo: boolean) => {
+    const request: DemoWorkerRequest = { type: 'reanalyze', demoFile: sendDemo ? demoFile : undefined, previous, detectorIds, detectors, cacheKey };
+    return runDemoWorker<{ results: AnalysisResults; cacheKey: string | null } | null>(request, signal, (message, resolve, reject) => {
+      switch (message.type) {
+        case 'analysisProgress':
+          onAnalysisProgress?.(message.progress);
+          break;
+        case 'analyzed':
+          resolve({ results: message.results, cacheKey: message.cacheKey });
+          break;
+        case 'error':
+          if (message.stage === 'cache' && !sendDemo) {
+            console.warn(`[DemoWorker] ${message.message}, sending the demo along instead`);
+            resolve(null);
+          } else {
+            reject(new Error(message.message));
+          }
+          break;
+      }
+    });
+  };
+
+  return run(!cacheKey).then(result => result ?? run(true));
+}
@@ -23,6 +23,10 @@ declare global {
   }
 }
 
+// The loader runs both on the main thread and inside the analysis worker,
+// so globals are resolved through globalThis instead of window
+const scope = globalThis as typeof globalThis & { wasm_bindgen?: any };
+
 let parserInstance: IDemoParser2 | null = null;
 let isLoading = false;
 let loadPromise: Promise<IDemoParser2 | null> | null = null;
@@ -43,18 +47,13 @@ export async function loadDemoparser2(): Promise<IDemoParser2 | null> {
   isLoading = true;
   loadPromise = (async () => {
     try {
-      if (typeof window === 'undefined') {
-        console.warn('Cannot load demoparser2: window is undefined');
-        return null;
-      }
-
       // Check if already loaded
-      if (window.wasm_bindgen && typeof window.wasm_bindgen.parseTicks === 'function') {
+      if (scope.wasm_bindgen && typeof scope.wasm_bindgen.parseTicks === 'function') {
         console.log('demoparser2 already loaded');
         parserInstance = {
-          parseTicks: window.wasm_bindgen.parseTicks,
-          parseEvents: window.wasm_bindgen.parseEvents,
-          parseHeader: window.wasm_bindgen.parseHeader,
+          parseTicks: scope.wasm_bindgen.parseTicks,
+          parseEvents: scope.wasm_bindgen.parseEvents,
+          parseHeader: scope.wasm_bindgen.parseHeader,
         };
         return parserInstance;
       }
@@ -63,15 +62,19 @@ export async function loadDemoparser2(): Promise<IDemoParser2 | null> {
       console.log('Loading demoparser2.js from /pkg/demoparser2.js...');
       
       // Patch document.currentScript before loading (demoparser2.js uses it)
-      const fakeScript = document.createElement('script');
-      fakeScript.src = '/pkg/demoparser2.js';
-      
-      // Override document.currentScript getter temporarily
-      const originalDescriptor = Object.getOwnPropertyDescriptor(document, 'currentScript');
-      Object.defineProperty(document, 'currentScript', {
-        get: () => fakeScript,
-        configurable: true
-      });
+      // Workers have no document, the script handles that case itself
+      const hasDocument = typeof document !== 'undefined';
+      const originalDescriptor = hasDocument ? Object.getOwnPropertyDescriptor(document, 'currentScript') : undefined;
+      if (hasDocument) {
+        const fakeScript = document.createElement('script');
+        fakeScript.src = '/pkg/demoparser2.js';
+        
+        // Override document.currentScript getter temporarily
+        Object.defineProperty(document, 'currentScript', {
+          get: () => fakeScript,
+          configurable: true
+        });
+      }
       
       try {
         // Fetch and execute the script content, then expose wasm_bindgen globally
@@ -82,18 +85,18 @@ export async function loadDemoparser2(): Promise<IDemoParser2 | null> {
         
         let code = await response.text();
         
-        // Modify the code to expose wasm_bindgen to window
+        // Modify the code to expose wasm_bindgen globally
         // The file ends with: wasm_bindgen = Object.assign(__wbg_init, { initSync }, __exports);
-        // We need to add: window.wasm_bindgen = wasm_bindgen; after that
+        // We need to add: globalThis.wasm_bindgen = wasm_bindgen; after that
         const pattern = /wasm_bindgen = Object\.assign\(__wbg_init, \{ initSync \}, __exports\);/;
         if (pattern.test(code)) {
           code = code.replace(
             pattern,
-            'wasm_bindgen = Object.assign(__wbg_init, { initSync }, __exports);\nwindow.wasm_bindgen = wasm_bindgen;'
+            'wasm_bindgen = Object.assign(__wbg_init, { initSync }, __exports);\nglobalThis.wasm_bindgen = wasm_bindgen;'
           );
         } else {
           // Fallback: just add the assignment at the end
-          code += '\nwindow.wasm_bindgen = wasm_bindgen;';
+          code += '\nglobalThis.wasm_bindgen = wasm_bindgen;';
         }
         
         // Execute the modified code
@@ -105,14 +108,16 @@ export async function loadDemoparser2(): Promise<IDemoParser2 | null> {
         console.log('✓ demoparser2.js loaded and executed');
       } finally {
         // Restore document.currentScript
-        if (originalDescriptor) {
-          Object.defineProperty(document, 'currentScript', originalDescriptor);
-        } else {
-          delete (document as any).currentScript;
+        if (hasDocument) {
+          if (originalDescriptor) {
+            Object.defineProperty(document, 'currentScript', originalDescriptor);
+          } else {
+            delete (document as any).currentScript;
+          }
         }
       }
 
-      if (!window.wasm_bindgen) {
+      if (!scope.wasm_bindgen) {
         console.error('wasm_bindgen not available after loading script');
         return null;
       }
@@ -122,7 +127,7 @@ export async function loadDemoparser2(): Promise<IDemoParser2 | null> {
       
       try {
         // Initialize with the WASM file path (like the demo: await wasm_bindgen('./pkg/demoparser2_bg.wasm'))
-        await window.wasm_bindgen('/pkg/demoparser2_bg.wasm');
+        await scope.wasm_bindgen('/pkg/demoparser2_bg.wasm');
         console.log('✓ demoparser2 WASM initialized');
       } catch (e: any) {
         console.error('Failed to initialize WASM:', e);
@@ -130,14 +135,14 @@ export async function loadDemoparser2(): Promise<IDemoParser2 | null> {
       }
 
       // Step 3: Extract functions from wasm_bindgen
-      if (typeof window.wasm_bindgen.parseTicks === 'function' && typeof window.wasm_bindgen.parseEvents === 'function') {
+      if (typeof scope.wasm_bindgen.parseTicks === 'function' && typeof scope.wasm_bindgen.parseEvents === 'function') {
         parserInstance = {
-          parseTicks: window.wasm_bindgen.parseTicks,
-          parseEvents: window.wasm_bindgen.parseEvents,
-          parseHeader: window.wasm_bindgen.parseHeader,
-          parseGrenades: window.wasm_bindgen.parseGrenades,
-          listUpdatedFields: window.wasm_bindgen.listUpdatedFields,
-          parseVoice: window.wasm_bindgen.parseVoice || window.wasm_bindgen.parse_voice,
+          parseTicks: scope.wasm_bindgen.parseTicks,
+          parseEvents: scope.wasm_bindgen.parseEvents,
+          parseHeader: scope.wasm_bindgen.parseHeader,
+          parseGrenades: scope.wasm_bindgen.parseGrenades,
+          listUpdatedFields: scope.wasm_bindgen.listUpdatedFields,
+          parseVoice: scope.wasm_bindgen.parseVoice || scope.wasm_bindgen.parse_voice,
         };
         console.log('✓ demoparser2 ready to use');
         return parserInstance;
@@ -160,9 +165,8 @@ export async function loadDemoparser2(): Promise<IDemoParser2 | null> {
  * Checks if demoparser2 is available
  */
 export function isParserAvailable(): boolean {
-  return parserInstance !== null || (typeof window !== 'undefined' && 
-    window.wasm_bindgen && 
-    typeof window.wasm_bindgen.parseTicks === 'function');
+  return parserInstance !== null || (!!scope.wasm_bindgen && 
+    typeof scope.wasm_bindgen.parseTicks === 'function');
 }
 
 /**
@@ -0,0 +1,61 @@
+/**
+ * Detector Presets
+ *
+ * Named sets of detector settings (enabled detectors + config overrides) that can
+ * be applied from the settings panel. The built-in presets below ship with the
+ * app; presets saved by the user are kept in localStorage by the demo store.
+ * Anything a preset doesn't mention falls back to the detector defaults.
+ * Unavailable detectors (see DetectorDefinition.unavailable) are left out.
+ */
+
+import type { DetectorSettings } from './detectorRegistry';
+
+export interface DetectorPreset {
+  name: string;
+  description?: string;
+  settings: DetectorSettings;
+  builtIn?: boolean; // Shipped with the app, can't be overwritten or deleted
+}
+
+export const BUILT_IN_DETECTOR_PRESETS: DetectorPreset[] = [
+  {
+    name: 'Default',
+    description: 'Detector defaults',
+    settings: {},
+    builtIn: true
+  },
+  {
+    name: 'Strict',
+    description: 'Every detector on, lower thresholds - more detections, more false positives',
+    builtIn: true,
+    settings: {
+      afkDetections: { enabled: true, config: { afkThresholdSeconds: 3, movementThreshold: 2 } },
+      midRoundInactivity: { enabled: true, config: { afkTimeToFlag: 10, afkTimeHighConfidence: 18 } },
+      bodyBlocking: { enabled: true, config: { minEventDuration: 0.8, spawnIgnoreSeconds: 6 } },
+      objectiveSabotage: { enabled: true, config: { stallMinSeconds: 6, opportunityMinSeconds: 4 } }
+    }
+  },
+  {
+    name: 'Lenient',
+    description: 'Only clear-cut cases - casual matches with a lot of standing around',
+    builtIn: true,
+    settings: {
+      afkDetections: { enabled: true, config: { afkThresholdSeconds: 10, movementThreshold: 8 } },
+      teamFlashes: { enabled: false },
+      midRoundInactivity: { enabled: false },
+      bodyBlocking: { enabled: false },
+      objectiveSabotage: { enabled: false }
+    }
+  },
+  {
+    name: 'Tournament',
+    description: 'Players are expected to be ready at freeze end and play the objective',
+    builtIn: true,
+    settings: {
+      afkDetections: { enabled: true, config: { afkThresholdSeconds: 3 } },
+      midRoundInactivity: { enabled: true, config: { afkTimeToFlag: 12 } },
+      bodyBlocking: { enabled: false },
+      objectiveSabotage: { enabled: true }
+    }
+  }
+];
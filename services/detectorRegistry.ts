@@ -0,0 +1,242 @@
+/**
+ * Detector Registry
+ *
+ * Every griefing detector registers itself here with an id (its key in
+ * AnalysisResults), a config schema + defaults, the detectors it depends on and
+ * how to run it. DemoAnalyzer.analyze() runs whichever detectors are enabled, in
+ * dependency order, and gives each one a slice of the progress bar - so adding,
+ * disabling or tuning a detector no longer means editing analyze().
+ *
+ * The built-in detectors are registered in detectors.ts.
+ */
+
+import { DemoFile } from '../types';
+import type { AnalysisResults } from './demoAnalyzer';
+import { FrameStore } from './frameStore';
+import { PlayerRegistry } from './playerIdentity';
+
+// Detector ids are the AnalysisResults keys their results are stored under
+export type DetectorId = Exclude<keyof AnalysisResults, 'detectorsRun'>;
+
+// Progress inside a detector: fraction is 0-1 of that detector's own work
+export type DetectorProgress = (fraction: number, currentStep: string) => void;
+
+/**
+ * One editable config value. Nested values use a dotted key (e.g. "weights.duration").
+ */
+export interface DetectorConfigField {
+  key: string;
+  label: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: string; // e.g. "s", "units", "units/s"
+  group?: string; // Section in the settings UI (e.g. "Weights")
+  description?: string;
+}
+
+/**
+ * What a detector gets to work with
+ */
+export interface DetectorContext {
+  demoFile: DemoFile;
+  frames: FrameStore; // Shared columnar player states
+  players: PlayerRegistry; // SteamID based identities
+  tickRate: number;
+  reportProgress: DetectorProgress;
+  checkpoint: () => Promise<void>; // Yield + throw AbortError if cancelled
+  getResult: <K extends DetectorId>(id: K) => AnalysisResults[K]; // Results of a dependency
+}
+
+export interface DetectorDefinition<K extends DetectorId = DetectorId, TConfig = any> {
+  id: K;
+  name: string;
+  description: string;
+  enabledByDefault: boolean;
+  unavailable?: string; // Why the detector can't run in this build - it stays disabled and the UI says why
+  weight: number; // Relative share of the analysis progress bar
+  dependencies?: DetectorId[]; // Run (and enabled) before this detector
+  configSchema: DetectorConfigField[];
+  defaultConfig: TConfig;
+  emptyResult: () => AnalysisResults[K]; // Result when disabled or failed
+  run: (context: DetectorContext, config: TConfig) => AnalysisResults[K] | Promise<AnalysisResults[K]>;
+  summarize?: (result: AnalysisResults[K]) => string; // "Found N ..." progress message
+}
+
+/**
+ * Store a detector's result under its id
+ */
+export function setDetectorResult<K extends DetectorId>(results: AnalysisResults, id: K, value: AnalysisResults[K]): void {
+  results[id] = value;
+}
+
+/**
+ * Per-detector user settings. Missing detectors use enabledByDefault / defaultConfig.
+ */
+export interface DetectorSetting {
+  enabled?: boolean;
+  config?: Record<string, any>; // Partial config, merged over defaultConfig
+}
+
+export type DetectorSettings = Partial<Record<DetectorId, DetectorSetting>>;
+
+const registry = new Map<DetectorId, DetectorDefinition>();
+
+/**
+ * Register a detector (replaces an existing detector with the same id)
+ */
+export function registerDetector<K extends DetectorId>(definition: DetectorDefinition<K, any>): void {
+  // Every editable field must exist in the defaults, otherwise the setting silently does nothing
+  for (const field of definition.configSchema) {
+    if (getConfigValue(definition.defaultConfig, field.key) === undefined) {
+      throw new Error(`Detector "${definition.id}" config field "${field.key}" is not in its default config`);
+    }
+  }
+  registry.set(definition.id, definition as unknown as DetectorDefinition);
+}
+
+/**
+ * All registered detectors, in registration order
+ */
+export function getDetectors(): DetectorDefinition[] {
+  return Array.from(registry.values());
+}
+
+export function getDetector(id: DetectorId): DetectorDefinition | undefined {
+  return registry.get(id);
+}
+
+export function isDetectorEnabled(definition: DetectorDefinition, settings: DetectorSettings = {}): boolean {
+  if (definition.unavailable) return false;
+  return settings[definition.id]?.enabled ?? definition.enabledByDefault;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Deep-merge a partial config over the detector defaults (nested objects such as weights are merged too)
+ */
+export function resolveDetectorConfig<T extends object>(defaults: T, overrides?: Record<string, unknown>): T {
+  if (!overrides) return defaults;
+  const merged: Record<string, unknown> = { ...(defaults as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(overrides)) {
+    const base = merged[key];
+    if (isPlainObject(value) && isPlainObject(base)) {
+      merged[key] = resolveDetectorConfig(base, value);
+    } else if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+  return merged as T;
+}
+
+/**
+ * Enabled detectors in run order: dependencies first. Enabling a detector also
+ * runs the detectors it depends on, even if they are disabled themselves.
+ */
+export function resolveDetectorRunOrder(settings: DetectorSettings = {}): DetectorDefinition[] {
+  const ordered: DetectorDefinition[] = [];
+  const visiting = new Set<DetectorId>();
+  const added = new Set<DetectorId>();
+
+  const visit = (definition: DetectorDefinition) => {
+    if (added.has(definition.id)) return;
+    if (visiting.has(definition.id)) {
+      throw new Error(`Detector dependency cycle at "${definition.id}"`);
+    }
+    visiting.add(definition.id);
+    for (const dependencyId of definition.dependencies || []) {
+      const dependency = registry.get(dependencyId);
+      if (!dependency) {
+        throw new Error(`Detector "${definition.id}" depends on unknown detector "${dependencyId}"`);
+      }
+      visit(dependency);
+    }
+    visiting.delete(definition.id);
+    added.add(definition.id);
+    ordered.push(definition);
+  };
+
+  for (const definition of registry.values()) {
+    if (isDetectorEnabled(definition, settings)) {
+      visit(definition);
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Stable string for a set of settings - part of the analysis cache key, so cached
+ * results computed with other detectors/configs aren't reused
+ */
+export function getDetectorSettingsKey(settings: DetectorSettings = {}): string {
+  return resolveDetectorRunOrder(settings)
+    .map(definition => {
+      const config = resolveDetectorConfig(definition.defaultConfig, settings[definition.id]?.config);
+      return `${definition.id}:${JSON.stringify(config)}`;
+    })
+    .join('|');
+}
+
+/**
+ * Read a (dotted) config value, e.g. getConfigValue(config, "weights.duration")
+ */
+export function getConfigValue(config: any, key: string): any {
+  return key.split('.').reduce((value, part) => (value == null ? undefined : value[part]), config);
+}
+
+/**
+ * Copy of a partial config with one (dotted) value replaced
+ */
+export function setConfigValue(config: Record<string, any> | undefined, key: string, value: any): Record<string, any> {
+  const [head, ...rest] = key.split('.');
+  const next = { ...config };
+  next[head] = rest.length > 0 ? setConfigValue(next[head], rest.join('.'), value) : value;
+  return next;
+}
+
+/**
+ * Detectors whose results differ between an existing analysis (identified by its
+ * getDetectorSettingsKey) and new settings: detectors that were enabled/disabled or
+ * whose effective config changed, plus everything depending on them. Used to re-run
+ * only the affected detectors after a settings change. Without a previous key
+ * (results cached by an older version) every enabled detector is re-run.
+ */
+export function getDetectorsToRerun(previousKey: string | null | undefined, next: DetectorSettings = {}): DetectorId[] {
+  const nextRun = new Set(resolveDetectorRunOrder(next).map(definition => definition.id));
+  if (!previousKey) return Array.from(nextRun);
+
+  const previousEntries = new Set(previousKey.split('|'));
+  const previousRun = new Set(Array.from(previousEntries).map(entry => entry.slice(0, entry.indexOf(':'))));
+  const nextEntries = new Set(getDetectorSettingsKey(next).split('|'));
+
+  const changed = new Set<DetectorId>();
+  for (const definition of registry.values()) {
+    const wasRun = previousRun.has(definition.id);
+    const isRun = nextRun.has(definition.id);
+    if (wasRun !== isRun) {
+      changed.add(definition.id);
+      continue;
+    }
+    if (!isRun) continue;
+    const entry = Array.from(nextEntries).find(candidate => candidate.startsWith(`${definition.id}:`));
+    if (!entry || !previousEntries.has(entry)) {
+      changed.add(definition.id);
+    }
+  }
+
+  // Dependents consume the changed results, so they have to run again as well
+  let added = true;
+  while (added) {
+    added = false;
+    for (const definition of registry.values()) {
+      if (changed.has(definition.id) || !nextRun.has(definition.id)) continue;
+      if ((definition.dependencies || []).some(dependencyId => changed.has(dependencyId))) {
+        changed.add(definition.id);
+        added = true;
+      }
+    }
+  }
+  return Array.from(changed);
+}
@@ -0,0 +1,342 @@
+/**
+ * Built-in Detectors
+ *
+ * Registers the griefing detectors that ship with the analyzer. Each entry wraps
+ * one detector module (afkDetection.ts, teamKills.ts, ...) and adapts it to the
+ * registry interface: config schema, defaults, progress and result shape.
+ */
+
+import type { MidRoundInactivity, BodyBlocking, ObjectiveSabotage } from './demoAnalyzer';
+import { DetectorConfigField, DetectorDefinition, DetectorId, registerDetector } from './detectorRegistry';
+import { detectAFKPlayers, DEFAULT_AFK_DETECTION_CONFIG } from './afkDetection';
+import { detectTeamKills } from './teamKills';
+import { detectTeamDamage } from './teamDamage';
+import { detectDisconnects } from './disconnects';
+import { detectTeamFlashes } from './teamFlashes';
+import { analyzeRoundInactivity, DEFAULT_MID_ROUND_AFK_CONFIG, MidRoundAfkConfig } from './midRoundAfk';
+import { detectBodyBlocking, DEFAULT_BODY_BLOCK_CONFIG, BodyBlockConfig } from './bodyBlocking';
+import { detectObjectiveSabotage, DEFAULT_OBJECTIVE_CONFIG, ObjectiveConfig } from './objectiveSabotage';
+import { analyzeEconomyGriefingEventsOnly, DEFAULT_ECONOMY_EVENTS_ONLY_CONFIG, EconomyEventsOnlyConfig } from './economyGriefingEventsOnly';
+
+// Shorthand for a weights group entry
+const weight = (key: string, label: string, weightsKey = 'weights'): DetectorConfigField => ({
+  key: `${weightsKey}.${key}`,
+  label,
+  min: 0,
+  max: 1,
+  step: 0.05,
+  group: 'Weights'
+});
+
+const afkDetector: DetectorDefinition<'afkDetections', typeof DEFAULT_AFK_DETECTION_CONFIG> = {
+  id: 'afkDetections',
+  name: 'AFK at round start',
+  description: 'Players who do not move after freeze time ends',
+  enabledByDefault: true,
+  weight: 30,
+  configSchema: [
+    { key: 'afkThresholdSeconds', label: 'Minimum AFK time', min: 1, max: 60, step: 1, unit: 's' },
+    { key: 'movementThreshold', label: 'Movement tolerance', min: 0, max: 50, step: 1, unit: 'units', description: 'Ignore jitter below this distance' }
+  ],
+  defaultConfig: DEFAULT_AFK_DETECTION_CONFIG,
+  emptyResult: () => [],
+  run: (context, config) => detectAFKPlayers(context.demoFile, config, context.reportProgress),
+  summarize: (result) => `Found ${result.length} AFK detections`
+};
+
+const teamKillsDetector: DetectorDefinition<'teamKills', {}> = {
+  id: 'teamKills',
+  name: 'Team kills',
+  description: 'Kills where attacker and victim are on the same team',
+  enabledByDefault: true,
+  weight: 25,
+  configSchema: [],
+  defaultConfig: {},
+  emptyResult: () => [],
+  run: (context) => detectTeamKills(context.demoFile, context.reportProgress),
+  summarize: (result) => `Found ${result.length} team kills`
+};
+
+const teamDamageDetector: DetectorDefinition<'teamDamage', {}> = {
+  id: 'teamDamage',
+  name: 'Team damage',
+  description: 'Friendly fire damage, grouped per attacker/victim burst',
+  enabledByDefault: true,
+  weight: 25,
+  configSchema: [],
+  defaultConfig: {},
+  emptyResult: () => [],
+  run: (context) => detectTeamDamage(context.demoFile, context.reportProgress),
+  summarize: (result) => `Found ${result.length} team damage events`
+};
+
+const disconnectsDetector: DetectorDefinition<'disconnects', {}> = {
+  id: 'disconnects',
+  name: 'Disconnects',
+  description: 'Players leaving and rejoining the server',
+  enabledByDefault: true,
+  weight: 10,
+  configSchema: [],
+  defaultConfig: {},
+  emptyResult: () => [],
+  run: (context) => detectDisconnects(context.demoFile, context.players),
+  summarize: (result) => `Found ${result.length} disconnect events`
+};
+
+const teamFlashesDetector: DetectorDefinition<'teamFlashes', {}> = {
+  id: 'teamFlashes',
+  name: 'Team flashes',
+  description: 'Flashbangs that blinded teammates',
+  enabledByDefault: true,
+  weight: 5,
+  configSchema: [],
+  defaultConfig: {},
+  emptyResult: () => [],
+  run: (context) => detectTeamFlashes(context.demoFile, context.players),
+  summarize: (result) => `Found ${result.length} team flash events`
+};
+
+const midRoundInactivityDetector: DetectorDefinition<'midRoundInactivity', MidRoundAfkConfig> = {
+  id: 'midRoundInactivity',
+  name: 'Mid-round inactivity',
+  description: 'Players going idle during live rounds (holding angles is not flagged)',
+  enabledByDefault: false,
+  weight: 10,
+  configSchema: [
+    { key: 'samplingHz', label: 'Sampling rate', min: 1, max: 64, step: 1, unit: 'Hz' },
+    { key: 'maxDisplacementHold', label: 'Max movement while holding', min: 0, max: 500, step: 5, unit: 'units' },
+    { key: 'minDisplacementActive', label: 'Min movement when active', min: 0, max: 500, step: 5, unit: 'units' },
+    { key: 'minAimActive', label: 'Min aim movement when active', min: 0, max: 180, step: 1, unit: '°' },
+    { key: 'minAimActiveHold', label: 'Min aim movement while holding', min: 0, max: 90, step: 1, unit: '°' },
+    { key: 'afkTimeToFlag', label: 'Inactivity to flag', min: 1, max: 120, step: 1, unit: 's' },
+    { key: 'afkTimeHighConfidence', label: 'Inactivity for high confidence', min: 1, max: 120, step: 1, unit: 's' },
+    { key: 'window5s', label: 'Short window', min: 1, max: 30, step: 1, unit: 's' },
+    { key: 'window10s', label: 'Long window', min: 1, max: 60, step: 1, unit: 's' },
+    { key: 'scopedReduction', label: 'Scoped score multiplier', min: 0, max: 1, step: 0.05, group: 'Context' },
+    { key: 'savingTimeThreshold', label: 'Saving window', min: 0, max: 115, step: 1, unit: 's', group: 'Context' },
+    { key: 'savingReduction', label: 'Saving score multiplier', min: 0, max: 1, step: 0.05, group: 'Context' },
+    weight('displacement', 'Low displacement', 'scoreWeights'),
+    weight('aimMovement', 'Low aim movement', 'scoreWeights'),
+    weight('actions', 'No actions', 'scoreWeights'),
+    weight('duration', 'Duration', 'scoreWeights')
+  ],
+  defaultConfig: DEFAULT_MID_ROUND_AFK_CONFIG,
+  emptyResult: () => [],
+  run: async (context, config) => {
+    const { demoFile, frames, tickRate } = context;
+    const results: MidRoundInactivity[] = [];
+
+    for (let roundIndex = 0; roundIndex < demoFile.rounds.length; roundIndex++) {
+      const round = demoFile.rounds[roundIndex];
+      context.reportProgress(roundIndex / demoFile.rounds.length, `Analyzing round ${round.number} for mid-round inactivity...`);
+      if (!round.freezeEndTick || !round.endTick) continue;
+
+      // Get all events for this round
+      const roundEvents = frames.getEvents(round.freezeEndTick, round.endTick);
+
+      const roundResults = analyzeRoundInactivity(round, frames, roundEvents, tickRate, config);
+
+      // Convert to MidRoundInactivity format
+      for (const [playerId, inactivityResult] of roundResults.entries()) {
+        if (!inactivityResult.flagged || inactivityResult.segments.length === 0) continue;
+        // Find player team (as of the end of this round)
+        const player = frames.getPlayerAt(round.endTick, playerId);
+        if (!player) continue;
+        results.push({
+          playerId,
+          playerName: inactivityResult.playerName,
+          team: player.team,
+          round: round.number,
+          segments: inactivityResult.segments.map(s => ({
+            startTick: s.startTick,
+            endTick: s.endTick,
+            startTime: s.startTime,
+            endTime: s.endTime,
+            duration: s.duration,
+            score: s.score,
+            confidence: s.confidence,
+            reason: s.reason
+          })),
+          roundScore: inactivityResult.roundScore,
+          flagged: inactivityResult.flagged,
+          confidence: inactivityResult.confidence
+        });
+      }
+      await context.checkpoint();
+    }
+    return results;
+  },
+  summarize: (result) => `Found ${result.length} mid-round inactivity detections`
+};
+
+const bodyBlockingDetector: DetectorDefinition<'bodyBlocking', BodyBlockConfig> = {
+  id: 'bodyBlocking',
+  name: 'Body blocking',
+  description: 'Teammates standing in front of a player who is trying to move',
+  enabledByDefault: false,
+  weight: 10,
+  configSchema: [
+    { key: 'samplingHz', label: 'Sampling rate', min: 1, max: 64, step: 1, unit: 'Hz' },
+    { key: 'closeDist', label: 'Blocking distance', min: 10, max: 200, step: 5, unit: 'units' },
+    { key: 'frontCone', label: 'Front cone (dot product)', min: 0, max: 1, step: 0.05 },
+    { key: 'stuckSpeedMax', label: 'Max speed when stuck', min: 0, max: 250, step: 5, unit: 'units/s' },
+    { key: 'intentSpeedMin', label: 'Min speed showing intent', min: 0, max: 250, step: 5, unit: 'units/s' },
+    { key: 'runningSpeedMin', label: 'Running speed', min: 0, max: 300, step: 5, unit: 'units/s' },
+    { key: 'minProgressPerSec', label: 'Min victim progress', min: 0, max: 200, step: 5, unit: 'units/s' },
+    { key: 'spawnIgnoreSeconds', label: 'Ignore after freeze end', min: 0, max: 30, step: 1, unit: 's' },
+    { key: 'minEventDuration', label: 'Min episode duration', min: 0.1, max: 10, step: 0.1, unit: 's' },
+    { key: 'allowGapSeconds', label: 'Allowed gap in episode', min: 0, max: 5, step: 0.1, unit: 's' },
+    { key: 'crowdedRadius', label: 'Crowded radius', min: 0, max: 500, step: 10, unit: 'units' },
+    { key: 'crowdedCountThreshold', label: 'Teammates for crowded', min: 1, max: 5, step: 1 },
+    { key: 'accelSpikeThreshold', label: 'Acceleration spike', min: 0, max: 1000, step: 10, unit: 'units/s²' },
+    { key: 'headingChangeThreshold', label: 'Heading change attempt', min: 0, max: 180, step: 1, unit: '°' },
+    { key: 'repeatMultiplier', label: 'Repeat multiplier', min: 1, max: 3, step: 0.1 },
+    weight('duration', 'Duration'),
+    weight('progress', 'Lack of victim progress'),
+    weight('blockerStationary', 'Blocker stationary'),
+    weight('failedPasses', 'Failed pass attempts'),
+    weight('reblock', 'Re-blocking'),
+    weight('rushGuard', 'Rush penalty'),
+    weight('crowdedness', 'Crowded penalty')
+  ],
+  defaultConfig: DEFAULT_BODY_BLOCK_CONFIG,
+  emptyResult: () => [],
+  run: async (context, config) => {
+    const { demoFile, frames, tickRate } = context;
+    const results: BodyBlocking[] = [];
+
+    for (let roundIndex = 0; roundIndex < demoFile.rounds.length; roundIndex++) {
+      const round = demoFile.rounds[roundIndex];
+      context.reportProgress(roundIndex / demoFile.rounds.length, `Analyzing round ${round.number} for body blocking...`);
+      if (!round.freezeEndTick || !round.endTick) continue;
+
+      const roundResult = detectBodyBlocking(round, frames, tickRate, config);
+      if (roundResult.events.length > 0 || roundResult.flagged) {
+        results.push({
+          round: round.number,
+          events: roundResult.events,
+          blockScoreRound: roundResult.blockScoreRound,
+          flagged: roundResult.flagged,
+          confidence: roundResult.confidence
+        });
+      }
+      await context.checkpoint();
+    }
+    return results;
+  },
+  summarize: (result) => `Found ${result.reduce((sum, b) => sum + b.events.length, 0)} body blocking events`
+};
+
+const objectiveSabotageDetector: DetectorDefinition<'objectiveSabotage', ObjectiveConfig> = {
+  id: 'objectiveSabotage',
+  name: 'Objective sabotage',
+  description: 'Bomb carrier stalling, bad bomb drops and refused defuses',
+  enabledByDefault: false,
+  weight: 10,
+  configSchema: [
+    { key: 'samplingHz', label: 'Sampling rate', min: 1, max: 64, step: 1, unit: 'Hz' },
+    { key: 'nearTeammateRadius', label: 'Nearby teammate radius', min: 0, max: 1000, step: 10, unit: 'units' },
+    { key: 'defuseRadius', label: 'Defuse radius', min: 0, max: 500, step: 10, unit: 'units' },
+    { key: 'siteClusterRadius', label: 'Site cluster radius', min: 0, max: 1000, step: 10, unit: 'units' },
+    { key: 'plantBufferSeconds', label: 'Plant buffer', min: 0, max: 20, step: 0.5, unit: 's', group: 'Timing' },
+    { key: 'defuseBufferSeconds', label: 'Defuse buffer', min: 0, max: 10, step: 0.5, unit: 's', group: 'Timing' },
+    { key: 'defuseWithKitSeconds', label: 'Defuse time with kit', min: 1, max: 10, step: 0.5, unit: 's', group: 'Timing' },
+    { key: 'defuseWithoutKitSeconds', label: 'Defuse time without kit', min: 1, max: 15, step: 0.5, unit: 's', group: 'Timing' },
+    { key: 'pressureWindowSeconds', label: 'Pressure window', min: 0, max: 20, step: 0.5, unit: 's', group: 'Pressure' },
+    { key: 'pressureDamageThreshold', label: 'Pressure damage', min: 0, max: 100, step: 1, unit: 'HP', group: 'Pressure' },
+    { key: 'pressureDeathWindowSeconds', label: 'Teammate death window', min: 0, max: 20, step: 0.5, unit: 's', group: 'Pressure' },
+    { key: 'stallMinSeconds', label: 'Min bomb stall', min: 1, max: 60, step: 1, unit: 's', group: 'Durations' },
+    { key: 'opportunityMinSeconds', label: 'Min plant opportunity', min: 1, max: 60, step: 1, unit: 's', group: 'Durations' },
+    { key: 'siteClusterMinSeconds', label: 'Min time in site cluster', min: 0, max: 30, step: 0.5, unit: 's', group: 'Durations' },
+    { key: 'defuseOpportunityMinSeconds', label: 'Min defuse opportunity', min: 0, max: 30, step: 0.5, unit: 's', group: 'Durations' },
+    { key: 'stallMoveEps', label: 'Max movement while stalling', min: 0, max: 500, step: 10, unit: 'units' },
+    { key: 'lowSpeedThreshold', label: 'Low speed', min: 0, max: 250, step: 5, unit: 'units/s' },
+    { key: 'hopelessTeammateRatio', label: 'Hopeless enemy ratio', min: 1, max: 5, step: 0.5, group: 'Hopeless situations' },
+    { key: 'hopelessTimePrePlant', label: 'Hopeless time pre-plant', min: 0, max: 60, step: 1, unit: 's', group: 'Hopeless situations' },
+    { key: 'hopelessTimePostPlant', label: 'Hopeless time post-plant', min: 0, max: 40, step: 1, unit: 's', group: 'Hopeless situations' },
+    { key: 'repeatPatternMultiplier', label: 'Repeat multiplier', min: 1, max: 3, step: 0.1 },
+    weight('bombCarrierStall', 'Bomb carrier stall'),
+    weight('noPlantOpportunity', 'No plant'),
+    weight('badBombDrop', 'Bad bomb drop'),
+    weight('defuseRefusal', 'Defuse refusal'),
+    weight('defuseAbort', 'Defuse abort')
+  ],
+  defaultConfig: DEFAULT_OBJECTIVE_CONFIG,
+  emptyResult: () => [],
+  run: async (context, config) => {
+    const { demoFile, frames, tickRate } = context;
+    const results: ObjectiveSabotage[] = [];
+
+    for (let roundIndex = 0; roundIndex < demoFile.rounds.length; roundIndex++) {
+      const round = demoFile.rounds[roundIndex];
+      context.reportProgress(roundIndex / demoFile.rounds.length, `Analyzing round ${round.number} for objective sabotage...`);
+      if (!round.freezeEndTick || !round.endTick) continue;
+
+      // Whole round incl. freeze time, so the pressure windows early in the round still see prior events
+      const roundEvents = frames.getEvents(round.startTick, round.endTick);
+      const roundResult = detectObjectiveSabotage(round, frames, roundEvents, tickRate, config);
+      if (roundResult.allEvents.length > 0) {
+        results.push({
+          round: round.number,
+          eventsByPlayer: roundResult.eventsByPlayer,
+          allEvents: roundResult.allEvents
+        });
+      }
+      await context.checkpoint();
+    }
+    return results;
+  },
+  summarize: (result) => `Found ${result.reduce((sum, o) => sum + o.allEvents.length, 0)} objective sabotage events`
+};
+
+const economyGriefingDetector: DetectorDefinition<'economyGriefing', EconomyEventsOnlyConfig> = {
+  id: 'economyGriefing',
+  name: 'Economy griefing',
+  description: 'Under/over-buying against the team, kitless CTs and expensive early deaths',
+  enabledByDefault: false,
+  unavailable: 'Needs raw buy and pickup events, which the parser does not collect',
+  weight: 5,
+  configSchema: [
+    { key: 'ecoMedianThreshold', label: 'Eco team median', min: 0, max: 5000, step: 100, unit: '$', group: 'Team buy' },
+    { key: 'fullMedianThreshold', label: 'Full buy team median', min: 0, max: 8000, step: 100, unit: '$', group: 'Team buy' },
+    { key: 'underbuyRatio', label: 'Underbuy ratio', min: 0, max: 1, step: 0.05 },
+    { key: 'absoluteUnderbuyValue', label: 'Underbuy value', min: 0, max: 5000, step: 100, unit: '$' },
+    { key: 'overbuyRatio', label: 'Overbuy ratio', min: 1, max: 5, step: 0.1 },
+    { key: 'absoluteOverbuyValue', label: 'Overbuy value', min: 0, max: 10000, step: 100, unit: '$' },
+    { key: 'highValueThreshold', label: 'High value loadout', min: 0, max: 10000, step: 100, unit: '$' },
+    { key: 'earlyDeathSeconds', label: 'Early death', min: 0, max: 60, step: 1, unit: 's' },
+    { key: 'lowDamageThreshold', label: 'Low damage', min: 0, max: 100, step: 1, unit: 'HP' },
+    { key: 'transferWindowSeconds', label: 'Drop transfer window', min: 0, max: 10, step: 0.5, unit: 's' },
+    { key: 'kitlessCTMinRounds', label: 'Kitless CT rounds', min: 1, max: 10, step: 1 },
+    weight('underbuy', 'Underbuy'),
+    weight('overbuy', 'Overbuy'),
+    weight('kitlessCT', 'Kitless CT'),
+    weight('highValueEarlyDeath', 'High value early death'),
+    weight('outlierBuyProfile', 'Outlier buy profile'),
+    { key: 'patternMultiplierBase', label: 'Pattern multiplier base', min: 0, max: 3, step: 0.05, group: 'Patterns' },
+    { key: 'patternMultiplierIncrement', label: 'Pattern multiplier increment', min: 0, max: 1, step: 0.05, group: 'Patterns' },
+    { key: 'patternMultiplierMax', label: 'Pattern multiplier max', min: 1, max: 5, step: 0.1, group: 'Patterns' }
+  ],
+  defaultConfig: DEFAULT_ECONOMY_EVENTS_ONLY_CONFIG,
+  emptyResult: () => ({ byPlayer: new Map() }),
+  // Never run while unavailable: raw event collection is disabled in DemoParser.parseWithWasm
+  run: (context, config) => analyzeEconomyGriefingEventsOnly(context.demoFile, [], config),
+  summarize: (result) => `Found ${result.byPlayer.size} players with economy griefing events`
+};
+
+// Registration order is the default run order (and the order in the settings UI)
+const BUILT_IN_DETECTORS = [
+  afkDetector,
+  teamKillsDetector,
+  teamDamageDetector,
+  disconnectsDetector,
+  teamFlashesDetector,
+  midRoundInactivityDetector,
+  bodyBlockingDetector,
+  objectiveSabotageDetector,
+  economyGriefingDetector
+];
+
+for (const detector of BUILT_IN_DETECTORS) {
+  registerDetector(detector as DetectorDefinition<DetectorId, any>);
+}
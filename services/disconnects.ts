@@ -0,0 +1,684 @@
+/**
+ * Disconnect / Reconnect Detection
+ *
+ * Detects players leaving and rejoining the server. Uses the explicit
+ * player_disconnect / player_connect events where available and falls back to
+ * players disappearing from the frames.
+ */
+
+import { DemoFile, Team } from '../types';
+import { PlayerRegistry, readField } from './playerIdentity';
+
+export interface DisconnectReconnect {
+  playerId: number;
+  playerName: string;
+  team: Team;
+  disconnectTick: number;
+  disconnectTime: number; // seconds
+  disconnectRound: number; // Round when player disconnected
+  reconnectTick?: number;
+  reconnectTime?: number; // seconds
+  reconnectRound?: number; // Round when player reconnected
+  duration?: number; // seconds disconnected (if reconnected)
+  roundsMissed?: number; // Number of rounds the player was disconnected for
+  diedBeforeDisconnect?: boolean; // True if player died in the disconnect round (didn't miss that round)
+  reconnectedBeforeFreezeEnd?: boolean; // True if player reconnected before freeze time ended (playing reconnect round)
+  reason?: string; // Disconnect reason (e.g., "Disconnect by user", "Kicked by server", "Connection timeout", etc.)
+}
+
+/**
+ * Detect player disconnects and reconnects
+ * Uses explicit disconnect/connect events from the demo file as primary source
+ * Falls back to frame-based detection (when player disappears for >2 seconds) if events are not available
+ */
+export function detectDisconnects(demoFile: DemoFile, players: PlayerRegistry): DisconnectReconnect[] {
+  const disconnects: DisconnectReconnect[] = [];
+  const tickRate = demoFile.tickRate;
+  
+  // Build a map of playerId -> playerName, team from frames
+  // Events are resolved to a playerId through the SteamID registry (userid/name are fallbacks)
+  const playerInfoById = new Map<number, { playerId: number; playerName: string; team: Team }>();
+  for (const frame of demoFile.frames) {
+    for (const player of frame.players) {
+      if (player.team === Team.SPECTATOR) continue;
+      playerInfoById.set(player.id, {
+        playerId: player.id,
+        playerName: player.name,
+        team: player.team
+      });
+    }
+  }
+  
+  // Resolve a connect/disconnect event to a player (player_disconnect carries the SteamID as xuid)
+  const resolveEventPlayerInfo = (event: any, userId: number | undefined, playerName: string | undefined) => {
+    const identity = players.resolve(
+      readField(event, 'user_steamid', 'xuid', 'steamid'),
+      readField(event, 'user_name') || playerName,
+      userId
+    );
+    return identity ? playerInfoById.get(identity.id) : undefined;
+  };
+  
+  // Process explicit disconnect/connect events if available
+  const eventBasedDisconnects = new Map<string, DisconnectReconnect>(); // key: playerId-disconnectTick
+  
+  if (demoFile.disconnectEvents && demoFile.disconnectEvents.length > 0) {
+    for (const event of demoFile.disconnectEvents) {
+      // Extract event data - handle both Map and object structures
+      let userId: number | undefined;
+      let playerName: string | undefined;
+      let eventTick: number | undefined;
+      let reason: string | undefined;
+      
+      if (event instanceof Map) {
+        userId = event.get('userid') || event.get('user_id') || event.get('player_id') || event.get('playerid');
+        playerName = event.get('player_name') || event.get('name') || event.get('playerName');
+        eventTick = event.get('tick') || event.get('tick_num') || event.get('t');
+        reason = event.get('reason') || event.get('disconnect_reason') || event.get('reason_text');
+      } else {
+        userId = event.userid || event.user_id || event.player_id || event.playerid;
+        playerName = event.player_name || event.name || event.playerName;
+        eventTick = event.tick || event.tick_num || event.t;
+        reason = event.reason || event.disconnect_reason || event.reason_text;
+      }
+      
+      if (eventTick) {
+        // Find player info by SteamID (falls back to userid, then name)
+        const playerInfo = resolveEventPlayerInfo(event, userId, playerName);
+        
+        if (playerInfo) {
+          const disconnectRound = demoFile.rounds.find(
+            r => r.startTick && eventTick! >= r.startTick && (!r.endTick || eventTick! <= r.endTick)
+          );
+          
+          const disconnectTime = eventTick! / tickRate;
+          
+          // Normalize reason text for better display
+          // CS2 disconnect reason codes from official SwiftlyS2 documentation
+          // Source: https://swiftlys2.net/docs/api/protobufdefinitions/enetworkdisconnectionreason/
+          const getDisconnectReason = (reasonValue: number | string): string | undefined => {
+            let code: number | undefined;
+            
+            if (typeof reasonValue === 'number') {
+              code = reasonValue;
+            } else {
+              const parsed = parseInt(String(reasonValue).trim(), 10);
+              if (!isNaN(parsed)) {
+                code = parsed;
+              }
+            }
+            
+            if (code === undefined) {
+              // Handle string-based reasons
+              const reasonStr = String(reasonValue).trim();
+              if (reasonStr.length > 0) {
+                const reasonLower = reasonStr.toLowerCase();
+                if (reasonLower.includes('kicked') || reasonLower.includes('kick')) {
+                  return 'Kicked by server';
+                } else if (reasonLower.includes('timeout') || reasonLower.includes('timed out')) {
+                  return 'Connection timeout';
+                } else if (reasonLower.includes('banned') || reasonLower.includes('ban')) {
+                  return 'Banned';
+                } else if (reasonLower.includes('disconnect by user') || reasonLower.includes('user disconnect')) {
+                  return 'Disconnected by user';
+                } else if (reasonLower.includes('connection') && reasonLower.includes('lost')) {
+                  return 'Connection lost';
+                } else if (reasonLower.includes('server') && reasonLower.includes('full')) {
+                  return 'Server full';
+                } else if (reasonLower.includes('exiting')) {
+                  return 'Shutting down game';
+                } else {
+                  // Keep original but capitalize first letter
+                  return reasonStr.charAt(0).toUpperCase() + reasonStr.slice(1);
+                }
+              }
+              return undefined;
+            }
+            
+            // CS2 disconnect reason codes from ENetworkDisconnectionReason enum
+            // Source: SwiftlyS2 documentation
+            const reasonCodeMap: Record<number, string> = {
+              0: 'Invalid',
+              1: 'Shutdown',
+              2: 'Disconnected by user',
+              3: 'Disconnect by server',
+              4: 'Connection lost',
+              5: 'Overflow',
+              6: 'Steam banned',
+              7: 'Steam in use',
+              8: 'Steam ticket',
+              9: 'Steam logon',
+              10: 'Steam auth cancelled',
+              11: 'Steam auth already used',
+              12: 'Steam auth invalid',
+              13: 'Steam VAC ban state',
+              14: 'Steam logged in elsewhere',
+              15: 'Steam VAC check timed out',
+              16: 'Steam dropped',
+              17: 'Steam ownership',
+              18: 'Server info overflow',
+              19: 'Tick message overflow',
+              20: 'String table message overflow',
+              21: 'Delta entity message overflow',
+              22: 'Temp entity message overflow',
+              23: 'Sounds message overflow',
+              24: 'Snapshot overflow',
+              25: 'Snapshot error',
+              26: 'Reliable overflow',
+              27: 'Bad delta tick',
+              28: 'No more splits',
+              29: 'Timed out',
+              30: 'Disconnected',
+              31: 'Leaving split',
+              32: 'Different class tables',
+              33: 'Bad relay password',
+              34: 'Bad spectator password',
+              35: 'HLTV restricted',
+              36: 'No spectators',
+              37: 'HLTV unavailable',
+              38: 'HLTV stop',
+              39: 'Kicked',
+              40: 'Ban added',
+              41: 'Kick ban added',
+              42: 'HLTV direct',
+              43: 'Pure server client extra',
+              44: 'Pure server mismatch',
+              45: 'User command',
+              46: 'Rejected by game',
+              47: 'Message parse error',
+              48: 'Invalid message error',
+              49: 'Bad server password',
+              50: 'Direct connect reservation',
+              51: 'Connection failure',
+              52: 'No peer group handlers',
+              53: 'Reconnection',
+              54: 'Loop shutdown',
+              55: 'Loop deactivate',
+              56: 'Host endgame',
+              57: 'Loop level load activate',
+              58: 'Create server failed',
+              59: 'Shutting down game',
+              60: 'Request hoststate idle',
+              61: 'Request hoststate HLTV relay',
+              62: 'Client consistency fail',
+              63: 'Client unable to CRC map',
+              64: 'Client no map',
+              65: 'Client different map',
+              66: 'Server requires Steam',
+              67: 'Steam deny misc',
+              68: 'Steam deny bad anti-cheat',
+              69: 'Server shutdown',
+              71: 'Replay incompatible',
+              72: 'Connect request timed out',
+              73: 'Server incompatible',
+              74: 'Local problem many relays',
+              75: 'Local problem hosted server primary relay',
+              76: 'Local problem network config',
+              77: 'Local problem other',
+              79: 'Remote timeout',
+              80: 'Remote timeout connecting',
+              81: 'Remote other',
+              82: 'Remote bad crypt',
+              83: 'Remote cert not trusted',
+              84: 'Unusual',
+              85: 'Internal error',
+              128: 'Reject bad challenge',
+              129: 'Reject no lobby',
+              130: 'Reject background map',
+              131: 'Reject single player',
+              132: 'Reject hidden game',
+              133: 'Reject LAN restrict',
+              134: 'Reject bad password',
+              135: 'Reject server full',
+              136: 'Reject invalid reservation',
+              137: 'Reject failed channel',
+              138: 'Reject connect from lobby',
+              139: 'Reject reserved for lobby',
+              140: 'Reject invalid key length',
+              141: 'Reject old protocol',
+              142: 'Reject new protocol',
+              143: 'Reject invalid connection',
+              144: 'Reject invalid cert length',
+              145: 'Reject invalid Steam cert length',
+              146: 'Reject Steam',
+              147: 'Reject server auth disabled',
+              148: 'Reject server CD key auth invalid',
+              149: 'Reject banned',
+              150: 'Kicked team killing',
+              151: 'Kicked TK start',
+              152: 'Kicked untrusted account',
+              153: 'Kicked convicted account',
+              154: 'Kicked competitive cooldown',
+              155: 'Kicked team hurting',
+              156: 'Kicked hostage killing',
+              157: 'Kicked voted off',
+              158: 'Kicked idle',
+              159: 'Kicked suicide',
+              160: 'Kicked no Steam login',
+              161: 'Kicked no Steam ticket',
+              162: 'Kicked input automation',
+              163: 'Kicked VACNet abnormal behavior',
+              164: 'Kicked insecure client'
+            };
+            
+            return reasonCodeMap[code] || `Disconnect code ${code}`;
+          };
+          
+          const normalizedReason = getDisconnectReason(reason);
+          
+          const key = `${playerInfo.playerId}-${eventTick}`;
+          eventBasedDisconnects.set(key, {
+            playerId: playerInfo.playerId,
+            playerName: playerInfo.playerName,
+            team: playerInfo.team,
+            disconnectTick: eventTick!,
+            disconnectTime: disconnectTime,
+            disconnectRound: disconnectRound?.number || 0,
+            reason: normalizedReason
+          });
+        }
+      }
+    }
+  }
+  
+  // Process connect events to mark reconnects
+  if (demoFile.connectEvents && demoFile.connectEvents.length > 0) {
+    for (const event of demoFile.connectEvents) {
+      let userId: number | undefined;
+      let playerName: string | undefined;
+      let eventTick: number | undefined;
+      
+      if (event instanceof Map) {
+        userId = event.get('userid') || event.get('user_id') || event.get('player_id') || event.get('playerid');
+        playerName = event.get('player_name') || event.get('name') || event.get('playerName');
+        eventTick = event.get('tick') || event.get('tick_num') || event.get('t');
+      } else {
+        userId = event.userid || event.user_id || event.player_id || event.playerid;
+        playerName = event.player_name || event.name || event.playerName;
+        eventTick = event.tick || event.tick_num || event.t;
+      }
+      
+      if (eventTick) {
+        // Find player info by SteamID (falls back to userid, then name)
+        const playerInfo = resolveEventPlayerInfo(event, userId, playerName);
+        
+        if (playerInfo) {
+          // Find the most recent disconnect for this player that hasn't been reconnected
+          let matchingDisconnect: DisconnectReconnect | undefined;
+          let latestDisconnectTick = 0;
+          
+          for (const [key, dc] of eventBasedDisconnects.entries()) {
+            if (dc.playerId === playerInfo.playerId && 
+                !dc.reconnectTick && 
+                dc.disconnectTick < eventTick! &&
+                dc.disconnectTick > latestDisconnectTick) {
+              matchingDisconnect = dc;
+              latestDisconnectTick = dc.disconnectTick;
+            }
+          }
+          
+          if (matchingDisconnect) {
+            const reconnectRound = demoFile.rounds.find(
+              r => r.startTick && eventTick! >= r.startTick && (!r.endTick || eventTick! <= r.endTick)
+            );
+            
+            const reconnectTime = eventTick! / tickRate;
+            const duration = reconnectTime - matchingDisconnect.disconnectTime;
+            
+            matchingDisconnect.reconnectTick = eventTick!;
+            matchingDisconnect.reconnectTime = reconnectTime;
+            matchingDisconnect.reconnectRound = reconnectRound?.number;
+            matchingDisconnect.duration = duration;
+          }
+        }
+      }
+    }
+  }
+  
+  // Add event-based disconnects to the results
+  for (const dc of eventBasedDisconnects.values()) {
+    disconnects.push(dc);
+  }
+  
+  // Track which players already have event-based disconnects (to avoid duplicates)
+  const playersWithEventDisconnects = new Set<number>();
+  for (const dc of eventBasedDisconnects.values()) {
+    playersWithEventDisconnects.add(dc.playerId);
+  }
+  
+  // Track player presence across frames (for frame-based detection fallback)
+  // Map: playerId -> { lastSeenTick, lastSeenTime, playerName, team, isDisconnected, disconnectTick?, disconnectTime?, wasAliveAtDisconnect? }
+  const playerState = new Map<number, {
+    lastSeenTick: number;
+    lastSeenTime: number;
+    playerName: string;
+    team: Team;
+    isDisconnected: boolean;
+    disconnectTick?: number;
+    disconnectTime?: number;
+    wasAliveAtDisconnect?: boolean; // True if player was alive when they disconnected
+  }>();
+  
+  // Track when each player died in each round: Map<roundNumber, Set<playerId>>
+  const playerDeathsByRound = new Map<number, Set<number>>();
+  
+  // Minimum time gap to consider it a disconnect (2 seconds)
+  // This prevents false positives from brief frame gaps
+  const DISCONNECT_THRESHOLD_SECONDS = 2;
+  const DISCONNECT_THRESHOLD_TICKS = Math.ceil(DISCONNECT_THRESHOLD_SECONDS * tickRate);
+  
+  // Process all frames chronologically
+  for (const frame of demoFile.frames) {
+    const currentPlayerIds = new Set<number>();
+    
+    // Find which round this frame belongs to
+    const currentRound = demoFile.rounds.find(
+      r => r.startTick && frame.tick >= r.startTick && (!r.endTick || frame.tick <= r.endTick)
+    );
+    
+    // Collect all players present in this frame
+    for (const player of frame.players) {
+      if (player.team === Team.SPECTATOR) continue;
+      
+      currentPlayerIds.add(player.id);
+      
+      // Track player deaths by round
+      if (!player.isAlive && currentRound) {
+        if (!playerDeathsByRound.has(currentRound.number)) {
+          playerDeathsByRound.set(currentRound.number, new Set());
+        }
+        playerDeathsByRound.get(currentRound.number)!.add(player.id);
+      }
+      
+      const existingState = playerState.get(player.id);
+      
+      if (!existingState) {
+        // First time seeing this player - they just connected
+        playerState.set(player.id, {
+          lastSeenTick: frame.tick,
+          lastSeenTime: frame.time,
+          playerName: player.name,
+          team: player.team,
+          isDisconnected: false
+        });
+      } else {
+        // Player was seen before
+        if (existingState.isDisconnected) {
+          // Player was disconnected and now reappeared - this is a reconnect
+          const reconnectRound = demoFile.rounds.find(
+            r => r.startTick && frame.tick >= r.startTick && (!r.endTick || frame.tick <= r.endTick)
+          );
+          
+          const duration = existingState.disconnectTime 
+            ? frame.time - existingState.disconnectTime 
+            : undefined;
+          
+          // Find and update the disconnect entry
+          const disconnectEntry = disconnects.find(d => 
+            d.playerId === player.id && 
+            d.disconnectTick === existingState.disconnectTick &&
+            !d.reconnectTick
+          );
+          
+          if (disconnectEntry) {
+            disconnectEntry.reconnectTick = frame.tick;
+            disconnectEntry.reconnectTime = frame.time;
+            disconnectEntry.reconnectRound = reconnectRound?.number;
+            disconnectEntry.duration = duration;
+            
+            // Set flags
+            const diedInDisconnectRound = playerDeathsByRound.get(disconnectEntry.disconnectRound)?.has(player.id) ?? false;
+            disconnectEntry.diedBeforeDisconnect = diedInDisconnectRound;
+            
+            // Check if player reconnected before freeze time ended in the reconnect round
+            // Use the reconnectRound object we already found, not look it up again
+            let reconnectedBeforeFreezeEnd = false;
+            if (reconnectRound && reconnectRound.startTick) {
+              // Calculate time since round start
+              const timeSinceRoundStart = (frame.tick - reconnectRound.startTick) / demoFile.tickRate;
+              
+              // Freeze time is typically 20 seconds, but can vary
+              // Player reconnected before freeze end if they reconnect within 20 seconds of round start
+              // We use time-based check for more accuracy
+              const FREEZE_TIME_SECONDS = 20;
+              reconnectedBeforeFreezeEnd = timeSinceRoundStart < FREEZE_TIME_SECONDS;
+              
+              // Also verify with freezeEndTick if available (for double-check)
+              if (reconnectRound.freezeEndTick) {
+                const tickBasedCheck = frame.tick < reconnectRound.freezeEndTick;
+                // Use the more lenient check (if either says before freeze end, it's true)
+                // This handles cases where freezeEndTick might be slightly off
+                reconnectedBeforeFreezeEnd = reconnectedBeforeFreezeEnd || tickBasedCheck;
+              }
+            }
+            disconnectEntry.reconnectedBeforeFreezeEnd = reconnectedBeforeFreezeEnd;
+            
+            // Calculate rounds missed
+            // Don't count the disconnect round if the player died in that round
+            // Don't count the reconnect round if the player reconnected before freeze time ended
+            if (disconnectEntry.disconnectRound && disconnectEntry.reconnectRound) {
+              let roundsMissed = 0;
+              
+              if (diedInDisconnectRound) {
+                // Player died in disconnect round - don't count that round, start from next round
+                roundsMissed = disconnectEntry.reconnectRound - disconnectEntry.disconnectRound;
+              } else {
+                // Player was alive when they disconnected - count from disconnect round
+                roundsMissed = disconnectEntry.reconnectRound - disconnectEntry.disconnectRound + 1;
+              }
+              
+              // If player reconnected before freeze end, they're playing the reconnect round - don't count it
+              if (reconnectedBeforeFreezeEnd && roundsMissed > 0) {
+                roundsMissed -= 1;
+              }
+              
+              disconnectEntry.roundsMissed = roundsMissed;
+            }
+          } else {
+            // Create new entry if not found
+            const disconnectRound = demoFile.rounds.find(
+              r => r.startTick && existingState.disconnectTick! >= r.startTick && (!r.endTick || existingState.disconnectTick! <= r.endTick)
+            );
+            
+            let roundsMissed = 0;
+            const diedInDisconnectRound = disconnectRound ? playerDeathsByRound.get(disconnectRound.number)?.has(player.id) ?? false : false;
+            
+            // Check if player reconnected before freeze time ended in the reconnect round
+            let reconnectedBeforeFreezeEnd = false;
+            if (reconnectRound && reconnectRound.startTick) {
+              // Calculate time since round start
+              const timeSinceRoundStart = (frame.tick - reconnectRound.startTick) / demoFile.tickRate;
+              
+              // Freeze time is typically 20 seconds, but can vary
+              // Player reconnected before freeze end if they reconnect within 20 seconds of round start
+              // We use time-based check for more accuracy
+              const FREEZE_TIME_SECONDS = 20;
+              reconnectedBeforeFreezeEnd = timeSinceRoundStart < FREEZE_TIME_SECONDS;
+              
+              // Also verify with freezeEndTick if available (for double-check)
+              if (reconnectRound.freezeEndTick) {
+                const tickBasedCheck = frame.tick < reconnectRound.freezeEndTick;
+                // Use the more lenient check (if either says before freeze end, it's true)
+                // This handles cases where freezeEndTick might be slightly off
+                reconnectedBeforeFreezeEnd = reconnectedBeforeFreezeEnd || tickBasedCheck;
+              }
+            }
+            
+            if (disconnectRound && reconnectRound) {
+              if (diedInDisconnectRound) {
+                // Player died in disconnect round - don't count that round
+                roundsMissed = reconnectRound.number - disconnectRound.number;
+              } else {
+                // Player was alive when they disconnected - count from disconnect round
+                roundsMissed = reconnectRound.number - disconnectRound.number + 1;
+              }
+              
+              // If player reconnected before freeze end, they're playing the reconnect round - don't count it
+              if (reconnectedBeforeFreezeEnd && roundsMissed > 0) {
+                roundsMissed -= 1;
+              }
+            }
+            
+            disconnects.push({
+              playerId: player.id,
+              playerName: existingState.playerName,
+              team: existingState.team,
+              disconnectTick: existingState.disconnectTick!,
+              disconnectTime: existingState.disconnectTime!,
+              disconnectRound: disconnectRound?.number || 0,
+              reconnectTick: frame.tick,
+              reconnectTime: frame.time,
+              reconnectRound: reconnectRound?.number,
+              duration,
+              roundsMissed,
+              diedBeforeDisconnect: diedInDisconnectRound,
+              reconnectedBeforeFreezeEnd: reconnectedBeforeFreezeEnd
+            });
+          }
+          
+          // Update state - player is now connected again
+          existingState.isDisconnected = false;
+          existingState.lastSeenTick = frame.tick;
+          existingState.lastSeenTime = frame.time;
+          existingState.disconnectTick = undefined;
+          existingState.disconnectTime = undefined;
+        } else {
+          // Player is still connected - just update last seen
+          existingState.lastSeenTick = frame.tick;
+          existingState.lastSeenTime = frame.time;
+        }
+      }
+    }
+    
+    // Check for players who were seen before but are not in this frame
+    // Skip players that already have event-based disconnects
+    for (const [playerId, state] of playerState.entries()) {
+      if (!currentPlayerIds.has(playerId) && !state.isDisconnected && !playersWithEventDisconnects.has(playerId)) {
+        // Player was here before but not now - check if it's been long enough to be a disconnect
+        const ticksSinceLastSeen = frame.tick - state.lastSeenTick;
+        
+        if (ticksSinceLastSeen >= DISCONNECT_THRESHOLD_TICKS) {
+          // This is a disconnect (frame-based fallback)
+          const disconnectRound = demoFile.rounds.find(
+            r => r.startTick && state.lastSeenTick >= r.startTick && (!r.endTick || state.lastSeenTick <= r.endTick)
+          );
+          
+          // Check if player was alive when they disconnected
+          // Look at the last frame where we saw them
+          const lastSeenFrame = demoFile.frames.find(f => f.tick === state.lastSeenTick);
+          const wasAlive = lastSeenFrame?.players.find(p => p.id === playerId)?.isAlive ?? true;
+          
+          state.isDisconnected = true;
+          state.disconnectTick = state.lastSeenTick;
+          state.disconnectTime = state.lastSeenTime;
+          state.wasAliveAtDisconnect = wasAlive;
+          
+          // Create a disconnect entry (will be updated if they reconnect)
+          disconnects.push({
+            playerId,
+            playerName: state.playerName,
+            team: state.team,
+            disconnectTick: state.disconnectTick,
+            disconnectTime: state.disconnectTime,
+            disconnectRound: disconnectRound?.number || 0
+          });
+        }
+      }
+    }
+  }
+  
+  // Final pass: mark any remaining disconnects that never reconnected
+  // (players who disconnected and never came back)
+  // Process both frame-based and event-based disconnects
+  for (const [playerId, state] of playerState.entries()) {
+    if (state.isDisconnected) {
+      // Find the disconnect entry and mark it as permanent
+      const disconnectEntry = disconnects.find(d => 
+        d.playerId === playerId && 
+        d.disconnectTick === state.disconnectTick &&
+        !d.reconnectTick
+      );
+      
+      if (disconnectEntry) {
+        // Calculate duration from disconnect to end of demo
+        disconnectEntry.duration = demoFile.duration - state.disconnectTime!;
+        
+        // Set flag for died before disconnect
+        const diedInDisconnectRound = playerDeathsByRound.get(disconnectEntry.disconnectRound)?.has(playerId) ?? false;
+        disconnectEntry.diedBeforeDisconnect = diedInDisconnectRound;
+        
+        // Calculate rounds missed (from disconnect round to end of demo)
+        if (disconnectEntry.disconnectRound) {
+          const lastRound = demoFile.rounds[demoFile.rounds.length - 1];
+          if (lastRound && lastRound.number > disconnectEntry.disconnectRound) {
+            if (diedInDisconnectRound) {
+              // Player died in disconnect round - don't count that round
+              // If they disconnect in round 5 (after death) and last round is 10, they missed rounds 6-10 = 5 rounds
+              disconnectEntry.roundsMissed = lastRound.number - disconnectEntry.disconnectRound;
+            } else {
+              // Player was alive when they disconnected - count from disconnect round
+              // If they disconnect in round 5 and last round is 10, they missed rounds 5-10 = 6 rounds
+              disconnectEntry.roundsMissed = lastRound.number - disconnectEntry.disconnectRound + 1;
+            }
+          } else {
+            disconnectEntry.roundsMissed = 0;
+          }
+        }
+      }
+    }
+  }
+  
+  // Also process event-based disconnects that don't have all metadata filled in
+  for (const disconnectEntry of disconnects) {
+    if (!disconnectEntry.reconnectTick && (disconnectEntry.diedBeforeDisconnect === undefined || disconnectEntry.roundsMissed === undefined)) {
+      // Fill in missing metadata for event-based disconnects
+      const diedInDisconnectRound = playerDeathsByRound.get(disconnectEntry.disconnectRound)?.has(disconnectEntry.playerId) ?? false;
+      if (disconnectEntry.diedBeforeDisconnect === undefined) {
+        disconnectEntry.diedBeforeDisconnect = diedInDisconnectRound;
+      }
+      
+      if (!disconnectEntry.roundsMissed && disconnectEntry.disconnectRound) {
+        const lastRound = demoFile.rounds[demoFile.rounds.length - 1];
+        if (lastRound && lastRound.number > disconnectEntry.disconnectRound) {
+          if (diedInDisconnectRound) {
+            disconnectEntry.roundsMissed = lastRound.number - disconnectEntry.disconnectRound;
+          } else {
+            disconnectEntry.roundsMissed = lastRound.number - disconnectEntry.disconnectRound + 1;
+          }
+        } else {
+          disconnectEntry.roundsMissed = 0;
+        }
+      }
+      
+      // Fill in duration if missing
+      if (!disconnectEntry.duration) {
+        const disconnectTime = disconnectEntry.disconnectTick / tickRate;
+        disconnectEntry.duration = demoFile.duration - disconnectTime;
+      }
+    }
+  }
+  
+  // Filter out disconnects in the last round where the player was offline for less than 10 seconds
+  // These are likely brief network hiccups at the end of the match, not meaningful disconnects
+  const lastRound = demoFile.rounds.length > 0 ? demoFile.rounds[demoFile.rounds.length - 1] : null;
+  const MIN_DISCONNECT_DURATION_SECONDS = 10;
+  
+  const filteredDisconnects = disconnects.filter(dc => {
+    // Only apply the 10-second filter to disconnects in the last round
+    if (lastRound && dc.disconnectRound === lastRound.number) {
+      // If player reconnected, use the duration field
+      // If they never reconnected, duration should already be calculated (time from disconnect to end of demo)
+      if (dc.duration !== undefined && dc.duration < MIN_DISCONNECT_DURATION_SECONDS) {
+        return false; // Filter out - too brief to be meaningful (only for last round)
+      }
+    }
+    // Keep all disconnects from other rounds regardless of duration
+    // Keep disconnects in last round that lasted 10+ seconds
+    return true;
+  });
+  
+  // Sort by disconnect time
+  filteredDisconnects.sort((a, b) => a.disconnectTime - b.disconnectTime);
+  
+  return filteredDisconnects;
+}
@@ -13,6 +13,7 @@
  */
 
 import { MatchFrame, Round, Team, GameEvent, DemoFile } from '../types';
+import { PlayerRegistry } from './playerIdentity';
 
 /**
  * Weapon price table (CS2 approximate prices)
@@ -379,7 +380,7 @@ function getItem(event: RawEvent): string {
 function trackPlayerInventories(
   rounds: Round[],
   rawEvents: RawEvent[],
-  playerNames: Map<number, string>,
+  players: PlayerRegistry,
   tickRate: number
 ): Map<number, Map<number, { preBuy: PlayerInventory; postBuy: PlayerInventory; acquired: string[]; dropped: number[] }>> {
   const inventories = new Map<number, Map<number, { preBuy: PlayerInventory; postBuy: PlayerInventory; acquired: string[]; dropped: number[] }>>();
@@ -440,8 +441,7 @@ function trackPlayerInventories(
     
     // Handle player_spawn - reset inventory
     if (eventName === 'player_spawn') {
-      const playerName = getPlayerName(event);
-      const playerId = Array.from(playerNames.entries()).find(([_, name]) => name === playerName)?.[0];
+      const playerId = players.resolveEventPlayer(event, 'user')?.id;
       if (playerId) {
         roundInv.set(playerId, createEmptyInventory());
       }
@@ -451,7 +451,7 @@ function trackPlayerInventories(
     if (eventName === 'item_pickup' || eventName === 'item_equip') {
       processedItemEvents++;
       const playerName = getPlayerName(event);
-      const playerId = Array.from(playerNames.entries()).find(([_, name]) => name === playerName)?.[0];
+      const playerId = players.resolveEventPlayer(event, 'user')?.id;
       const item = getItem(event);
       
       if (!playerId) {
@@ -550,8 +550,7 @@ function trackPlayerInventories(
         const eventName = getEventName(event);
         const eventTick = getEventTick(event);
         if (eventTick >= buyWindow.start && eventTick <= buyWindow.end) {
-          const playerName = getPlayerName(event);
-          const foundPlayerId = Array.from(playerNames.entries()).find(([_, name]) => name === playerName)?.[0];
+          const foundPlayerId = players.resolveEventPlayer(event, 'user')?.id;
           if (foundPlayerId === playerId && (eventName === 'item_pickup' || eventName === 'item_equip')) {
             const item = getItem(event);
             if (item !== 'unknown' && !acquired.includes(item)) {
@@ -786,7 +785,9 @@ export function analyzeEconomyGriefingEventsOnly(
   })));
   
   // Track inventories
-  const inventories = trackPlayerInventories(rounds, rawEvents, playerNames, tickRate);
+  // Raw events are resolved to players by SteamID, not by name
+  const players = PlayerRegistry.fromDemoFile(demoFile);
+  const inventories = trackPlayerInventories(rounds, rawEvents, players, tickRate);
   
   console.log('[Economy Events Only] Inventories tracked:', {
     playerCount: inventories.size,
@@ -807,9 +808,8 @@ export function analyzeEconomyGriefingEventsOnly(
     
     // Track damage
     if (eventName === 'player_hurt' || eventName === 'damage') {
-      const attackerName = getEventValue(event, 'attacker_name') || getEventValue(event, 'attacker');
       const damage = getEventValue(event, 'dmg_health') || getEventValue(event, 'damage') || 0;
-      const attackerId = Array.from(playerNames.entries()).find(([_, name]) => name === attackerName)?.[0];
+      const attackerId = players.resolveEventPlayer(event, 'attacker')?.id;
       
       if (attackerId && damage > 0) {
         if (!damageByPlayerByRound.has(attackerId)) {
@@ -822,28 +822,22 @@ export function analyzeEconomyGriefingEventsOnly(
     
     // Track kills and deaths
     if (eventName === 'player_death' || eventName === 'other_death') {
-      const attackerName = getEventValue(event, 'attacker_name') || getEventValue(event, 'attacker');
-      const victimName = getEventValue(event, 'user_name') || getEventValue(event, 'victim_name') || getEventValue(event, 'victim');
+      const attackerId = players.resolveEventPlayer(event, 'attacker')?.id;
+      const victimId = players.resolveEventPlayer(event, 'user')?.id;
       
-      if (attackerName && attackerName !== victimName) {
-        const attackerId = Array.from(playerNames.entries()).find(([_, name]) => name === attackerName)?.[0];
-        if (attackerId) {
-          if (!killsByPlayerByRound.has(attackerId)) {
-            killsByPlayerByRound.set(attackerId, new Map());
-          }
-          const roundKills = killsByPlayerByRound.get(attackerId)!.get(round.number) || 0;
-          killsByPlayerByRound.get(attackerId)!.set(round.number, roundKills + 1);
+      if (attackerId && attackerId !== victimId) {
+        if (!killsByPlayerByRound.has(attackerId)) {
+          killsByPlayerByRound.set(attackerId, new Map());
         }
+        const roundKills = killsByPlayerByRound.get(attackerId)!.get(round.number) || 0;
+        killsByPlayerByRound.get(attackerId)!.set(round.number, roundKills + 1);
       }
       
-      if (victimName) {
-        const victimId = Array.from(playerNames.entries()).find(([_, name]) => name === victimName)?.[0];
-        if (victimId) {
-          if (!deathTicksByPlayerByRound.has(victimId)) {
-            deathTicksByPlayerByRound.set(victimId, new Map());
-          }
-          deathTicksByPlayerByRound.get(victimId)!.set(round.number, eventTick);
+      if (victimId) {
+        if (!deathTicksByPlayerByRound.has(victimId)) {
+          deathTicksByPlayerByRound.set(victimId, new Map());
         }
+        deathTicksByPlayerByRound.get(victimId)!.set(round.number, eventTick);
       }
     }
   }
@@ -0,0 +1,473 @@
+/**
+ * Frame Store
+ *
+ * Columnar, typed-array-backed copy of the player states in DemoFile.frames.
+ * Every (tick, player) pair is one row; rows are stored in tick order, so lookups
+ * are binary searches instead of frames.find() / players.find() scans.
+ *
+ * Layout:
+ * - frameTicks/frameTimes/frameStart: one entry per frame, frameStart[i]..frameStart[i + 1] are its rows
+ * - row* columns: one entry per row (position, hp, team, flags, ...)
+ * - playerRows: per player, the indices of their rows (already sorted by tick)
+ *
+ * - frameEvents: per frame, the frame's own events array (shared, not copied)
+ *
+ * The store is built once per DemoFile and cached, so detectors can share it.
+ * It is an index next to DemoFile.frames, not a replacement: the frames stay the source
+ * for the views and the demo cache, so the store costs memory on top of them
+ * (about 50 bytes per row). What it buys is lookup speed - detectors read players and
+ * events only through the store and never scan DemoFile.frames themselves.
+ */
+
+import { DemoFile, GameEvent, MatchFrame, PlayerState, Round, Team } from '../types';
+
+// Team <-> column code
+const TEAM_CODES: Team[] = [Team.SPECTATOR, Team.T, Team.CT];
+
+// Bits in rowFlags
+const FLAG_ALIVE = 1;
+const FLAG_HAS_BOMB = 2;
+const FLAG_HAS_DEFUSER = 4;
+const FLAG_HAS_HELMET = 8;
+const FLAG_HAS_Z = 16;
+const FLAG_HAS_MONEY = 32;
+const FLAG_IS_TALKING = 64;
+
+/**
+ * Index of the last frame with tick <= the given game tick (frames are sparse and sorted by tick)
+ */
+export function findFrameIndexAtTick(frames: MatchFrame[], tick: number): number {
+  let left = 0;
+  let right = frames.length - 1;
+  let frameIndex = 0;
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2);
+    if (frames[mid].tick <= tick) {
+      frameIndex = mid;
+      left = mid + 1;
+    } else {
+      right = mid - 1;
+    }
+  }
+  return frameIndex;
+}
+
+// Frame position without its players
+export interface FrameRef {
+  index: number; // Index into the store (same order as DemoFile.frames)
+  tick: number;
+  time: number; // seconds
+}
+
+// Frame with its players materialized as PlayerState objects
+export interface RoundFrame extends FrameRef {
+  players: PlayerState[];
+}
+
+// Positions/health of one player over a tick range, as parallel arrays
+export interface PlayerTrack {
+  playerId: number;
+  ticks: Int32Array;
+  x: Float32Array;
+  y: Float32Array;
+  z: Float32Array;
+  hp: Int16Array;
+  alive: Uint8Array; // 1 = alive
+  team: Team[];
+}
+
+export interface IterateOptions {
+  step?: number; // Yield every Nth frame (default: 1). The last frame in range is always included.
+}
+
+// One store per parsed demo (DemoFile objects arrive fresh from the worker, so a WeakMap is enough)
+const storeCache = new WeakMap<DemoFile, FrameStore>();
+
+export class FrameStore {
+  readonly frameCount: number;
+  readonly rowCount: number;
+
+  private frameTicks: Int32Array;
+  private frameTimes: Float64Array;
+  private frameStart: Uint32Array; // frameCount + 1 entries
+  private frameEvents: GameEvent[][];
+
+  private rowTick: Int32Array;
+  private rowPlayer: Uint16Array; // Index into playerIds
+  private rowName: Uint16Array; // Index into strings
+  private rowTeam: Uint8Array;
+  private rowHp: Int16Array;
+  private rowFlags: Uint8Array;
+  private rowX: Float32Array;
+  private rowY: Float32Array;
+  private rowZ: Float32Array;
+  private rowViewAngle: Float32Array;
+  private rowFlash: Float32Array;
+  private rowShots: Int32Array;
+  private rowMoney: Int32Array;
+  private rowPrimary: Uint16Array; // Index into strings, 0 = none
+  private rowGrenades: Uint16Array; // Index into strings (comma separated), 0 = none
+
+  private strings: string[] = ['']; // Interned names/weapons, index 0 is "none"
+  private stringIndex = new Map<string, number>([['', 0]]);
+  private playerIds: number[] = [];
+  private playerIndex = new Map<number, number>(); // PlayerState.id -> index into playerIds
+  private playerSteamIds: (string | undefined)[] = [];
+  private playerRows: Int32Array[] = [];
+
+  /**
+   * Get the (cached) store for a demo
+   */
+  static fromDemoFile(demoFile: DemoFile): FrameStore {
+    let store = storeCache.get(demoFile);
+    if (!store) {
+      console.time('FrameStore build');
+      store = new FrameStore(demoFile.frames);
+      console.timeEnd('FrameStore build');
+      console.log(`[FrameStore] ${store.frameCount} frames, ${store.rowCount} player rows, ${store.playerIds.length} players`);
+      storeCache.set(demoFile, store);
+    }
+    return store;
+  }
+
+  constructor(frames: MatchFrame[]) {
+    // Frames from the parser are sorted already, but don't rely on it for binary search
+    let sorted = frames;
+    for (let i = 1; i < frames.length; i++) {
+      if (frames[i].tick < frames[i - 1].tick) {
+        sorted = [...frames].sort((a, b) => a.tick - b.tick);
+        break;
+      }
+    }
+
+    let rowCount = 0;
+    for (const frame of sorted) {
+      rowCount += frame.players.length;
+    }
+    this.frameCount = sorted.length;
+    this.rowCount = rowCount;
+
+    this.frameTicks = new Int32Array(sorted.length);
+    this.frameTimes = new Float64Array(sorted.length);
+    this.frameStart = new Uint32Array(sorted.length + 1);
+    this.frameEvents = new Array(sorted.length);
+
+    this.rowTick = new Int32Array(rowCount);
+    this.rowPlayer = new Uint16Array(rowCount);
+    this.rowName = new Uint16Array(rowCount);
+    this.rowTeam = new Uint8Array(rowCount);
+    this.rowHp = new Int16Array(rowCount);
+    this.rowFlags = new Uint8Array(rowCount);
+    this.rowX = new Float32Array(rowCount);
+    this.rowY = new Float32Array(rowCount);
+    this.rowZ = new Float32Array(rowCount);
+    this.rowViewAngle = new Float32Array(rowCount);
+    this.rowFlash = new Float32Array(rowCount);
+    this.rowShots = new Int32Array(rowCount);
+    this.rowMoney = new Int32Array(rowCount);
+    this.rowPrimary = new Uint16Array(rowCount);
+    this.rowGrenades = new Uint16Array(rowCount);
+
+    // Fill columns and count rows per player
+    const rowsPerPlayer: number[] = [];
+    let row = 0;
+    for (let f = 0; f < sorted.length; f++) {
+      const frame = sorted[f];
+      this.frameTicks[f] = frame.tick;
+      this.frameTimes[f] = frame.time;
+      this.frameStart[f] = row;
+      this.frameEvents[f] = frame.events || [];
+
+      for (const player of frame.players) {
+        let p = this.playerIndex.get(player.id);
+        if (p === undefined) {
+          p = this.playerIds.length;
+          this.playerIds.push(player.id);
+          this.playerSteamIds.push(player.steamId);
+          this.playerIndex.set(player.id, p);
+          rowsPerPlayer.push(0);
+        }
+        rowsPerPlayer[p]++;
+
+        let flags = 0;
+        if (player.isAlive) flags |= FLAG_ALIVE;
+        if (player.hasBomb) flags |= FLAG_HAS_BOMB;
+        if (player.hasDefuser) flags |= FLAG_HAS_DEFUSER;
+        if (player.hasHelmet) flags |= FLAG_HAS_HELMET;
+        if (player.position.z !== undefined) flags |= FLAG_HAS_Z;
+        if (player.money !== undefined) flags |= FLAG_HAS_MONEY;
+        if (player.isTalking) flags |= FLAG_IS_TALKING;
+
+        this.rowTick[row] = frame.tick;
+        this.rowPlayer[row] = p;
+        this.rowName[row] = this.intern(player.name);
+        this.rowTeam[row] = Math.max(0, TEAM_CODES.indexOf(player.team));
+        this.rowHp[row] = player.hp;
+        this.rowFlags[row] = flags;
+        this.rowX[row] = player.position.x;
+        this.rowY[row] = player.position.y;
+        this.rowZ[row] = player.position.z ?? 0;
+        this.rowViewAngle[row] = player.viewAngle;
+        this.rowFlash[row] = player.flashDuration || 0;
+        this.rowShots[row] = player.shotsFired || 0;
+        this.rowMoney[row] = player.money ?? 0;
+        this.rowPrimary[row] = this.intern(player.equipment?.primary || '');
+        this.rowGrenades[row] = this.intern(player.equipment?.grenades?.join(',') || '');
+        row++;
+      }
+    }
+    this.frameStart[sorted.length] = row;
+
+    // Per-player row index (rows are in tick order, so each list is sorted by tick)
+    this.playerRows = rowsPerPlayer.map(count => new Int32Array(count));
+    const fill = new Array<number>(rowsPerPlayer.length).fill(0);
+    for (let r = 0; r < rowCount; r++) {
+      const p = this.rowPlayer[r];
+      this.playerRows[p][fill[p]++] = r;
+    }
+  }
+
+  private intern(value: string): number {
+    let index = this.stringIndex.get(value);
+    if (index === undefined) {
+      index = this.strings.length;
+      this.strings.push(value);
+      this.stringIndex.set(value, index);
+    }
+    return index;
+  }
+
+  get firstTick(): number {
+    return this.frameCount > 0 ? this.frameTicks[0] : 0;
+  }
+
+  get lastTick(): number {
+    return this.frameCount > 0 ? this.frameTicks[this.frameCount - 1] : 0;
+  }
+
+  /**
+   * Ids of every player that appears in any frame
+   */
+  getPlayerIds(): number[] {
+    return [...this.playerIds];
+  }
+
+  /**
+   * Index of the first frame with tick >= the given tick (frameCount if none)
+   */
+  lowerBound(tick: number): number {
+    let lo = 0;
+    let hi = this.frameCount;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.frameTicks[mid] < tick) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  /**
+   * Whether any frame falls between the two ticks (inclusive)
+   */
+  hasFrames(fromTick: number, toTick: number): boolean {
+    return this.lowerBound(fromTick) < this.lowerBound(toTick + 1);
+  }
+
+  /**
+   * Frame at exactly this tick, or null
+   */
+  getFrame(tick: number): FrameRef | null {
+    const index = this.lowerBound(tick);
+    if (index >= this.frameCount || this.frameTicks[index] !== tick) return null;
+    return this.frameRef(index);
+  }
+
+  /**
+   * Frame closest to the given tick (ties go to the earlier frame), or null if the store is empty
+   */
+  getFrameNear(tick: number): FrameRef | null {
+    if (this.frameCount === 0) return null;
+    const index = this.lowerBound(tick);
+    if (index >= this.frameCount) return this.frameRef(this.frameCount - 1);
+    if (index === 0) return this.frameRef(0);
+    const before = this.frameTicks[index - 1];
+    const after = this.frameTicks[index];
+    return this.frameRef(tick - before <= after - tick ? index - 1 : index);
+  }
+
+  frameRef(index: number): FrameRef {
+    return { index, tick: this.frameTicks[index], time: this.frameTimes[index] };
+  }
+
+  /**
+   * Materialize all players of a frame
+   */
+  getPlayers(frameIndex: number): PlayerState[] {
+    const players: PlayerState[] = [];
+    for (let row = this.frameStart[frameIndex]; row < this.frameStart[frameIndex + 1]; row++) {
+      players.push(this.readRow(row));
+    }
+    return players;
+  }
+
+  /**
+   * State of a player at a tick.
+   * By default returns the latest state at or before the tick; pass exact=true to only accept that tick.
+   */
+  getPlayerAt(tick: number, playerId: number, exact: boolean = false): PlayerState | undefined {
+    const row = this.findPlayerRow(tick, playerId);
+    if (row < 0) return undefined;
+    if (exact && this.rowTick[row] !== tick) return undefined;
+    return this.readRow(row);
+  }
+
+  /**
+   * Positions/health of a player between two ticks (inclusive)
+   */
+  getPlayerTrack(playerId: number, fromTick: number, toTick: number): PlayerTrack {
+    const p = this.playerIndex.get(playerId);
+    const rows = p === undefined ? new Int32Array(0) : this.playerRows[p];
+
+    // First row with tick >= fromTick
+    let lo = 0;
+    let hi = rows.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.rowTick[rows[mid]] < fromTick) lo = mid + 1;
+      else hi = mid;
+    }
+    let end = lo;
+    while (end < rows.length && this.rowTick[rows[end]] <= toTick) end++;
+
+    const count = end - lo;
+    const track: PlayerTrack = {
+      playerId,
+      ticks: new Int32Array(count),
+      x: new Float32Array(count),
+      y: new Float32Array(count),
+      z: new Float32Array(count),
+      hp: new Int16Array(count),
+      alive: new Uint8Array(count),
+      team: new Array(count)
+    };
+    for (let i = 0; i < count; i++) {
+      const row = rows[lo + i];
+      track.ticks[i] = this.rowTick[row];
+      track.x[i] = this.rowX[row];
+      track.y[i] = this.rowY[row];
+      track.z[i] = this.rowZ[row];
+      track.hp[i] = this.rowHp[row];
+      track.alive[i] = this.rowFlags[row] & FLAG_ALIVE;
+      track.team[i] = TEAM_CODES[this.rowTeam[row]];
+    }
+    return track;
+  }
+
+  /**
+   * Events of all frames between two ticks (inclusive), in tick order
+   */
+  getEvents(fromTick: number, toTick: number): GameEvent[] {
+    const events: GameEvent[] = [];
+    const end = this.lowerBound(toTick + 1);
+    for (let index = this.lowerBound(fromTick); index < end; index++) {
+      for (const event of this.frameEvents[index]) {
+        events.push(event);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Iterate frames between two ticks (inclusive), materializing each frame's players on demand
+   */
+  *iterateRange(fromTick: number, toTick: number, options: IterateOptions = {}): Generator<RoundFrame> {
+    const step = Math.max(1, Math.floor(options.step || 1));
+    const start = this.lowerBound(fromTick);
+    const end = this.lowerBound(toTick + 1); // Exclusive
+    if (start >= end) return;
+
+    let last = -1;
+    for (let index = start; index < end; index += step) {
+      last = index;
+      yield { ...this.frameRef(index), players: this.getPlayers(index) };
+    }
+    // Always include the last frame so round-end state isn't skipped by sampling
+    if (last !== end - 1) {
+      yield { ...this.frameRef(end - 1), players: this.getPlayers(end - 1) };
+    }
+  }
+
+  /**
+   * Iterate the live part of a round: freeze end (or start) to round end (or the last frame)
+   */
+  iterateRound(round: Round, options: IterateOptions = {}): Generator<RoundFrame> {
+    const fromTick = round.freezeEndTick || round.startTick;
+    const toTick = round.endTick || this.lastTick;
+    return this.iterateRange(fromTick, toTick, options);
+  }
+
+  /**
+   * First and last frame of a round (null if the round has no frames)
+   */
+  getRoundBounds(round: Round): { first: FrameRef; last: FrameRef } | null {
+    const fromTick = round.freezeEndTick || round.startTick;
+    const toTick = round.endTick || this.lastTick;
+    const start = this.lowerBound(fromTick);
+    const end = this.lowerBound(toTick + 1);
+    if (start >= end) return null;
+    return { first: this.frameRef(start), last: this.frameRef(end - 1) };
+  }
+
+  /**
+   * Latest row for a player at or before the tick, -1 if none
+   */
+  private findPlayerRow(tick: number, playerId: number): number {
+    const p = this.playerIndex.get(playerId);
+    if (p === undefined) return -1;
+    const rows = this.playerRows[p];
+
+    // Last row with tick <= requested tick
+    let lo = 0;
+    let hi = rows.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.rowTick[rows[mid]] <= tick) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo > 0 ? rows[lo - 1] : -1;
+  }
+
+  private readRow(row: number): PlayerState {
+    const flags = this.rowFlags[row];
+    const p = this.rowPlayer[row];
+    const grenades = this.strings[this.rowGrenades[row]];
+    const player: PlayerState = {
+      id: this.playerIds[p],
+      steamId: this.playerSteamIds[p],
+      name: this.strings[this.rowName[row]],
+      team: TEAM_CODES[this.rowTeam[row]],
+      hp: this.rowHp[row],
+      isAlive: (flags & FLAG_ALIVE) !== 0,
+      position: {
+        x: this.rowX[row],
+        y: this.rowY[row],
+        z: (flags & FLAG_HAS_Z) !== 0 ? this.rowZ[row] : undefined
+      },
+      viewAngle: this.rowViewAngle[row],
+      hasBomb: (flags & FLAG_HAS_BOMB) !== 0,
+      isTalking: (flags & FLAG_IS_TALKING) !== 0,
+      flashDuration: this.rowFlash[row],
+      shotsFired: this.rowShots[row],
+      hasDefuser: (flags & FLAG_HAS_DEFUSER) !== 0,
+      hasHelmet: (flags & FLAG_HAS_HELMET) !== 0,
+      equipment: {
+        primary: this.strings[this.rowPrimary[row]] || undefined,
+        grenades: grenades ? grenades.split(',') : []
+      }
+    };
+    if ((flags & FLAG_HAS_MONEY) !== 0) {
+      player.money = this.rowMoney[row];
+    }
+    return player;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * GIF Encoder
+ *
+ * Minimal animated GIF89a writer for clip export (see clipRenderer.ts): a fixed 6x7x6
+ * RGB cube palette (no per-frame quantization or dithering, radar colors survive it well
+ * enough), LZW-compressed frames and a NETSCAPE2.0 block so the clip loops.
+ */
+
+const PALETTE_SIZE = 256; // 252 cube colors, padded with black
+const R_LEVELS = 6;
+const G_LEVELS = 7;
+const B_LEVELS = 6;
+const MAX_CODE = 4095; // GIF codes are at most 12 bits
+
+// Palette index of a color in the fixed cube
+const paletteIndex = (r: number, g: number, b: number) =>
+  Math.round((r * (R_LEVELS - 1)) / 255) * G_LEVELS * B_LEVELS +
+  Math.round((g * (G_LEVELS - 1)) / 255) * B_LEVELS +
+  Math.round((b * (B_LEVELS - 1)) / 255);
+
+function buildPalette(): Uint8Array {
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  let i = 0;
+  for (let r = 0; r < R_LEVELS; r++) {
+    for (let g = 0; g < G_LEVELS; g++) {
+      for (let b = 0; b < B_LEVELS; b++) {
+        palette[i++] = Math.round((r * 255) / (R_LEVELS - 1));
+        palette[i++] = Math.round((g * 255) / (G_LEVELS - 1));
+        palette[i++] = Math.round((b * 255) / (B_LEVELS - 1));
+      }
+    }
+  }
+  return palette; // Remaining entries stay black
+}
+
+// Growable byte buffer
+class ByteWriter {
+  private bytes = new Uint8Array(4096);
+  length = 0;
+
+  byte(value: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value & 0xff;
+  }
+
+  short(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  array(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * LZW-compress palette indices into GIF image data sub-blocks (min code size 8)
+ */
+function writeLzw(out: ByteWriter, indices: Uint8Array) {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  out.byte(minCodeSize);
+
+  // Bit packing into 255-byte sub-blocks
+  let block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    out.byte(block.length);
+    out.array(block);
+    block = [];
+  };
+  const writeCode = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) flushBlock();
+    }
+  };
+
+  let dictionary = new Map<number, number>(); // (prefix code << 8 | next index) -> code
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+
+  writeCode(clearCode, codeSize);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    writeCode(prefix, codeSize);
+    if (nextCode <= MAX_CODE) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      // Dictionary full: start over
+      writeCode(clearCode, codeSize);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = index;
+  }
+  writeCode(prefix, codeSize);
+  writeCode(endCode, codeSize);
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  flushBlock();
+  out.byte(0); // Block terminator
+}
+
+/**
+ * Animated GIF built frame by frame: addFrame() per canvas frame, then finish()
+ */
+export class GifEncoder {
+  private out = new ByteWriter();
+  private indices: Uint8Array;
+
+  constructor(private width: number, private height: number) {
+    this.indices = new Uint8Array(width * height);
+    const out = this.out;
+    out.string('GIF89a');
+    out.short(width);
+    out.short(height);
+    out.byte(0xf7); // Global color table, 8 bits per channel, 256 entries
+    out.byte(0); // Background color index
+    out.byte(0); // Pixel aspect ratio
+    out.array(buildPalette());
+
+    // Loop forever
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.string('NETSCAPE2.0');
+    out.byte(3);
+    out.byte(1);
+    out.short(0);
+    out.byte(0);
+  }
+
+  /**
+   * Add an RGBA frame (e.g. from getImageData) shown for delayMs
+   */
+  addFrame(rgba: Uint8ClampedArray, delayMs: number) {
+    if (rgba.length !== this.width * this.height * 4) {
+      throw new Error(`GIF frame must be ${this.width}x${this.height}`);
+    }
+    for (let i = 0, p = 0; i < this.indices.length; i++, p += 4) {
+      this.indices[i] = paletteIndex(rgba[p], rgba[p + 1], rgba[p + 2]);
+    }
+
+    const out = this.out;
+    // Graphics control extension: frame delay in 1/100 s
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte(0);
+    out.short(Math.max(2, Math.round(delayMs / 10)));
+    out.byte(0);
+    out.byte(0);
+
+    // Image descriptor (full frame, global palette)
+    out.byte(0x2c);
+    out.short(0);
+    out.short(0);
+    out.short(this.width);
+    out.short(this.height);
+    out.byte(0);
+
+    writeLzw(out, this.indices);
+  }
+
+  finish(): Blob {
+    this.out.byte(0x3b); // Trailer
+    return new Blob([this.out.result()], { type: 'image/gif' });
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Grenades
+ *
+ * Turns the per-tick projectile rows of demoparser2's parseGrenades
+ * ({ x, y, z, tick, grenade_type, grenade_entity_id, name, steamid }) into one
+ * Grenade per throw: thrower, type, flight path, detonation and effect window.
+ *
+ * Entity ids are reused by the engine, so rows of one entity are split into
+ * separate throws whenever the type changes or the rows stop for a while.
+ */
+
+import { Grenade, GrenadePathPoint, GrenadeType } from '../types';
+import { PlayerRegistry, readField } from './playerIdentity';
+
+// How long the effect stays on the map after detonation (seconds)
+export const GRENADE_EFFECT_SECONDS: Record<GrenadeType, number> = {
+  smoke: 18,
+  molotov: 7,
+  decoy: 15,
+  flash: 0.5, // Burst only
+  he: 0.5 // Burst only
+};
+
+const MAX_ROW_GAP_SECONDS = 1; // Larger gaps between rows of one entity start a new throw
+const SETTLED_DISTANCE = 2; // Units - smokes/decoys "detonate" once they stop moving
+
+/**
+ * Map demoparser2 grenade names ("smokegrenade", "CSmokeGrenadeProjectile", "incgrenade", ...) to a type
+ */
+export function normalizeGrenadeType(raw: unknown): GrenadeType | null {
+  const name = String(raw || '').toLowerCase();
+  if (name.includes('smoke')) return 'smoke';
+  if (name.includes('flash')) return 'flash';
+  if (name.includes('molotov') || name.includes('incendiary') || name.includes('incgrenade') || name.includes('inferno')) return 'molotov';
+  if (name.includes('decoy')) return 'decoy';
+  if (name.includes('he')) return 'he';
+  return null;
+}
+
+/**
+ * Index of the point where the grenade went off. Flashes, HEs and molotovs are removed
+ * when they detonate (last row); smokes and decoys lie still while they're active.
+ */
+function findDetonationIndex(type: GrenadeType, points: GrenadePathPoint[]): number {
+  const last = points.length - 1;
+  if (type !== 'smoke' && type !== 'decoy') return last;
+
+  const end = points[last];
+  let index = last;
+  while (index > 0) {
+    const point = points[index - 1];
+    const distance = Math.hypot(point.x - end.x, point.y - end.y, point.z - end.z);
+    if (distance > SETTLED_DISTANCE) break;
+    index--;
+  }
+  return index;
+}
+
+/**
+ * Build the grenade list from raw parseGrenades rows
+ */
+export function buildGrenades(rows: any[], tickRate: number, players?: PlayerRegistry): Grenade[] {
+  if (!rows || rows.length === 0) return [];
+
+  // Group rows per entity
+  const byEntity = new Map<string, any[]>();
+  for (const row of rows) {
+    const entityId = String(readField(row, 'grenade_entity_id', 'entity_id') ?? '');
+    let list = byEntity.get(entityId);
+    if (!list) {
+      list = [];
+      byEntity.set(entityId, list);
+    }
+    list.push(row);
+  }
+
+  const maxGapTicks = Math.ceil(MAX_ROW_GAP_SECONDS * tickRate);
+  const grenades: Grenade[] = [];
+
+  const addThrow = (throwRows: any[], type: GrenadeType) => {
+    const path: GrenadePathPoint[] = [];
+    for (const row of throwRows) {
+      const x = Number(readField(row, 'x'));
+      const y = Number(readField(row, 'y'));
+      if (!isFinite(x) || !isFinite(y)) continue;
+      const point = { tick: Number(readField(row, 'tick')), x, y, z: Number(readField(row, 'z')) || 0 };
+      const previous = path[path.length - 1];
+      // Skip repeated positions, except for the last row (keeps the detonation tick)
+      if (previous && previous.x === point.x && previous.y === point.y && previous.z === point.z && row !== throwRows[throwRows.length - 1]) {
+        continue;
+      }
+      path.push(point);
+    }
+    if (path.length === 0) return;
+
+    const detonationIndex = findDetonationIndex(type, path);
+    const position = path[detonationIndex];
+    const first = throwRows[0];
+    const throwerName = String(readField(first, 'name', 'thrower_name') ?? '');
+    const thrower = players?.resolve(readField(first, 'steamid', 'thrower_steamid'), throwerName);
+
+    grenades.push({
+      id: 0, // Assigned after sorting
+      type,
+      throwerId: thrower?.id,
+      throwerName: thrower?.name ?? throwerName,
+      throwTick: path[0].tick,
+      detonateTick: position.tick,
+      position,
+      effectEndTick: position.tick + Math.ceil(GRENADE_EFFECT_SECONDS[type] * tickRate),
+      path: path.slice(0, detonationIndex + 1)
+    });
+  };
+
+  for (const entityRows of byEntity.values()) {
+    entityRows.sort((a, b) => Number(readField(a, 'tick')) - Number(readField(b, 'tick')));
+
+    let current: any[] = [];
+    let currentType: GrenadeType | null = null;
+    for (const row of entityRows) {
+      const type = normalizeGrenadeType(readField(row, 'grenade_type', 'grenade_name'));
+      if (!type) continue;
+      const previous = current[current.length - 1];
+      const gap = previous ? Number(readField(row, 'tick')) - Number(readField(previous, 'tick')) : 0;
+      if (current.length > 0 && (type !== currentType || gap > maxGapTicks)) {
+        addThrow(current, currentType!);
+        current = [];
+      }
+      current.push(row);
+      currentType = type;
+    }
+    if (current.length > 0) {
+      addThrow(current, currentType!);
+    }
+  }
+
+  grenades.sort((a, b) => a.throwTick - b.throwTick);
+  grenades.forEach((grenade, index) => {
+    grenade.id = index;
+  });
+  return grenades;
+}
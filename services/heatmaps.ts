@@ -0,0 +1,189 @@
+/**
+ * Heatmaps
+ *
+ * Where players stand (occupancy), die (deaths) and get kills (kills), from the
+ * per-frame positions and kill events. Points are collected in world coordinates,
+ * then splatted onto a grid in the radar's 0-100 space (see getMapConfig) for drawing.
+ *
+ * Frames only exist at event ticks, so occupancy weights each frame by the time
+ * until the next one (capped) instead of counting frames.
+ */
+
+import { DemoFile, Round, Team } from '../types';
+import { MapConfig } from '../constants';
+import { FrameStore } from './frameStore';
+
+export type HeatmapKind = 'occupancy' | 'deaths' | 'kills';
+export type HeatmapHalf = 'all' | 'first' | 'second' | 'overtime';
+
+export const REGULATION_HALF_ROUNDS = 12; // MR12: sides swap after round 12, overtime starts at 25
+const MAX_SAMPLE_SECONDS = 1; // Occupancy weight cap per frame (gaps between event ticks can be long)
+
+export interface HeatmapFilter {
+  kind: HeatmapKind;
+  playerIds: number[]; // Empty = everyone
+  side: Team.CT | Team.T | 'all'; // Side the player was on at the time
+  roundFrom: number; // Round numbers, inclusive
+  roundTo: number;
+  half: HeatmapHalf;
+}
+
+export interface HeatmapPoint {
+  x: number;
+  y: number;
+  z?: number;
+  weight: number; // Seconds for occupancy, 1 per death/kill
+}
+
+export interface HeatmapGrid {
+  size: number; // size x size cells over the radar
+  values: Float32Array; // Normalized 0-1, row-major from the top-left
+  total: number; // Sum of point weights that landed on the radar
+}
+
+export function getRoundHalf(roundNumber: number): Exclude<HeatmapHalf, 'all'> {
+  if (roundNumber <= REGULATION_HALF_ROUNDS) return 'first';
+  if (roundNumber <= REGULATION_HALF_ROUNDS * 2) return 'second';
+  return 'overtime';
+}
+
+/**
+ * Rounds matching the round range and half of the filter
+ */
+export function getHeatmapRounds(rounds: Round[], filter: HeatmapFilter): Round[] {
+  return rounds.filter(round =>
+    round.number >= filter.roundFrom &&
+    round.number <= filter.roundTo &&
+    (filter.half === 'all' || getRoundHalf(round.number) === filter.half)
+  );
+}
+
+/**
+ * Collect heatmap points for the filter (world coordinates)
+ */
+export function buildHeatmapPoints(demoFile: DemoFile, filter: HeatmapFilter): HeatmapPoint[] {
+  const store = FrameStore.fromDemoFile(demoFile);
+  const rounds = getHeatmapRounds(demoFile.rounds || [], filter);
+  const playerFilter = filter.playerIds.length > 0 ? new Set(filter.playerIds) : null;
+  const sideMatches = (team: Team) => filter.side === 'all' || team === filter.side;
+  const points: HeatmapPoint[] = [];
+
+  if (filter.kind === 'occupancy') {
+    for (const round of rounds) {
+      let previous: { time: number; players: { x: number; y: number; z?: number }[] } | null = null;
+      for (const frame of store.iterateRound(round)) {
+        // Weight the previous frame's positions by how long they were held
+        if (previous) {
+          const weight = Math.min(frame.time - previous.time, MAX_SAMPLE_SECONDS);
+          if (weight > 0) {
+            for (const position of previous.players) points.push({ ...position, weight });
+          }
+        }
+        previous = {
+          time: frame.time,
+          players: frame.players
+            .filter(player => player.isAlive && sideMatches(player.team) && (!playerFilter || playerFilter.has(player.id)))
+            .map(player => ({ x: player.position.x, y: player.position.y, z: player.position.z }))
+        };
+      }
+    }
+    return points;
+  }
+
+  // Deaths/kills: position of the victim/attacker at the kill tick
+  const roundRanges = rounds.map(round => ({ from: round.startTick, to: round.endTick ?? Infinity }));
+  const inRounds = (tick: number) => roundRanges.some(range => tick >= range.from && tick <= range.to);
+  const seen = new Set<string>(); // Kill events can be attached to more than one frame
+
+  for (const frame of demoFile.frames) {
+    for (const event of frame.events) {
+      if (event.type !== 'kill' || !inRounds(event.tick)) continue;
+      const playerId = filter.kind === 'deaths' ? event.victimId : event.attackerId;
+      if (playerId === undefined || (playerFilter && !playerFilter.has(playerId))) continue;
+      const key = `${event.tick}:${event.attackerId}:${event.victimId}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const player = store.getPlayerAt(event.tick, playerId);
+      if (!player || !sideMatches(player.team)) continue;
+      points.push({ x: player.position.x, y: player.position.y, z: player.position.z, weight: 1 });
+    }
+  }
+  return points;
+}
+
+/**
+ * Splat points onto a size x size grid over the radar with a gaussian of radiusCells,
+ * normalized so the hottest cell is 1
+ */
+export function rasterizeHeatmap(points: HeatmapPoint[], mapConfig: MapConfig, size: number = 128, radiusCells: number = 3): HeatmapGrid {
+  const values = new Float32Array(size * size);
+  const mapWidth = mapConfig.maxX - mapConfig.minX;
+  const mapHeight = mapConfig.maxY - mapConfig.minY;
+  const reach = Math.ceil(radiusCells * 2);
+
+  // Gaussian kernel, computed once
+  const kernelSize = reach * 2 + 1;
+  const kernel = new Float32Array(kernelSize * kernelSize);
+  for (let dy = -reach; dy <= reach; dy++) {
+    for (let dx = -reach; dx <= reach; dx++) {
+      kernel[(dy + reach) * kernelSize + (dx + reach)] = Math.exp(-(dx * dx + dy * dy) / (2 * radiusCells * radiusCells));
+    }
+  }
+
+  let total = 0;
+  for (const point of points) {
+    // World -> cell (Y is flipped: world Y grows upward, the radar downward)
+    const cellX = Math.floor(((point.x - mapConfig.minX) / mapWidth) * size);
+    const cellY = Math.floor((1 - (point.y - mapConfig.minY) / mapHeight) * size);
+    if (cellX < 0 || cellX >= size || cellY < 0 || cellY >= size) continue;
+    total += point.weight;
+
+    for (let dy = -reach; dy <= reach; dy++) {
+      const y = cellY + dy;
+      if (y < 0 || y >= size) continue;
+      for (let dx = -reach; dx <= reach; dx++) {
+        const x = cellX + dx;
+        if (x < 0 || x >= size) continue;
+        values[y * size + x] += point.weight * kernel[(dy + reach) * kernelSize + (dx + reach)];
+      }
+    }
+  }
+
+  let max = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > max) max = values[i];
+  }
+  if (max > 0) {
+    for (let i = 0; i < values.length; i++) values[i] /= max;
+  }
+
+  return { size, values, total };
+}
+
+// Color ramp stops (value, r, g, b): transparent blue -> cyan -> yellow -> red
+const HEAT_RAMP: [number, number, number, number][] = [
+  [0, 30, 64, 175],
+  [0.35, 34, 211, 238],
+  [0.65, 250, 204, 21],
+  [1, 239, 68, 68]
+];
+
+/**
+ * RGBA for a normalized heat value (alpha grows with the value, cold cells stay see-through)
+ */
+export function heatColor(value: number): [number, number, number, number] {
+  if (value <= 0) return [0, 0, 0, 0];
+  let i = 1;
+  while (i < HEAT_RAMP.length - 1 && value > HEAT_RAMP[i][0]) i++;
+  const [v0, r0, g0, b0] = HEAT_RAMP[i - 1];
+  const [v1, r1, g1, b1] = HEAT_RAMP[i];
+  const t = Math.max(0, Math.min(1, (value - v0) / (v1 - v0)));
+  const alpha = Math.round(Math.min(1, value * 1.6) * 220);
+  return [
+    Math.round(r0 + (r1 - r0) * t),
+    Math.round(g0 + (g1 - g0) * t),
+    Math.round(b0 + (b1 - b0) * t),
+    alpha
+  ];
+}
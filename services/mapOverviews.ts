@@ -0,0 +1,330 @@
+/**
+ * Map Overviews
+ *
+ * Imports CS2 radar overview files (the KeyValues `.txt` next to each radar
+ * image in resource/overviews) and turns them into a MapConfig:
+ *
+ *   "de_nuke"
+ *   {
+ *     "pos_x"  "-3453"      // World X of the image's left edge
+ *     "pos_y"  "2887"       // World Y of the image's top edge
+ *     "scale"  "7.00"       // World units per radar pixel (images are 1024px)
+ *     "verticalsections" { "default" { "AltitudeMin" "-495" ... } "lower" { ... } }
+ *   }
+ *
+ * Imported overviews (config + radar images as Blobs) are persisted in IndexedDB
+ * and override the built-in MAPS table in getMapConfig, so workshop maps work too.
+ */
+
+import { MapConfig, MapLevel } from '../constants';
+import { requestToPromise, transactionDone } from './demoCache';
+
+const DB_NAME = 'cs-demo-analyzer-maps';
+const DB_VERSION = 1;
+const OVERVIEWS_STORE = 'overviews'; // One record per map name
+
+const RADAR_SIZE = 1024; // Radar images are 1024x1024, scale is per pixel
+
+export type KeyValues = { [key: string]: string | KeyValues };
+
+// Stored record: the parsed overview plus image Blobs keyed by vertical section ('default' = main radar).
+// The MapConfig is rebuilt on load so object URLs can be created for the images.
+interface StoredOverview {
+  mapName: string;
+  overview: KeyValues;
+  images: Record<string, Blob>;
+  importedAt: number;
+}
+
+/**
+ * Parse Valve KeyValues text ("key" "value" / "key" { ... }, // comments, [$PLATFORM] conditionals)
+ */
+export function parseKeyValues(text: string): KeyValues {
+  let pos = 0;
+
+  const skipWhitespaceAndComments = () => {
+    while (pos < text.length) {
+      const char = text[pos];
+      if (char === '/' && text[pos + 1] === '/') {
+        while (pos < text.length && text[pos] !== '\n') pos++;
+      } else if (/\s/.test(char)) {
+        pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readToken = (): string | null => {
+    skipWhitespaceAndComments();
+    if (pos >= text.length) return null;
+    const char = text[pos];
+    if (char === '{' || char === '}') {
+      pos++;
+      return char;
+    }
+    if (char === '"') {
+      pos++;
+      let value = '';
+      while (pos < text.length && text[pos] !== '"') {
+        if (text[pos] === '\\' && pos + 1 < text.length) {
+          const escaped = text[pos + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          pos += 2;
+        } else {
+          value += text[pos++];
+        }
+      }
+      pos++; // Closing quote
+      return value;
+    }
+    let value = '';
+    while (pos < text.length && !/[\s{}"]/.test(text[pos])) {
+      value += text[pos++];
+    }
+    return value;
+  };
+
+  const parseBlock = (isRoot: boolean): KeyValues => {
+    const block: KeyValues = {};
+    while (true) {
+      const key = readToken();
+      if (key === null) {
+        if (!isRoot) throw new Error('Unexpected end of overview file (missing "}")');
+        return block;
+      }
+      if (key === '}') {
+        if (isRoot) throw new Error('Unexpected "}" in overview file');
+        return block;
+      }
+      if (key === '{') throw new Error('Unexpected "{" in overview file');
+
+      const value = readToken();
+      if (value === null) throw new Error(`Missing value for "${key}" in overview file`);
+      // Ignore platform conditionals like [$WIN32] after a value or block
+      const skipConditional = () => {
+        skipWhitespaceAndComments();
+        if (text[pos] === '[') {
+          while (pos < text.length && text[pos] !== ']') pos++;
+          pos++;
+        }
+      };
+      if (value === '{') {
+        block[key] = parseBlock(false);
+      } else if (value === '}') {
+        throw new Error(`Missing value for "${key}" in overview file`);
+      } else {
+        block[key] = value;
+      }
+      skipConditional();
+    }
+  };
+
+  return parseBlock(true);
+}
+
+// Case-insensitive lookup (Valve files mix "AltitudeMin" / "altitudemin")
+function getKey(block: KeyValues, key: string): string | KeyValues | undefined {
+  const match = Object.keys(block).find(k => k.toLowerCase() === key.toLowerCase());
+  return match !== undefined ? block[match] : undefined;
+}
+
+function getNumber(block: KeyValues, key: string): number | undefined {
+  const value = getKey(block, key);
+  if (typeof value !== 'string') return undefined;
+  const number = parseFloat(value);
+  return isFinite(number) ? number : undefined;
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Build a MapConfig from a parsed overview. imageUrls maps vertical section names
+ * ('default' = main radar) to image URLs; missing ones fall back to /maps/<map>[_<section>].png.
+ */
+export function overviewToMapConfig(overview: KeyValues, imageUrls: Record<string, string> = {}): { mapName: string; config: MapConfig; warning?: string } {
+  const mapName = Object.keys(overview)[0];
+  const body = mapName !== undefined ? overview[mapName] : undefined;
+  if (!mapName || typeof body !== 'object') {
+    throw new Error('Not a radar overview file (expected "<map name>" { ... })');
+  }
+
+  const posX = getNumber(body, 'pos_x');
+  const posY = getNumber(body, 'pos_y');
+  const scale = getNumber(body, 'scale');
+  if (posX === undefined || posY === undefined || scale === undefined || scale <= 0) {
+    throw new Error(`Overview for ${mapName} is missing pos_x, pos_y or scale`);
+  }
+  // "rotate" is only set by a few old/community overviews and is not applied: the radar is drawn unrotated
+  const warning = getNumber(body, 'rotate')
+    ? `${mapName} sets "rotate" - rotated radars are not supported, player positions may not line up with the image`
+    : undefined;
+  if (warning) {
+    console.warn(`[MapOverviews] ${warning}`);
+  }
+
+  const lowerName = mapName.toLowerCase();
+  const imageFor = (section: string) =>
+    imageUrls[section] || (section === 'default' ? `/maps/${lowerName}.png` : `/maps/${lowerName}_${section}.png`);
+
+  const config: MapConfig = {
+    name: mapName,
+    minX: posX,
+    maxX: posX + RADAR_SIZE * scale,
+    maxY: posY,
+    minY: posY - RADAR_SIZE * scale,
+    imageUrl: imageFor('default')
+  };
+
+  // Vertical sections become levels, highest first
+  const sections = getKey(body, 'verticalsections');
+  if (sections && typeof sections === 'object') {
+    const levels: Array<MapLevel & { sortZ: number }> = [];
+    for (const [section, range] of Object.entries(sections)) {
+      if (typeof range !== 'object') continue;
+      const minZ = getNumber(range, 'AltitudeMin');
+      const maxZ = getNumber(range, 'AltitudeMax');
+      levels.push({
+        name: section.toLowerCase() === 'default' ? 'Main' : capitalize(section),
+        imageUrl: imageFor(section.toLowerCase()),
+        minZ,
+        maxZ,
+        sortZ: minZ ?? -Infinity
+      });
+    }
+    if (levels.length > 1) {
+      levels.sort((a, b) => b.sortZ - a.sortZ);
+      config.levels = levels.map(({ sortZ, ...level }) => level);
+    }
+  }
+
+  return { mapName: lowerName, config, warning };
+}
+
+/**
+ * Section an image file belongs to, from Valve's naming (de_nuke_radar.png, de_nuke_lower_radar.png)
+ */
+function sectionForImage(fileName: string, mapName: string, sections: string[]): string {
+  const base = fileName.toLowerCase().replace(/\.[^.]+$/, '').replace(/_radar$/, '');
+  for (const section of sections) {
+    if (section !== 'default' && (base === `${mapName}_${section}` || base.endsWith(`_${section}`))) {
+      return section;
+    }
+  }
+  return 'default';
+}
+
+export interface ImportedOverview {
+  mapName: string;
+  config: MapConfig; // With object URLs for the imported images
+  warning?: string; // Imported, but something in the file is not supported (e.g. "rotate")
+}
+
+/**
+ * Import an overview .txt plus its radar image(s) (as picked/dropped together) and persist them
+ */
+export async function importOverviewFiles(files: File[]): Promise<ImportedOverview> {
+  const overviewFile = files.find(file => /\.txt$/i.test(file.name) || file.type === 'text/plain');
+  if (!overviewFile) {
+    throw new Error('Select the overview .txt file together with its radar image');
+  }
+  const overview = parseKeyValues(await overviewFile.text());
+  const { mapName, warning } = overviewToMapConfig(overview); // Validates the file before reading images
+
+  const body = overview[Object.keys(overview)[0]] as KeyValues;
+  const sectionBlock = getKey(body, 'verticalsections');
+  const sections = sectionBlock && typeof sectionBlock === 'object'
+    ? Object.keys(sectionBlock).map(section => section.toLowerCase())
+    : ['default'];
+
+  const images: Record<string, Blob> = {};
+  for (const file of files) {
+    if (file === overviewFile || !file.type.startsWith('image/')) continue;
+    images[sectionForImage(file.name, mapName, sections)] = file;
+  }
+
+  const record: StoredOverview = { mapName, overview, images, importedAt: Date.now() };
+  await saveOverview(record);
+  const config = recordToMapConfig(record);
+  console.log(`[MapOverviews] Imported ${mapName} (${Object.keys(images).length} image(s), ${config.levels?.length ?? 1} level(s))`);
+  return { mapName, config, warning };
+}
+
+function recordToMapConfig(record: StoredOverview): MapConfig {
+  const urls: Record<string, string> = {};
+  for (const [section, blob] of Object.entries(record.images || {})) {
+    urls[section] = URL.createObjectURL(blob);
+  }
+  const { config } = overviewToMapConfig(record.overview, urls);
+
+  // Images for sections the config doesn't show would never be released otherwise
+  const used = new Set([config.imageUrl, ...(config.levels || []).map(level => level.imageUrl)]);
+  for (const url of Object.values(urls)) {
+    if (!used.has(url)) URL.revokeObjectURL(url);
+  }
+  return config;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OVERVIEWS_STORE)) {
+        db.createObjectStore(OVERVIEWS_STORE, { keyPath: 'mapName' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function saveOverview(record: StoredOverview): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(OVERVIEWS_STORE, 'readwrite');
+    tx.objectStore(OVERVIEWS_STORE).put(record);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * All imported map configs by map name, with object URLs for their radar images
+ */
+export async function loadImportedMapConfigs(): Promise<Record<string, MapConfig>> {
+  const db = await openDatabase();
+  let records: StoredOverview[];
+  try {
+    const tx = db.transaction(OVERVIEWS_STORE, 'readonly');
+    records = await requestToPromise(tx.objectStore(OVERVIEWS_STORE).getAll()) as StoredOverview[];
+  } finally {
+    db.close();
+  }
+
+  const configs: Record<string, MapConfig> = {};
+  for (const record of records) {
+    try {
+      configs[record.mapName] = recordToMapConfig(record);
+    } catch (error) {
+      console.warn(`[MapOverviews] Skipping stored overview for ${record.mapName}:`, error);
+    }
+  }
+  return configs;
+}
+
+export async function deleteImportedMapConfig(mapName: string): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(OVERVIEWS_STORE, 'readwrite');
+    tx.objectStore(OVERVIEWS_STORE).delete(mapName);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
@@ -22,7 +22,8 @@
  * - Adjust minAimActive to control angle-holding detection
  */
 
-import { MatchFrame, PlayerState, GameEvent, Round, Team } from '../types';
+import { PlayerState, GameEvent, Round, Team } from '../types';
+import { FrameStore } from './frameStore';
 
 /**
  * Configuration for mid-round AFK detection
@@ -324,7 +325,7 @@ function determineReason(features: ActivityFeatures): InactiveSegment['reason']
  */
 export function analyzeRoundInactivity(
   round: Round,
-  frames: MatchFrame[],
+  frames: FrameStore,
   events: GameEvent[],
   tickRate: number,
   config: MidRoundAfkConfig = DEFAULT_MID_ROUND_AFK_CONFIG
@@ -335,24 +336,13 @@ export function analyzeRoundInactivity(
     return results; // Can't analyze without proper round boundaries
   }
   
-  // Filter frames to round (after freeze time)
-  const roundFrames = frames.filter(f => 
-    f.tick >= round.freezeEndTick && 
-    f.tick <= round.endTick
-  );
+  // Round bounds (after freeze time)
+  const bounds = frames.getRoundBounds(round);
+  if (!bounds) return results;
   
-  if (roundFrames.length === 0) return results;
-  
-  // Sample frames at configured rate
+  // Sample frames at configured rate (the store always includes the last frame)
   const sampleInterval = Math.ceil(tickRate / config.samplingHz);
-  const sampledFrames: MatchFrame[] = [];
-  for (let i = 0; i < roundFrames.length; i += sampleInterval) {
-    sampledFrames.push(roundFrames[i]);
-  }
-  // Always include last frame
-  if (sampledFrames.length === 0 || sampledFrames[sampledFrames.length - 1] !== roundFrames[roundFrames.length - 1]) {
-    sampledFrames.push(roundFrames[roundFrames.length - 1]);
-  }
+  const sampledFrames = frames.iterateRound(round, { step: sampleInterval });
   
   // Initialize tracking for all players
   const playerTracking = new Map<number, PlayerTrackingState>();
@@ -365,34 +355,16 @@ export function analyzeRoundInactivity(
     if (event.tick < round.freezeEndTick || event.tick > round.endTick) continue;
     
     if (event.type === 'weapon_fire' || event.type === 'throw' || event.type === 'plant' || event.type === 'defuse') {
-      // Find player by name
-      const playerName = event.playerName || event.attackerName;
-      if (playerName) {
-        for (const frame of roundFrames) {
-          const player = frame.players.find(p => p.name === playerName);
-          if (player) {
-            playerActions.set(player.id, event.tick);
-            break;
-          }
-        }
+      // Events carry the SteamID-resolved player id
+      const playerId = event.playerId ?? event.attackerId;
+      if (playerId !== undefined) {
+        playerActions.set(playerId, event.tick);
       }
     }
     
     if (event.type === 'damage') {
-      const attackerName = event.attackerName;
-      const victimName = event.victimName;
-      if (attackerName || victimName) {
-        for (const frame of roundFrames) {
-          if (attackerName) {
-            const player = frame.players.find(p => p.name === attackerName);
-            if (player) playerDamage.set(player.id, event.tick);
-          }
-          if (victimName) {
-            const player = frame.players.find(p => p.name === victimName);
-            if (player) playerDamage.set(player.id, event.tick);
-          }
-        }
-      }
+      if (event.attackerId !== undefined) playerDamage.set(event.attackerId, event.tick);
+      if (event.victimId !== undefined) playerDamage.set(event.victimId, event.tick);
     }
   }
   
@@ -443,7 +415,7 @@ export function analyzeRoundInactivity(
   }
   
   // Analyze each player
-  const roundEndTime = roundFrames[roundFrames.length - 1].time;
+  const roundEndTime = bounds.last.time;
   
   for (const [playerId, tracking] of playerTracking.entries()) {
     if (tracking.samples.length < 2) continue;
@@ -457,7 +429,7 @@ export function analyzeRoundInactivity(
     
     // Find player name
     const playerName = tracking.samples[0] ? 
-      roundFrames.find(f => f.players.some(p => p.id === playerId))?.players.find(p => p.id === playerId)?.name || 'Unknown' :
+      frames.getPlayerAt(tracking.samples[0].tick, playerId)?.name || 'Unknown' :
       'Unknown';
     
     // Analyze each sample
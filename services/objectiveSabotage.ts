@@ -17,7 +17,8 @@
  * - Explains results with confidence scores and human-readable reasons
  */
 
-import { MatchFrame, PlayerState, Round, Team, GameEvent } from '../types';
+import { PlayerState, Round, Team, GameEvent } from '../types';
+import { FrameStore, FrameRef } from './frameStore';
 
 /**
  * Configuration for objective sabotage detection
@@ -254,11 +255,10 @@ function extractObjectiveFeatures(
   
   let pressureScore = 0;
   const playerSample = player.samples[player.samples.length - 1];
-  const playerName = player.playerName || (playerNames ? playerNames.get(player.playerId) : undefined);
-  if (playerSample && playerName) {
+  if (playerSample) {
     // Check for damage taken
     const damageEvents = recentEvents.filter(e => 
-      e.type === 'damage' && e.victimName === playerName
+      e.type === 'damage' && e.victimId === player.playerId
     );
     const totalDamage = damageEvents.reduce((sum, e) => sum + (e.damage || 0), 0);
     if (totalDamage >= config.pressureDamageThreshold) {
@@ -272,10 +272,7 @@ function extractObjectiveFeatures(
       return e.type === 'kill' && 
              eventTick >= currentTick - deathWindowTicks && 
              eventTick <= currentTick &&
-             teammates.some(t => {
-               const tName = t.playerName || playerNames.get(t.playerId);
-               return tName === e.victimName;
-             });
+             teammates.some(t => t.playerId === e.victimId);
     });
     pressureScore = Math.max(pressureScore, recentDeaths.length * 0.3);
     
@@ -366,7 +363,7 @@ function extractObjectiveFeatures(
  */
 export function detectObjectiveSabotage(
   round: Round,
-  frames: MatchFrame[],
+  frames: FrameStore,
   events: GameEvent[],
   tickRate: number,
   config: ObjectiveConfig = DEFAULT_OBJECTIVE_CONFIG
@@ -382,13 +379,10 @@ export function detectObjectiveSabotage(
     };
   }
   
-  // Filter frames and events to round
-  const roundFrames = frames.filter(f => 
-    f.tick >= round.freezeEndTick! && 
-    f.tick <= round.endTick!
-  );
+  // Round bounds (after freeze time)
+  const bounds = frames.getRoundBounds(round);
   
-  if (roundFrames.length === 0) {
+  if (!bounds) {
     return {
       round: round.number,
       eventsByPlayer,
@@ -396,19 +390,13 @@ export function detectObjectiveSabotage(
     };
   }
   
-  const roundStartTime = roundFrames[0]?.time || 0;
-  const roundEndTime = roundFrames[roundFrames.length - 1]?.time || 0;
+  const roundStartTime = bounds.first.time;
+  const roundEndTime = bounds.last.time;
   const roundDuration = roundEndTime - roundStartTime;
   
-  // Sample frames
+  // Sample frames (the store always includes the last frame)
   const sampleInterval = Math.ceil(tickRate / config.samplingHz);
-  const sampledFrames: MatchFrame[] = [];
-  for (let i = 0; i < roundFrames.length; i += sampleInterval) {
-    sampledFrames.push(roundFrames[i]);
-  }
-  if (sampledFrames.length === 0 || sampledFrames[sampledFrames.length - 1] !== roundFrames[roundFrames.length - 1]) {
-    sampledFrames.push(roundFrames[roundFrames.length - 1]);
-  }
+  const sampledFrames = Array.from(frames.iterateRound(round, { step: sampleInterval }));
   
   // Initialize tracking
   const playerTracking = new Map<number, PlayerTrackingState>();
@@ -421,9 +409,9 @@ export function detectObjectiveSabotage(
     
     if (event.type === 'plant') {
       bombState.isPlanted = true;
-      const frame = roundFrames.find(f => f.tick === event.tick);
-      if (frame) {
-        const planter = frame.players.find(p => p.name === event.playerName);
+      const frame = frames.getFrame(event.tick);
+      if (frame && event.playerId !== undefined) {
+        const planter = frames.getPlayerAt(event.tick, event.playerId, true);
         if (planter) {
           bombState.plantTime = frame.time;
           bombState.plantPosition = { ...planter.position };
@@ -432,6 +420,16 @@ export function detectObjectiveSabotage(
     }
   }
   
+  // Group round events by tick once instead of filtering all events for every player/frame
+  const eventsByTick = new Map<number, GameEvent[]>();
+  for (const event of events) {
+    if (event.tick < round.freezeEndTick! || event.tick > round.endTick!) continue;
+    if (!eventsByTick.has(event.tick)) {
+      eventsByTick.set(event.tick, []);
+    }
+    eventsByTick.get(event.tick)!.push(event);
+  }
+  
   // Build player tracking
   for (const frame of sampledFrames) {
     for (const player of frame.players) {
@@ -451,12 +449,12 @@ export function detectObjectiveSabotage(
       }
       
       // Update from events
-      const frameEvents = events.filter(e => e.tick === frame.tick);
+      const frameEvents = eventsByTick.get(frame.tick) || [];
       for (const event of frameEvents) {
-        if (event.type === 'damage' && event.victimName === player.name) {
+        if (event.type === 'damage' && event.victimId === player.id) {
           tracking.lastDamageTime = frame.time;
         }
-        if (event.type === 'weapon_fire' && event.playerName === player.name) {
+        if (event.type === 'weapon_fire' && event.playerId === player.id) {
           tracking.lastFireTime = frame.time;
         }
       }
@@ -488,7 +486,7 @@ export function detectObjectiveSabotage(
   // Group players by team
   const teams = new Map<Team, PlayerTrackingState[]>();
   for (const tracking of playerTracking.values()) {
-    const playerState = roundFrames[0]?.players.find(p => p.id === tracking.playerId);
+    const playerState = frames.getPlayerAt(bounds.first.tick, tracking.playerId, true);
     if (!playerState || playerState.team === Team.SPECTATOR) continue;
     
     if (!teams.has(playerState.team)) {
@@ -558,7 +556,7 @@ export function detectObjectiveSabotage(
  */
 function detectBombCarrierStall(
   player: PlayerTrackingState,
-  frames: MatchFrame[],
+  frames: FrameRef[],
   teammates: PlayerTrackingState[],
   enemies: PlayerTrackingState[],
   events: GameEvent[],
@@ -693,7 +691,7 @@ function detectBombCarrierStall(
  */
 function detectNoPlantOpportunity(
   player: PlayerTrackingState,
-  frames: MatchFrame[],
+  frames: FrameRef[],
   teammates: PlayerTrackingState[],
   enemies: PlayerTrackingState[],
   events: GameEvent[],
@@ -770,7 +768,7 @@ function detectNoPlantOpportunity(
             e.type === 'plant' && 
             e.tick >= clusterStartTick! && 
             e.tick <= frame.tick &&
-            e.playerName === playerNames.get(player.playerId)
+            e.playerId === player.playerId
           );
           
           if (plantEvents.length === 0 &&
@@ -818,7 +816,7 @@ function detectNoPlantOpportunity(
  */
 function detectBadBombDrop(
   player: PlayerTrackingState,
-  frames: MatchFrame[],
+  frames: FrameRef[],
   teammates: PlayerTrackingState[],
   events: GameEvent[],
   bombState: BombState,
@@ -872,7 +870,7 @@ function detectBadBombDrop(
       e.type === 'bombPickup' && // Would need to be in event types
       e.tick >= drop.tick && 
       e.tick <= drop.tick + pickupWindowTicks &&
-      e.playerName !== playerNames.get(player.playerId)
+      e.playerId !== player.playerId
     );
     if (enemyPickups.length > 0) {
       score += 0.6;
@@ -920,7 +918,7 @@ function detectBadBombDrop(
  */
 function detectDefuseRefusal(
   player: PlayerTrackingState,
-  frames: MatchFrame[],
+  frames: FrameRef[],
   enemies: PlayerTrackingState[],
   events: GameEvent[],
   bombState: BombState,
@@ -976,7 +974,7 @@ function detectDefuseRefusal(
           (e.type === 'defuse' || e.type === 'defuseStart') &&
           e.tick >= opportunityStartTick! &&
           e.tick <= frame.tick &&
-          e.playerName === playerNames.get(player.playerId)
+          e.playerId === player.playerId
         );
         
         if (defuseEvents.length === 0) {
@@ -1020,7 +1018,7 @@ function detectDefuseRefusal(
  */
 function detectDefuseAbort(
   player: PlayerTrackingState,
-  frames: MatchFrame[],
+  frames: FrameRef[],
   enemies: PlayerTrackingState[],
   events: GameEvent[],
   bombState: BombState,
@@ -1044,13 +1042,13 @@ function detectDefuseAbort(
     const defuseStartEvents = events.filter(e => 
       e.type === 'defuseStart' &&
       e.tick === frame.tick &&
-      e.playerName === playerNames.get(player.playerId)
+      e.playerId === player.playerId
     );
     
     const defuseStopEvents = events.filter(e => 
       e.type === 'defuseStop' &&
       e.tick === frame.tick &&
-      e.playerName === playerNames.get(player.playerId)
+      e.playerId === player.playerId
     );
     
     if (defuseStartEvents.length > 0 && defuseStart === undefined) {
@@ -1083,7 +1081,7 @@ function detectDefuseAbort(
           e.type === 'defuseStart' &&
           e.tick > frame.tick &&
           e.tick <= frame.tick + reattemptWindowTicks &&
-          e.playerName === playerNames.get(player.playerId)
+          e.playerId === player.playerId
         );
         
         if (reattempts.length === 0) {
@@ -0,0 +1,330 @@
+/**
+ * Offender History
+ *
+ * Keeps a per-player record of every analyzed demo in IndexedDB so repeat
+ * offenders become visible across matches ("team-flashed in 6 of their last 8
+ * matches"). Players are keyed by SteamID64 (see playerIdentity.ts) and every
+ * match they played gets a record - including clean matches, otherwise
+ * per-match rates could not be computed.
+ *
+ * Matches are keyed by the demo cache key, so the profile view can link back to
+ * the cached demo (as long as it hasn't been evicted from the demo cache).
+ *
+ * Works on the main thread and inside the demo worker.
+ */
+
+import { DemoFile, Team } from '../types';
+import type { AnalysisResults } from './demoAnalyzer';
+import { FrameStore } from './frameStore';
+import { requestToPromise, transactionDone } from './demoCache';
+
+const DB_NAME = 'cs-demo-analyzer-history';
+const DB_VERSION = 1;
+const MATCHES_STORE = 'matches'; // One record per analyzed demo
+const PLAYER_MATCHES_STORE = 'playerMatches'; // One record per player per demo
+const STEAM_ID_INDEX = 'steamId';
+
+export type IncidentKind =
+  | 'afk'
+  | 'teamKill'
+  | 'teamDamage'
+  | 'teamFlash'
+  | 'disconnect'
+  | 'midRoundAfk'
+  | 'bodyBlock'
+  | 'objective'
+  | 'economy';
+
+// Display order + labels for the profile view
+export const INCIDENT_KINDS: IncidentKind[] = [
+  'afk', 'teamKill', 'teamDamage', 'teamFlash', 'disconnect', 'midRoundAfk', 'bodyBlock', 'objective', 'economy'
+];
+
+export const INCIDENT_LABELS: Record<IncidentKind, string> = {
+  afk: 'AFK at round start',
+  teamKill: 'Team kills',
+  teamDamage: 'Team damage',
+  teamFlash: 'Team flashes',
+  disconnect: 'Disconnects',
+  midRoundAfk: 'Mid-round inactivity',
+  bodyBlock: 'Body blocking',
+  objective: 'Objective sabotage',
+  economy: 'Economy griefing'
+};
+
+export interface PlayerIncident {
+  kind: IncidentKind;
+  round: number; // 0 for match-level incidents
+  detail: string; // Short human readable description
+}
+
+export interface HistoryMatch {
+  demoKey: string; // Demo cache key
+  demoName: string;
+  mapName: string;
+  roundCount: number;
+  analyzedAt: number; // Date.now() when first recorded
+}
+
+export interface PlayerMatchRecord extends HistoryMatch {
+  key: string; // `${demoKey}|${steamId}`
+  steamId: string;
+  playerName: string; // Name used in this match
+  team: Team; // Team at the end of the match
+  counts: Record<IncidentKind, number>;
+  incidents: PlayerIncident[];
+}
+
+export interface IncidentRate {
+  kind: IncidentKind;
+  matchesWith: number; // Matches with at least one incident of this kind
+  matches: number; // Matches considered
+  total: number; // Incidents across those matches
+  perMatch: number;
+}
+
+export interface PlayerHistory {
+  steamId: string;
+  latestName: string;
+  names: string[]; // Every name seen across matches, most recent first
+  matches: PlayerMatchRecord[]; // Most recent first
+}
+
+function emptyCounts(): Record<IncidentKind, number> {
+  const counts = {} as Record<IncidentKind, number>;
+  for (const kind of INCIDENT_KINDS) counts[kind] = 0;
+  return counts;
+}
+
+/**
+ * Players that took part in the match (on T or CT at the start of any round), with their last team
+ */
+function getParticipants(demoFile: DemoFile): Map<number, Team> {
+  const frames = FrameStore.fromDemoFile(demoFile);
+  const participants = new Map<number, Team>();
+  for (const round of demoFile.rounds) {
+    const bounds = frames.getRoundBounds(round);
+    if (!bounds) continue;
+    for (const player of frames.getPlayers(bounds.first.index)) {
+      if (player.team === Team.T || player.team === Team.CT) {
+        participants.set(player.id, player.team);
+      }
+    }
+  }
+  return participants;
+}
+
+/**
+ * Attribute every detection to the offending player
+ */
+function collectIncidents(results: AnalysisResults): Map<number, PlayerIncident[]> {
+  const byPlayer = new Map<number, PlayerIncident[]>();
+  const add = (playerId: number, incident: PlayerIncident) => {
+    let list = byPlayer.get(playerId);
+    if (!list) {
+      list = [];
+      byPlayer.set(playerId, list);
+    }
+    list.push(incident);
+  };
+
+  for (const afk of results.afkDetections) {
+    add(afk.playerId, { kind: 'afk', round: afk.round, detail: `AFK for ${afk.afkDuration.toFixed(1)}s${afk.diedWhileAFK ? ', died' : ''}` });
+  }
+  for (const tk of results.teamKills) {
+    add(tk.attackerId, { kind: 'teamKill', round: tk.round, detail: `Killed ${tk.victimName} (${tk.weapon})` });
+  }
+  for (const td of results.teamDamage) {
+    add(td.attackerId, { kind: 'teamDamage', round: td.round, detail: `${td.damage} damage to ${td.victimName}` });
+  }
+  for (const tf of results.teamFlashes) {
+    add(tf.throwerId, { kind: 'teamFlash', round: tf.round, detail: `Flashed ${tf.victimName} for ${tf.flashDuration.toFixed(1)}s` });
+  }
+  for (const dc of results.disconnects) {
+    const missed = dc.roundsMissed ? `, missed ${dc.roundsMissed} round${dc.roundsMissed !== 1 ? 's' : ''}` : '';
+    add(dc.playerId, { kind: 'disconnect', round: dc.disconnectRound, detail: `Disconnected${missed}${dc.reason ? ` (${dc.reason})` : ''}` });
+  }
+  for (const inactivity of results.midRoundInactivity) {
+    if (!inactivity.flagged) continue;
+    const seconds = inactivity.segments.reduce((sum, segment) => sum + segment.duration, 0);
+    add(inactivity.playerId, { kind: 'midRoundAfk', round: inactivity.round, detail: `Inactive for ${seconds.toFixed(1)}s` });
+  }
+  for (const round of results.bodyBlocking) {
+    if (!round.flagged) continue;
+    for (const block of round.events) {
+      add(block.blockerId, { kind: 'bodyBlock', round: round.round, detail: `Blocked ${block.victimName} for ${block.duration.toFixed(1)}s` });
+    }
+  }
+  for (const round of results.objectiveSabotage) {
+    for (const player of round.eventsByPlayer.values()) {
+      if (!player.flagged) continue;
+      const types = Array.from(new Set(player.events.map(event => event.type)));
+      add(player.playerId, { kind: 'objective', round: round.round, detail: types.join(', ') });
+    }
+  }
+  for (const [playerId, player] of results.economyGriefing.byPlayer) {
+    if (!player.flaggedMatch) continue;
+    for (const event of player.events) {
+      add(playerId, { kind: 'economy', round: event.round, detail: event.type });
+    }
+  }
+
+  return byPlayer;
+}
+
+/**
+ * Turn one analyzed demo into a record per (human) participant
+ */
+export function buildPlayerMatchRecords(match: HistoryMatch, demoFile: DemoFile, results: AnalysisResults): PlayerMatchRecord[] {
+  const identities = new Map((demoFile.players || []).map(identity => [identity.id, identity]));
+  const incidentsByPlayer = collectIncidents(results);
+  const records: PlayerMatchRecord[] = [];
+
+  for (const [playerId, team] of getParticipants(demoFile)) {
+    const identity = identities.get(playerId);
+    if (!identity || identity.isBot) continue; // Bots share steamid 0, no history for them
+
+    const incidents = (incidentsByPlayer.get(playerId) || []).sort((a, b) => a.round - b.round);
+    const counts = emptyCounts();
+    for (const incident of incidents) counts[incident.kind]++;
+
+    records.push({
+      ...match,
+      key: `${match.demoKey}|${identity.steamId}`,
+      steamId: identity.steamId,
+      playerName: identity.name,
+      team,
+      counts,
+      incidents
+    });
+  }
+  return records;
+}
+
+/**
+ * How often each kind of incident shows up over the given matches
+ */
+export function summarizeIncidentRates(matches: PlayerMatchRecord[]): IncidentRate[] {
+  return INCIDENT_KINDS.map(kind => {
+    let matchesWith = 0;
+    let total = 0;
+    for (const match of matches) {
+      const count = match.counts[kind] || 0;
+      if (count > 0) matchesWith++;
+      total += count;
+    }
+    return {
+      kind,
+      matchesWith,
+      matches: matches.length,
+      total,
+      perMatch: matches.length > 0 ? total / matches.length : 0
+    };
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MATCHES_STORE)) {
+        db.createObjectStore(MATCHES_STORE, { keyPath: 'demoKey' });
+      }
+      if (!db.objectStoreNames.contains(PLAYER_MATCHES_STORE)) {
+        const store = db.createObjectStore(PLAYER_MATCHES_STORE, { keyPath: 'key' });
+        store.createIndex(STEAM_ID_INDEX, 'steamId', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Record a demo's incidents in the history. A demo that is already recorded gets its player
+ * records replaced with the new results (e.g. after a re-analysis with other detector settings),
+ * but keeps its name and analyzedAt, so re-opening or re-analyzing it doesn't move it to the top
+ * of the timeline.
+ */
+export async function recordMatchHistory(
+  demoKey: string,
+  demoName: string,
+  demoFile: DemoFile,
+  results: AnalysisResults
+): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction([MATCHES_STORE, PLAYER_MATCHES_STORE], 'readwrite');
+    const matches = tx.objectStore(MATCHES_STORE);
+    const playerMatches = tx.objectStore(PLAYER_MATCHES_STORE);
+    const existing = await requestToPromise(matches.get(demoKey)) as HistoryMatch | undefined;
+
+    const match: HistoryMatch = {
+      demoKey,
+      demoName: existing?.demoName ?? demoName,
+      mapName: demoFile.mapName,
+      roundCount: demoFile.rounds.length,
+      analyzedAt: existing?.analyzedAt ?? Date.now()
+    };
+    const records = buildPlayerMatchRecords(match, demoFile, results);
+
+    matches.put(match);
+    if (existing) {
+      // Player record keys start with the demo key (see buildPlayerMatchRecords)
+      playerMatches.delete(IDBKeyRange.bound(`${demoKey}|`, `${demoKey}|\uffff`));
+    }
+    for (const record of records) {
+      playerMatches.put(record);
+    }
+    await transactionDone(tx);
+    console.log(`[OffenderHistory] ${existing ? 'Updated' : 'Recorded'} ${records.length} players from ${match.demoName}`);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * All recorded matches of a player, most recent first (null if the player has no history)
+ */
+export async function loadPlayerHistory(steamId: string): Promise<PlayerHistory | null> {
+  const db = await openDatabase();
+  let records: PlayerMatchRecord[];
+  try {
+    const tx = db.transaction(PLAYER_MATCHES_STORE, 'readonly');
+    const index = tx.objectStore(PLAYER_MATCHES_STORE).index(STEAM_ID_INDEX);
+    records = await requestToPromise(index.getAll(steamId)) as PlayerMatchRecord[];
+  } finally {
+    db.close();
+  }
+  if (records.length === 0) return null;
+
+  records.sort((a, b) => b.analyzedAt - a.analyzedAt);
+  const names: string[] = [];
+  for (const record of records) {
+    if (!names.includes(record.playerName)) names.push(record.playerName);
+  }
+  return { steamId, latestName: records[0].playerName, names, matches: records };
+}
+
+/**
+ * Forget a player's history
+ */
+export async function deletePlayerHistory(steamId: string): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(PLAYER_MATCHES_STORE, 'readwrite');
+    const store = tx.objectStore(PLAYER_MATCHES_STORE);
+    const keys = await requestToPromise(store.index(STEAM_ID_INDEX).getAllKeys(steamId));
+    for (const key of keys) {
+      store.delete(key);
+    }
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Player Identity
+ *
+ * Resolves players by SteamID instead of by name. Names can change mid-match
+ * and several players can share a name, and userids change on every reconnect,
+ * so the parser registers every player under their SteamID64 and all frames,
+ * events and detections refer to the resulting stable id.
+ */
+
+import { DemoFile, PlayerIdentity } from '../types';
+
+/**
+ * Normalize a steamid value from demoparser2 (string, number or bigint) to a SteamID64 string.
+ * Returns null for missing ids and for bots (steamid 0).
+ */
+export function normalizeSteamId(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const str = String(value).trim();
+  if (str === '' || str === '0' || str === 'null' || str === 'undefined' || str.toUpperCase() === 'BOT') {
+    return null;
+  }
+  return str;
+}
+
+/**
+ * Read a field from a demoparser2 row/event which can be a Map or a plain object
+ */
+export function readField(source: any, ...keys: string[]): any {
+  if (!source) return undefined;
+  for (const key of keys) {
+    const value = source instanceof Map ? source.get(key) : source[key];
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+export class PlayerRegistry {
+  private bySteamId = new Map<string, PlayerIdentity>();
+  private byId = new Map<number, PlayerIdentity>();
+  private byUserId = new Map<number, PlayerIdentity>(); // Latest owner of each userid
+  private byName = new Map<string, PlayerIdentity>(); // Latest owner of each name
+
+  /**
+   * Rebuild a registry from the identities stored on a parsed DemoFile
+   */
+  static fromDemoFile(demoFile: DemoFile): PlayerRegistry {
+    const registry = new PlayerRegistry();
+    for (const identity of demoFile.players || []) {
+      registry.add({ ...identity, names: [...identity.names], userIds: [...identity.userIds] });
+    }
+    return registry;
+  }
+
+  private add(identity: PlayerIdentity) {
+    this.bySteamId.set(identity.steamId, identity);
+    this.byId.set(identity.id, identity);
+    for (const name of identity.names) {
+      this.byName.set(name, identity);
+    }
+    for (const userId of identity.userIds) {
+      this.byUserId.set(userId, identity);
+    }
+  }
+
+  /**
+   * Generate a stable numeric id from the identity key.
+   * Same hash the parser used for names, with linear probing on collisions.
+   */
+  private createId(key: string): number {
+    let hash = 0;
+    for (let i = 0; i < key.length; i++) {
+      hash = ((hash << 5) - hash) + key.charCodeAt(i);
+      hash = hash & hash; // Convert to 32bit integer
+    }
+    let id = Math.abs(hash) || (1000 + this.byId.size);
+    while (this.byId.has(id)) {
+      id++;
+    }
+    return id;
+  }
+
+  /**
+   * Get or create the identity for a player row. Bots have no SteamID, so they are keyed by name.
+   */
+  register(rawSteamId: unknown, name: string): PlayerIdentity {
+    const steamId = normalizeSteamId(rawSteamId);
+    const key = steamId ?? `BOT ${name}`;
+
+    let identity = this.bySteamId.get(key);
+    if (!identity) {
+      identity = {
+        id: this.createId(key),
+        steamId: key,
+        name,
+        names: [name],
+        userIds: [],
+        isBot: steamId === null
+      };
+      this.bySteamId.set(key, identity);
+      this.byId.set(identity.id, identity);
+    } else if (identity.name !== name) {
+      // Renamed mid-match - keep the history, show the latest name
+      identity.name = name;
+      if (!identity.names.includes(name)) {
+        identity.names.push(name);
+      }
+    }
+    this.byName.set(name, identity);
+    return identity;
+  }
+
+  /**
+   * Record a userid for a player (userids are reassigned on reconnect)
+   */
+  observeUserId(identity: PlayerIdentity, rawUserId: unknown) {
+    const userId = typeof rawUserId === 'number' ? rawUserId : parseInt(String(rawUserId), 10);
+    if (rawUserId === undefined || rawUserId === null || isNaN(userId)) return;
+    if (!identity.userIds.includes(userId)) {
+      identity.userIds.push(userId);
+    }
+    this.byUserId.set(userId, identity);
+  }
+
+  getById(id: number): PlayerIdentity | undefined {
+    return this.byId.get(id);
+  }
+
+  getBySteamId(rawSteamId: unknown): PlayerIdentity | undefined {
+    const steamId = normalizeSteamId(rawSteamId);
+    return steamId ? this.bySteamId.get(steamId) : undefined;
+  }
+
+  /**
+   * Resolve the player an event refers to.
+   * SteamID is authoritative; userid and name are only fallbacks for events that lack it.
+   */
+  resolve(rawSteamId: unknown, name?: string, rawUserId?: unknown): PlayerIdentity | undefined {
+    const bySteam = this.getBySteamId(rawSteamId);
+    if (bySteam) return bySteam;
+
+    if (rawUserId !== undefined && rawUserId !== null) {
+      const userId = typeof rawUserId === 'number' ? rawUserId : parseInt(String(rawUserId), 10);
+      const byUser = isNaN(userId) ? undefined : this.byUserId.get(userId);
+      if (byUser) return byUser;
+    }
+
+    if (name) {
+      return this.byName.get(name) ?? this.bySteamId.get(`BOT ${name}`);
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve the user/attacker side of a demoparser2 event ("user_steamid" / "attacker_steamid" etc.)
+   */
+  resolveEventPlayer(event: any, prefix: 'user' | 'attacker'): PlayerIdentity | undefined {
+    const steamId = readField(event, `${prefix}_steamid`);
+    const name = readField(event, `${prefix}_name`);
+    const userId = prefix === 'user' ? readField(event, 'userid', 'user_userid', 'user_id') : readField(event, 'attacker', 'attacker_userid');
+    const identity = this.resolve(steamId, name, userId);
+    if (identity && userId !== undefined && normalizeSteamId(steamId)) {
+      this.observeUserId(identity, userId);
+    }
+    return identity;
+  }
+
+  toArray(): PlayerIdentity[] {
+    return Array.from(this.byId.values());
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Radar Drawing
+ *
+ * Geometry and marker styles shared by the radar renderers: the SVG replay (MapVisualization)
+ * and the canvas clip renderer (clipRenderer.ts). Positions are in world units; each renderer
+ * converts to its own space (SVG 0-100 viewBox or canvas pixels). Marker sizes are in radar
+ * units (1 = 1% of the radar's width), the SVG viewBox scale.
+ */
+
+import { DemoFile, Grenade, GrenadePathPoint, GrenadeType, PlayerState, Team, Vector2 } from '../types';
+import { MapConfig, TEAM_COLORS } from '../constants';
+import { findFrameIndexAtTick } from './frameStore';
+import { formatClock, getRecentEvents, PlantedBombState } from './replayState';
+
+// Effect radii in world units (smoke/fire are roughly their in-game size, bursts are visual only)
+export const SMOKE_RADIUS = 144;
+export const MOLOTOV_RADIUS = 120;
+export const FLASH_BURST_RADIUS = 150;
+export const HE_BURST_RADIUS = 200;
+
+// View direction drawing (world units / degrees)
+export const HEADING_LENGTH = 150;
+export const MUZZLE_FLASH_DISTANCE = 75;
+export const MUZZLE_FLASH_TICKS = 6; // How long a shot stays visible (~0.1s at 64 tick)
+export const VIEW_CONE_DEGREES = 90; // Horizontal FOV of the default 4:3 view
+export const VIEW_CONE_LENGTH = 800;
+export const AIM_RAY_SECONDS = 1; // How long the aim ray of a damage/kill event stays visible
+const VIEW_CONE_STEPS = 12; // Arc segments
+const NON_AIMED_WEAPONS = /grenade|inferno|molotov|incendiary|world|fall|knife|bomb|c4/i; // No meaningful aim direction
+
+/**
+ * World point `distance` units from `position` in the yaw direction (yaw 0 = +X, counter-clockwise)
+ */
+export const pointAlongYaw = (position: Vector2, yawDegrees: number, distance: number): Vector2 => {
+  const rad = (yawDegrees || 0) * Math.PI / 180;
+  return { x: position.x + Math.cos(rad) * distance, y: position.y + Math.sin(rad) * distance };
+};
+
+/**
+ * Smallest difference between two angles in degrees (0-180)
+ */
+export const angleDifference = (a: number, b: number) => {
+  const diff = Math.abs((((a - b) % 360) + 360) % 360);
+  return diff > 180 ? 360 - diff : diff;
+};
+
+/**
+ * World coordinates -> 0-1 across the radar image (Y flipped: world Y grows upward, images downward)
+ */
+export const worldToRadar = (mapConfig: MapConfig, worldX: number, worldY: number): Vector2 => ({
+  x: (worldX - mapConfig.minX) / (mapConfig.maxX - mapConfig.minX),
+  y: 1 - (worldY - mapConfig.minY) / (mapConfig.maxY - mapConfig.minY)
+});
+
+// What a grenade looks like at a tick
+export type GrenadeShape =
+  | { kind: 'flight'; type: GrenadeType; path: GrenadePathPoint[] } // Path so far, the last point is the projectile
+  | { kind: 'effect'; type: GrenadeType; center: GrenadePathPoint; radius: number; opacity: number }; // radius 0 = just a dot (decoy)
+
+/**
+ * Shape of a grenade at the tick: in flight (with the projectile interpolated between path
+ * points) or its effect, fading out towards effectEndTick. null when there is nothing to draw.
+ */
+export function getGrenadeShape(grenade: Grenade, tick: number): GrenadeShape | null {
+  if (tick < grenade.throwTick || tick > grenade.effectEndTick) return null;
+
+  // In flight: the path so far plus the projectile
+  if (tick < grenade.detonateTick) {
+    const travelled: GrenadePathPoint[] = [];
+    let head: GrenadePathPoint | null = null;
+    for (let i = 0; i < grenade.path.length; i++) {
+      const point = grenade.path[i];
+      if (point.tick <= tick) {
+        travelled.push(point);
+        continue;
+      }
+      // Interpolate between the last passed point and the next one
+      const previous = grenade.path[i - 1];
+      if (previous) {
+        const factor = (tick - previous.tick) / (point.tick - previous.tick);
+        head = {
+          tick,
+          x: previous.x + (point.x - previous.x) * factor,
+          y: previous.y + (point.y - previous.y) * factor,
+          z: previous.z + (point.z - previous.z) * factor
+        };
+      }
+      break;
+    }
+    if (travelled.length === 0) return null;
+    return { kind: 'flight', type: grenade.type, path: head ? [...travelled, head] : travelled };
+  }
+
+  // Detonated
+  const duration = Math.max(1, grenade.effectEndTick - grenade.detonateTick);
+  const progress = Math.min(1, (tick - grenade.detonateTick) / duration);
+  const fade = Math.min(1, (1 - progress) / 0.1); // Fade out over the last 10%
+  const effect = (radius: number, opacity: number): GrenadeShape =>
+    ({ kind: 'effect', type: grenade.type, center: grenade.position, radius, opacity });
+
+  switch (grenade.type) {
+    case 'smoke':
+      return effect(SMOKE_RADIUS * Math.min(1, 0.4 + progress * 12), 0.55 * fade); // Blooms in ~1s
+    case 'molotov':
+      return effect(MOLOTOV_RADIUS, 0.45 * fade);
+    case 'flash':
+      return effect(FLASH_BURST_RADIUS * (0.3 + progress * 0.7), 0.9 * (1 - progress));
+    case 'he':
+      return effect(HE_BURST_RADIUS * (0.2 + progress * 0.8), 0.6 * (1 - progress));
+    case 'decoy':
+      return effect(0, 0.7 * fade);
+  }
+}
+
+/**
+ * View cone polygon of a player: their position, then the arc VIEW_CONE_LENGTH units away
+ */
+export function getViewConePolygon(player: PlayerState): Vector2[] {
+  const points: Vector2[] = [player.position];
+  for (let step = 0; step <= VIEW_CONE_STEPS; step++) {
+    const yaw = player.viewAngle - VIEW_CONE_DEGREES / 2 + (VIEW_CONE_DEGREES * step) / VIEW_CONE_STEPS;
+    points.push(pointAlongYaw(player.position, yaw, VIEW_CONE_LENGTH));
+  }
+  return points;
+}
+
+// Where an attacker was looking vs. where the victim was, at the tick of a damage/kill event
+export interface AimRay {
+  key: string;
+  attacker: PlayerState;
+  victim: PlayerState;
+  aimEnd: Vector2; // In the attacker's view direction, as far away as the victim
+  offsetDegrees: number; // Between the view direction and the victim
+  isTeamDamage: boolean;
+  isKill: boolean;
+  color: string;
+  opacity: number; // Fades out over AIM_RAY_SECONDS
+}
+
+/**
+ * Aim rays of the damage/kill events of the last AIM_RAY_SECONDS before the tick
+ */
+export function getAimRays(demoFile: DemoFile, tick: number): AimRay[] {
+  const rays: AimRay[] = [];
+  const seen = new Set<string>();
+  for (const event of getRecentEvents(demoFile, tick, ['damage', 'kill'], AIM_RAY_SECONDS)) {
+    if (event.attackerId === undefined || event.victimId === undefined || event.attackerId === event.victimId) continue;
+    if (event.weapon && NON_AIMED_WEAPONS.test(event.weapon)) continue;
+    // A kill also has a damage event on the same tick - draw it once
+    const key = `${event.tick}-${event.attackerId}-${event.victimId}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const frame = demoFile.frames[findFrameIndexAtTick(demoFile.frames, event.tick)];
+    const attacker = frame.players.find(p => p.id === event.attackerId);
+    const victim = frame.players.find(p => p.id === event.victimId);
+    if (!attacker || !victim) continue;
+
+    const dx = victim.position.x - attacker.position.x;
+    const dy = victim.position.y - attacker.position.y;
+    const bearing = Math.atan2(dy, dx) * 180 / Math.PI;
+    const isTeamDamage = attacker.team === victim.team;
+    const age = (tick - event.tick) / demoFile.tickRate;
+    rays.push({
+      key,
+      attacker,
+      victim,
+      aimEnd: pointAlongYaw(attacker.position, attacker.viewAngle, Math.max(Math.hypot(dx, dy), HEADING_LENGTH)),
+      offsetDegrees: angleDifference(attacker.viewAngle, bearing),
+      isTeamDamage,
+      isKill: event.type === 'kill',
+      color: isTeamDamage ? '#ef4444' : '#f8fafc',
+      opacity: Math.max(0.2, 1 - age / AIM_RAY_SECONDS)
+    });
+  }
+  return rays;
+}
+
+/**
+ * Players whose shot count went up within the last MUZZLE_FLASH_TICKS before the tick
+ */
+export function getFiringPlayerIds(demoFile: DemoFile, tick: number): Set<number> {
+  const firing = new Set<number>();
+  const frames = demoFile.frames;
+  if (frames.length === 0) return firing;
+  for (let i = findFrameIndexAtTick(frames, tick); i > 0 && frames[i].tick > tick - MUZZLE_FLASH_TICKS; i--) {
+    const previous = frames[i - 1].players;
+    for (const player of frames[i].players) {
+      const before = previous.find(p => p.id === player.id);
+      if (before && player.shotsFired !== undefined && before.shotsFired !== undefined && player.shotsFired > before.shotsFired) {
+        firing.add(player.id);
+      }
+    }
+  }
+  return firing;
+}
+
+// How a player marker is drawn
+export interface PlayerMarkerStyle {
+  color: string; // Team color (view direction, halo)
+  radius: number;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  opacity: number;
+  haloRadius: number | null; // Pulsing halo around highlighted players
+  showHeading: boolean; // View direction line, HEADING_LENGTH long
+  showBombIcon: boolean;
+  showName: boolean;
+  isDisconnected: boolean;
+}
+
+/**
+ * Marker of a player: selected players are larger, highlighted (involved) players get a halo and
+ * their name, bomb carriers a red outline. Dead and disconnected players are greyed out.
+ */
+export function getPlayerMarkerStyle(player: PlayerState, isSelected: boolean, isHighlighted: boolean): PlayerMarkerStyle {
+  const color = TEAM_COLORS[player.team] || TEAM_COLORS[Team.SPECTATOR];
+  const isDead = !player.isAlive;
+  const isDisconnected = player.isConnected === false;
+  return {
+    color,
+    radius: isSelected ? 1.8 : 1.2,
+    fill: isDead ? '#64748b' : (isDisconnected ? '#94a3b8' : color),
+    stroke: player.hasBomb ? '#ef4444' : (isSelected ? '#ffffff' : '#000000'),
+    strokeWidth: player.hasBomb ? 0.4 : (isSelected ? 0.3 : 0.2),
+    opacity: isDead ? 0.5 : (isDisconnected ? 0.4 : 1),
+    haloRadius: isHighlighted ? 1.5 : null,
+    showHeading: !isDead,
+    showBombIcon: player.hasBomb && !isDead,
+    showName: isHighlighted,
+    isDisconnected: isDisconnected && !isDead
+  };
+}
+
+// How the planted bomb is drawn
+export interface BombMarker {
+  position: Vector2;
+  color: string;
+  label: string; // Time left, or "Defused"
+  isTicking: boolean; // Pulsing ring while it counts down
+}
+
+/**
+ * Planted bomb marker, null when there is no planted bomb to draw (none, no position or exploded)
+ */
+export function getBombMarker(bomb: PlantedBombState | null): BombMarker | null {
+  if (!bomb?.position || bomb.exploded) return null;
+  return {
+    position: bomb.position,
+    color: bomb.defused ? '#22c55e' : '#ef4444',
+    label: bomb.defused ? 'Defused' : formatClock(bomb.secondsLeft),
+    isTicking: !bomb.defused
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Replay State
+ *
+ * What the replay HUD shows at a given tick: the round and its phase, the round
+ * clock (counted from Round.freezeEndTick), the planted bomb and the score, plus
+ * the kills for the kill feed, and the players interpolated between the sparse
+ * frames for smooth playback. Everything is derived from DemoFile on demand.
+ */
+
+import { BombEvent, DemoFile, GameEvent, MatchFrame, PlayerState, Round, Team, Vector2 } from '../types';
+import { findFrameIndexAtTick } from './frameStore';
+
+export const ROUND_TIME_SECONDS = 115; // mp_roundtime 1:55
+export const BOMB_TIMER_SECONDS = 40; // mp_c4timer
+export const KILL_FEED_SECONDS = 5; // How long a kill stays in the feed
+
+export type RoundPhase = 'warmup' | 'freeze' | 'live' | 'planted' | 'over';
+
+export interface PlantedBombState {
+  plantTick: number;
+  position?: Vector2;
+  planterName?: string;
+  secondsLeft: number; // Until explosion
+  defusing: boolean; // A defuse has started since the plant
+  defused: boolean;
+  exploded: boolean;
+}
+
+export interface RoundState {
+  round: Round | null;
+  phase: RoundPhase;
+  clockSeconds: number | null; // Freeze time left, round time left or bomb time left, depending on phase
+  bomb: PlantedBombState | null;
+  score: { ct: number; t: number };
+}
+
+/**
+ * Round in progress at the tick, or the last round that started before it
+ */
+export function findRoundAtTick(rounds: Round[], tick: number): Round | null {
+  let found: Round | null = null;
+  for (const round of rounds) {
+    if (round.startTick > tick) break;
+    found = round;
+  }
+  return found;
+}
+
+/**
+ * Start tick of the next (direction 1) or previous (direction -1) round, null if there is none.
+ * Going back from more than graceTicks into a round restarts that round first, like a media player.
+ */
+export function findAdjacentRoundStartTick(rounds: Round[], tick: number, direction: 1 | -1, graceTicks: number = 0): number | null {
+  if (direction === 1) {
+    const next = rounds.find(round => round.startTick > tick);
+    return next ? next.startTick : null;
+  }
+  for (let i = rounds.length - 1; i >= 0; i--) {
+    if (rounds[i].startTick < tick - graceTicks) return rounds[i].startTick;
+  }
+  return null;
+}
+
+/**
+ * Rounds won per side up to and including the tick
+ */
+export function getScoreAtTick(rounds: Round[], tick: number): { ct: number; t: number } {
+  const score = { ct: 0, t: 0 };
+  for (const round of rounds) {
+    if (!round.winner || round.endTick === undefined || round.endTick > tick) continue;
+    if (round.winner === Team.CT) score.ct++;
+    else if (round.winner === Team.T) score.t++;
+  }
+  return score;
+}
+
+/**
+ * Planted bomb in the round at the tick (null before the plant or without bomb events)
+ */
+function getPlantedBomb(bombEvents: BombEvent[], round: Round, tick: number, tickRate: number): PlantedBombState | null {
+  const roundEnd = round.endTick ?? Infinity;
+  let bomb: PlantedBombState | null = null;
+  for (const event of bombEvents) {
+    if (event.tick > tick) break;
+    if (event.tick < round.startTick || event.tick > roundEnd) continue;
+    if (event.type === 'plant') {
+      bomb = {
+        plantTick: event.tick,
+        position: event.position,
+        planterName: event.playerName,
+        secondsLeft: BOMB_TIMER_SECONDS,
+        defusing: false,
+        defused: false,
+        exploded: false
+      };
+    } else if (bomb && event.type === 'begin_defuse') {
+      bomb.defusing = true;
+    } else if (bomb && event.type === 'defuse') {
+      bomb.defused = true;
+      bomb.defusing = false;
+    } else if (bomb && event.type === 'explode') {
+      bomb.exploded = true;
+    }
+  }
+  if (bomb && !bomb.defused && !bomb.exploded) {
+    bomb.secondsLeft = Math.max(0, BOMB_TIMER_SECONDS - (tick - bomb.plantTick) / tickRate);
+  } else if (bomb) {
+    bomb.secondsLeft = 0;
+  }
+  return bomb;
+}
+
+/**
+ * HUD state at a game tick
+ */
+export function getRoundState(demoFile: DemoFile, tick: number): RoundState {
+  const rounds = demoFile.rounds || [];
+  const tickRate = demoFile.tickRate || 64;
+  const score = getScoreAtTick(rounds, tick);
+  const round = findRoundAtTick(rounds, tick);
+  if (!round) {
+    return { round: null, phase: 'warmup', clockSeconds: null, bomb: null, score };
+  }
+
+  const bomb = getPlantedBomb(demoFile.bombEvents || [], round, tick, tickRate);
+
+  if (round.endTick !== undefined && tick >= round.endTick) {
+    return { round, phase: 'over', clockSeconds: null, bomb, score };
+  }
+  if (round.freezeEndTick !== undefined && tick < round.freezeEndTick) {
+    return { round, phase: 'freeze', clockSeconds: (round.freezeEndTick - tick) / tickRate, bomb, score };
+  }
+  if (bomb && !bomb.defused && !bomb.exploded) {
+    return { round, phase: 'planted', clockSeconds: bomb.secondsLeft, bomb, score };
+  }
+  if (bomb) {
+    // Defused/exploded but round_end not reached yet
+    return { round, phase: 'over', clockSeconds: null, bomb, score };
+  }
+
+  // No freeze end recorded: count from the round start instead
+  const liveStart = round.freezeEndTick ?? round.startTick;
+  const clockSeconds = Math.max(0, ROUND_TIME_SECONDS - (tick - liveStart) / tickRate);
+  return { round, phase: 'live', clockSeconds, bomb, score };
+}
+
+/**
+ * Frame events of the given types in the last `seconds` up to the tick, most recent first
+ */
+export function getRecentEvents(demoFile: DemoFile, tick: number, types: GameEvent['type'][], seconds: number, limit: number = Infinity): GameEvent[] {
+  const frames = demoFile.frames;
+  if (frames.length === 0) return [];
+  const fromTick = tick - seconds * (demoFile.tickRate || 64);
+  const events: GameEvent[] = [];
+  for (let i = findFrameIndexAtTick(frames, tick); i >= 0 && frames[i].tick >= fromTick; i--) {
+    const frameEvents = frames[i].events.filter(e => types.includes(e.type) && e.tick <= tick);
+    for (let k = frameEvents.length - 1; k >= 0 && events.length < limit; k--) {
+      events.push(frameEvents[k]);
+    }
+    if (events.length >= limit) break;
+  }
+  return events;
+}
+
+/**
+ * Kills in the last KILL_FEED_SECONDS up to the tick, most recent first
+ */
+export function getRecentKills(demoFile: DemoFile, tick: number, seconds: number = KILL_FEED_SECONDS, limit: number = 5): GameEvent[] {
+  return getRecentEvents(demoFile, tick, ['kill'], seconds, limit);
+}
+
+/**
+ * "1:05" / "0:09.4" style clock (tenths under 10 seconds, like the in-game bomb timer)
+ */
+export function formatClock(seconds: number): string {
+  if (seconds < 9.95) return `0:0${seconds.toFixed(1)}`;
+  const whole = Math.ceil(seconds);
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Frame at any tick, with player positions, view angles and HP interpolated between the
+ * frames before and after it (frames only exist at event ticks). Events come from the earlier frame.
+ * Used by the 2D replay and the incident previews.
+ */
+export function getInterpolatedFrame(frames: MatchFrame[], targetTick: number, tickRate: number): MatchFrame | null {
+  if (frames.length === 0) return null;
+
+  // The frame with tick <= targetTick and the one after it
+  const closestIndex = findFrameIndexAtTick(frames, targetTick);
+  const frameA = frames[closestIndex];
+  if (closestIndex >= frames.length - 1) {
+    // We're at or past the last frame
+    return frameA;
+  }
+  const frameB = frames[closestIndex + 1];
+
+  // If targetTick is at (or before) frameA, or at/past frameB, no interpolation is needed
+  if (targetTick <= frameA.tick) return frameA;
+  if (targetTick >= frameB.tick) return frameB;
+
+  // Calculate interpolation factor
+  const tickDiff = frameB.tick - frameA.tick;
+  if (tickDiff === 0) return frameA;
+  const interpolationFactor = (targetTick - frameA.tick) / tickDiff;
+
+  // Players that appear/disappear between the frames keep the data of the frame they are in
+  const playersA = new Map(frameA.players.map(p => [p.id, p]));
+  const playersB = new Map(frameB.players.map(p => [p.id, p]));
+  const allPlayerIds = new Set<number>([...playersA.keys(), ...playersB.keys()]);
+  const interpolatedPlayers: PlayerState[] = [];
+
+  for (const playerId of allPlayerIds) {
+    const playerA = playersA.get(playerId);
+    const playerB = playersB.get(playerId);
+    if (!playerA || !playerB) {
+      interpolatedPlayers.push((playerA || playerB)!);
+      continue;
+    }
+
+    // Interpolate position
+    const interpolatedX = playerA.position.x + (playerB.position.x - playerA.position.x) * interpolationFactor;
+    const interpolatedY = playerA.position.y + (playerB.position.y - playerA.position.y) * interpolationFactor;
+    const interpolatedZ = playerA.position.z !== undefined && playerB.position.z !== undefined
+      ? playerA.position.z + (playerB.position.z - playerA.position.z) * interpolationFactor
+      : playerB.position.z;
+
+    // Interpolate view angle (handle 360° wrap-around)
+    let angleDiff = playerB.viewAngle - playerA.viewAngle;
+    if (angleDiff > 180) angleDiff -= 360;
+    if (angleDiff < -180) angleDiff += 360;
+    const interpolatedAngle = (playerA.viewAngle + angleDiff * interpolationFactor + 360) % 360;
+
+    // Interpolate HP (round to nearest integer)
+    const interpolatedHp = Math.round(playerA.hp + (playerB.hp - playerA.hp) * interpolationFactor);
+
+    // Use playerB's properties but with interpolated values
+    // Keep shotsFired from playerB (most recent value) for accurate muzzle flash detection
+    interpolatedPlayers.push({
+      ...playerB,
+      hp: interpolatedHp,
+      position: {
+        x: interpolatedX,
+        y: interpolatedY,
+        ...(interpolatedZ !== undefined && { z: interpolatedZ })
+      },
+      viewAngle: interpolatedAngle,
+      shotsFired: playerB.shotsFired
+    });
+  }
+
+  return {
+    tick: targetTick,
+    time: targetTick / tickRate,
+    players: interpolatedPlayers,
+    events: frameA.events // Events from the closest frame (frameA)
+  };
+}
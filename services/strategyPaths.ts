@@ -0,0 +1,138 @@
+/**
+ * Strategy Paths
+ *
+ * Movement paths of one side across many rounds, aligned on time since freeze end so
+ * rounds can be overlaid on one radar: default setups, rotations and executes show up
+ * as bundles of similar paths.
+ *
+ * Paths are built from the per-player tracks (FrameStore.getPlayerTrack) and thinned
+ * out, since frames at every event tick are far denser than a radar line needs.
+ */
+
+import { DemoFile, Round, Team } from '../types';
+import { FrameStore } from './frameStore';
+
+const MIN_POINT_DISTANCE = 24; // World units between kept path points
+
+export interface StrategyFilter {
+  side: Team.CT | Team.T; // Side the players were on at freeze end
+  playerIds: number[]; // Empty = the whole side
+  roundNumbers: number[];
+}
+
+export interface StrategyPathPoint {
+  time: number; // Seconds since freeze end
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface StrategyPath {
+  playerId: number;
+  playerName: string;
+  roundNumber: number;
+  points: StrategyPathPoint[]; // Until death or round end
+  deathTime?: number; // Seconds since freeze end, when the player died before round end
+}
+
+/**
+ * Paths of the filtered players for each selected round
+ */
+export function buildStrategyPaths(demoFile: DemoFile, filter: StrategyFilter): StrategyPath[] {
+  const store = FrameStore.fromDemoFile(demoFile);
+  const selectedRounds = new Set(filter.roundNumbers);
+  const playerFilter = filter.playerIds.length > 0 ? new Set(filter.playerIds) : null;
+  const names = new Map((demoFile.players || []).map(player => [player.id, player.name]));
+  const paths: StrategyPath[] = [];
+
+  for (const round of demoFile.rounds || []) {
+    if (!selectedRounds.has(round.number)) continue;
+    const bounds = store.getRoundBounds(round);
+    if (!bounds) continue;
+    const freezeEndTick = round.freezeEndTick || round.startTick;
+
+    // Who was on the side when the round went live: the frame closest to freeze end, which can
+    // fall just before it (frames only exist at event ticks)
+    const freezeEndFrame = store.getFrameNear(freezeEndTick) || bounds.first;
+    const sidePlayers = store.getPlayers(freezeEndFrame.index).filter(player =>
+      player.isAlive && player.team === filter.side && (!playerFilter || playerFilter.has(player.id))
+    );
+
+    for (const player of sidePlayers) {
+      const track = store.getPlayerTrack(player.id, bounds.first.tick, bounds.last.tick);
+      const points: StrategyPathPoint[] = [];
+      let deathTime: number | undefined;
+
+      for (let i = 0; i < track.ticks.length; i++) {
+        const point = {
+          time: (track.ticks[i] - freezeEndTick) / demoFile.tickRate,
+          x: track.x[i],
+          y: track.y[i],
+          z: track.z[i]
+        };
+        if (!track.alive[i]) {
+          deathTime = point.time;
+          break;
+        }
+        const last = points[points.length - 1];
+        if (last && Math.hypot(point.x - last.x, point.y - last.y) < MIN_POINT_DISTANCE && i < track.ticks.length - 1) continue;
+        points.push(point);
+      }
+
+      if (points.length === 0) continue;
+      paths.push({
+        playerId: player.id,
+        playerName: names.get(player.id) || player.name,
+        roundNumber: round.number,
+        points,
+        deathTime
+      });
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Longest live round phase among the selected rounds, in seconds (the time slider range)
+ */
+export function getStrategyDuration(demoFile: DemoFile, rounds: Round[]): number {
+  const store = FrameStore.fromDemoFile(demoFile);
+  let longest = 0;
+  for (const round of rounds) {
+    const bounds = store.getRoundBounds(round);
+    if (!bounds) continue;
+    const freezeEndTick = round.freezeEndTick || round.startTick;
+    longest = Math.max(longest, (bounds.last.tick - freezeEndTick) / demoFile.tickRate);
+  }
+  return longest;
+}
+
+/**
+ * The part of a path up to `time`, ending with the interpolated position at that time.
+ * Empty before the first point.
+ */
+export function getPathUntil(path: StrategyPath, time: number): StrategyPathPoint[] {
+  const { points } = path;
+  if (points.length === 0 || time < points[0].time) return [];
+
+  const result: StrategyPathPoint[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const point = points[i];
+    if (point.time <= time) {
+      result.push(point);
+      continue;
+    }
+    // Interpolate between the last passed point and the next one
+    const previous = points[i - 1];
+    const factor = (time - previous.time) / (point.time - previous.time);
+    result.push({
+      time,
+      x: previous.x + (point.x - previous.x) * factor,
+      y: previous.y + (point.y - previous.y) * factor,
+      z: previous.z + (point.z - previous.z) * factor
+    });
+    break;
+  }
+  return result;
+}
@@ -7,6 +7,7 @@
  */
 
 import { DemoFile, Team } from '../types';
+import type { DetectorProgress } from './detectorRegistry';
 
 export interface TeamDamage {
   round: number;
@@ -28,23 +29,28 @@ export interface TeamDamage {
 /**
  * Detect team damage (friendly fire damage)
  */
-export function detectTeamDamage(demoFile: DemoFile): TeamDamage[] {
+export function detectTeamDamage(demoFile: DemoFile, onProgress?: DetectorProgress): TeamDamage[] {
   const teamDamage: TeamDamage[] = [];
   const tickRate = demoFile.tickRate;
 
-  // Build a map of player names to their IDs, teams, and HP at each tick
-  const playerInfoByTick = new Map<number, Map<string, { id: number; team: Team; hp: number }>>();
+  // Build a map of player IDs to their teams and HP at each tick
+  const playerInfoByTick = new Map<number, Map<number, { id: number; team: Team; hp: number }>>();
 
   for (const frame of demoFile.frames) {
-    const playerMap = new Map<string, { id: number; team: Team; hp: number }>();
+    const playerMap = new Map<number, { id: number; team: Team; hp: number }>();
     for (const player of frame.players) {
-      playerMap.set(player.name, { id: player.id, team: player.team, hp: player.hp });
+      playerMap.set(player.id, { id: player.id, team: player.team, hp: player.hp });
     }
     playerInfoByTick.set(frame.tick, playerMap);
   }
 
   // Process damage events
-  for (const frame of demoFile.frames) {
+  const progressInterval = Math.max(1, Math.floor(demoFile.frames.length / 10));
+  for (let frameIndex = 0; frameIndex < demoFile.frames.length; frameIndex++) {
+    const frame = demoFile.frames[frameIndex];
+    if (frameIndex % progressInterval === 0) {
+      onProgress?.(frameIndex / demoFile.frames.length, `Processing damage events... (${teamDamage.length} team damage events found)`);
+    }
     for (const event of frame.events) {
       if (event.type === 'damage' && event.attackerName && event.victimName && event.damage) {
         // Filter out world/environmental damage
@@ -60,8 +66,9 @@ export function detectTeamDamage(demoFile: DemoFile): TeamDamage[] {
         const playerInfo = playerInfoByTick.get(frame.tick);
         if (!playerInfo) continue;
 
-        const attackerInfo = playerInfo.get(event.attackerName);
-        const victimInfo = playerInfo.get(event.victimName);
+        if (event.attackerId === undefined || event.victimId === undefined) continue;
+        const attackerInfo = playerInfo.get(event.attackerId);
+        const victimInfo = playerInfo.get(event.victimId);
 
         if (!attackerInfo || !victimInfo) continue;
 
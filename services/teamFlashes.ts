@@ -0,0 +1,206 @@
+/**
+ * Team Flash Detection
+ *
+ * Detects friendly flashbangs from player_blind events (thrower and victim on
+ * the same team).
+ */
+
+import { DemoFile, Team } from '../types';
+import { PlayerRegistry, readField } from './playerIdentity';
+
+export interface TeamFlash {
+  round: number;
+  tick: number;
+  time: number; // seconds
+  throwerId: number;
+  throwerName: string;
+  throwerTeam: Team;
+  victimId: number;
+  victimName: string;
+  victimTeam: Team;
+  flashDuration: number; // Duration in seconds that the victim was flashed
+  flashPosition: { x: number; y: number; z?: number }; // Where flashbang detonated
+  victimPosition: { x: number; y: number; z?: number }; // Where victim was when flashed
+}
+
+/**
+ * Detect team flashes (friendly flashbangs)
+ * Uses only player_blind events which contain all needed information (victim, thrower, duration, position)
+ */
+export function detectTeamFlashes(demoFile: DemoFile, players: PlayerRegistry): TeamFlash[] {
+  const teamFlashes: TeamFlash[] = [];
+  
+  try {
+    const playerBlinds = demoFile.playerBlindEvents || [];
+    
+    if (playerBlinds.length === 0) {
+      console.log('No player_blind events available for team flash detection');
+      return teamFlashes;
+    }
+
+    console.log(`Processing ${playerBlinds.length} player_blind events`);
+    
+    // Log sample event for debugging
+    if (playerBlinds.length > 0) {
+      const firstBlind = playerBlinds[0];
+      if (firstBlind instanceof Map) {
+        console.log('Sample player_blind (Map):', Array.from(firstBlind.entries()));
+      } else {
+        console.log('Sample player_blind (Object):', Object.keys(firstBlind), firstBlind);
+      }
+    }
+
+    const tickRate = demoFile.tickRate;
+    
+    // Process each player_blind event
+    for (const blindEvent of playerBlinds) {
+      try {
+        // Extract blind event data - player_blind events should contain thrower/attacker info
+        let blindTick = 0;
+        let flashDuration = 0;
+        let flashPosition: { x: number; y: number; z?: number } | undefined;
+        
+        if (blindEvent instanceof Map) {
+          blindTick = blindEvent.get('tick') || blindEvent.get('tick_num') || 0;
+          flashDuration = blindEvent.get('blind_duration') || blindEvent.get('flash_duration') || blindEvent.get('duration') || 0;
+          const x = blindEvent.get('x') || blindEvent.get('X') || blindEvent.get('flash_x');
+          const y = blindEvent.get('y') || blindEvent.get('Y') || blindEvent.get('flash_y');
+          const z = blindEvent.get('z') || blindEvent.get('Z') || blindEvent.get('flash_z');
+          if (x !== undefined && y !== undefined && x !== null && y !== null) {
+            flashPosition = { x, y, z };
+          }
+        } else {
+          blindTick = blindEvent.tick || blindEvent.tick_num || 0;
+          flashDuration = blindEvent.blind_duration || blindEvent.flash_duration || blindEvent.duration || 0;
+          const x = blindEvent.x || blindEvent.X || blindEvent.flash_x;
+          const y = blindEvent.y || blindEvent.Y || blindEvent.flash_y;
+          const z = blindEvent.z || blindEvent.Z || blindEvent.flash_z;
+          if (x !== undefined && y !== undefined && x !== null && y !== null) {
+            flashPosition = { x, y, z };
+          }
+        }
+        
+        // Filter out flashes shorter than 1 second (not significant team flashes)
+        if (blindTick === 0 || flashDuration <= 0 || flashDuration < 1.0) {
+          continue;
+        }
+        
+        // Resolve victim (user) and thrower (attacker) by SteamID
+        const victimIdentity = players.resolveEventPlayer(blindEvent, 'user');
+        const throwerIdentity = players.resolveEventPlayer(blindEvent, 'attacker');
+        
+        // Skip if no thrower information (can't determine if it's a team flash)
+        if (!victimIdentity || !throwerIdentity) {
+          continue;
+        }
+        
+        // Skip if victim and thrower are the same (self-flash, not a team flash)
+        if (victimIdentity.id === throwerIdentity.id) {
+          continue;
+        }
+        
+        const victimName = readField(blindEvent, 'user_name') || victimIdentity.name;
+        const throwerName = readField(blindEvent, 'attacker_name') || throwerIdentity.name;
+        
+        // Find victim and thrower info from frames
+        let victimTeam: Team | undefined;
+        let victimPosition: { x: number; y: number; z?: number } | undefined;
+        let throwerTeam: Team | undefined;
+        
+        // Try to find victim and thrower in frames
+        for (const frame of demoFile.frames) {
+          if (frame.tick >= blindTick - 5 && frame.tick <= blindTick) {
+            // Find victim
+            if (!victimTeam) {
+              const victim = frame.players.find(p => p.id === victimIdentity.id);
+              if (victim) {
+                victimTeam = victim.team;
+                victimPosition = victim.position;
+              }
+            }
+            
+            // Find thrower
+            if (!throwerTeam) {
+              const thrower = frame.players.find(p => p.id === throwerIdentity.id);
+              if (thrower) {
+                throwerTeam = thrower.team;
+              }
+            }
+            
+            if (victimTeam && throwerTeam) {
+              break;
+            }
+          }
+        }
+        
+        // Check if victim and thrower are on the same team (team flash)
+        // Also filter out flashes shorter than 1 second (not significant team flashes)
+        if (victimTeam && throwerTeam && victimTeam === throwerTeam && victimTeam !== Team.SPECTATOR && flashDuration >= 1.0) {
+          // Find which round this flash occurred in
+          const round = demoFile.rounds.find(
+            r => r.startTick && blindTick >= r.startTick && (!r.endTick || blindTick <= r.endTick)
+          );
+          
+          // Find frame time for this tick
+          const frame = demoFile.frames.find(f => f.tick === blindTick);
+          const frameTime = frame ? frame.time : blindTick / tickRate;
+          
+          teamFlashes.push({
+            round: round?.number || 0,
+            tick: blindTick,
+            time: frameTime,
+            throwerId: throwerIdentity.id,
+            throwerName: throwerName || 'Unknown',
+            throwerTeam: throwerTeam,
+            victimId: victimIdentity.id,
+            victimName: victimName,
+            victimTeam: victimTeam,
+            flashDuration: flashDuration,
+            flashPosition: flashPosition || { x: 0, y: 0 },
+            victimPosition: victimPosition || { x: 0, y: 0 }
+          });
+        }
+      } catch (err: any) {
+        console.warn('Error processing player_blind event:', err);
+        continue;
+      }
+    }
+    
+    console.log(`Detected ${teamFlashes.length} team flash events from ${playerBlinds.length} player_blind events`);
+  
+    // Deduplicate - same thrower-victim pair within a short time window (1 second) is likely the same flash
+  const deduplicated: TeamFlash[] = [];
+  const processed = new Set<string>();
+  const DEDUP_TIME_WINDOW = 1; // seconds
+  
+  teamFlashes.sort((a, b) => {
+    if (a.time !== b.time) return a.time - b.time;
+    return a.tick - b.tick;
+  });
+  
+  for (const flash of teamFlashes) {
+    const key = `${flash.throwerId}-${flash.victimId}-${flash.round}`;
+    const lastFlash = deduplicated.find(f => 
+      f.throwerId === flash.throwerId && 
+      f.victimId === flash.victimId &&
+      f.round === flash.round &&
+      Math.abs(f.time - flash.time) < DEDUP_TIME_WINDOW
+    );
+    
+    if (!lastFlash) {
+      deduplicated.push(flash);
+    } else {
+      // Keep the one with higher flashDuration (more flashed)
+      if (flash.flashDuration > lastFlash.flashDuration) {
+        const index = deduplicated.indexOf(lastFlash);
+        deduplicated[index] = flash;
+      }
+    }
+  }
+  
+    return deduplicated;
+  } catch (err: any) {
+    console.warn('Error in detectTeamFlashes:', err);
+    return [];
+  }
+}
@@ -6,6 +6,7 @@
  */
 
 import { DemoFile, Team } from '../types';
+import type { DetectorProgress } from './detectorRegistry';
 
 export interface TeamKill {
   round: number;
@@ -24,33 +25,36 @@ export interface TeamKill {
 /**
  * Detect team kills (friendly fire kills)
  */
-export function detectTeamKills(demoFile: DemoFile): TeamKill[] {
+export function detectTeamKills(demoFile: DemoFile, onProgress?: DetectorProgress): TeamKill[] {
   const teamKills: TeamKill[] = [];
 
-  // Build a map of player names to their IDs and teams at each tick
-  const playerInfoByTick = new Map<number, Map<string, { id: number; team: Team }>>();
+  // Build a map of player IDs to their teams at each tick
+  const playerInfoByTick = new Map<number, Map<number, { id: number; team: Team }>>();
 
   for (const frame of demoFile.frames) {
-    const playerMap = new Map<string, { id: number; team: Team }>();
+    const playerMap = new Map<number, { id: number; team: Team }>();
     for (const player of frame.players) {
-      playerMap.set(player.name, { id: player.id, team: player.team });
+      playerMap.set(player.id, { id: player.id, team: player.team });
     }
     playerInfoByTick.set(frame.tick, playerMap);
   }
 
   // Process kill events
-  for (const frame of demoFile.frames) {
+  const progressInterval = Math.max(1, Math.floor(demoFile.frames.length / 10));
+  for (let frameIndex = 0; frameIndex < demoFile.frames.length; frameIndex++) {
+    const frame = demoFile.frames[frameIndex];
+    if (frameIndex % progressInterval === 0) {
+      onProgress?.(frameIndex / demoFile.frames.length, `Processing kill events... (${teamKills.length} team kills found)`);
+    }
     for (const event of frame.events) {
       if (event.type === 'kill') {
-        // Parse the kill event description to extract attacker and victim
-        // Format: "attackerName killed victimName with weapon (headshot)"
-        const match = event.description.match(/^(.+?)\s+killed\s+(.+?)\s+with\s+(.+?)(?:\s+\(headshot\))?$/i);
-        if (!match) continue;
+        // Kill events carry the SteamID-resolved player ids, names are for display only
+        if (event.attackerId === undefined || event.victimId === undefined) continue;
 
-        const attackerName = match[1].trim();
-        const victimName = match[2].trim();
-        const weapon = match[3].trim();
-        const isHeadshot = event.description.toLowerCase().includes('headshot');
+        const attackerName = event.attackerName || 'Unknown';
+        const victimName = event.victimName || 'Unknown';
+        const weapon = event.weapon || 'unknown';
+        const isHeadshot = !!event.isHeadshot;
 
         // Filter out world/environmental kills
         const attackerNameLower = attackerName.toLowerCase();
@@ -71,8 +75,8 @@ export function detectTeamKills(demoFile: DemoFile): TeamKill[] {
         const playerInfo = playerInfoByTick.get(frame.tick);
         if (!playerInfo) continue;
 
-        const attackerInfo = playerInfo.get(attackerName);
-        const victimInfo = playerInfo.get(victimName);
+        const attackerInfo = playerInfo.get(event.attackerId);
+        const victimInfo = playerInfo.get(event.victimId);
 
         if (!attackerInfo || !victimInfo) continue;
 
@@ -0,0 +1,145 @@
+/**
+ * Timeline Markers
+ *
+ * Flattens game events (kills, plants, defuses) and the incidents in
+ * AnalysisResults into markers for the Controls scrubber. Every marker belongs
+ * to a layer so the layers can be toggled independently; markers with an
+ * endTick cover a range (AFK spans, disconnects, objective stalls).
+ */
+
+import { DemoFile } from '../types';
+import type { AnalysisResults } from './demoAnalyzer';
+
+export type TimelineLayerId = 'kills' | 'bomb' | 'afk' | 'teamKills' | 'teamDamage' | 'teamFlashes' | 'disconnects' | 'objective';
+
+export interface TimelineLayer {
+  id: TimelineLayerId;
+  label: string;
+  color: string;
+  source: 'events' | 'analysis'; // Analysis layers are empty until the demo has been analyzed
+}
+
+export const TIMELINE_LAYERS: TimelineLayer[] = [
+  { id: 'kills', label: 'Kills', color: '#e2e8f0', source: 'events' },
+  { id: 'bomb', label: 'Plants & defuses', color: '#f97316', source: 'events' },
+  { id: 'afk', label: 'AFK', color: '#eab308', source: 'analysis' },
+  { id: 'teamKills', label: 'Team kills', color: '#ef4444', source: 'analysis' },
+  { id: 'teamDamage', label: 'Team damage', color: '#f87171', source: 'analysis' },
+  { id: 'teamFlashes', label: 'Team flashes', color: '#fde047', source: 'analysis' },
+  { id: 'disconnects', label: 'Disconnects', color: '#a855f7', source: 'analysis' },
+  { id: 'objective', label: 'Objective', color: '#22d3ee', source: 'analysis' }
+];
+
+export interface TimelineMarker {
+  layer: TimelineLayerId;
+  tick: number;
+  endTick?: number; // Set for ranges
+  label: string; // Tooltip
+  playerIds?: number[]; // Players involved (for highlighting / camera fit)
+}
+
+/**
+ * All markers for a demo, sorted by tick. Pass null results to get only the game event layers.
+ */
+export function buildTimelineMarkers(demoFile: DemoFile, results: AnalysisResults | null): TimelineMarker[] {
+  const markers: TimelineMarker[] = [];
+
+  // Game events
+  for (const frame of demoFile.frames) {
+    for (const event of frame.events) {
+      if (event.type === 'kill') {
+        markers.push({ layer: 'kills', tick: event.tick, label: event.description });
+      }
+    }
+  }
+  for (const event of demoFile.bombEvents || []) {
+    if (event.type === 'plant' || event.type === 'defuse') {
+      const verb = event.type === 'plant' ? 'planted' : 'defused';
+      markers.push({ layer: 'bomb', tick: event.tick, label: `${event.playerName || 'Unknown'} ${verb} the bomb` });
+    } else if (event.type === 'explode') {
+      markers.push({ layer: 'bomb', tick: event.tick, label: 'Bomb exploded' });
+    }
+  }
+
+  if (results) {
+    for (const afk of results.afkDetections) {
+      const start = afk.startAfkTick ?? afk.freezeEndTick ?? afk.startTick;
+      markers.push({
+        layer: 'afk',
+        tick: start,
+        endTick: afk.endAfkTick,
+        playerIds: [afk.playerId],
+        label: `${afk.playerName} AFK for ${afk.afkDuration.toFixed(1)}s (round ${afk.round})`
+      });
+    }
+    for (const kill of results.teamKills) {
+      markers.push({
+        layer: 'teamKills',
+        tick: kill.tick,
+        playerIds: [kill.attackerId, kill.victimId],
+        label: `${kill.attackerName} team-killed ${kill.victimName} with ${kill.weapon}`
+      });
+    }
+    // One marker per damage group, a burst of hits is one incident
+    const seenDamageGroups = new Set<number>();
+    for (const damage of results.teamDamage) {
+      if (damage.groupId !== undefined) {
+        if (seenDamageGroups.has(damage.groupId)) continue;
+        seenDamageGroups.add(damage.groupId);
+      }
+      markers.push({
+        layer: 'teamDamage',
+        tick: damage.tick,
+        playerIds: [damage.attackerId, damage.victimId],
+        label: `${damage.attackerName} damaged ${damage.victimName} (${damage.damage} HP)`
+      });
+    }
+    for (const flash of results.teamFlashes) {
+      markers.push({
+        layer: 'teamFlashes',
+        tick: flash.tick,
+        playerIds: [flash.throwerId, flash.victimId],
+        label: `${flash.throwerName} flashed ${flash.victimName} for ${flash.flashDuration.toFixed(1)}s`
+      });
+    }
+    for (const disconnect of results.disconnects) {
+      markers.push({
+        layer: 'disconnects',
+        tick: disconnect.disconnectTick,
+        endTick: disconnect.reconnectTick,
+        playerIds: [disconnect.playerId],
+        label: disconnect.reconnectTick !== undefined
+          ? `${disconnect.playerName} disconnected for ${(disconnect.duration ?? 0).toFixed(0)}s`
+          : `${disconnect.playerName} disconnected${disconnect.reason ? ` (${disconnect.reason})` : ''}`
+      });
+    }
+    for (const round of results.objectiveSabotage) {
+      for (const event of round.allEvents) {
+        markers.push({
+          layer: 'objective',
+          tick: event.startTick,
+          endTick: event.endTick > event.startTick ? event.endTick : undefined,
+          playerIds: [event.actorId],
+          label: `${event.actorName}: ${event.humanReason}`
+        });
+      }
+    }
+  }
+
+  return markers.sort((a, b) => a.tick - b.tick);
+}
+
+/**
+ * Nearest marker after (direction 1) or before (direction -1) the tick, null if there is none.
+ * Markers on the same tick as the current one are skipped so repeated jumps move on.
+ */
+export function findAdjacentMarker(markers: TimelineMarker[], tick: number, direction: 1 | -1, layers?: TimelineLayerId[]): TimelineMarker | null {
+  const candidates = layers ? markers.filter(marker => layers.includes(marker.layer)) : markers;
+  if (direction === 1) {
+    return candidates.find(marker => marker.tick > Math.floor(tick)) ?? null;
+  }
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    if (candidates[i].tick < Math.floor(tick)) return candidates[i];
+  }
+  return null;
+}
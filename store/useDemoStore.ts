@@ -1,19 +1,73 @@
 import { create } from 'zustand';
-import { DemoFile, PlayerState, Team } from '../types';
+import { DemoFile, MatchFrame, PlayerState, Team } from '../types';
 import { DemoParser } from '../services/demoParser';
+import { findFrameIndexAtTick } from '../services/frameStore';
+import type { AnalysisResults } from '../services/demoAnalyzer';
+import type { DetectorId, DetectorSettings } from '../services/detectorRegistry';
+import type { DetectorPreset } from '../services/detectorPresets';
+import type { MapConfig, MapLevel } from '../constants';
+
+const DETECTOR_SETTINGS_STORAGE_KEY = 'cs-demo-analyzer:detectors';
+const DETECTOR_PRESETS_STORAGE_KEY = 'cs-demo-analyzer:detector-presets';
+
+// Detector toggles survive reloads
+function loadDetectorSettings(): DetectorSettings {
+  try {
+    const stored = localStorage.getItem(DETECTOR_SETTINGS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveDetectorSettings(settings: DetectorSettings) {
+  try {
+    localStorage.setItem(DETECTOR_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Failed to save detector settings:', err);
+  }
+}
+
+// User presets (the built-in ones live in detectorPresets.ts)
+function loadDetectorPresets(): DetectorPreset[] {
+  try {
+    const stored = localStorage.getItem(DETECTOR_PRESETS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveDetectorPresets(presets: DetectorPreset[]) {
+  try {
+    localStorage.setItem(DETECTOR_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.warn('Failed to save detector presets:', err);
+  }
+}
 
 interface DemoStore {
   // Demo data
   demoFile: DemoFile | null;
   demoParser: DemoParser | null;
+  analysisResults: AnalysisResults | null;
+  analysisKey: string | null; // getDetectorSettingsKey() of the settings analysisResults were computed with
   
   // Playback state
   currentTick: number; // Frame index
   targetTick: number; // Actual game tick for interpolation
   isPlaying: boolean;
+  playbackSpeed: number; // Multiplier of real time (see PLAYBACK_SPEEDS), kept across demos
   
   // UI state
   selectedPlayerId: number | null;
+  highlightedPlayerIds: number[]; // Players involved in the incident being watched
+  cameraFocus: { id: number; tick: number; playerIds: number[] } | null; // Latest "fit to involved players" request for the map camera
+  fovMode: 'off' | 'involved' | 'all'; // Which players get a view cone on the map ('involved' = selected + highlighted)
+  fovPlayerIds: number[]; // Players whose view cone is always shown (toggled in the player list)
+  showAimRays: boolean; // Draw the attacker's aim direction on damage/kill events
+  customMapLevels: Record<string, MapLevel[]>; // User-defined levels per map name for this session (not cleared by reset)
+  importedMapConfigs: Record<string, MapConfig>; // Configs from imported radar overview files, by map name (see mapOverviews.ts)
   mutedPlayerIds: Set<number>;
   isParsing: boolean;
   parsingProgress: {
@@ -25,12 +79,23 @@ interface DemoStore {
   isParserLoaded: boolean;
   isVoiceExtractionModalOpen: boolean;
   
+  // Analysis settings (not cleared by reset)
+  detectorSettings: DetectorSettings;
+  detectorPresets: DetectorPreset[]; // Saved by the user
+  
   // Actions
   setDemoFile: (file: DemoFile | null) => void;
   setDemoParser: (parser: DemoParser | null) => void;
+  setAnalysisResults: (results: AnalysisResults | null, analysisKey?: string | null) => void;
   setCurrentTick: (tick: number | ((prev: number) => number)) => void;
   setTargetTick: (tick: number) => void;
   setIsPlaying: (playing: boolean) => void;
+  setPlaybackSpeed: (speed: number) => void;
+  setFovMode: (mode: 'off' | 'involved' | 'all') => void;
+  toggleFovPlayer: (playerId: number) => void;
+  setShowAimRays: (show: boolean) => void;
+  setCustomMapLevels: (mapName: string, levels: MapLevel[] | null) => void;
+  setImportedMapConfig: (mapName: string, config: MapConfig | null) => void;
   setSelectedPlayerId: (id: number | null) => void;
   setMutedPlayerIds: (ids: Set<number>) => void;
   setIsParsing: (parsing: boolean) => void;
@@ -38,11 +103,19 @@ interface DemoStore {
   setError: (error: string | null) => void;
   setIsParserLoaded: (loaded: boolean) => void;
   setIsVoiceExtractionModalOpen: (open: boolean) => void;
+  setDetectorEnabled: (id: DetectorId, enabled: boolean) => void;
+  setDetectorSettings: (settings: DetectorSettings) => void;
+  saveDetectorPreset: (name: string, settings: DetectorSettings) => void;
+  deleteDetectorPreset: (name: string) => void;
   
   // Helper actions
   toggleMute: (playerId: number) => void;
   toggleTeamMute: (team: Team) => void;
   seekToTick: (tick: number) => void;
+  seekToGameTick: (tick: number) => void;
+  stepFrame: (delta: number) => void;
+  watchIncident: (tick: number, playerIds: number[], secondsBefore?: number) => void;
+  focusCamera: (tick: number, playerIds: number[]) => void;
   reset: () => void;
   
   // Computed/derived state (getters)
@@ -50,24 +123,64 @@ interface DemoStore {
   getActivePlayers: () => PlayerState[];
 }
 
+/**
+ * Radar image URLs referenced by custom levels or imported map configs
+ */
+export function getMapImageUrlsInUse(state: Pick<DemoStore, 'customMapLevels' | 'importedMapConfigs'>): Set<string> {
+  const urls = new Set<string>();
+  for (const levels of Object.values(state.customMapLevels)) {
+    for (const level of levels) urls.add(level.imageUrl);
+  }
+  for (const config of Object.values(state.importedMapConfigs)) {
+    urls.add(config.imageUrl);
+    for (const level of config.levels || []) urls.add(level.imageUrl);
+  }
+  return urls;
+}
+
+/**
+ * Revoke the object URLs (uploaded radar images) that nothing references anymore
+ */
+export function revokeUnusedObjectUrls(urls: Iterable<string>, inUse: Set<string>) {
+  for (const url of urls) {
+    if (url.startsWith('blob:') && !inUse.has(url)) {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
 export const useDemoStore = create<DemoStore>((set, get) => ({
   // Initial state
   demoFile: null,
   demoParser: null,
+  analysisResults: null,
+  analysisKey: null,
   currentTick: 0,
   targetTick: 0,
   isPlaying: false,
+  playbackSpeed: 1,
   selectedPlayerId: null,
+  highlightedPlayerIds: [],
+  cameraFocus: null,
+  fovMode: 'off',
+  fovPlayerIds: [],
+  showAimRays: true,
+  customMapLevels: {},
+  importedMapConfigs: {},
   mutedPlayerIds: new Set(),
   isParsing: false,
   parsingProgress: null,
   error: null,
   isParserLoaded: false,
   isVoiceExtractionModalOpen: false,
+  detectorSettings: loadDetectorSettings(),
+  detectorPresets: loadDetectorPresets(),
   
   // Actions
-  setDemoFile: (file) => set({ demoFile: file }),
+  // A new demo starts its replay from the beginning
+  setDemoFile: (file) => set({ demoFile: file, currentTick: 0, targetTick: 0, isPlaying: false, highlightedPlayerIds: [], cameraFocus: null, fovPlayerIds: [] }),
   setDemoParser: (parser) => set({ demoParser: parser }),
+  setAnalysisResults: (results, analysisKey = null) => set({ analysisResults: results, analysisKey }),
   setCurrentTick: (tick) => {
     if (typeof tick === 'function') {
       set((state) => ({ currentTick: tick(state.currentTick) }));
@@ -77,6 +190,39 @@ export const useDemoStore = create<DemoStore>((set, get) => ({
   },
   setTargetTick: (tick) => set({ targetTick: tick }),
   setIsPlaying: (playing) => set({ isPlaying: playing }),
+  setPlaybackSpeed: (speed) => set({ playbackSpeed: speed }),
+  setFovMode: (mode) => set({ fovMode: mode }),
+  toggleFovPlayer: (playerId) => {
+    const { fovPlayerIds } = get();
+    set({
+      fovPlayerIds: fovPlayerIds.includes(playerId)
+        ? fovPlayerIds.filter(id => id !== playerId)
+        : [...fovPlayerIds, playerId]
+    });
+  },
+  setShowAimRays: (show) => set({ showAimRays: show }),
+  // null goes back to the levels from MapConfig
+  setCustomMapLevels: (mapName, levels) => {
+    const previous = get().customMapLevels[mapName] || [];
+    const customMapLevels = { ...get().customMapLevels };
+    if (levels) customMapLevels[mapName] = levels;
+    else delete customMapLevels[mapName];
+    set({ customMapLevels });
+    revokeUnusedObjectUrls(previous.map(level => level.imageUrl), getMapImageUrlsInUse(get()));
+  },
+  // null removes the imported config (the built-in or fallback one is used again)
+  setImportedMapConfig: (mapName, config) => {
+    const previous = get().importedMapConfigs[mapName];
+    const importedMapConfigs = { ...get().importedMapConfigs };
+    if (config) importedMapConfigs[mapName] = config;
+    else delete importedMapConfigs[mapName];
+    set({ importedMapConfigs });
+    // Release the replaced config's radar images (unless custom levels still show them)
+    if (previous) {
+      const previousUrls = [previous.imageUrl, ...(previous.levels || []).map(level => level.imageUrl)];
+      revokeUnusedObjectUrls(previousUrls, getMapImageUrlsInUse(get()));
+    }
+  },
   setSelectedPlayerId: (id) => set({ selectedPlayerId: id }),
   setMutedPlayerIds: (ids) => set({ mutedPlayerIds: ids }),
   setIsParsing: (parsing) => set({ isParsing: parsing }),
@@ -84,6 +230,28 @@ export const useDemoStore = create<DemoStore>((set, get) => ({
   setError: (error) => set({ error }),
   setIsParserLoaded: (loaded) => set({ isParserLoaded: loaded }),
   setIsVoiceExtractionModalOpen: (open) => set({ isVoiceExtractionModalOpen: open }),
+  setDetectorEnabled: (id, enabled) => {
+    const { detectorSettings } = get();
+    const next = { ...detectorSettings, [id]: { ...detectorSettings[id], enabled } };
+    saveDetectorSettings(next);
+    set({ detectorSettings: next });
+  },
+  setDetectorSettings: (settings) => {
+    saveDetectorSettings(settings);
+    set({ detectorSettings: settings });
+  },
+  saveDetectorPreset: (name, settings) => {
+    // Saving under an existing name overwrites that preset
+    const presets = get().detectorPresets.filter(preset => preset.name !== name);
+    const next = [...presets, { name, settings }];
+    saveDetectorPresets(next);
+    set({ detectorPresets: next });
+  },
+  deleteDetectorPreset: (name) => {
+    const next = get().detectorPresets.filter(preset => preset.name !== name);
+    saveDetectorPresets(next);
+    set({ detectorPresets: next });
+  },
   
   // Helper actions
   toggleMute: (playerId) => {
@@ -117,17 +285,69 @@ export const useDemoStore = create<DemoStore>((set, get) => ({
     const { demoFile } = get();
     if (demoFile) {
       const clampedTick = Math.max(0, Math.min(tick, demoFile.frames.length - 1));
-      set({ currentTick: clampedTick, isPlaying: false });
+      // Keep the interpolation tick in sync, otherwise the map keeps showing the old position
+      set({ currentTick: clampedTick, targetTick: demoFile.frames[clampedTick]?.tick ?? 0, isPlaying: false });
     }
   },
   
+  // Seek by game tick instead of frame index; keeps playing if it was
+  seekToGameTick: (tick) => {
+    const { demoFile } = get();
+    if (!demoFile || demoFile.frames.length === 0) return;
+    const frames = demoFile.frames;
+    const clampedTick = Math.max(frames[0].tick, Math.min(tick, frames[frames.length - 1].tick));
+    set({ currentTick: findFrameIndexAtTick(frames, clampedTick), targetTick: clampedTick });
+  },
+  
+  // Pause and move by whole frames (negative steps back)
+  stepFrame: (delta) => {
+    const { demoFile, currentTick, targetTick } = get();
+    if (!demoFile || demoFile.frames.length === 0 || delta === 0) return;
+    const frames = demoFile.frames;
+    let frameIndex = Math.max(0, Math.min(currentTick, frames.length - 1));
+    // Between two frames (paused mid-interpolation) the first step back lands on the frame we're past
+    if (delta < 0 && targetTick > frames[frameIndex].tick) {
+      delta++;
+    }
+    frameIndex = Math.max(0, Math.min(frameIndex + delta, frames.length - 1));
+    set({ currentTick: frameIndex, targetTick: frames[frameIndex].tick, isPlaying: false });
+  },
+  
+  // Jump to a few seconds before an incident, highlight the involved players and play
+  watchIncident: (tick, playerIds, secondsBefore = 5) => {
+    const { demoFile } = get();
+    if (!demoFile || demoFile.frames.length === 0) return;
+    const startTick = Math.max(demoFile.frames[0].tick, tick - Math.ceil(secondsBefore * demoFile.tickRate));
+    const frameIndex = findFrameIndexAtTick(demoFile.frames, startTick);
+    set({
+      currentTick: frameIndex,
+      targetTick: startTick,
+      selectedPlayerId: playerIds[0] ?? null,
+      highlightedPlayerIds: playerIds,
+      isPlaying: true
+    });
+    get().focusCamera(tick, playerIds);
+  },
+  
+  // MapVisualization zooms to the players' positions around the tick (ids make repeated requests distinct)
+  focusCamera: (tick, playerIds) => {
+    if (playerIds.length === 0) return;
+    const previousId = get().cameraFocus?.id ?? 0;
+    set({ cameraFocus: { id: previousId + 1, tick, playerIds } });
+  },
+  
   reset: () => set({
     demoFile: null,
     demoParser: null,
+    analysisResults: null,
+    analysisKey: null,
     currentTick: 0,
     targetTick: 0,
     isPlaying: false,
     selectedPlayerId: null,
+    highlightedPlayerIds: [],
+    cameraFocus: null,
+    fovPlayerIds: [],
     mutedPlayerIds: new Set(),
     isParsing: false,
     parsingProgress: null,
@@ -139,24 +359,9 @@ export const useDemoStore = create<DemoStore>((set, get) => ({
     const { demoFile, currentTick } = get();
     if (!demoFile || demoFile.frames.length === 0) return null;
     
-    // Since frames are sparse (only ticks with data), find the closest frame
-    // Binary search for the frame with tick <= currentTick
-    const frames = demoFile.frames;
-    let left = 0;
-    let right = frames.length - 1;
-    let closestFrame = frames[0];
-    
-    while (left <= right) {
-      const mid = Math.floor((left + right) / 2);
-      if (frames[mid].tick <= currentTick) {
-        closestFrame = frames[mid];
-        left = mid + 1;
-      } else {
-        right = mid - 1;
-      }
-    }
-    
-    return closestFrame;
+    // currentTick is a frame index (see seekToTick), not a game tick
+    const frameIndex = Math.max(0, Math.min(currentTick, demoFile.frames.length - 1));
+    return demoFile.frames[frameIndex];
   },
   
   getActivePlayers: () => {
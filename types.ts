@@ -11,13 +11,14 @@ export interface Vector2 {
 }
 
 export interface PlayerState {
-  id: number;
+  id: number; // Stable per SteamID (see PlayerIdentity)
+  steamId?: string; // SteamID64 as a string, survives renames and reconnects
   name: string;
   team: Team;
   hp: number;
   isAlive: boolean;
   position: Vector2;
-  viewAngle: number; // degrees
+  viewAngle: number; // Yaw in degrees, 0 = world +X, counter-clockwise
   hasBomb: boolean;
   isTalking: boolean; // Simulates voice activity
   flashDuration: number; // 0-1 range
@@ -46,16 +47,30 @@ export interface GameEvent {
   tick: number;
   description: string;
   playerName?: string;
+  playerId?: number; // Resolved PlayerIdentity id of playerName
   message?: string;
   weapon?: string;
   attackerName?: string;
+  attackerId?: number; // Resolved PlayerIdentity id of the attacker
   victimName?: string;
+  victimId?: number; // Resolved PlayerIdentity id of the victim
   attackerTeam?: Team;
   victimTeam?: Team;
   damage?: number;
   isHeadshot?: boolean;
 }
 
+// One real person in the demo. Names and userids can change during a match
+// (renames, reconnects), the SteamID does not, so everything keys on id/steamId.
+export interface PlayerIdentity {
+  id: number; // Stable numeric id used as PlayerState.id
+  steamId: string; // SteamID64, or "BOT <name>" for bots (they all share steamid 0)
+  name: string; // Most recently seen name
+  names: string[]; // Every name seen, in order of first appearance
+  userIds: number[]; // Every server userid seen (changes on reconnect)
+  isBot: boolean;
+}
+
 export interface Round {
   number: number;
   startTick: number;
@@ -64,6 +79,44 @@ export interface Round {
   winner?: Team;
 }
 
+export type BombEventType = 'pickup' | 'drop' | 'plant' | 'begin_defuse' | 'defuse' | 'explode';
+
+/**
+ * Bomb lifecycle event (see bomb.ts)
+ */
+export interface BombEvent {
+  type: BombEventType;
+  tick: number;
+  playerId?: number; // Resolved PlayerIdentity id (none for explode)
+  playerName?: string;
+  position?: Vector2; // Player position at the event (the bomb position for plant)
+  hasKit?: boolean; // begin_defuse only
+}
+
+export type GrenadeType = 'smoke' | 'flash' | 'he' | 'molotov' | 'decoy';
+
+export interface GrenadePathPoint {
+  tick: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * One thrown grenade, built from the per-tick projectile rows of parseGrenades (see grenades.ts)
+ */
+export interface Grenade {
+  id: number; // Index in DemoFile.grenades
+  type: GrenadeType;
+  throwerId?: number; // Resolved PlayerIdentity id
+  throwerName: string;
+  throwTick: number; // First tick the projectile exists
+  detonateTick: number;
+  position: GrenadePathPoint; // Where it detonated
+  effectEndTick: number; // Smoke/fire/decoy end, or end of the flash/HE burst
+  path: GrenadePathPoint[]; // In-flight positions, throwTick..detonateTick
+}
+
 export interface DemoFile {
   mapName: string;
   tickRate: number;
@@ -74,8 +127,20 @@ export interface DemoFile {
     ct: number;
     t: number;
   };
-  grenades?: any[]; // Grenade data from parseGrenades
+  players?: PlayerIdentity[]; // Identity model for everyone that appeared in the demo
+  grenades?: Grenade[]; // Thrown grenades (see grenades.ts)
+  bombEvents?: BombEvent[]; // Pickups, drops, plant, defuse and explosion in tick order
   playerBlindEvents?: any[]; // player_blind events
   disconnectEvents?: any[]; // player_disconnect events
   connectEvents?: any[]; // player_connect events
+  source?: DemoSource; // The uploaded file this demo came from
+}
+
+// Where a parsed demo came from (compressed uploads are decompressed in the worker)
+export interface DemoSource {
+  fileName: string; // Name of the uploaded file
+  fileSize: number; // Size of the uploaded file in bytes
+  compression: 'none' | 'gzip' | 'bzip2' | 'zstd' | 'zip';
+  entryName?: string; // Demo inside a zip
+  demoSize: number; // Size of the raw .dem in bytes
 }